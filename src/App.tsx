@@ -8,6 +8,7 @@ import FeedbackPage from './pages/FeedbackPage';
 import WelcomeCompletePage from './pages/WelcomeCompletePage';
 import HelpPrivacyPage from './pages/HelpPrivacyPage';
 import TeamsSupportPage from './pages/TeamsSupportPage';
+import SharedProgressReportPage from './pages/SharedProgressReportPage';
 import { ProtectedLayout } from './components/ProtectedLayout';
 import { PreviewBanner } from './components/PreviewBanner';
 import { Toaster } from 'sonner';
@@ -109,6 +110,7 @@ export default function App() {
         <Route path="/welcome-complete" element={<WelcomeCompletePage />} />
         <Route path="/help/privacy" element={<HelpPrivacyPage />} />
         <Route path="/teams-support" element={<TeamsSupportPage />} />
+        <Route path="/report/:token" element={<SharedProgressReportPage />} />
         <Route element={<ProtectedLayout />}>
           <Route index element={<LazyPage><HomePage /></LazyPage>} />
           <Route path="sessions" element={<LazyPage><SessionsPage /></LazyPage>} />
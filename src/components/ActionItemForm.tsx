@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { createActionItem } from '../lib/dataFetcher';
+import type { ActionItemRecurrence, Goal } from '../lib/types';
+
+export const RECURRENCE_LABELS: Record<ActionItemRecurrence, string> = {
+  daily: 'Repeats daily',
+  weekly: 'Repeats weekly',
+};
+
+interface ActionItemFormProps {
+  email: string;
+  // Active employee goals the item can be tied to
+  goals?: Goal[];
+  onCreated: () => void;
+}
+
+export function ActionItemForm({ email, goals = [], onCreated }: ActionItemFormProps) {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [recurrence, setRecurrence] = useState<ActionItemRecurrence | ''>('');
+  const [goalId, setGoalId] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  function reset() {
+    setText('');
+    setDueDate('');
+    setRecurrence('');
+    setGoalId('');
+    setOpen(false);
+  }
+
+  async function handleSubmit() {
+    if (!text.trim() || saving) return;
+    setSaving(true);
+    const item = await createActionItem({
+      email,
+      actionText: text.trim(),
+      dueDate: dueDate || undefined,
+      recurrence: recurrence || undefined,
+      goalId: goalId || undefined,
+    });
+    setSaving(false);
+
+    if (item) {
+      toast.success(recurrence ? 'Habit added' : 'Action item added');
+      reset();
+      onCreated();
+    } else {
+      toast.error('Could not add action item');
+    }
+  }
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="text-xs font-semibold text-boon-blue hover:text-boon-darkBlue transition-colors"
+      >
+        + Add your own
+      </button>
+    );
+  }
+
+  const fieldClass = 'px-3 py-2 rounded-btn border border-boon-charcoal/[0.08] bg-white text-sm text-boon-navy placeholder:text-boon-charcoal/40 focus:outline-none focus:ring-2 focus:ring-boon-blue/20 focus:border-boon-blue';
+
+  return (
+    <div className="p-4 bg-boon-offWhite rounded-btn border border-boon-charcoal/[0.08] space-y-3">
+      <input
+        type="text"
+        value={text}
+        onChange={e => setText(e.target.value)}
+        onKeyDown={e => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            handleSubmit();
+          }
+        }}
+        placeholder="e.g., Block 20 minutes to plan my week"
+        className={`${fieldClass} w-full`}
+        autoFocus
+      />
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="date"
+          value={dueDate}
+          onChange={e => setDueDate(e.target.value)}
+          className={fieldClass}
+          aria-label="Due date"
+        />
+        <select
+          value={recurrence}
+          onChange={e => setRecurrence(e.target.value as ActionItemRecurrence | '')}
+          className={fieldClass}
+          aria-label="Repeat"
+        >
+          <option value="">Doesn't repeat</option>
+          <option value="daily">Every day</option>
+          <option value="weekly">Every week</option>
+        </select>
+        {goals.length > 0 && (
+          <select
+            value={goalId}
+            onChange={e => setGoalId(e.target.value)}
+            className={`${fieldClass} flex-1 min-w-[10rem]`}
+            aria-label="Goal"
+          >
+            <option value="">No goal</option>
+            {goals.map(goal => (
+              <option key={goal.id} value={goal.id}>Toward: {goal.title}</option>
+            ))}
+          </select>
+        )}
+      </div>
+      <div className="flex justify-end gap-2">
+        <button onClick={reset} disabled={saving} className="px-4 py-2 text-xs font-bold text-boon-charcoal/55 hover:text-boon-navy">
+          Cancel
+        </button>
+        <button
+          onClick={handleSubmit}
+          disabled={saving || !text.trim()}
+          className="px-5 py-2 bg-boon-blue text-white rounded-btn font-bold text-xs hover:bg-boon-darkBlue transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Adding...' : 'Add'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -110,7 +110,9 @@ export default function ActionItems({ items, onUpdate }: ActionItemsProps) {
                   <div className="flex-1 min-w-0">
                     <p className="text-boon-navy font-medium leading-relaxed">{item.action_text}</p>
                     <div className="flex items-center gap-3 mt-2 flex-wrap">
-                      <span className="text-xs text-boon-charcoal/55">From {item.coach_name.split(' ')[0]}</span>
+                      {item.coach_name && (
+                        <span className="text-xs text-boon-charcoal/55">From {item.coach_name.split(' ')[0]}</span>
+                      )}
                       {due && (
                         <span className={`text-xs font-medium px-2 py-0.5 rounded-pill ${due.className}`}>
                           {due.text}
@@ -8,6 +8,7 @@ import { supabase } from '../lib/supabase';
 import { fetchCoachByName, updateActionItemStatus } from '../lib/dataFetcher';
 import { PracticePrompt } from './PracticePrompt';
 import { JournalPromptCard } from './journal/JournalPromptCard';
+import { StreakCard } from './StreakCard';
 import SessionPrep from './SessionPrep';
 
 type EyebrowColor = 'blue' | 'coral' | 'coral-light' | 'muted' | 'charcoal' | 'white';
@@ -364,6 +365,9 @@ export default function ActiveGrowHome({
         )}
       </div>
 
+      {/* ─────────────── Streaks (hidden until there is one) ─────────────── */}
+      <StreakCard className="mb-8" />
+
       {/* ─────────────── Row 2: Where we left off ─────────────── */}
       {(lastSession?.goals || pendingActions.length > 0 || recentlyCompletedActions.length > 0) && (
         <Card padding="lg" className="mb-8">
@@ -10,6 +10,7 @@ import { fetchCoachByName, fetchCoachById, fetchProgramInfo, fetchGrowFocusAreas
 import CompetencyProgressCard from './CompetencyProgressCard';
 import SessionPrep from './SessionPrep';
 import { JournalPromptCard } from './journal/JournalPromptCard';
+import { StreakCard } from './StreakCard';
 
 const devLog = (...args: unknown[]) => {
   if (import.meta.env.DEV) console.log(...args);
@@ -88,7 +89,7 @@ export default function GrowDashboard({
       devLog('[GrowDashboard] Loading data for:', { userEmail, coachName, coachId: profile?.coach_id, program: profile?.coaching_program });
 
       const [progInfo, areas] = await Promise.all([
-        profile?.coaching_program ? fetchProgramInfo(profile.coaching_program) : Promise.resolve(null),
+        profile?.coaching_program ? fetchProgramInfo(profile.coaching_program, profile.company_id) : Promise.resolve(null),
         fetchGrowFocusAreas(userEmail),
       ]);
 
@@ -342,6 +343,9 @@ export default function GrowDashboard({
         </Card>
       </div>
 
+      {/* ─────────────── Streaks (hidden until there is one) ─────────────── */}
+      <StreakCard className="mb-8" />
+
       {/* ─────────────── Row 2: Where we left off (full width) ─────────────── */}
       {completedSessions.length > 0 && (
         <Card padding="lg" className="mb-8">
@@ -1,7 +1,7 @@
 import { useState, useMemo, useEffect, useCallback } from 'react';
 import { toast } from 'sonner';
 import { Headline, Badge } from '../lib/design-system';
-import { SCENARIOS, CATEGORY_INFO, type PracticeScenario, type ScenarioCategory } from '../data/scenarios';
+import { SCENARIOS, CATEGORY_INFO, GENERAL_RUBRIC, type PracticeScenario, type ScenarioCategory } from '../data/scenarios';
 
 const CATEGORY_ACCENT: Record<ScenarioCategory, string> = {
   leadership: 'bg-boon-navy',
@@ -18,7 +18,16 @@ const DIFFICULTY_BADGE: Record<string, 'error' | 'warning' | 'success' | 'neutra
 import { isAlumniState } from '../lib/coachingState';
 import PracticeModal from './PracticeModal';
 import TeamManager from './TeamManager';
-import { getTeamMembers, getSavedPlans, deleteSavedPlan, type TeamMember, type SavedPlan } from '../lib/storageService';
+import { PracticeProgress } from './practice/PracticeProgress';
+import {
+  getTeamMembers,
+  getSavedPlans,
+  deleteSavedPlan,
+  getPracticeEvaluations,
+  type TeamMember,
+  type SavedPlan,
+  type PracticeEvaluation,
+} from '../lib/storageService';
 import { usePortalData } from './ProtectedLayout';
 
 export default function Practice() {
@@ -30,25 +39,29 @@ export default function Practice() {
   const coachName = sessions.length > 0 ? sessions[0].coach_name : 'Your Coach';
   const isCompleted = isAlumniState(coachingState.state);
   const [selectedCategory, setSelectedCategory] = useState<ScenarioCategory | 'all'>('all');
+  const [showProgress, setShowProgress] = useState(false);
   const [selectedScenario, setSelectedScenario] = useState<PracticeScenario | null>(null);
   const [customSituation, setCustomSituation] = useState('');
 
   // Team & Playbook state
   const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
   const [savedPlans, setSavedPlans] = useState<SavedPlan[]>([]);
+  const [evaluations, setEvaluations] = useState<PracticeEvaluation[]>([]);
   const [showTeamManager, setShowTeamManager] = useState(false);
   const [selectedTeamMember, setSelectedTeamMember] = useState<TeamMember | null>(null);
   const [_isLoading, setIsLoading] = useState(true);
 
-  // Load team members and saved plans
+  // Load team members, saved plans and practice history
   const refreshData = useCallback(async () => {
     if (!userEmail) return;
-    const [members, plans] = await Promise.all([
+    const [members, plans, history] = await Promise.all([
       getTeamMembers(userEmail),
-      getSavedPlans(userEmail)
+      getSavedPlans(userEmail),
+      getPracticeEvaluations(userEmail)
     ]);
     setTeamMembers(members);
     setSavedPlans(plans);
+    setEvaluations(history);
   }, [userEmail]);
 
   useEffect(() => {
@@ -78,6 +91,7 @@ export default function Practice() {
       difficulty: 'Medium',
       tags: ['custom'],
       explanation: 'Your specific situation requires a tailored approach.',
+      rubric: GENERAL_RUBRIC,
       basePrompt: `**STRATEGY GUIDE:** ${plan.scenario_title || 'Custom Situation'}\n\nBased on your specific situation, we'll help you:\n1. Understand what's really happening\n2. Identify the key stakeholders and dynamics\n3. Develop a clear action plan\n4. Practice the conversation`,
     };
     setSelectedScenario(scenarioToOpen);
@@ -183,6 +197,7 @@ export default function Practice() {
       difficulty: 'Medium',
       tags: ['custom'],
       explanation: 'Your specific situation requires a tailored approach.',
+      rubric: GENERAL_RUBRIC,
       basePrompt: `**STRATEGY GUIDE:** Custom Situation Analysis
 
 Based on your specific situation, we'll help you:
@@ -377,10 +392,13 @@ Describe your situation in detail so we can provide the most relevant guidance.`
       {/* Category Filter — underline tabs */}
       <div className="flex items-center gap-1 border-b border-boon-charcoal/10 -mb-px overflow-x-auto">
         {(() => {
-          const isActive = selectedCategory === 'all';
+          const isActive = !showProgress && selectedCategory === 'all';
           return (
             <button
-              onClick={() => setSelectedCategory('all')}
+              onClick={() => {
+                setSelectedCategory('all');
+                setShowProgress(false);
+              }}
               className={`relative px-4 py-2.5 text-sm font-semibold transition-colors whitespace-nowrap ${
                 isActive ? 'text-boon-navy' : 'text-boon-charcoal/55 hover:text-boon-navy'
               }`}
@@ -393,11 +411,14 @@ Describe your situation in detail so we can provide the most relevant guidance.`
           );
         })()}
         {(['leadership', 'communication', 'wellbeing'] as ScenarioCategory[]).map(cat => {
-          const isActive = selectedCategory === cat;
+          const isActive = !showProgress && selectedCategory === cat;
           return (
             <button
               key={cat}
-              onClick={() => setSelectedCategory(cat)}
+              onClick={() => {
+                setSelectedCategory(cat);
+                setShowProgress(false);
+              }}
               className={`relative px-4 py-2.5 text-sm font-semibold transition-colors whitespace-nowrap flex items-center gap-2 ${
                 isActive ? 'text-boon-navy' : 'text-boon-charcoal/55 hover:text-boon-navy'
               }`}
@@ -416,10 +437,28 @@ Describe your situation in detail so we can provide the most relevant guidance.`
             </button>
           );
         })}
+        <button
+          onClick={() => setShowProgress(true)}
+          className={`relative ml-auto px-4 py-2.5 text-sm font-semibold transition-colors whitespace-nowrap ${
+            showProgress ? 'text-boon-navy' : 'text-boon-charcoal/55 hover:text-boon-navy'
+          }`}
+        >
+          My progress
+          {evaluations.length > 0 && (
+            <span className="ml-1.5 text-xs text-boon-charcoal/55">{evaluations.length}</span>
+          )}
+          {showProgress && (
+            <span aria-hidden className="absolute left-3 right-3 -bottom-px h-[2px] bg-boon-blue rounded-pill" />
+          )}
+        </button>
       </div>
 
+      {showProgress && (
+        <PracticeProgress evaluations={evaluations} onPractice={setSelectedScenario} />
+      )}
+
       {/* Recommended for you badge */}
-      {hasAnyTheme && selectedCategory === 'all' && (
+      {!showProgress && hasAnyTheme && selectedCategory === 'all' && (
         <p className="text-center text-xs text-boon-charcoal/55 font-medium">
           <span className="inline-flex items-center gap-1.5">
             <span className="w-2 h-2 rounded-pill bg-boon-coral" />
@@ -429,52 +468,54 @@ Describe your situation in detail so we can provide the most relevant guidance.`
       )}
 
       {/* Scenario Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {filteredScenarios.map(scenario => {
-          const diffBadge = DIFFICULTY_BADGE[scenario.difficulty.toLowerCase()] || 'neutral';
-          return (
-            <button
-              key={scenario.id}
-              onClick={() => setSelectedScenario(scenario)}
-              className="group relative bg-white rounded-card border border-boon-charcoal/[0.08] hover:border-boon-blue/30 hover:shadow-sm transition-all text-left overflow-hidden"
-            >
-              <span
-                aria-hidden
-                className={`absolute left-0 top-0 bottom-0 w-[3px] ${CATEGORY_ACCENT[scenario.category]}`}
-              />
-              <div className="p-5 pl-6">
-                <div className="flex items-center justify-between gap-3 mb-3">
-                  <span className="text-[11px] font-extrabold uppercase tracking-[0.18em] text-boon-charcoal/55">
-                    {CATEGORY_INFO[scenario.category].label}
-                  </span>
-                  <Badge variant={diffBadge}>{scenario.difficulty}</Badge>
-                </div>
-
-                <h3 className="font-display font-bold text-boon-navy text-[17px] leading-tight tracking-[-0.015em] mb-2 group-hover:text-boon-blue transition-colors">
-                  {scenario.title}
-                </h3>
-
-                <p className="text-boon-charcoal/65 text-sm leading-relaxed line-clamp-2 mb-4">
-                  {scenario.description}
-                </p>
-
-                <div className="flex flex-wrap gap-1.5">
-                  {scenario.tags.slice(0, 3).map(tag => (
-                    <span
-                      key={tag}
-                      className="text-[11px] font-semibold text-boon-charcoal/65 bg-boon-offWhite px-2 py-0.5 rounded-pill"
-                    >
-                      {tag}
+      {!showProgress && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {filteredScenarios.map(scenario => {
+            const diffBadge = DIFFICULTY_BADGE[scenario.difficulty.toLowerCase()] || 'neutral';
+            return (
+              <button
+                key={scenario.id}
+                onClick={() => setSelectedScenario(scenario)}
+                className="group relative bg-white rounded-card border border-boon-charcoal/[0.08] hover:border-boon-blue/30 hover:shadow-sm transition-all text-left overflow-hidden"
+              >
+                <span
+                  aria-hidden
+                  className={`absolute left-0 top-0 bottom-0 w-[3px] ${CATEGORY_ACCENT[scenario.category]}`}
+                />
+                <div className="p-5 pl-6">
+                  <div className="flex items-center justify-between gap-3 mb-3">
+                    <span className="text-[11px] font-extrabold uppercase tracking-[0.18em] text-boon-charcoal/55">
+                      {CATEGORY_INFO[scenario.category].label}
                     </span>
-                  ))}
+                    <Badge variant={diffBadge}>{scenario.difficulty}</Badge>
+                  </div>
+
+                  <h3 className="font-display font-bold text-boon-navy text-[17px] leading-tight tracking-[-0.015em] mb-2 group-hover:text-boon-blue transition-colors">
+                    {scenario.title}
+                  </h3>
+
+                  <p className="text-boon-charcoal/65 text-sm leading-relaxed line-clamp-2 mb-4">
+                    {scenario.description}
+                  </p>
+
+                  <div className="flex flex-wrap gap-1.5">
+                    {scenario.tags.slice(0, 3).map(tag => (
+                      <span
+                        key={tag}
+                        className="text-[11px] font-semibold text-boon-charcoal/65 bg-boon-offWhite px-2 py-0.5 rounded-pill"
+                      >
+                        {tag}
+                      </span>
+                    ))}
+                  </div>
                 </div>
-              </div>
-            </button>
-          );
-        })}
-      </div>
+              </button>
+            );
+          })}
+        </div>
+      )}
 
-      {filteredScenarios.length === 0 && (
+      {!showProgress && filteredScenarios.length === 0 && (
         <div className="text-center py-16 bg-white rounded-card border border-boon-charcoal/[0.08]">
           <p className="font-display font-bold text-boon-navy text-xl mb-2 tracking-[-0.02em]">
             Nothing here <span className="font-serif italic font-normal">yet</span>.
@@ -497,6 +538,7 @@ Describe your situation in detail so we can provide the most relevant guidance.`
             setSelectedTeamMember(null);
           }}
           onPlanSaved={refreshData}
+          onEvaluationSaved={refreshData}
         />
       )}
 
@@ -1,8 +1,15 @@
 import { useState, useRef, useEffect } from 'react';
 import { toast } from 'sonner';
 import type { PracticeScenario } from '../data/scenarios';
-import { generatePlan, getRoleplayResponse, evaluateRoleplay, type ChatMessage } from '../lib/practiceService';
+import {
+  generatePlan,
+  getRoleplayResponse,
+  evaluateRoleplay,
+  type ChatMessage,
+  type RoleplayEvaluation,
+} from '../lib/practiceService';
 import { savePlan, saveEvaluation, type TeamMember } from '../lib/storageService';
+import { RubricEvaluation } from './practice/RubricEvaluation';
 
 interface PracticeModalProps {
   scenario: PracticeScenario;
@@ -12,32 +19,51 @@ interface PracticeModalProps {
   userEmail: string;
   onClose: () => void;
   onPlanSaved?: () => void;
+  onEvaluationSaved?: () => void;
 }
 
 type ViewMode = 'guide' | 'rapid' | 'full' | 'practice';
 
-export default function PracticeModal({ scenario, initialContext = '', coachName, teamMember, userEmail, onClose, onPlanSaved }: PracticeModalProps) {
+const OPENING_FALLBACK = "*Looks up from their work* Hey, you wanted to talk?";
+const REPLY_FALLBACK = "I hear what you're saying. Can you tell me more about that?";
+
+export default function PracticeModal({ scenario, initialContext = '', coachName, teamMember, userEmail, onClose, onPlanSaved, onEvaluationSaved }: PracticeModalProps) {
   const [viewMode, setViewMode] = useState<ViewMode>('guide');
   const [context, setContext] = useState(initialContext);
   const [isGenerating, setIsGenerating] = useState(false);
   const [generatedPlan, setGeneratedPlan] = useState<string | null>(null);
+  // Plan text as it streams in; null when not generating
+  const [streamingPlan, setStreamingPlan] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // Roleplay state
   const [roleplayMessages, setRoleplayMessages] = useState<ChatMessage[]>([]);
   const [roleplayInput, setRoleplayInput] = useState('');
-  const [isRoleplayLoading, setIsRoleplayLoading] = useState(false);
-  const [evaluation, setEvaluation] = useState<string | null>(null);
+  // The other person's reply as it streams in: '' while waiting for the
+  // first words, null when they aren't replying
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
+  // 'unavailable' when the evaluation request failed
+  const [evaluation, setEvaluation] = useState<RoleplayEvaluation | 'unavailable' | null>(null);
   const [isEvaluating, setIsEvaluating] = useState(false);
 
   const scrollRef = useRef<HTMLDivElement>(null);
+  const planAbortRef = useRef<AbortController | null>(null);
+  const replyStreamRef = useRef<{ controller: AbortController; text: string } | null>(null);
+
+  const isRoleplayLoading = streamingReply !== null;
 
   useEffect(() => {
-    if (roleplayMessages.length > 0) {
+    if (roleplayMessages.length > 0 || streamingReply) {
       scrollRef.current?.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [roleplayMessages]);
+  }, [roleplayMessages, streamingReply]);
+
+  // Stop any stream still running when the modal closes
+  useEffect(() => () => {
+    planAbortRef.current?.abort();
+    replyStreamRef.current?.controller.abort();
+  }, []);
 
   // Parse the generated plan into rapid/full sections
   const { rapidPlan, fullPlan } = (() => {
@@ -55,10 +81,15 @@ export default function PracticeModal({ scenario, initialContext = '', coachName
     return { rapidPlan: '', fullPlan: generatedPlan };
   })();
 
-  const currentContent = viewMode === 'guide' ? scenario.basePrompt : (viewMode === 'full' ? fullPlan : rapidPlan);
+  const currentContent = viewMode === 'guide'
+    ? scenario.basePrompt
+    : streamingPlan ?? (viewMode === 'full' ? fullPlan : rapidPlan);
 
   const handleGenerate = async () => {
-    if (!context.trim()) return;
+    if (!context.trim() || isGenerating) return;
+    const controller = new AbortController();
+    planAbortRef.current = controller;
+    abortReply();
     setIsGenerating(true);
     setError(null);
 
@@ -68,10 +99,23 @@ export default function PracticeModal({ scenario, initialContext = '', coachName
       fullContext = `About ${teamMember.name}${teamMember.role ? ` (${teamMember.role})` : ''}: ${teamMember.context || 'No additional context.'}\n\nSituation: ${context}`;
     }
 
-    const { plan, error: apiError } = await generatePlan(scenario, fullContext, userEmail);
-
-    if (apiError) {
-      setError(apiError);
+    // Show the plan as it's written; the rapid script only exists once it's done
+    let streamed = '';
+    const { plan, error: apiError, aborted } = await generatePlan(scenario, fullContext, userEmail, {
+      signal: controller.signal,
+      onToken: (token) => {
+        if (!streamed) setViewMode('full');
+        streamed += token;
+        setStreamingPlan(streamed);
+      },
+    });
+    if (planAbortRef.current === controller) planAbortRef.current = null;
+    setStreamingPlan(null);
+
+    if (aborted || apiError) {
+      // Fall back to the previous plan, if there was one
+      if (!generatedPlan) setViewMode('guide');
+      if (apiError) setError(apiError);
       setIsGenerating(false);
       return;
     }
@@ -97,57 +141,102 @@ export default function PracticeModal({ scenario, initialContext = '', coachName
     setIsGenerating(false);
   };
 
+  const cancelGenerate = () => {
+    planAbortRef.current?.abort();
+    planAbortRef.current = null;
+  };
+
   const handleCopy = () => {
     navigator.clipboard.writeText(currentContent);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
 
-  const startRoleplay = async () => {
-    setViewMode('practice');
-    if (roleplayMessages.length === 0) {
-      setIsRoleplayLoading(true);
-      // Get the AI's initial response to start the conversation
-      const { response, error: apiError } = await getRoleplayResponse(scenario, [], generatedPlan || undefined, userEmail);
-      setIsRoleplayLoading(false);
-
-      if (apiError || !response) {
-        setRoleplayMessages([{
-          role: 'model',
-          text: "*Looks up from their work* Hey, you wanted to talk?"
-        }]);
-      } else {
-        setRoleplayMessages([{ role: 'model', text: response }]);
-      }
-    }
-  };
-
-  const handleRoleplaySend = async () => {
-    if (!roleplayInput.trim() || isRoleplayLoading) return;
-
-    const userMessage = roleplayInput;
-    setRoleplayInput('');
-    const updatedMessages: ChatMessage[] = [...roleplayMessages, { role: 'user', text: userMessage }];
-    setRoleplayMessages(updatedMessages);
-    setIsRoleplayLoading(true);
+  // Stream the other person's next turn after `history`
+  const streamReply = async (history: ChatMessage[], fallback: string) => {
+    const stream = { controller: new AbortController(), text: '' };
+    replyStreamRef.current = stream;
+    setStreamingReply('');
 
     const { response, error: apiError } = await getRoleplayResponse(
       scenario,
-      updatedMessages,
+      history,
       generatedPlan || undefined,
-      userEmail
+      userEmail,
+      {
+        signal: stream.controller.signal,
+        onToken: (token) => {
+          stream.text += token;
+          setStreamingReply(stream.text);
+        },
+      }
     );
 
-    if (apiError || !response) {
-      // Fallback response if API fails
-      setRoleplayMessages(prev => [...prev, {
-        role: 'model',
-        text: "I hear what you're saying. Can you tell me more about that?"
-      }]);
+    // Interrupted or replaced: whoever stopped it has already settled the turn
+    if (replyStreamRef.current !== stream) return;
+    replyStreamRef.current = null;
+    setStreamingReply(null);
+
+    let reply: ChatMessage;
+    if (!apiError && response) {
+      reply = { role: 'model', text: response };
+    } else if (response) {
+      // Failed partway through: keep what they'd already said
+      reply = { role: 'model', text: response, interrupted: true };
     } else {
-      setRoleplayMessages(prev => [...prev, { role: 'model', text: response }]);
+      reply = { role: 'model', text: fallback };
     }
-    setIsRoleplayLoading(false);
+    setRoleplayMessages([...history, reply]);
+  };
+
+  // Drop a reply in progress without keeping any of it
+  const abortReply = () => {
+    replyStreamRef.current?.controller.abort();
+    replyStreamRef.current = null;
+    setStreamingReply(null);
+  };
+
+  /**
+   * Cut off the reply in progress. Whatever was already shown stays in the
+   * conversation as an interrupted turn; if nothing had arrived yet, the
+   * unanswered message goes back into the input. Returns the conversation.
+   */
+  const interruptReply = (): ChatMessage[] => {
+    const stream = replyStreamRef.current;
+    if (!stream) return roleplayMessages;
+    abortReply();
+
+    let next: ChatMessage[];
+    if (stream.text) {
+      next = [...roleplayMessages, { role: 'model', text: stream.text, interrupted: true }];
+    } else if (roleplayMessages.length === 0) {
+      next = [{ role: 'model', text: OPENING_FALLBACK }];
+    } else {
+      const unanswered = roleplayMessages[roleplayMessages.length - 1];
+      next = roleplayMessages.slice(0, -1);
+      setRoleplayInput(current => current || unanswered.text);
+    }
+    setRoleplayMessages(next);
+    return next;
+  };
+
+  const startRoleplay = () => {
+    setViewMode('practice');
+    if (roleplayMessages.length === 0 && !replyStreamRef.current) {
+      // Get the AI's initial response to start the conversation
+      streamReply([], OPENING_FALLBACK);
+    }
+  };
+
+  const handleRoleplaySend = () => {
+    // Once they've started talking, sending cuts them off
+    if (!roleplayInput.trim() || streamingReply === '') return;
+
+    const history = interruptReply();
+    const updatedMessages: ChatMessage[] = [...history, { role: 'user', text: roleplayInput }];
+    setRoleplayInput('');
+    setRoleplayMessages(updatedMessages);
+    streamReply(updatedMessages, REPLY_FALLBACK);
   };
 
   const handleEvaluate = async () => {
@@ -162,42 +251,27 @@ export default function PracticeModal({ scenario, initialContext = '', coachName
     );
 
     if (apiError || !evalResult) {
-      // Fallback evaluation if API fails
-      setEvaluation(`**Evaluation Unavailable**
-
-We couldn't generate an evaluation at this time. Please try again.
-
-**Next Step:** Discuss this scenario with ${coachName} in your next session to get personalized feedback.`);
+      setEvaluation('unavailable');
     } else {
-      // Append coach reference to evaluation
-      const fullEvaluation = `${evalResult}
-
-**Next Step:** Discuss this scenario with ${coachName} in your next session to get personalized feedback.`;
-      setEvaluation(fullEvaluation);
+      setEvaluation(evalResult);
 
       // Save evaluation to database for learning/memory
-      await saveEvaluation(userEmail, {
+      const saved = await saveEvaluation(userEmail, {
         scenario_id: scenario.id,
         scenario_title: scenario.title,
-        feedback: evalResult,
+        evaluation: evalResult,
         conversation: roleplayMessages,
       });
+      if (saved) onEvaluationSaved?.();
     }
     setIsEvaluating(false);
   };
 
-  const resetRoleplay = async () => {
+  const resetRoleplay = () => {
     setEvaluation(null);
-    setIsRoleplayLoading(true);
-
-    const { response, error: apiError } = await getRoleplayResponse(scenario, [], generatedPlan || undefined, userEmail);
-    setIsRoleplayLoading(false);
-
-    if (apiError || !response) {
-      setRoleplayMessages([{ role: 'model', text: "*Looks up from their work* Hey, you wanted to talk?" }]);
-    } else {
-      setRoleplayMessages([{ role: 'model', text: response }]);
-    }
+    abortReply();
+    setRoleplayMessages([]);
+    streamReply([], OPENING_FALLBACK);
   };
 
   // Format text with bold markers
@@ -308,6 +382,14 @@ We couldn't generate an evaluation at this time. Please try again.
                 </>
               )}
             </button>
+            {isGenerating && (
+              <button
+                onClick={cancelGenerate}
+                className="mt-2 text-sm font-bold text-boon-charcoal/55 hover:text-boon-error transition-colors"
+              >
+                Stop generating
+              </button>
+            )}
           </div>
         </div>
 
@@ -347,7 +429,7 @@ We couldn't generate an evaluation at this time. Please try again.
               </button>
               <button
                 onClick={startRoleplay}
-                disabled={!generatedPlan}
+                disabled={!generatedPlan || isGenerating}
                 className={`flex-1 md:flex-none px-3 py-2 text-xs font-bold rounded-btn transition-all whitespace-nowrap disabled:opacity-50 flex items-center justify-center gap-1 ${
                   viewMode === 'practice' ? 'bg-white text-boon-blue shadow-sm' : 'text-boon-charcoal/55 hover:text-boon-charcoal/75'
                 }`}
@@ -359,7 +441,7 @@ We couldn't generate an evaluation at this time. Please try again.
               </button>
             </div>
 
-            {generatedPlan && viewMode !== 'practice' && (
+            {generatedPlan && viewMode !== 'practice' && streamingPlan === null && (
               <button
                 onClick={handleCopy}
                 className="px-4 py-2 rounded-btn bg-boon-text text-white hover:bg-black font-bold text-xs flex items-center transition-all shadow-sm"
@@ -413,16 +495,37 @@ We couldn't generate an evaluation at this time. Please try again.
                           : 'bg-boon-offWhite text-boon-navy rounded-tl-none'
                       }`}>
                         {msg.text}
+                        {msg.interrupted && (
+                          <>
+                            —
+                            <span className="block mt-1 text-[10px] font-bold uppercase tracking-wide text-boon-charcoal/55">
+                              Interrupted
+                            </span>
+                          </>
+                        )}
                       </div>
                     </div>
                   ))}
-                  {isRoleplayLoading && (
-                    <div className="flex justify-start">
-                      <div className="bg-boon-offWhite p-4 rounded-card rounded-tl-none flex items-center gap-1">
-                        <div className="w-2 h-2 bg-boon-charcoal/55 rounded-pill animate-bounce" />
-                        <div className="w-2 h-2 bg-boon-charcoal/55 rounded-pill animate-bounce delay-75" />
-                        <div className="w-2 h-2 bg-boon-charcoal/55 rounded-pill animate-bounce delay-150" />
-                      </div>
+                  {streamingReply !== null && (
+                    <div className="flex flex-col items-start gap-1">
+                      {streamingReply ? (
+                        <div className="max-w-[85%] p-4 rounded-card rounded-tl-none text-sm leading-relaxed bg-boon-offWhite text-boon-navy">
+                          {streamingReply}
+                          <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-boon-charcoal/55 animate-pulse" />
+                        </div>
+                      ) : (
+                        <div className="bg-boon-offWhite p-4 rounded-card rounded-tl-none flex items-center gap-1">
+                          <div className="w-2 h-2 bg-boon-charcoal/55 rounded-pill animate-bounce" />
+                          <div className="w-2 h-2 bg-boon-charcoal/55 rounded-pill animate-bounce delay-75" />
+                          <div className="w-2 h-2 bg-boon-charcoal/55 rounded-pill animate-bounce delay-150" />
+                        </div>
+                      )}
+                      <button
+                        onClick={interruptReply}
+                        className="px-1 text-xs font-bold text-boon-charcoal/55 hover:text-boon-blue transition-colors"
+                      >
+                        Stop
+                      </button>
                     </div>
                   )}
                   <div ref={scrollRef} />
@@ -437,7 +540,17 @@ We couldn't generate an evaluation at this time. Please try again.
                       </svg>
                       Coach's Evaluation
                     </h3>
-                    <FormattedText text={evaluation} />
+                    {evaluation === 'unavailable' ? (
+                      <p className="text-sm text-boon-charcoal/75">
+                        We couldn&apos;t generate an evaluation at this time. Please try again.
+                      </p>
+                    ) : (
+                      <RubricEvaluation evaluation={evaluation} />
+                    )}
+                    <p className="mt-5 text-sm text-boon-charcoal/75">
+                      <strong className="font-extrabold text-boon-navy">Next Step:</strong> Discuss this scenario
+                      with {coachName} in your next session to get personalized feedback.
+                    </p>
                     <div className="flex gap-3 mt-6">
                       <button
                         onClick={() => setEvaluation(null)}
@@ -467,12 +580,12 @@ We couldn't generate an evaluation at this time. Please try again.
                         value={roleplayInput}
                         onChange={(e) => setRoleplayInput(e.target.value)}
                         onKeyDown={(e) => e.key === 'Enter' && handleRoleplaySend()}
-                        placeholder="Type your response..."
+                        placeholder={streamingReply ? 'Type to cut in...' : 'Type your response...'}
                         className="flex-1 p-4 bg-boon-offWhite rounded-btn text-sm focus:ring-2 focus:ring-boon-blue focus:outline-none transition-all"
                       />
                       <button
                         onClick={handleRoleplaySend}
-                        disabled={!roleplayInput.trim() || isRoleplayLoading}
+                        disabled={!roleplayInput.trim() || streamingReply === ''}
                         className="p-4 bg-boon-blue text-white rounded-btn hover:bg-boon-darkBlue disabled:opacity-50 transition-colors"
                       >
                         <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -488,7 +601,7 @@ We couldn't generate an evaluation at this time. Please try again.
                         </span>
                         <button
                           onClick={handleEvaluate}
-                          disabled={isEvaluating}
+                          disabled={isEvaluating || isRoleplayLoading}
                           className="py-2 px-4 rounded-btn border border-boon-charcoal/[0.08] bg-white text-boon-charcoal/55 font-bold text-xs hover:border-boon-blue hover:text-boon-blue hover:bg-boon-lightBlue/20 transition-all flex items-center gap-1.5 shadow-sm"
                         >
                           {isEvaluating ? 'Analyzing...' : 'End & Evaluate'}
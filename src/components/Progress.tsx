@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
 import { Card, Headline, Badge, Button } from '../lib/design-system';
@@ -9,6 +9,10 @@ const devLog = (...args: unknown[]) => {
 };
 import { isAlumniState, isPreFirstSession, isPendingReflectionState, isUpcomingSession } from '../lib/coachingState';
 import { usePortalData } from './ProtectedLayout';
+import ProgressReportBuilder from './ProgressReportBuilder';
+import { MoodEnergyTrend } from './journal/MoodEnergyTrend';
+import { fetchJournalMoodHistory } from '../lib/fetchers/journalFetcher';
+import type { MoodRating } from '../lib/journalMood';
 import {
   RadarChart,
   PolarGrid,
@@ -102,6 +106,24 @@ export default function ProgressPage() {
   const onUpdateWin = portalData.handleUpdateWin;
   const onNavigate = (view: string) => navigate(`/${view === 'dashboard' ? '' : view}`);
   const [activeTab, setActiveTab] = useState<'competencies' | 'wellbeing'>('competencies');
+  // Mood/energy ratings from the journal, charted on the wellbeing view
+  const [moodRatings, setMoodRatings] = useState<MoodRating[]>([]);
+  const employeeEmail = portalData.employee?.company_email;
+  useEffect(() => {
+    if (!employeeEmail) return;
+    let cancelled = false;
+    fetchJournalMoodHistory(employeeEmail).then((ratings) => {
+      if (!cancelled) setMoodRatings(ratings);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [employeeEmail]);
+  const sessionDates = useMemo(
+    () => sessions.filter(s => s.status === 'Completed').map(s => s.session_date),
+    [sessions]
+  );
+  const hasMoodData = moodRatings.length > 0;
   // Get latest checkpoint with wellbeing data (Session 6+)
   const latestWellbeingCheckpoint = _checkpoints
     .filter(cp => cp.wellbeing_satisfaction !== null || cp.wellbeing_productivity !== null || cp.wellbeing_balance !== null)
@@ -110,6 +132,7 @@ export default function ProgressPage() {
   const [newWinText, setNewWinText] = useState('');
   const [isSubmittingWin, setIsSubmittingWin] = useState(false);
   const [timelineExpanded, setTimelineExpanded] = useState(false);
+  const [showReportBuilder, setShowReportBuilder] = useState(false);
 
   // Edit/delete win state
   const [editingWinId, setEditingWinId] = useState<string | null>(null);
@@ -1045,6 +1068,8 @@ export default function ProgressPage() {
           </section>
         )}
 
+        <MoodEnergyTrend ratings={moodRatings} sessionDates={sessionDates} />
+
         {/* Your Journey - Timeline (collapsible) */}
         <section className="bg-white rounded-card p-8 border border-boon-charcoal/[0.08]">
           <h2 className="text-lg font-extrabold text-boon-navy mb-6">Your Journey</h2>
@@ -1501,6 +1526,7 @@ export default function ProgressPage() {
       shortLabel: comp.shortLabel,
       baseline: baselineValue ?? 0,
       current: currentScore?.score ?? baselineValue ?? 0,
+      latestScore: currentScore?.score ?? null,
       scoreLabel: currentScore?.score_label || null,
       improvement: baselineValue && currentScore?.score
         ? Math.round(((currentScore.score - baselineValue) / baselineValue) * 100)
@@ -1518,6 +1544,17 @@ export default function ProgressPage() {
   // If not, we should only show baseline data and not misleading "Current" scores
   const hasActualCurrentScores = competencyScores.length > 0;
 
+  // Rows for the shareable progress report — only real scores, no baseline
+  // stand-ins presented as "latest". Must match buildReportCompetencies in
+  // supabase/functions/_shared/report-competencies.ts, which rebuilds them
+  // for the shared copy.
+  const reportCompetencies = competencyData.map(comp => ({
+    key: comp.key,
+    label: comp.label,
+    baseline: comp.baseline > 0 ? comp.baseline : null,
+    latest: comp.latestScore !== null && comp.latestScore > 0 ? comp.latestScore : null,
+  }));
+
   // Wellbeing metrics (keys match actual baseline column names)
   const wellbeingMetrics = [
     { key: 'satisfaction', label: 'Work Satisfaction', color: '#466FF6' },
@@ -1597,8 +1634,26 @@ export default function ProgressPage() {
             {isCompleted ? 'Your leadership signal.' : 'Across 12 competencies.'}
           </Headline.Kicker>
         </Headline>
+        {isGrowOrExec && (
+          <div className="mt-5">
+            <Button variant="secondary" size="sm" onClick={() => setShowReportBuilder(true)}>
+              Share a progress report
+            </Button>
+          </div>
+        )}
       </header>
 
+      {showReportBuilder && (
+        <ProgressReportBuilder
+          userEmail={portalData.employee?.company_email || ''}
+          employeeName={[portalData.employee?.first_name, portalData.employee?.last_name].filter(Boolean).join(' ') || 'Employee'}
+          program={programType}
+          competencies={reportCompetencies}
+          wins={coachingWins}
+          onClose={() => setShowReportBuilder(false)}
+        />
+      )}
+
       {/* Tab navigation — minimal underline tabs */}
       <div className="flex items-center gap-1">
         {isGrowOrExec && (() => {
@@ -1617,7 +1672,7 @@ export default function ProgressPage() {
             </button>
           );
         })()}
-        {hasWellbeingData && (() => {
+        {(hasWellbeingData || hasMoodData) && (() => {
           const isActive = activeTab === 'wellbeing';
           return (
             <button
@@ -1907,45 +1962,49 @@ export default function ProgressPage() {
       )}
 
       {/* Wellbeing Tab */}
-      {activeTab === 'wellbeing' && hasWellbeingData && (
+      {activeTab === 'wellbeing' && (hasWellbeingData || hasMoodData) && (
         <div className="space-y-8">
-          <section>
-            <h2 className="text-lg font-extrabold text-boon-navy mb-4">Wellbeing Metrics</h2>
-            <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
-              {wellbeingData.map(metric => (
-                <div
-                  key={metric.key}
-                  className="bg-white p-6 rounded-card border border-boon-charcoal/[0.08] hover:shadow-md hover:border-boon-blue/20 transition-all"
-                >
-                  <span
-                    aria-hidden
-                    className="block w-6 h-px mb-4"
-                    style={{ backgroundColor: metric.color }}
-                  />
-                  <h3 className="font-bold text-boon-navy text-sm mb-3">{metric.label}</h3>
-                  <div className="space-y-2">
-                    <div>
-                      <div className="flex justify-between text-xs mb-1">
-                        <span className="text-boon-charcoal/55 uppercase tracking-wide">Score</span>
-                        <span className="font-bold" style={{ color: metric.color }}>
-                          {metric.current ?? 'Not yet'}/{metric.maxScore}
-                        </span>
-                      </div>
-                      <div className="h-2 bg-boon-offWhite rounded-pill overflow-hidden">
-                        <div
-                          className="h-full rounded-pill transition-all duration-500"
-                          style={{
-                            width: `${((metric.current || 0) / metric.maxScore) * 100}%`,
-                            backgroundColor: metric.color
-                          }}
-                        />
+          {hasWellbeingData && (
+            <section>
+              <h2 className="text-lg font-extrabold text-boon-navy mb-4">Wellbeing Metrics</h2>
+              <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                {wellbeingData.map(metric => (
+                  <div
+                    key={metric.key}
+                    className="bg-white p-6 rounded-card border border-boon-charcoal/[0.08] hover:shadow-md hover:border-boon-blue/20 transition-all"
+                  >
+                    <span
+                      aria-hidden
+                      className="block w-6 h-px mb-4"
+                      style={{ backgroundColor: metric.color }}
+                    />
+                    <h3 className="font-bold text-boon-navy text-sm mb-3">{metric.label}</h3>
+                    <div className="space-y-2">
+                      <div>
+                        <div className="flex justify-between text-xs mb-1">
+                          <span className="text-boon-charcoal/55 uppercase tracking-wide">Score</span>
+                          <span className="font-bold" style={{ color: metric.color }}>
+                            {metric.current ?? 'Not yet'}/{metric.maxScore}
+                          </span>
+                        </div>
+                        <div className="h-2 bg-boon-offWhite rounded-pill overflow-hidden">
+                          <div
+                            className="h-full rounded-pill transition-all duration-500"
+                            style={{
+                              width: `${((metric.current || 0) / metric.maxScore) * 100}%`,
+                              backgroundColor: metric.color
+                            }}
+                          />
+                        </div>
                       </div>
                     </div>
                   </div>
-                </div>
-              ))}
-            </div>
-          </section>
+                ))}
+              </div>
+            </section>
+          )}
+
+          <MoodEnergyTrend ratings={moodRatings} sessionDates={sessionDates} />
 
           {/* No Baseline State */}
           {!baseline && (
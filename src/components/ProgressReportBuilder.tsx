@@ -0,0 +1,330 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '../lib/design-system';
+import type { CoachingWin, ProgressReportShare } from '../lib/types';
+import {
+  fetchGrowFocusAreas,
+  createProgressReportShare,
+  fetchProgressReportShares,
+  revokeProgressReportShare,
+} from '../lib/dataFetcher';
+import {
+  buildProgressReport,
+  getShareableWins,
+  isProgressReportEmpty,
+  type ReportCompetencyRow,
+} from '../lib/progressReport';
+import ProgressReportDocument, { printProgressReport } from './ProgressReportDocument';
+
+interface ProgressReportBuilderProps {
+  userEmail: string;
+  employeeName: string;
+  program: string | null;
+  competencies: ReportCompetencyRow[];
+  wins: CoachingWin[];
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS = [
+  { days: 1, label: '24 hours' },
+  { days: 7, label: '7 days' },
+  { days: 14, label: '14 days' },
+  { days: 30, label: '30 days' },
+];
+
+function formatShareStatus(share: ProgressReportShare): string {
+  if (share.revoked_at) return 'Revoked';
+  if (new Date(share.expires_at).getTime() <= Date.now()) return 'Expired';
+  const expires = new Date(share.expires_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  const views = share.view_count === 1 ? '1 view' : `${share.view_count} views`;
+  return `Expires ${expires} · ${views}`;
+}
+
+function isShareActive(share: ProgressReportShare): boolean {
+  return !share.revoked_at && new Date(share.expires_at).getTime() > Date.now();
+}
+
+export default function ProgressReportBuilder({
+  userEmail,
+  employeeName,
+  program,
+  competencies,
+  wins,
+  onClose,
+}: ProgressReportBuilderProps) {
+  const shareableWins = useMemo(() => getShareableWins(wins), [wins]);
+  const scoredCompetencies = useMemo(
+    () => competencies.filter(c => c.baseline !== null || c.latest !== null),
+    [competencies]
+  );
+
+  // Nothing is pre-selected — the employee opts in to every item
+  const [competencyKeys, setCompetencyKeys] = useState<string[]>([]);
+  const [focusAreaOptions, setFocusAreaOptions] = useState<string[]>([]);
+  const [focusAreas, setFocusAreas] = useState<string[]>([]);
+  const [winIds, setWinIds] = useState<string[]>([]);
+  const [note, setNote] = useState('');
+  const [recipientLabel, setRecipientLabel] = useState('');
+  const [expiresInDays, setExpiresInDays] = useState(14);
+  const [isCreating, setIsCreating] = useState(false);
+  const [createdShare, setCreatedShare] = useState<ProgressReportShare | null>(null);
+  const [shares, setShares] = useState<ProgressReportShare[]>([]);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const previewRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    fetchGrowFocusAreas(userEmail).then(areas => {
+      setFocusAreaOptions(areas.map(a => a.competency_name));
+    });
+    fetchProgressReportShares().then(setShares);
+  }, [userEmail]);
+
+  const report = buildProgressReport(
+    { employeeName, program, competencies: scoredCompetencies, focusAreas: focusAreaOptions, wins },
+    { competencyKeys, focusAreas, winIds, note }
+  );
+  const isEmpty = isProgressReportEmpty(report);
+
+  const toggle = (list: string[], setList: (next: string[]) => void, value: string) => {
+    setList(list.includes(value) ? list.filter(v => v !== value) : [...list, value]);
+    setCreatedShare(null);
+  };
+
+  const handlePrint = () => {
+    if (!previewRef.current) return;
+    if (!printProgressReport(previewRef.current, `${employeeName} — progress report`)) {
+      toast.error('Allow pop-ups to print or save as PDF');
+    }
+  };
+
+  const handleCreateLink = async () => {
+    setIsCreating(true);
+    const share = await createProgressReportShare(report, expiresInDays, recipientLabel.trim() || undefined);
+    setIsCreating(false);
+
+    if (!share) {
+      toast.error('Could not create a link. Please try again.');
+      return;
+    }
+
+    setCreatedShare(share);
+    setShares(prev => [share, ...prev]);
+    try {
+      await navigator.clipboard.writeText(share.url);
+      toast.success('Link copied — send it to your manager');
+    } catch {
+      toast.success('Link created');
+    }
+  };
+
+  const handleCopy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success('Link copied');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const handleRevoke = async (shareId: string) => {
+    setRevokingId(shareId);
+    const success = await revokeProgressReportShare(shareId);
+    setRevokingId(null);
+
+    if (!success) {
+      toast.error('Could not revoke the link');
+      return;
+    }
+
+    const revokedAt = new Date().toISOString();
+    setShares(prev => prev.map(s => (s.id === shareId ? { ...s, revoked_at: revokedAt } : s)));
+    if (createdShare?.id === shareId) setCreatedShare(null);
+    toast('Link revoked');
+  };
+
+  const checkboxRow = (checked: boolean, onChange: () => void, label: string, detail?: string) => (
+    <label className="flex items-start gap-3 py-1.5 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={onChange}
+        className="mt-0.5 w-4 h-4 rounded border-boon-charcoal/30 text-boon-blue focus:ring-boon-blue"
+      />
+      <span className="text-sm text-boon-navy">
+        {label}
+        {detail && <span className="block text-xs text-boon-charcoal/55">{detail}</span>}
+      </span>
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-boon-text/50 backdrop-blur-md z-50 animate-fade-in overflow-y-auto md:overflow-hidden md:flex md:items-center md:justify-center p-4 md:p-0">
+      <div className="bg-white w-full md:w-[95%] md:max-w-5xl md:h-[90vh] rounded-card shadow-2xl flex flex-col md:flex-row relative overflow-hidden">
+
+        {/* Close Button */}
+        <button
+          onClick={onClose}
+          aria-label="Close"
+          className="absolute top-4 right-4 z-50 p-2 bg-white/80 hover:bg-boon-offWhite text-boon-charcoal/55 hover:text-boon-navy rounded-pill backdrop-blur-sm transition-all"
+        >
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+
+        {/* Selection */}
+        <div className="md:w-[380px] md:flex-shrink-0 border-b md:border-b-0 md:border-r border-boon-charcoal/[0.08] p-6 md:overflow-y-auto space-y-6">
+          <div>
+            <h2 className="text-xl font-bold text-boon-navy">Share your progress</h2>
+            <p className="text-sm text-boon-charcoal/55 mt-1">
+              Pick what goes in. Nothing is included unless you tick it, and private wins are never shared.
+            </p>
+          </div>
+
+          {scoredCompetencies.length > 0 && (
+            <section>
+              <h3 className="text-[11px] font-extrabold uppercase tracking-[0.18em] text-boon-charcoal/55 mb-2">Competencies</h3>
+              {scoredCompetencies.map(c => (
+                <div key={c.key}>
+                  {checkboxRow(
+                    competencyKeys.includes(c.key),
+                    () => toggle(competencyKeys, setCompetencyKeys, c.key),
+                    c.label,
+                    c.latest !== null ? `${c.baseline ?? '—'} → ${c.latest}` : `Baseline ${c.baseline}`
+                  )}
+                </div>
+              ))}
+            </section>
+          )}
+
+          {focusAreaOptions.length > 0 && (
+            <section>
+              <h3 className="text-[11px] font-extrabold uppercase tracking-[0.18em] text-boon-charcoal/55 mb-2">Focus areas</h3>
+              {focusAreaOptions.map(area => (
+                <div key={area}>
+                  {checkboxRow(focusAreas.includes(area), () => toggle(focusAreas, setFocusAreas, area), area)}
+                </div>
+              ))}
+            </section>
+          )}
+
+          <section>
+            <h3 className="text-[11px] font-extrabold uppercase tracking-[0.18em] text-boon-charcoal/55 mb-2">Wins</h3>
+            {shareableWins.length > 0 ? (
+              shareableWins.map(win => (
+                <div key={win.id}>
+                  {checkboxRow(winIds.includes(win.id), () => toggle(winIds, setWinIds, win.id), win.win_text)}
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-boon-charcoal/55">No shareable wins yet.</p>
+            )}
+            {shareableWins.length < wins.length && (
+              <p className="text-xs text-boon-charcoal/55 mt-2">
+                {wins.length - shareableWins.length} private win{wins.length - shareableWins.length !== 1 ? 's are' : ' is'} hidden.
+              </p>
+            )}
+          </section>
+
+          <section>
+            <h3 className="text-[11px] font-extrabold uppercase tracking-[0.18em] text-boon-charcoal/55 mb-2">Add a note</h3>
+            <textarea
+              value={note}
+              onChange={(e) => { setNote(e.target.value); setCreatedShare(null); }}
+              rows={3}
+              maxLength={2000}
+              placeholder="What you'd like your manager to take away"
+              className="w-full px-3.5 py-2.5 border border-boon-charcoal/[0.12] rounded-btn focus:outline-none focus:border-boon-blue text-sm resize-none"
+            />
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="text-[11px] font-extrabold uppercase tracking-[0.18em] text-boon-charcoal/55">Share</h3>
+            <input
+              type="text"
+              value={recipientLabel}
+              onChange={(e) => setRecipientLabel(e.target.value)}
+              maxLength={120}
+              placeholder="Who it's for (optional, only you see this)"
+              className="w-full px-3.5 py-2.5 border border-boon-charcoal/[0.12] rounded-btn focus:outline-none focus:border-boon-blue text-sm"
+            />
+            <label className="flex items-center justify-between gap-3 text-sm text-boon-navy">
+              Link expires after
+              <select
+                value={expiresInDays}
+                onChange={(e) => setExpiresInDays(Number(e.target.value))}
+                className="px-3 py-2 border border-boon-charcoal/[0.12] rounded-btn focus:outline-none focus:border-boon-blue text-sm"
+              >
+                {EXPIRY_OPTIONS.map(option => (
+                  <option key={option.days} value={option.days}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="primary" size="sm" onClick={handleCreateLink} disabled={isEmpty || isCreating}>
+                {isCreating ? 'Creating…' : 'Create link'}
+              </Button>
+              <Button variant="secondary" size="sm" onClick={handlePrint} disabled={isEmpty}>
+                Print / Save as PDF
+              </Button>
+            </div>
+            {createdShare && (
+              <div className="flex items-center gap-2 p-3 bg-boon-offWhite rounded-btn">
+                <span className="text-xs text-boon-navy truncate flex-1">{createdShare.url}</span>
+                <button onClick={() => handleCopy(createdShare.url)} className="text-xs font-semibold text-boon-blue hover:underline">
+                  Copy
+                </button>
+              </div>
+            )}
+          </section>
+
+          {shares.length > 0 && (
+            <section>
+              <h3 className="text-[11px] font-extrabold uppercase tracking-[0.18em] text-boon-charcoal/55 mb-2">Your links</h3>
+              <ul className="divide-y divide-boon-charcoal/[0.08]">
+                {shares.map(share => (
+                  <li key={share.id} className="py-2.5 flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="text-sm text-boon-navy truncate">
+                        {share.recipient_label || `Shared ${new Date(share.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`}
+                      </p>
+                      <p className="text-xs text-boon-charcoal/55">{formatShareStatus(share)}</p>
+                    </div>
+                    {isShareActive(share) && (
+                      <div className="flex items-center gap-3 flex-shrink-0">
+                        <button onClick={() => handleCopy(share.url)} className="text-xs font-semibold text-boon-blue hover:underline">
+                          Copy
+                        </button>
+                        <button
+                          onClick={() => handleRevoke(share.id)}
+                          disabled={revokingId === share.id}
+                          className="text-xs font-semibold text-boon-coral hover:underline disabled:opacity-50"
+                        >
+                          {revokingId === share.id ? 'Revoking…' : 'Revoke'}
+                        </button>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+        </div>
+
+        {/* Preview */}
+        <div className="flex-1 bg-boon-offWhite p-6 md:p-10 md:overflow-y-auto">
+          <p className="text-[11px] font-extrabold uppercase tracking-[0.18em] text-boon-charcoal/55 mb-4">Preview</p>
+          {isEmpty ? (
+            <div className="bg-white rounded-card p-10 text-center text-sm text-boon-charcoal/55">
+              Tick something on the left to start your report.
+            </div>
+          ) : (
+            <div className="bg-white rounded-card p-8 shadow-sm">
+              <ProgressReportDocument ref={previewRef} report={report} />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
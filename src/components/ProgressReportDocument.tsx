@@ -0,0 +1,133 @@
+import { forwardRef } from 'react';
+import type { ProgressReport } from '../lib/progressReport';
+
+interface ProgressReportDocumentProps {
+  report: ProgressReport;
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+}
+
+function formatScore(score: number | null): string {
+  return score === null ? '—' : `${score} / 5`;
+}
+
+/**
+ * Print-friendly view of a progress report. Used in the builder preview and
+ * on the shared link page; kept to plain markup so it prints cleanly.
+ */
+const ProgressReportDocument = forwardRef<HTMLDivElement, ProgressReportDocumentProps>(
+  function ProgressReportDocument({ report }, ref) {
+    const showLatest = report.competencies.some(c => c.latest !== null);
+
+    return (
+      <div ref={ref} className="bg-white text-boon-text space-y-8">
+        <header className="pb-5 border-b border-boon-charcoal/10">
+          <p className="text-[11px] font-extrabold uppercase tracking-[0.18em] text-boon-blue mb-2">
+            Coaching progress report
+          </p>
+          <h1 className="text-2xl font-bold text-boon-navy">{report.employee_name}</h1>
+          <p className="text-sm text-boon-charcoal/55 mt-1">
+            {report.program ? `${report.program} · ` : ''}Prepared {formatDate(report.generated_at)}
+          </p>
+        </header>
+
+        {report.note && (
+          <section>
+            <h2 className="text-sm font-bold text-boon-navy mb-2">A note from {report.employee_name.split(' ')[0]}</h2>
+            <p className="text-sm text-boon-charcoal/75 leading-relaxed whitespace-pre-line">{report.note}</p>
+          </section>
+        )}
+
+        {report.focus_areas.length > 0 && (
+          <section>
+            <h2 className="text-sm font-bold text-boon-navy mb-3">Focus areas</h2>
+            <ul className="flex flex-wrap gap-2">
+              {report.focus_areas.map(area => (
+                <li key={area} className="px-3 py-1 rounded-pill bg-boon-lightBlue/40 text-boon-navy text-xs font-semibold">
+                  {area}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {report.competencies.length > 0 && (
+          <section>
+            <h2 className="text-sm font-bold text-boon-navy mb-3">Competencies</h2>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-[11px] uppercase tracking-[0.12em] text-boon-charcoal/55">
+                  <th className="py-2 font-bold">Competency</th>
+                  <th className="py-2 font-bold text-right">Baseline</th>
+                  {showLatest && <th className="py-2 font-bold text-right">Latest</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {report.competencies.map(c => (
+                  <tr key={c.key} className="border-t border-boon-charcoal/[0.08]">
+                    <td className="py-2.5 text-boon-navy">{c.label}</td>
+                    <td className="py-2.5 text-right text-boon-charcoal/75">{formatScore(c.baseline)}</td>
+                    {showLatest && (
+                      <td className="py-2.5 text-right font-semibold text-boon-navy">{formatScore(c.latest)}</td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-boon-charcoal/55 mt-2">
+              Self-assessed on a 1–5 scale{showLatest ? ' at the start of coaching and at the latest check-in' : ' at the start of coaching'}.
+            </p>
+          </section>
+        )}
+
+        {report.wins.length > 0 && (
+          <section>
+            <h2 className="text-sm font-bold text-boon-navy mb-3">Wins</h2>
+            <ul className="space-y-3">
+              {report.wins.map(win => (
+                <li key={win.id} className="text-sm">
+                  <p className="text-boon-charcoal/85 leading-relaxed">{win.text}</p>
+                  <p className="text-xs text-boon-charcoal/55 mt-0.5">{formatDate(win.created_at)}</p>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <footer className="pt-5 border-t border-boon-charcoal/10 text-xs text-boon-charcoal/55">
+          Shared by {report.employee_name} from the Boon portal. Coaching conversations stay confidential;
+          this report only contains what they chose to include.
+        </footer>
+      </div>
+    );
+  }
+);
+
+export default ProgressReportDocument;
+
+/**
+ * Print a rendered report on its own, without the surrounding app chrome.
+ * Copies the page's stylesheets into a new window so Tailwind classes apply,
+ * then opens the browser print dialog (which also offers Save as PDF).
+ */
+export function printProgressReport(element: HTMLElement, title: string): boolean {
+  const printWindow = window.open('', '_blank', 'width=800,height=1000');
+  if (!printWindow) return false;
+
+  const styles = Array.from(document.querySelectorAll('link[rel="stylesheet"], style'))
+    .map(node => node.outerHTML)
+    .join('\n');
+
+  printWindow.document.write(
+    `<!doctype html><html><head><meta charset="utf-8"><title>${title.replace(/</g, '&lt;')}</title>${styles}</head>` +
+    `<body class="bg-white"><main style="max-width:720px;margin:40px auto;padding:0 24px">${element.outerHTML}</main></body></html>`
+  );
+  printWindow.document.close();
+  printWindow.addEventListener('load', () => {
+    printWindow.focus();
+    printWindow.print();
+  });
+  return true;
+}
@@ -3,6 +3,7 @@ import { Navigate, Outlet, useNavigate, useOutletContext } from 'react-router-do
 import { useAuth } from '../lib/AuthContext';
 import { useEmployeeData, type EmployeeData } from '../hooks/useEmployeeData';
 import { GoalProvider } from '../hooks/useGoalData';
+import { JournalVaultProvider } from '../hooks/useJournalVault';
 import NoEmployeeFound from '../pages/NoEmployeeFound';
 import WelcomePage from '../pages/WelcomePage';
 import Layout from './Layout';
@@ -156,6 +157,7 @@ export function ProtectedLayout() {
 
   return (
     <GoalProvider sessions={data.sessions} actionItems={data.actionItems}>
+    <JournalVaultProvider>
     <Layout coachingState={data.coachingState}>
       <Outlet context={data} />
 
@@ -206,6 +208,7 @@ export function ProtectedLayout() {
         onProgramTypeOverride={data.setProgramTypeOverride}
       />
     </Layout>
+    </JournalVaultProvider>
     </GoalProvider>
   );
 }
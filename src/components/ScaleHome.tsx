@@ -8,6 +8,7 @@ import { isUpcomingSession } from '../lib/coachingState';
 import SessionPrep from './SessionPrep';
 import { PracticePrompt } from './PracticePrompt';
 import { JournalPromptCard } from './journal/JournalPromptCard';
+import { StreakCard } from './StreakCard';
 
 type EyebrowColor = 'blue' | 'coral' | 'coral-light' | 'muted' | 'charcoal' | 'white';
 const EYEBROW_COLORS: Record<EyebrowColor, string> = {
@@ -317,6 +318,9 @@ export default function ScaleHome({
         </Card>
       </div>
 
+      {/* ─────────────── Streaks (hidden until there is one) ─────────────── */}
+      <StreakCard className="mb-8" />
+
       {/* ─────────────── Checkpoint prompt (coral-outlined) ─────────────── */}
       {checkpointStatus.isCheckpointDue && onStartCheckpoint && (
         <Card variant="coral-outlined" padding="lg" accent className="mb-8">
@@ -3,6 +3,8 @@ import type { Session, ActionItem } from '../lib/types';
 import { isUpcomingSession } from '../lib/coachingState';
 import { supabase } from '../lib/supabase';
 import { updateActionItemStatus } from '../lib/dataFetcher';
+import { getActionItemDue, localDateString } from '../lib/actionItemDue';
+import { RECURRENCE_LABELS } from './ActionItemForm';
 import { useGoalData } from '../hooks/useGoalData';
 import { useJournalData } from '../hooks/useJournalData';
 import { ResourceSuggestion } from './ResourceSuggestion';
@@ -23,19 +25,26 @@ export default function SessionPrep({ sessions, actionItems, coachName, userEmai
     .filter(s => s.status === 'Completed')
     .sort((a, b) => new Date(b.session_date).getTime() - new Date(a.session_date).getTime());
 
-  // Filter action items to pending items from the last 3 completed sessions
+  // Filter action items to pending items from the last 3 completed sessions,
+  // plus everything the employee added themselves
   const recentSessionIds = completedSessions.slice(0, 3).map(s => s.id);
   const oldestRecentSession = completedSessions[2] || completedSessions[completedSessions.length - 1];
   const oldestRecentDate = oldestRecentSession ? new Date(oldestRecentSession.session_date).getTime() : 0;
   const recentPendingItems = actionItems.filter(a => {
-    if (a.status === 'completed') return false;
+    if (a.status !== 'pending') return false;
+    if (a.source === 'employee') return true;
     // Include if session_id matches one of the recent sessions
     if (a.session_id !== null && recentSessionIds.includes(String(a.session_id))) return true;
     // Include items with no session_id that were created after the oldest recent session
     if (a.session_id === null && new Date(a.created_at).getTime() >= oldestRecentDate) return true;
     return false;
   });
+  // Overdue items first, so they're worth raising in the session
+  const today = localDateString(new Date());
+  const isOverdue = (item: ActionItem) => getActionItemDue(item, today)?.state === 'overdue';
+  recentPendingItems.sort((a, b) => Number(isOverdue(b)) - Number(isOverdue(a)));
   const recentSessionCount = Math.min(3, completedSessions.length);
+  const hasOwnItems = recentPendingItems.some(a => a.source === 'employee');
 
   // Get the NEAREST upcoming session (sort by date ascending, take first)
   const upcomingSession = sessions
@@ -244,7 +253,9 @@ export default function SessionPrep({ sessions, actionItems, coachName, userEmai
           {recentPendingItems.length > 0 && (
             <div className="bg-white p-4 rounded-btn border border-boon-charcoal/[0.08]">
               <p className="text-[11px] font-extrabold text-boon-charcoal/55 uppercase tracking-[0.18em] mb-3">
-                Action Items from your last {recentSessionCount} session{recentSessionCount !== 1 ? 's' : ''}
+                {hasOwnItems
+                  ? 'Action Items to review'
+                  : `Action Items from your last ${recentSessionCount} session${recentSessionCount !== 1 ? 's' : ''}`}
               </p>
               <div className="space-y-2">
                 {recentPendingItems.slice(0, 5).map((item) => {
@@ -269,6 +280,14 @@ export default function SessionPrep({ sessions, actionItems, coachName, userEmai
                       />
                       <span className={`text-sm ${isCompleted ? 'line-through' : ''}`}>
                         {item.action_text}
+                        {item.source === 'employee' && (
+                          <span className="ml-2 text-[11px] text-boon-charcoal/55">
+                            {item.recurrence ? RECURRENCE_LABELS[item.recurrence] : 'Added by you'}
+                          </span>
+                        )}
+                        {isOverdue(item) && (
+                          <span className="ml-2 text-[11px] font-semibold text-boon-coral">Overdue</span>
+                        )}
                       </span>
                     </label>
                   );
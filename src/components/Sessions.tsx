@@ -5,7 +5,8 @@ import type { Session } from '../lib/types';
 // CoachingStateData now accessed via usePortalData()
 import { isAlumniState, isPreFirstSession, isUpcomingSession } from '../lib/coachingState';
 import { usePortalData } from './ProtectedLayout';
-import { submitSessionFeedback, updateActionItemStatus } from '../lib/dataFetcher';
+import { submitSessionFeedback, updateActionItemStatus, fetchCalendarFeedUrl, rotateCalendarFeedUrl } from '../lib/dataFetcher';
+import { downloadSessionIcs } from '../lib/calendarExport';
 import { supabase } from '../lib/supabase';
 
 function getStatusStyle(status: Session['status']): {
@@ -56,6 +57,8 @@ export default function SessionsPage() {
   const [feedbackError, setFeedbackError] = useState<string | null>(null);
   const [sessionNotes, setSessionNotes] = useState<Record<string, string>>({});
   const [updatingItem, setUpdatingItem] = useState<string | null>(null);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [feedLoading, setFeedLoading] = useState(false);
 
   // Toggle action item status
   async function handleToggleAction(itemId: string, currentStatus: string) {
@@ -85,6 +88,41 @@ export default function SessionsPage() {
     }
   }
 
+  // Load (or create) the private calendar feed URL
+  async function handleShowFeedUrl() {
+    setFeedLoading(true);
+    const url = await fetchCalendarFeedUrl();
+    setFeedLoading(false);
+    if (url) {
+      setFeedUrl(url);
+    } else {
+      toast.error('Could not load your calendar link. Please try again.');
+    }
+  }
+
+  // Revoke the current feed URL — anyone subscribed to the old one stops getting updates
+  async function handleRotateFeedUrl() {
+    setFeedLoading(true);
+    const url = await rotateCalendarFeedUrl();
+    setFeedLoading(false);
+    if (url) {
+      setFeedUrl(url);
+      toast.success('New calendar link created. Re-subscribe with the new link.');
+    } else {
+      toast.error('Could not reset your calendar link. Please try again.');
+    }
+  }
+
+  async function handleCopyFeedUrl() {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast.success('Calendar link copied.');
+    } catch {
+      toast.error('Could not copy. Select the link and copy it manually.');
+    }
+  }
+
   // Calendar State
   const [currentDate, setCurrentDate] = useState(new Date());
 
@@ -488,6 +526,14 @@ export default function SessionsPage() {
                             </div>
 
                             <div className="flex items-center gap-3 shrink-0">
+                              {isUpcomingSession(session) && (
+                                <button
+                                  onClick={(e) => { e.stopPropagation(); downloadSessionIcs(session); }}
+                                  className="px-3 py-1.5 text-[11px] font-extrabold uppercase tracking-[0.08em] text-boon-blue bg-boon-lightBlue/30 rounded-btn hover:bg-boon-lightBlue transition-all"
+                                >
+                                  Add to calendar
+                                </button>
+                              )}
                               <Badge variant={style.badge}>{style.label}</Badge>
                               {hasDetails && (
                                 <svg
@@ -688,12 +734,65 @@ export default function SessionsPage() {
                       );
                     })()}
                   </div>
+                  {isUpcomingSession(session) && (
+                    <button
+                      onClick={() => downloadSessionIcs(session)}
+                      className="px-3 py-1.5 text-[11px] font-extrabold uppercase tracking-[0.08em] text-boon-blue bg-boon-lightBlue/30 rounded-btn hover:bg-boon-lightBlue transition-all"
+                    >
+                      Add to calendar
+                    </button>
+                  )}
                 </div>
               )) : (
                 <p className="text-boon-charcoal/55 text-sm">No sessions on this day.</p>
               )}
             </div>
           )}
+
+          {/* Subscribable feed — keeps Outlook / Google in sync with reschedules */}
+          <div className="bg-white rounded-card p-6 shadow-sm border border-boon-charcoal/[0.08]">
+            <h4 className="font-bold text-boon-navy">Subscribe in your calendar</h4>
+            <p className="text-sm text-boon-charcoal/55 mt-1">
+              Add this private link to Outlook or Google Calendar. Sessions update there automatically when they're rescheduled or cancelled.
+            </p>
+            {feedUrl ? (
+              <div className="mt-4 space-y-3">
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <input
+                    type="text"
+                    readOnly
+                    value={feedUrl}
+                    onFocus={(e) => e.target.select()}
+                    className="flex-1 min-w-0 px-3 py-2 rounded-btn border border-boon-charcoal/[0.08] text-xs text-boon-charcoal/75 bg-boon-bg"
+                  />
+                  <button
+                    onClick={handleCopyFeedUrl}
+                    className="px-4 py-2 text-xs font-bold text-white bg-boon-blue rounded-btn hover:bg-boon-darkBlue transition-all"
+                  >
+                    Copy link
+                  </button>
+                </div>
+                <p className="text-xs text-boon-charcoal/55">
+                  Anyone with this link can see your session times and notes.{' '}
+                  <button
+                    onClick={handleRotateFeedUrl}
+                    disabled={feedLoading}
+                    className="font-bold text-boon-blue hover:text-boon-darkBlue disabled:opacity-50"
+                  >
+                    Reset link
+                  </button>
+                </p>
+              </div>
+            ) : (
+              <button
+                onClick={handleShowFeedUrl}
+                disabled={feedLoading}
+                className="mt-4 px-4 py-2 text-xs font-bold text-boon-blue bg-boon-lightBlue/30 rounded-btn hover:bg-boon-lightBlue transition-all disabled:opacity-50"
+              >
+                {feedLoading ? 'Loading...' : 'Get calendar link'}
+              </button>
+            )}
+          </div>
         </div>
       )}
 
@@ -11,9 +11,16 @@ import {
   getTeamsConnectUrl,
   disconnectTeams,
   updateTeamsSettings,
+  fetchEmailNudgeSettings,
+  updateEmailNudgeSettings,
   fetchNudgeHistory,
+  downloadMyDataExport,
+  fetchDataErasureRequest,
+  requestDataErasure,
+  confirmDataErasure,
+  cancelDataErasure,
 } from '../lib/dataFetcher';
-import type { SlackConnectionStatus, TeamsConnectionStatus, Nudge } from '../lib/types';
+import type { SlackConnectionStatus, TeamsConnectionStatus, EmailNudgeSettings, NudgeDeliveryWindow, Nudge, DataErasureRequest } from '../lib/types';
 
 type EyebrowColor = 'blue' | 'coral' | 'muted' | 'charcoal' | 'white';
 const EYEBROW_COLORS: Record<EyebrowColor, string> = {
@@ -45,6 +52,13 @@ const NUDGE_TYPE_LABELS: Record<string, string> = {
   session_prep: 'Session prep',
   weekly_digest: 'Weekly digest',
   daily_digest: 'Daily digest',
+  smart_action_digest: 'Action items (smart)',
+  smart_commitment_checkin: 'Commitment check-ins (smart)',
+  streak_celebration: 'Streak celebrations',
+  action_due_tomorrow: 'Due tomorrow',
+  action_due_today: 'Due today',
+  action_overdue: 'Overdue items',
+  action_still_relevant: 'Still relevant?',
 };
 
 const NUDGE_TYPE_BAR_COLOR: Record<string, string> = {
@@ -53,6 +67,54 @@ const NUDGE_TYPE_BAR_COLOR: Record<string, string> = {
   session_prep: 'bg-boon-navy',
   weekly_digest: 'bg-boon-success',
   daily_digest: 'bg-boon-warning',
+  smart_action_digest: 'bg-boon-coral',
+  smart_commitment_checkin: 'bg-boon-blue',
+  streak_celebration: 'bg-boon-success',
+  action_due_tomorrow: 'bg-boon-warning',
+  action_due_today: 'bg-boon-warning',
+  action_overdue: 'bg-boon-coral',
+  action_still_relevant: 'bg-boon-navy',
+};
+
+const NUDGE_FREQUENCY_OPTIONS: { value: EmailNudgeSettings['nudge_frequency']; label: string; desc: string }[] = [
+  { value: 'smart', label: 'Smart', desc: 'Based on your activity' },
+  { value: 'daily', label: 'Daily', desc: 'Once per day' },
+  { value: 'weekly', label: 'Weekly', desc: 'Monday digest' },
+  { value: 'none', label: 'None', desc: 'Only urgent' },
+];
+
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const SNOOZE_OPTIONS = [
+  { days: 1, label: '1 day' },
+  { days: 3, label: '3 days' },
+  { days: 7, label: '1 week' },
+  { days: 14, label: '2 weeks' },
+];
+
+const DEFAULT_DELIVERY_WINDOW: NudgeDeliveryWindow = {
+  quiet_hours_start: null,
+  quiet_hours_end: null,
+  working_days: ALL_DAYS,
+  holidays: [],
+  snoozed_until: null,
+};
+
+// Postgres TIME comes back as HH:MM:SS; <input type="time"> wants HH:MM
+function deliveryWindowFrom(settings: Partial<NudgeDeliveryWindow> | null | undefined): NudgeDeliveryWindow {
+  return {
+    quiet_hours_start: settings?.quiet_hours_start?.slice(0, 5) ?? null,
+    quiet_hours_end: settings?.quiet_hours_end?.slice(0, 5) ?? null,
+    working_days: settings?.working_days ?? ALL_DAYS,
+    holidays: settings?.holidays ?? [],
+    snoozed_until: settings?.snoozed_until ?? null,
+  };
+}
+
+const NUDGE_CHANNEL_LABELS: Record<string, string> = {
+  slack: 'Slack',
+  teams: 'Teams',
+  email: 'Email',
 };
 
 const NUDGE_RESPONSE_LABELS: Record<string, string> = {
@@ -95,6 +157,23 @@ export default function Settings() {
   const [nudgeFrequency, setNudgeFrequency] = useState<'smart' | 'daily' | 'weekly' | 'none'>('smart');
   const [preferredTime, setPreferredTime] = useState('09:00');
   const [timezone, setTimezone] = useState('America/New_York');
+  const [deliveryWindow, setDeliveryWindow] = useState<NudgeDeliveryWindow>(DEFAULT_DELIVERY_WINDOW);
+
+  const [emailSettings, setEmailSettings] = useState<EmailNudgeSettings | null>(null);
+  const [emailEnabled, setEmailEnabled] = useState(false);
+  const [emailFrequency, setEmailFrequency] = useState<EmailNudgeSettings['nudge_frequency']>('smart');
+  const [emailTime, setEmailTime] = useState('09:00');
+  const [emailTimezone, setEmailTimezone] = useState('America/New_York');
+  const [emailDeliveryWindow, setEmailDeliveryWindow] = useState<NudgeDeliveryWindow>(DEFAULT_DELIVERY_WINDOW);
+  const [savingEmail, setSavingEmail] = useState(false);
+
+  const [exporting, setExporting] = useState(false);
+  const [exportFailed, setExportFailed] = useState(false);
+
+  const [erasureRequest, setErasureRequest] = useState<DataErasureRequest | null>(null);
+  const [erasureConfirmEmail, setErasureConfirmEmail] = useState('');
+  const [erasureBusy, setErasureBusy] = useState(false);
+  const [erasureError, setErasureError] = useState<string | null>(null);
 
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
@@ -111,15 +190,27 @@ export default function Settings() {
     async function loadData() {
       setLoading(true);
       try {
-        const [slack, teams, history] = await Promise.all([
+        const [slack, teams, email, history, erasure] = await Promise.all([
           fetchSlackConnectionStatus(),
           fetchTeamsConnectionStatus(),
+          employee?.company_email ? fetchEmailNudgeSettings(employee.company_email) : Promise.resolve(null),
           employee?.company_email ? fetchNudgeHistory(employee.company_email) : Promise.resolve([]),
+          fetchDataErasureRequest(),
         ]);
 
         setSlackStatus(slack);
         setTeamsStatus(teams);
         setNudgeHistory(history);
+        setErasureRequest(erasure);
+
+        setEmailSettings(email);
+        if (email) {
+          setEmailEnabled(email.nudge_enabled);
+          setEmailFrequency(email.nudge_frequency);
+          setEmailTime(email.preferred_time?.slice(0, 5) || '09:00');
+          setEmailTimezone(email.timezone || 'America/New_York');
+          setEmailDeliveryWindow(deliveryWindowFrom(email));
+        }
 
         const activeSettings = slack.connected
           ? slack.settings
@@ -132,6 +223,7 @@ export default function Settings() {
           setNudgeFrequency(activeSettings.nudge_frequency);
           setPreferredTime(activeSettings.preferred_time?.slice(0, 5) || '09:00');
           setTimezone(activeSettings.timezone || 'America/New_York');
+          setDeliveryWindow(deliveryWindowFrom(activeSettings));
         }
       } catch (err) {
         console.error('Error loading settings:', err);
@@ -151,6 +243,7 @@ export default function Settings() {
         nudge_frequency: nudgeFrequency,
         preferred_time: preferredTime,
         timezone,
+        ...deliveryWindow,
       };
 
       const success = activeChannel === 'teams'
@@ -175,6 +268,96 @@ export default function Settings() {
     }
   }
 
+  async function handleSaveEmailSettings() {
+    if (!employee?.company_email) return;
+    setSavingEmail(true);
+    try {
+      const payload: EmailNudgeSettings = {
+        nudge_enabled: emailEnabled,
+        nudge_frequency: emailFrequency,
+        preferred_time: emailTime,
+        timezone: emailTimezone,
+        ...emailDeliveryWindow,
+      };
+      const success = await updateEmailNudgeSettings(employee.company_email, payload);
+      if (success) {
+        setEmailSettings(payload);
+      }
+    } finally {
+      setSavingEmail(false);
+    }
+  }
+
+  async function handleDownloadData() {
+    setExporting(true);
+    setExportFailed(false);
+    try {
+      const success = await downloadMyDataExport();
+      setExportFailed(!success);
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  async function handleRequestErasure() {
+    setErasureBusy(true);
+    setErasureError(null);
+    try {
+      const request = await requestDataErasure();
+      if (request) {
+        setErasureRequest(request);
+      } else {
+        setErasureError('Something went wrong. Try again, or email hello@boon-health.com.');
+      }
+    } finally {
+      setErasureBusy(false);
+    }
+  }
+
+  async function handleConfirmErasure() {
+    if (!erasureRequest) return;
+    setErasureBusy(true);
+    setErasureError(null);
+    try {
+      const request = await confirmDataErasure(erasureRequest.id, erasureConfirmEmail);
+      if (!request) {
+        setErasureError("That doesn't match your account email.");
+        return;
+      }
+      setErasureRequest(request);
+      setErasureConfirmEmail('');
+
+      // Stop nudges straight away rather than waiting for the purge
+      if (slackStatus.connected && await disconnectSlack()) {
+        setSlackStatus({ connected: false, settings: null });
+      }
+      if (teamsStatus.connected && await disconnectTeams()) {
+        setTeamsStatus({ connected: false, settings: null });
+      }
+      if (employee?.company_email && emailSettings?.nudge_enabled) {
+        const payload = { ...emailSettings, nudge_enabled: false };
+        if (await updateEmailNudgeSettings(employee.company_email, payload)) {
+          setEmailSettings(payload);
+          setEmailEnabled(false);
+        }
+      }
+    } finally {
+      setErasureBusy(false);
+    }
+  }
+
+  async function handleCancelErasure() {
+    if (!erasureRequest) return;
+    setErasureBusy(true);
+    setErasureError(null);
+    try {
+      const request = await cancelDataErasure(erasureRequest.id);
+      if (request) setErasureRequest(request);
+    } finally {
+      setErasureBusy(false);
+    }
+  }
+
   async function handleDisconnect() {
     if (!confirm(`Disconnect ${channelLabel}? You will stop receiving coaching nudges.`)) return;
     setDisconnecting(true);
@@ -215,6 +398,13 @@ export default function Settings() {
     { value: 'Europe/Paris', label: 'Central European Time' },
   ];
 
+  // Deep links like /settings#your-data (from the privacy page) land after
+  // the loading state, so scroll once the cards exist
+  useEffect(() => {
+    if (loading || !window.location.hash) return;
+    document.getElementById(window.location.hash.slice(1))?.scrollIntoView({ behavior: 'smooth' });
+  }, [loading]);
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-16">
@@ -291,17 +481,12 @@ export default function Settings() {
                   <div>
                     <Eyebrow color="muted" className="mb-3">Frequency</Eyebrow>
                     <div className="grid grid-cols-2 md:grid-cols-4 gap-2.5">
-                      {[
-                        { value: 'smart', label: 'Smart', desc: 'Based on your activity' },
-                        { value: 'daily', label: 'Daily', desc: 'Once per day' },
-                        { value: 'weekly', label: 'Weekly', desc: 'Monday digest' },
-                        { value: 'none', label: 'None', desc: 'Only urgent' },
-                      ].map((option) => {
+                      {NUDGE_FREQUENCY_OPTIONS.map((option) => {
                         const selected = nudgeFrequency === option.value;
                         return (
                           <button
                             key={option.value}
-                            onClick={() => setNudgeFrequency(option.value as typeof nudgeFrequency)}
+                            onClick={() => setNudgeFrequency(option.value)}
                             className={`p-3.5 rounded-btn border text-left transition-colors ${
                               selected
                                 ? 'border-boon-blue bg-boon-blue/[0.06]'
@@ -345,6 +530,8 @@ export default function Settings() {
                       </select>
                     </div>
                   </div>
+
+                  <DeliveryWindowFields value={deliveryWindow} onChange={setDeliveryWindow} />
                 </>
               )}
 
@@ -418,8 +605,130 @@ export default function Settings() {
           )}
         </Card>
 
+        {/* ─────────────── Email nudges ─────────────── */}
+        <Card padding="lg">
+          <div className="flex items-start justify-between gap-4 flex-wrap mb-5">
+            <div>
+              <Eyebrow color="coral">Email</Eyebrow>
+              <Headline as="h2" size="md" className="mt-2">
+                Nudges by email.
+              </Headline>
+              <p className="mt-2 text-sm text-boon-charcoal/70 leading-relaxed">
+                The same check-ins, sent to {employee?.company_email || 'your work email'}. Reply with one click.
+              </p>
+            </div>
+            {emailSettings?.nudge_enabled ? (
+              <Badge variant="success">On</Badge>
+            ) : (
+              <Badge variant="neutral">Off</Badge>
+            )}
+          </div>
+
+          {connected && (
+            <p className="mb-5 p-3.5 rounded-btn bg-boon-offWhite border border-boon-charcoal/[0.06] text-sm text-boon-charcoal/70">
+              You're connected via {channelLabel}, so nudges go there. Email takes over if you disconnect.
+            </p>
+          )}
+
+          <div className="flex flex-col gap-6">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <div className="font-display font-bold text-boon-navy text-[15px]">
+                  Email me nudges
+                </div>
+                <p className="mt-1 text-sm text-boon-charcoal/65">
+                  Used when Slack or Teams isn't connected.
+                </p>
+              </div>
+              <button
+                onClick={() => setEmailEnabled(!emailEnabled)}
+                className={`relative w-12 h-6 rounded-pill transition-colors flex-shrink-0 ${
+                  emailEnabled ? 'bg-boon-blue' : 'bg-boon-charcoal/20'
+                }`}
+                aria-pressed={emailEnabled}
+                aria-label="Toggle email nudges"
+              >
+                <span
+                  className={`absolute top-0.5 w-5 h-5 bg-white rounded-pill shadow transition-transform ${
+                    emailEnabled ? 'translate-x-6' : 'translate-x-0.5'
+                  }`}
+                />
+              </button>
+            </div>
+
+            {emailEnabled && (
+              <>
+                <div>
+                  <Eyebrow color="muted" className="mb-3">Frequency</Eyebrow>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2.5">
+                    {NUDGE_FREQUENCY_OPTIONS.map((option) => {
+                      const selected = emailFrequency === option.value;
+                      return (
+                        <button
+                          key={option.value}
+                          onClick={() => setEmailFrequency(option.value)}
+                          className={`p-3.5 rounded-btn border text-left transition-colors ${
+                            selected
+                              ? 'border-boon-blue bg-boon-blue/[0.06]'
+                              : 'border-boon-charcoal/[0.10] hover:border-boon-blue/40'
+                          }`}
+                        >
+                          <div className={`font-display font-bold text-[15px] ${selected ? 'text-boon-blue' : 'text-boon-navy'}`}>
+                            {option.label}
+                          </div>
+                          <div className="text-xs text-boon-charcoal/60 mt-0.5">{option.desc}</div>
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                <div className="grid md:grid-cols-2 gap-4">
+                  <div>
+                    <Eyebrow color="muted" className="mb-2">Preferred time</Eyebrow>
+                    <input
+                      type="time"
+                      value={emailTime}
+                      onChange={(e) => setEmailTime(e.target.value)}
+                      className="w-full px-3.5 py-2.5 border border-boon-charcoal/[0.12] rounded-btn focus:outline-none focus:border-boon-blue text-sm"
+                    />
+                    <p className="text-[11px] font-extrabold uppercase tracking-[0.12em] text-boon-charcoal/45 mt-1.5">
+                      Sent around this time
+                    </p>
+                  </div>
+                  <div>
+                    <Eyebrow color="muted" className="mb-2">Timezone</Eyebrow>
+                    <select
+                      value={emailTimezone}
+                      onChange={(e) => setEmailTimezone(e.target.value)}
+                      className="w-full px-3.5 py-2.5 border border-boon-charcoal/[0.12] rounded-btn focus:outline-none focus:border-boon-blue text-sm bg-white"
+                    >
+                      {timezones.map((tz) => (
+                        <option key={tz.value} value={tz.value}>{tz.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <DeliveryWindowFields value={emailDeliveryWindow} onChange={setEmailDeliveryWindow} />
+              </>
+            )}
+
+            <div className="flex justify-end pt-4 border-t border-boon-charcoal/[0.08]">
+              <Button
+                variant="primary"
+                size="md"
+                onClick={handleSaveEmailSettings}
+                disabled={savingEmail}
+              >
+                {savingEmail ? 'Saving...' : 'Save email settings'}
+              </Button>
+            </div>
+          </div>
+        </Card>
+
         {/* ─────────────── Nudge engagement ─────────────── */}
-        {connected && nudgeHistory.length > 0 && (() => {
+        {(connected || emailSettings?.nudge_enabled) && nudgeHistory.length > 0 && (() => {
           const responded = nudgeHistory.filter(n => n.status === 'responded').length;
           const total = nudgeHistory.length;
           const responseRate = total > 0 ? Math.round((responded / total) * 100) : 0;
@@ -492,7 +801,7 @@ export default function Settings() {
                           {NUDGE_TYPE_LABELS[nudge.nudge_type] || nudge.nudge_type}
                           {nudge.channel && (
                             <span className="ml-2 text-[11px] font-extrabold uppercase tracking-[0.12em] text-boon-charcoal/55">
-                              via {nudge.channel === 'teams' ? 'Teams' : 'Slack'}
+                              via {NUDGE_CHANNEL_LABELS[nudge.channel] || 'Slack'}
                             </span>
                           )}
                         </div>
@@ -518,6 +827,94 @@ export default function Settings() {
           );
         })()}
 
+        {/* ─────────────── Your data ─────────────── */}
+        <Card padding="lg" id="your-data">
+          <Eyebrow color="coral">Your data</Eyebrow>
+          <Headline as="h2" size="md" className="mt-2">
+            Take it with you.
+          </Headline>
+          <p className="mt-2 text-sm text-boon-charcoal/70 leading-relaxed">
+            Download everything Boon holds about you: sessions, surveys, competency scores, wins,
+            journal entries, goals, action items, practice history and nudges. You'll get a zip with
+            a JSON file and a spreadsheet per section.
+          </p>
+          <div className="mt-5 flex items-center gap-3 flex-wrap">
+            <Button variant="secondary" size="sm" onClick={handleDownloadData} disabled={exporting}>
+              {exporting ? 'Preparing...' : 'Download my data'}
+            </Button>
+            {exportFailed && (
+              <span className="text-sm text-boon-coral">
+                Something went wrong. Try again, or email hello@boon-health.com.
+              </span>
+            )}
+          </div>
+
+          <div className="mt-6 pt-6 border-t border-boon-charcoal/[0.08]">
+            <div className="font-display font-bold text-boon-navy text-[15px]">
+              Delete my data
+            </div>
+            <p className="mt-1 text-sm text-boon-charcoal/65 leading-relaxed">
+              Erases your journal, wins, goals, action items, practice conversations and team members, and
+              disconnects Slack and Teams. Session counts and survey results your company's program relies on
+              are kept, anonymised. Your portal login is removed.
+            </p>
+
+            {erasureRequest?.status === 'scheduled' ? (
+              <div className="mt-4 p-3.5 rounded-btn bg-boon-offWhite border border-boon-charcoal/[0.06] flex items-center justify-between gap-3 flex-wrap">
+                <span className="text-sm text-boon-charcoal/80">
+                  Scheduled for{' '}
+                  <strong>
+                    {erasureRequest.scheduled_for
+                      ? new Date(erasureRequest.scheduled_for).toLocaleDateString('en-US', { month: 'long', day: 'numeric' })
+                      : 'soon'}
+                  </strong>
+                  . You can cancel until then.
+                </span>
+                <Button variant="ghost" size="sm" onClick={handleCancelErasure} disabled={erasureBusy}>
+                  Cancel deletion
+                </Button>
+              </div>
+            ) : erasureRequest?.status === 'pending_confirmation' ? (
+              <div className="mt-4 flex flex-col gap-3">
+                <label className="text-sm text-boon-charcoal/80" htmlFor="erasure-confirm-email">
+                  Type <strong>{employee?.company_email}</strong> to confirm.
+                </label>
+                <input
+                  id="erasure-confirm-email"
+                  type="email"
+                  value={erasureConfirmEmail}
+                  onChange={(e) => setErasureConfirmEmail(e.target.value)}
+                  className="w-full md:w-80 px-3.5 py-2.5 border border-boon-charcoal/[0.12] rounded-btn focus:outline-none focus:border-boon-blue text-sm"
+                  autoComplete="off"
+                />
+                <div className="flex items-center gap-3 flex-wrap">
+                  <Button
+                    variant="coral"
+                    size="sm"
+                    onClick={handleConfirmErasure}
+                    disabled={erasureBusy || !erasureConfirmEmail.trim()}
+                  >
+                    {erasureBusy ? 'Confirming...' : 'Confirm deletion'}
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={handleCancelErasure} disabled={erasureBusy}>
+                    Never mind
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="mt-4">
+                <Button variant="secondary" size="sm" onClick={handleRequestErasure} disabled={erasureBusy}>
+                  Request deletion
+                </Button>
+              </div>
+            )}
+
+            {erasureError && (
+              <p className="mt-3 text-sm text-boon-coral">{erasureError}</p>
+            )}
+          </div>
+        </Card>
+
         {/* ─────────────── Account ─────────────── */}
         <Card padding="lg">
           <Eyebrow color="coral">Account</Eyebrow>
@@ -547,6 +944,172 @@ export default function Settings() {
   );
 }
 
+/**
+ * Working days, quiet hours, holidays and snooze for one nudge channel.
+ * Edits are local until the parent's Save button is pressed.
+ */
+function DeliveryWindowFields({
+  value,
+  onChange,
+}: {
+  value: NudgeDeliveryWindow;
+  onChange: (value: NudgeDeliveryWindow) => void;
+}) {
+  const [newHoliday, setNewHoliday] = useState('');
+  const quietHoursOn = value.quiet_hours_start !== null && value.quiet_hours_end !== null;
+  const snoozedUntil = value.snoozed_until && new Date(value.snoozed_until) > new Date()
+    ? new Date(value.snoozed_until)
+    : null;
+
+  function toggleDay(day: number) {
+    // At least one working day, or nudges could never go out
+    if (value.working_days.length === 1 && value.working_days[0] === day) return;
+    const workingDays = value.working_days.includes(day)
+      ? value.working_days.filter((d) => d !== day)
+      : [...value.working_days, day].sort();
+    onChange({ ...value, working_days: workingDays });
+  }
+
+  function addHoliday() {
+    if (!newHoliday || value.holidays.includes(newHoliday)) return;
+    onChange({ ...value, holidays: [...value.holidays, newHoliday].sort() });
+    setNewHoliday('');
+  }
+
+  function snoozeFor(days: number) {
+    const until = new Date();
+    until.setDate(until.getDate() + days);
+    onChange({ ...value, snoozed_until: until.toISOString() });
+  }
+
+  return (
+    <div className="flex flex-col gap-6">
+      {/* Working days */}
+      <div>
+        <Eyebrow color="muted" className="mb-3">Working days</Eyebrow>
+        <div className="flex gap-2 flex-wrap">
+          {ALL_DAYS.map((day) => {
+            const selected = value.working_days.includes(day);
+            return (
+              <button
+                key={day}
+                onClick={() => toggleDay(day)}
+                aria-pressed={selected}
+                className={`w-12 py-2 rounded-btn border text-sm font-display font-bold transition-colors ${
+                  selected
+                    ? 'border-boon-blue bg-boon-blue/[0.06] text-boon-blue'
+                    : 'border-boon-charcoal/[0.10] text-boon-charcoal/50 hover:border-boon-blue/40'
+                }`}
+              >
+                {DAY_LABELS[day]}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Quiet hours */}
+      <div>
+        <div className="flex items-center justify-between gap-4 mb-3">
+          <Eyebrow color="muted">Quiet hours</Eyebrow>
+          <label className="flex items-center gap-2 text-sm text-boon-charcoal/70">
+            <input
+              type="checkbox"
+              checked={quietHoursOn}
+              onChange={(e) => onChange({
+                ...value,
+                quiet_hours_start: e.target.checked ? '18:00' : null,
+                quiet_hours_end: e.target.checked ? '08:00' : null,
+              })}
+            />
+            Pause nudges overnight
+          </label>
+        </div>
+        {quietHoursOn && (
+          <div className="grid grid-cols-2 gap-4">
+            <input
+              type="time"
+              value={value.quiet_hours_start ?? ''}
+              onChange={(e) => onChange({ ...value, quiet_hours_start: e.target.value || null })}
+              aria-label="Quiet hours start"
+              className="w-full px-3.5 py-2.5 border border-boon-charcoal/[0.12] rounded-btn focus:outline-none focus:border-boon-blue text-sm"
+            />
+            <input
+              type="time"
+              value={value.quiet_hours_end ?? ''}
+              onChange={(e) => onChange({ ...value, quiet_hours_end: e.target.value || null })}
+              aria-label="Quiet hours end"
+              className="w-full px-3.5 py-2.5 border border-boon-charcoal/[0.12] rounded-btn focus:outline-none focus:border-boon-blue text-sm"
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Holidays */}
+      <div>
+        <Eyebrow color="muted" className="mb-3">Holidays & days off</Eyebrow>
+        <div className="flex gap-2">
+          <input
+            type="date"
+            value={newHoliday}
+            onChange={(e) => setNewHoliday(e.target.value)}
+            className="flex-1 px-3.5 py-2.5 border border-boon-charcoal/[0.12] rounded-btn focus:outline-none focus:border-boon-blue text-sm"
+          />
+          <Button variant="ghost" size="sm" onClick={addHoliday} disabled={!newHoliday}>
+            Add
+          </Button>
+        </div>
+        {value.holidays.length > 0 && (
+          <div className="flex gap-2 flex-wrap mt-3">
+            {value.holidays.map((date) => (
+              <span
+                key={date}
+                className="inline-flex items-center gap-1.5 px-3 py-1 rounded-pill bg-boon-offWhite border border-boon-charcoal/[0.08] text-xs text-boon-charcoal/80"
+              >
+                {new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                <button
+                  onClick={() => onChange({ ...value, holidays: value.holidays.filter((d) => d !== date) })}
+                  aria-label={`Remove ${date}`}
+                  className="text-boon-charcoal/50 hover:text-boon-coral"
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Snooze */}
+      <div>
+        <Eyebrow color="muted" className="mb-3">Snooze</Eyebrow>
+        {snoozedUntil ? (
+          <div className="flex items-center justify-between gap-3 p-3.5 rounded-btn bg-boon-offWhite border border-boon-charcoal/[0.06]">
+            <span className="text-sm text-boon-charcoal/80">
+              Snoozed until {snoozedUntil.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+            </span>
+            <Button variant="ghost" size="sm" onClick={() => onChange({ ...value, snoozed_until: null })}>
+              Resume
+            </Button>
+          </div>
+        ) : (
+          <div className="flex gap-2 flex-wrap">
+            {SNOOZE_OPTIONS.map((option) => (
+              <button
+                key={option.days}
+                onClick={() => snoozeFor(option.days)}
+                className="px-3.5 py-2 rounded-btn border border-boon-charcoal/[0.10] text-sm text-boon-navy hover:border-boon-blue/40 transition-colors"
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
 interface IconProps {
   className?: string;
 }
@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+import { Card } from '../lib/design-system';
+import { fetchStreaks } from '../lib/dataFetcher';
+import type { EmployeeStreaks, StreakKind } from '../lib/types';
+
+interface StreakCardProps {
+  // Home dashboards hide the card until there's a streak; /goals always shows it
+  showEmpty?: boolean;
+  className?: string;
+}
+
+const STREAK_ROWS: { kind: StreakKind; label: string; hint: string }[] = [
+  { kind: 'commitments', label: 'Weekly commitments', hint: 'Complete this week’s commitment' },
+  { kind: 'journal', label: 'Journal', hint: 'Write one reflection this week' },
+  { kind: 'action_items', label: 'Action items', hint: 'Check off one action item this week' },
+];
+
+function weeks(count: number): string {
+  return `${count} week${count === 1 ? '' : 's'}`;
+}
+
+export function StreakCard({ showEmpty = false, className = '' }: StreakCardProps) {
+  const [streaks, setStreaks] = useState<EmployeeStreaks | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchStreaks().then(data => {
+      setStreaks(data);
+      setLoading(false);
+    });
+  }, []);
+
+  if (loading || !streaks) return null;
+
+  const hasAnyStreak = STREAK_ROWS.some(({ kind }) => streaks[kind].best > 0);
+  if (!hasAnyStreak && !showEmpty) return null;
+
+  return (
+    <Card padding="lg" className={className}>
+      <div className="flex items-center gap-2.5 mb-5">
+        <span className="w-7 h-7 rounded-pill bg-boon-coral/12 flex items-center justify-center text-boon-coral">
+          <svg className="w-[15px] h-[15px]" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M17.657 18.657A8 8 0 016.343 7.343S7 9 9 10c0-2 .5-5 2.986-7C14 5 16.09 5.777 17.656 7.343A7.975 7.975 0 0120 13a7.975 7.975 0 01-2.343 5.657z" />
+            <path strokeLinecap="round" strokeLinejoin="round" d="M9.879 16.121A3 3 0 1012.015 11L11 14H9c0 .768.293 1.536.879 2.121z" />
+          </svg>
+        </span>
+        <span className="text-[11px] font-extrabold uppercase tracking-[0.18em] text-boon-charcoal/55">Your streaks</span>
+      </div>
+
+      <ul className="space-y-4">
+        {STREAK_ROWS.map(({ kind, label, hint }) => {
+          const streak = streaks[kind];
+          return (
+            <li key={kind} className="flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-sm font-semibold text-boon-navy">{label}</p>
+                <p className="text-xs text-boon-charcoal/55">
+                  {streak.current > 0 && !streak.active_this_week
+                    ? `${hint} to keep it going`
+                    : streak.best > 0
+                      ? `Best: ${weeks(streak.best)}`
+                      : hint}
+                </p>
+              </div>
+              <div className="text-right flex-shrink-0">
+                <span className={`text-2xl font-black ${streak.current > 0 ? 'text-boon-coral' : 'text-boon-charcoal/25'}`}>
+                  {streak.current}
+                </span>
+                <span className="ml-1 text-xs font-semibold text-boon-charcoal/55">wk</span>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </Card>
+  );
+}
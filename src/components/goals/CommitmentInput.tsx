@@ -1,19 +1,24 @@
 import { useState } from 'react';
+import type { Goal } from '../../lib/types';
 
 interface CommitmentInputProps {
-  onSubmit: (text: string) => Promise<void>;
+  onSubmit: (text: string, goalId?: string) => Promise<void>;
+  // Active employee goals the commitment can count toward
+  goals?: Goal[];
 }
 
-export function CommitmentInput({ onSubmit }: CommitmentInputProps) {
+export function CommitmentInput({ onSubmit, goals = [] }: CommitmentInputProps) {
   const [text, setText] = useState('');
+  const [goalId, setGoalId] = useState('');
   const [submitting, setSubmitting] = useState(false);
 
   async function handleSubmit() {
     if (!text.trim() || submitting) return;
     setSubmitting(true);
     try {
-      await onSubmit(text.trim());
+      await onSubmit(text.trim(), goalId || undefined);
       setText('');
+      setGoalId('');
     } finally {
       setSubmitting(false);
     }
@@ -54,6 +59,21 @@ export function CommitmentInput({ onSubmit }: CommitmentInputProps) {
           )}
         </button>
       </div>
+      {goals.length > 0 && (
+        <select
+          value={goalId}
+          onChange={e => setGoalId(e.target.value)}
+          disabled={submitting}
+          className="mt-2 w-full px-3 py-2 rounded-btn border border-boon-charcoal/[0.08] bg-boon-offWhite text-xs text-boon-navy focus:outline-none focus:ring-2 focus:ring-boon-blue/20 focus:border-boon-blue"
+        >
+          <option value="">Not tied to one of my goals</option>
+          {goals.map(goal => (
+            <option key={goal.id} value={goal.id}>
+              Toward: {goal.title}
+            </option>
+          ))}
+        </select>
+      )}
     </div>
   );
 }
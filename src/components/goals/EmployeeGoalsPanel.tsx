@@ -0,0 +1,403 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { useGoalData } from '../../hooks/useGoalData';
+import { COMPETENCY_OPTIONS } from '../../data/competencies';
+import { GOAL_STATUS_TRANSITIONS, summarizeGoalOutcome } from '../../lib/goalLifecycle';
+import { computeGoalProgress } from '../../lib/goalProgress';
+import { GoalMilestones } from './GoalMilestones';
+import { GoalProgressBar } from './GoalProgressBar';
+import type { Goal, GoalStatus, CommitmentStatus } from '../../lib/types';
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function transitionLabel(from: GoalStatus, to: GoalStatus): string {
+  if (to === 'paused') return 'Pause';
+  if (to === 'completed') return 'Mark complete';
+  if (to === 'archived') return 'Archive';
+  if (from === 'paused') return 'Resume';
+  if (from === 'completed') return 'Reopen';
+  return 'Restore';
+}
+
+const TRANSITION_TOASTS: Record<GoalStatus, string> = {
+  active: 'Goal is active again',
+  paused: 'Goal paused',
+  completed: 'Goal complete. Nice work!',
+  archived: 'Goal archived',
+};
+
+const COMMITMENT_DOT: Record<CommitmentStatus, string> = {
+  active: 'bg-boon-blue',
+  completed: 'bg-boon-success',
+  partial: 'bg-amber-400',
+  missed: 'bg-boon-coral',
+};
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+// ============================================
+// Goal form (create + edit)
+// ============================================
+
+interface GoalFormValues {
+  title: string;
+  description: string;
+  competencyArea: string;
+}
+
+interface GoalFormProps {
+  initial?: Goal;
+  submitLabel: string;
+  onSubmit: (values: GoalFormValues) => Promise<void>;
+  onCancel: () => void;
+}
+
+function GoalForm({ initial, submitLabel, onSubmit, onCancel }: GoalFormProps) {
+  const [title, setTitle] = useState(initial?.title || '');
+  const [description, setDescription] = useState(initial?.description || '');
+  const [competencyArea, setCompetencyArea] = useState(initial?.competency_area || '');
+  const [saving, setSaving] = useState(false);
+
+  async function handleSubmit() {
+    if (!title.trim() || saving) return;
+    setSaving(true);
+    try {
+      await onSubmit({ title: title.trim(), description: description.trim(), competencyArea });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const fieldClass = 'w-full px-3 py-2 rounded-btn border border-boon-charcoal/[0.08] bg-boon-offWhite text-sm text-boon-navy placeholder:text-boon-charcoal/40 focus:bg-white focus:outline-none focus:ring-2 focus:ring-boon-blue/20 focus:border-boon-blue transition-all';
+
+  return (
+    <div className="space-y-3 p-4 rounded-btn border border-boon-charcoal/[0.08]">
+      <input
+        type="text"
+        value={title}
+        onChange={e => setTitle(e.target.value)}
+        placeholder="e.g., Run my team meetings without over-preparing"
+        className={fieldClass}
+        autoFocus
+      />
+      <textarea
+        value={description}
+        onChange={e => setDescription(e.target.value)}
+        placeholder="What would success look like? (optional)"
+        rows={2}
+        className={`${fieldClass} resize-none`}
+      />
+      <select value={competencyArea} onChange={e => setCompetencyArea(e.target.value)} className={fieldClass}>
+        <option value="">No competency area</option>
+        {COMPETENCY_OPTIONS.map(opt => (
+          <option key={opt} value={opt}>{opt}</option>
+        ))}
+      </select>
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          disabled={saving}
+          className="px-4 py-2 text-xs font-bold text-boon-charcoal/55 hover:text-boon-navy transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSubmit}
+          disabled={saving || !title.trim()}
+          className="px-5 py-2 bg-boon-blue text-white rounded-btn font-bold text-xs hover:bg-boon-darkBlue transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// Panel
+// ============================================
+
+export function EmployeeGoalsPanel() {
+  const {
+    employeeGoals,
+    goalCommitments,
+    goalCheckins,
+    milestones,
+    currentWeek,
+    addEmployeeGoal,
+    editEmployeeGoal,
+    setEmployeeGoalStatus,
+    linkCommitmentToGoal,
+  } = useGoalData();
+
+  const [creating, setCreating] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+
+  const currentGoals = employeeGoals.filter(g => g.status === 'active' || g.status === 'paused');
+  const completedGoals = employeeGoals
+    .filter(g => g.status === 'completed')
+    .sort((a, b) => (b.completed_at || '').localeCompare(a.completed_at || ''));
+  const archivedGoals = employeeGoals.filter(g => g.status === 'archived');
+  const weekCommitment = currentWeek.commitment;
+
+  async function handleCreate(values: GoalFormValues) {
+    const goal = await addEmployeeGoal(values.title, {
+      description: values.description || undefined,
+      competencyArea: values.competencyArea || undefined,
+    });
+    if (goal) {
+      toast.success('Goal added');
+      setCreating(false);
+    } else {
+      toast.error('Could not add goal');
+    }
+  }
+
+  async function handleEdit(goalId: string, values: GoalFormValues) {
+    const success = await editEmployeeGoal(goalId, {
+      title: values.title,
+      description: values.description || null,
+      competency_area: values.competencyArea || null,
+    });
+    if (success) {
+      toast.success('Goal updated');
+      setEditingId(null);
+    } else {
+      toast.error('Could not update goal');
+    }
+  }
+
+  async function handleTransition(goalId: string, status: GoalStatus) {
+    setBusyId(goalId);
+    const success = await setEmployeeGoalStatus(goalId, status);
+    setBusyId(null);
+    if (success) toast.success(TRANSITION_TOASTS[status]);
+    else toast.error('Could not update goal');
+  }
+
+  async function handleLinkCommitment(goalId: string) {
+    if (!weekCommitment) return;
+    setBusyId(goalId);
+    const success = await linkCommitmentToGoal(weekCommitment.id, goalId);
+    setBusyId(null);
+    if (success) toast.success("This week's commitment now counts toward this goal");
+    else toast.error('Could not link commitment');
+  }
+
+  function renderActions(goal: Goal) {
+    const isBusy = busyId === goal.id;
+    return (
+      <div className="flex flex-wrap gap-x-4 gap-y-1 mt-3">
+        {(goal.status === 'active' || goal.status === 'paused') && (
+          <button
+            onClick={() => { setEditingId(goal.id); setCreating(false); }}
+            disabled={isBusy}
+            className="text-xs font-semibold text-boon-blue hover:text-boon-darkBlue disabled:opacity-50"
+          >
+            Edit
+          </button>
+        )}
+        {GOAL_STATUS_TRANSITIONS[goal.status].map(status => (
+          <button
+            key={status}
+            onClick={() => handleTransition(goal.id, status)}
+            disabled={isBusy}
+            className={`text-xs font-semibold disabled:opacity-50 ${
+              status === 'completed' ? 'text-boon-success hover:opacity-80' : 'text-boon-charcoal/55 hover:text-boon-navy'
+            }`}
+          >
+            {transitionLabel(goal.status, status)}
+          </button>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <section className="bg-white rounded-card p-8">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-2 text-boon-blue">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 21v-4m0 0V5a2 2 0 012-2h6.5l1 1H21l-3 6 3 6h-8.5l-1-1H5a2 2 0 00-2 2z" />
+            </svg>
+            <span className="text-[10px] font-bold uppercase tracking-widest">Goals You've Set</span>
+          </div>
+          {!creating && (
+            <button
+              onClick={() => { setCreating(true); setEditingId(null); }}
+              className="text-xs font-semibold text-boon-blue hover:text-boon-darkBlue transition-colors"
+            >
+              + New goal
+            </button>
+          )}
+        </div>
+
+        {creating && (
+          <div className="mb-4">
+            <GoalForm submitLabel="Add goal" onSubmit={handleCreate} onCancel={() => setCreating(false)} />
+          </div>
+        )}
+
+        {currentGoals.length === 0 && !creating && (
+          <p className="text-sm text-boon-charcoal/55">
+            Add a goal of your own to work on alongside your coaching. Tie your weekly commitments to it and track what it adds up to.
+          </p>
+        )}
+
+        <div className="space-y-3">
+          {currentGoals.map(goal => {
+            if (editingId === goal.id) {
+              return (
+                <GoalForm
+                  key={goal.id}
+                  initial={goal}
+                  submitLabel="Save"
+                  onSubmit={values => handleEdit(goal.id, values)}
+                  onCancel={() => setEditingId(null)}
+                />
+              );
+            }
+
+            const outcome = summarizeGoalOutcome(goal.id, goalCommitments);
+            const progress = computeGoalProgress(goal.id, milestones, goalCommitments, goalCheckins);
+            const isPaused = goal.status === 'paused';
+            const weekIsLinked = weekCommitment?.goal_id === goal.id;
+
+            return (
+              <div
+                key={goal.id}
+                className={`p-4 bg-boon-offWhite rounded-btn border border-boon-charcoal/[0.08] ${isPaused ? 'opacity-70' : ''}`}
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <p className="text-sm font-semibold text-boon-navy leading-snug">{goal.title}</p>
+                  {isPaused && (
+                    <span className="text-[10px] font-bold uppercase tracking-widest text-boon-charcoal/55 flex-shrink-0">Paused</span>
+                  )}
+                </div>
+                {goal.description && (
+                  <p className="text-xs text-boon-charcoal/75 mt-1 leading-relaxed">{goal.description}</p>
+                )}
+                <div className="flex flex-wrap items-center gap-2 mt-2 text-[11px] text-boon-charcoal/55">
+                  {goal.competency_area && (
+                    <span className="px-2 py-0.5 rounded-pill bg-boon-blue/10 text-boon-blue font-semibold">{goal.competency_area}</span>
+                  )}
+                  <span>{outcome.commitments.length > 0 ? plural(outcome.commitments.length, 'weekly commitment') : 'No weekly commitments yet'}</span>
+                </div>
+
+                {progress && (
+                  <div className="flex items-center gap-3 mt-3">
+                    <GoalProgressBar percent={progress.percent} />
+                    <span className="text-xs font-bold text-boon-navy w-10 text-right">{progress.percent}%</span>
+                  </div>
+                )}
+                <GoalMilestones goalId={goal.id} readOnly={isPaused} />
+
+                {weekIsLinked && weekCommitment && (
+                  <p className="text-xs text-boon-charcoal/75 mt-2">
+                    <span className="font-semibold">This week:</span> {weekCommitment.commitment_text}
+                  </p>
+                )}
+                {!weekIsLinked && weekCommitment && goal.status === 'active' && (
+                  <button
+                    onClick={() => handleLinkCommitment(goal.id)}
+                    disabled={busyId === goal.id}
+                    className="mt-2 text-xs font-semibold text-boon-blue hover:text-boon-darkBlue disabled:opacity-50"
+                  >
+                    Count this week's commitment toward this goal
+                  </button>
+                )}
+
+                {renderActions(goal)}
+              </div>
+            );
+          })}
+        </div>
+
+        {archivedGoals.length > 0 && (
+          <div className="mt-6 pt-4 border-t border-boon-charcoal/[0.08]">
+            <button
+              onClick={() => setShowArchived(prev => !prev)}
+              className="text-xs font-semibold text-boon-charcoal/55 hover:text-boon-navy"
+            >
+              {showArchived ? 'Hide' : 'Show'} archived ({archivedGoals.length})
+            </button>
+            {showArchived && (
+              <div className="space-y-2 mt-3">
+                {archivedGoals.map(goal => (
+                  <div key={goal.id} className="flex items-center justify-between gap-3 text-sm text-boon-charcoal/55">
+                    <span className="truncate">{goal.title}</span>
+                    <button
+                      onClick={() => handleTransition(goal.id, 'active')}
+                      disabled={busyId === goal.id}
+                      className="text-xs font-semibold text-boon-blue hover:text-boon-darkBlue flex-shrink-0 disabled:opacity-50"
+                    >
+                      Restore
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </section>
+
+      {/* Completed goals: what each one added up to */}
+      {completedGoals.length > 0 && (
+        <section className="bg-white rounded-card p-8">
+          <div className="flex items-center gap-2 text-boon-success mb-6">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <span className="text-[10px] font-bold uppercase tracking-widest">Completed Goals</span>
+          </div>
+          <div className="space-y-6">
+            {completedGoals.map(goal => {
+              const outcome = summarizeGoalOutcome(goal.id, goalCommitments);
+              const progress = computeGoalProgress(goal.id, milestones, goalCommitments, goalCheckins);
+              return (
+                <div key={goal.id} className="relative pl-6 border-l border-boon-charcoal/[0.08]">
+                  <div className="absolute left-[-5px] top-1 w-2.5 h-2.5 rounded-pill bg-boon-success" />
+                  <p className="text-[10px] font-bold text-boon-charcoal/55 uppercase tracking-[0.18em] mb-1">
+                    {goal.completed_at ? `Completed ${formatDate(goal.completed_at)}` : 'Completed'}
+                    {goal.competency_area && ` · ${goal.competency_area}`}
+                  </p>
+                  <p className="text-sm font-semibold text-boon-navy">{goal.title}</p>
+                  {goal.description && (
+                    <p className="text-xs text-boon-charcoal/75 mt-1 leading-relaxed">{goal.description}</p>
+                  )}
+                  <p className="text-xs text-boon-charcoal/55 mt-2">
+                    {outcome.commitments.length > 0
+                      ? `${plural(outcome.weeks, 'week')} of commitments: ${outcome.completed} completed, ${outcome.partial} partly done, ${outcome.missed} missed`
+                      : 'No weekly commitments were tied to this goal'}
+                    {progress && progress.milestonesTotal > 0 && ` · ${progress.milestonesDone} of ${plural(progress.milestonesTotal, 'milestone')} reached`}
+                  </p>
+                  {outcome.commitments.length > 0 && (
+                    <ul className="mt-2 space-y-1">
+                      {outcome.commitments.slice(0, 5).map(c => (
+                        <li key={c.id} className="flex items-start gap-2 text-xs text-boon-charcoal/75">
+                          <span className={`mt-1.5 w-1.5 h-1.5 rounded-pill flex-shrink-0 ${COMMITMENT_DOT[c.status]}`} />
+                          <span>{c.commitment_text}</span>
+                        </li>
+                      ))}
+                      {outcome.commitments.length > 5 && (
+                        <li className="text-xs text-boon-charcoal/55 pl-3.5">+{outcome.commitments.length - 5} more</li>
+                      )}
+                    </ul>
+                  )}
+                  {renderActions(goal)}
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      )}
+    </>
+  );
+}
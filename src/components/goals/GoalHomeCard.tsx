@@ -6,10 +6,23 @@ import { usePortalData } from '../ProtectedLayout';
 import { updateActionItemStatus } from '../../lib/dataFetcher';
 import { CheckinModal } from './CheckinModal';
 import { CommitmentInput } from './CommitmentInput';
+import { GoalProgressBar } from './GoalProgressBar';
+import { computeGoalProgress } from '../../lib/goalProgress';
 
 export function GoalHomeCard() {
   const navigate = useNavigate();
-  const { coachingGoal, pendingActionItems, currentWeek, addCommitment, submitCheckin, loading } = useGoalData();
+  const {
+    coachingGoal,
+    pendingActionItems,
+    currentWeek,
+    employeeGoals,
+    goalCommitments,
+    goalCheckins,
+    milestones,
+    addCommitment,
+    submitCheckin,
+    loading,
+  } = useGoalData();
   const { reloadActionItems } = usePortalData();
   const [checkinModal, setCheckinModal] = useState<'midweek' | 'endweek' | null>(null);
   const [updatingItem, setUpdatingItem] = useState<string | null>(null);
@@ -23,6 +36,14 @@ export function GoalHomeCard() {
   const isEndweekOrLater = today >= 5;
   const midweekDue = hasCommitment && isMidweekOrLater && !hasMidweekCheckin;
   const endweekDue = hasCommitment && isEndweekOrLater && !hasEndweekCheckin;
+  const linkedGoal = commitment?.goal_id ? employeeGoals.find(g => g.id === commitment.goal_id) : undefined;
+  const goalProgress = employeeGoals
+    .filter(g => g.status === 'active')
+    .flatMap(goal => {
+      const progress = computeGoalProgress(goal.id, milestones, goalCommitments, goalCheckins);
+      return progress ? [{ goal, progress }] : [];
+    })
+    .slice(0, 3);
 
   async function handleToggleAction(itemId: string, currentStatus: string) {
     setUpdatingItem(itemId);
@@ -32,8 +53,8 @@ export function GoalHomeCard() {
     setUpdatingItem(null);
   }
 
-  async function handleSetCommitment(text: string) {
-    const result = await addCommitment(text);
+  async function handleSetCommitment(text: string, goalId?: string) {
+    const result = await addCommitment(text, goalId);
     if (result) toast.success('Commitment set for this week');
     else toast.error('Could not save commitment');
   }
@@ -93,11 +114,34 @@ export function GoalHomeCard() {
           </div>
         )}
 
+        {/* Employee goal progress */}
+        {goalProgress.length > 0 && (
+          <div className="mb-4 space-y-3">
+            {goalProgress.map(({ goal, progress }) => (
+              <button key={goal.id} onClick={() => navigate('/goals')} className="block w-full text-left group">
+                <div className="flex items-baseline justify-between gap-3 mb-1.5">
+                  <span className="text-sm text-boon-navy truncate group-hover:text-boon-blue transition-colors">{goal.title}</span>
+                  <span className="text-xs font-bold text-boon-navy flex-shrink-0">{progress.percent}%</span>
+                </div>
+                <GoalProgressBar percent={progress.percent} />
+                {progress.milestonesTotal > 0 && (
+                  <p className="text-[11px] text-boon-charcoal/55 mt-1">
+                    {progress.milestonesDone} of {progress.milestonesTotal} milestones
+                  </p>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Weekly commitment */}
         {!hasCommitment && (
           <div className="pt-3 border-t border-boon-charcoal/[0.08]">
             <p className="text-[11px] font-extrabold text-boon-charcoal/55 uppercase tracking-[0.18em] mb-2">This week's focus</p>
-            <CommitmentInput onSubmit={handleSetCommitment} />
+            <CommitmentInput
+              onSubmit={handleSetCommitment}
+              goals={employeeGoals.filter(g => g.status === 'active')}
+            />
           </div>
         )}
 
@@ -107,6 +151,9 @@ export function GoalHomeCard() {
               <div className="flex-1 min-w-0">
                 <p className="text-[11px] font-extrabold text-boon-charcoal/55 uppercase tracking-[0.18em] mb-1">This week's focus</p>
                 <p className="text-sm text-boon-navy">{commitment.commitment_text}</p>
+                {linkedGoal && (
+                  <p className="text-xs text-boon-charcoal/55 mt-0.5">Toward: {linkedGoal.title}</p>
+                )}
               </div>
               <div className="flex items-center gap-1.5 flex-shrink-0 pt-4">
                 <div className={`w-2.5 h-2.5 rounded-pill ${hasMidweekCheckin ? 'bg-emerald-400' : 'border-2 border-boon-charcoal/[0.08]'}`} />
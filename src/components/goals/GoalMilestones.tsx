@@ -0,0 +1,225 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { useGoalData } from '../../hooks/useGoalData';
+import { isMilestoneDone } from '../../lib/goalProgress';
+import type { GoalMilestone } from '../../lib/types';
+
+interface GoalMilestonesProps {
+  goalId: string;
+  // Completed/paused goals show their milestones without editing controls
+  readOnly?: boolean;
+}
+
+function formatDueDate(dateStr: string): string {
+  return new Date(`${dateStr}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+function todayDate(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+export function GoalMilestones({ goalId, readOnly = false }: GoalMilestonesProps) {
+  const { milestones, addMilestone, updateMilestone, removeMilestone } = useGoalData();
+  const own = milestones.filter(m => m.goal_id === goalId);
+
+  const [adding, setAdding] = useState(false);
+  const [title, setTitle] = useState('');
+  const [target, setTarget] = useState('');
+  const [unit, setUnit] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  if (readOnly && own.length === 0) return null;
+
+  function resetForm() {
+    setTitle('');
+    setTarget('');
+    setUnit('');
+    setDueDate('');
+    setAdding(false);
+  }
+
+  async function handleAdd() {
+    if (!title.trim() || saving) return;
+    const targetValue = target ? Number(target) : undefined;
+    if (targetValue !== undefined && (!Number.isFinite(targetValue) || targetValue <= 0)) {
+      toast.error('Target should be a number above zero');
+      return;
+    }
+
+    setSaving(true);
+    const created = await addMilestone(goalId, {
+      title: title.trim(),
+      targetValue,
+      unit: unit.trim() || undefined,
+      dueDate: dueDate || undefined,
+    });
+    setSaving(false);
+
+    if (created) resetForm();
+    else toast.error('Could not add milestone');
+  }
+
+  // Reaching the target completes a measurable milestone; dropping below
+  // it reopens it
+  async function handleSetValue(milestone: GoalMilestone, value: number) {
+    if (!Number.isFinite(value) || value < 0) return;
+    const reached = milestone.target_value !== null && value >= milestone.target_value;
+    setUpdatingId(milestone.id);
+    const success = await updateMilestone(milestone.id, {
+      current_value: value,
+      completed_at: reached ? (milestone.completed_at || new Date().toISOString()) : null,
+    });
+    setUpdatingId(null);
+    if (!success) toast.error('Could not update milestone');
+  }
+
+  async function handleToggle(milestone: GoalMilestone) {
+    const done = isMilestoneDone(milestone);
+    setUpdatingId(milestone.id);
+    const success = await updateMilestone(milestone.id, {
+      completed_at: done ? null : new Date().toISOString(),
+      ...(milestone.target_value !== null
+        ? { current_value: done ? Math.max(0, Math.min(milestone.current_value, milestone.target_value - 1)) : milestone.target_value }
+        : {}),
+    });
+    setUpdatingId(null);
+    if (!success) toast.error('Could not update milestone');
+  }
+
+  async function handleRemove(milestoneId: string) {
+    setUpdatingId(milestoneId);
+    const success = await removeMilestone(milestoneId);
+    setUpdatingId(null);
+    if (!success) toast.error('Could not remove milestone');
+  }
+
+  const today = todayDate();
+  const inputClass = 'px-3 py-1.5 rounded-btn border border-boon-charcoal/[0.08] bg-white text-xs text-boon-navy placeholder:text-boon-charcoal/40 focus:outline-none focus:ring-2 focus:ring-boon-blue/20 focus:border-boon-blue';
+
+  return (
+    <div className="mt-3">
+      {own.length > 0 && (
+        <ul className="space-y-2">
+          {own.map(milestone => {
+            const done = isMilestoneDone(milestone);
+            const overdue = !done && milestone.due_date !== null && milestone.due_date < today;
+            const isUpdating = updatingId === milestone.id;
+
+            return (
+              <li key={milestone.id} className={`flex items-center gap-3 ${isUpdating ? 'opacity-50' : ''}`}>
+                <input
+                  type="checkbox"
+                  checked={done}
+                  disabled={readOnly || isUpdating}
+                  onChange={() => handleToggle(milestone)}
+                  className="w-4 h-4 rounded border-boon-charcoal/[0.08] text-boon-blue accent-boon-blue focus:ring-boon-blue flex-shrink-0"
+                />
+                <div className="flex-1 min-w-0">
+                  <p className={`text-xs text-boon-navy ${done ? 'line-through text-boon-charcoal/55' : ''}`}>{milestone.title}</p>
+                  {milestone.due_date && (
+                    <p className={`text-[11px] ${overdue ? 'text-boon-coral font-semibold' : 'text-boon-charcoal/55'}`}>
+                      {overdue ? 'Overdue · ' : 'Due '}{formatDueDate(milestone.due_date)}
+                    </p>
+                  )}
+                </div>
+                {milestone.target_value !== null && (
+                  <div className="flex items-center gap-1 text-[11px] text-boon-charcoal/55 flex-shrink-0">
+                    {readOnly ? (
+                      <span className="font-semibold text-boon-navy">{milestone.current_value}</span>
+                    ) : (
+                      <input
+                        type="number"
+                        min={0}
+                        defaultValue={milestone.current_value}
+                        key={milestone.current_value}
+                        disabled={isUpdating}
+                        onBlur={e => {
+                          const value = Number(e.target.value);
+                          if (value !== milestone.current_value) handleSetValue(milestone, value);
+                        }}
+                        className="w-12 px-1.5 py-0.5 rounded-btn border border-boon-charcoal/[0.08] text-right text-boon-navy focus:outline-none focus:border-boon-blue"
+                        aria-label={`Progress on ${milestone.title}`}
+                      />
+                    )}
+                    <span>/ {milestone.target_value}{milestone.unit ? ` ${milestone.unit}` : ''}</span>
+                  </div>
+                )}
+                {!readOnly && (
+                  <button
+                    onClick={() => handleRemove(milestone.id)}
+                    disabled={isUpdating}
+                    className="text-boon-charcoal/40 hover:text-boon-coral transition-colors flex-shrink-0"
+                    aria-label={`Remove ${milestone.title}`}
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {!readOnly && (adding ? (
+        <div className="mt-3 space-y-2">
+          <input
+            type="text"
+            value={title}
+            onChange={e => setTitle(e.target.value)}
+            placeholder="Milestone, e.g., Hold a skip-level with each team"
+            className={`${inputClass} w-full`}
+            autoFocus
+          />
+          <div className="flex flex-wrap gap-2">
+            <input
+              type="number"
+              min={1}
+              value={target}
+              onChange={e => setTarget(e.target.value)}
+              placeholder="Target (optional)"
+              className={`${inputClass} w-32`}
+            />
+            <input
+              type="text"
+              value={unit}
+              onChange={e => setUnit(e.target.value)}
+              placeholder="Unit, e.g., meetings"
+              className={`${inputClass} w-36`}
+            />
+            <input
+              type="date"
+              value={dueDate}
+              onChange={e => setDueDate(e.target.value)}
+              className={inputClass}
+              aria-label="Due date"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <button onClick={resetForm} disabled={saving} className="px-3 py-1.5 text-xs font-bold text-boon-charcoal/55 hover:text-boon-navy">
+              Cancel
+            </button>
+            <button
+              onClick={handleAdd}
+              disabled={saving || !title.trim()}
+              className="px-4 py-1.5 bg-boon-blue text-white rounded-btn font-bold text-xs hover:bg-boon-darkBlue transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Adding...' : 'Add'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setAdding(true)}
+          className="mt-2 text-xs font-semibold text-boon-charcoal/55 hover:text-boon-blue transition-colors"
+        >
+          + Add milestone
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+interface GoalProgressBarProps {
+  percent: number;
+  className?: string;
+}
+
+export function GoalProgressBar({ percent, className = '' }: GoalProgressBarProps) {
+  const width = Math.max(0, Math.min(percent, 100));
+  return (
+    <div
+      className={`h-1.5 w-full bg-boon-charcoal/[0.08] rounded-pill overflow-hidden ${className}`}
+      role="progressbar"
+      aria-valuenow={width}
+      aria-valuemin={0}
+      aria-valuemax={100}
+    >
+      <div
+        className={`h-full rounded-pill transition-all ${width >= 100 ? 'bg-boon-success' : 'bg-boon-blue'}`}
+        style={{ width: `${width}%` }}
+      />
+    </div>
+  );
+}
@@ -3,9 +3,15 @@ import { useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
 import { useGoalData } from '../../hooks/useGoalData';
 import { usePortalData } from '../ProtectedLayout';
-import { updateActionItemStatus } from '../../lib/dataFetcher';
+import { updateActionItemStatus, stopActionItemRecurrence, confirmActionItemRelevant } from '../../lib/dataFetcher';
 import { updateActionItemNote } from '../../lib/fetchers/goalFetcher';
 import { ResourceSuggestion } from '../ResourceSuggestion';
+import { StreakCard } from '../StreakCard';
+import { ActionItemForm, RECURRENCE_LABELS } from '../ActionItemForm';
+import { EmployeeGoalsPanel } from './EmployeeGoalsPanel';
+import { GoalProgressBar } from './GoalProgressBar';
+import { computeGoalProgress, buildGoalProgressTrend, type GoalTrendPoint } from '../../lib/goalProgress';
+import { getActionItemDue, localDateString, needsRelevanceCheck } from '../../lib/actionItemDue';
 import { SCENARIOS } from '../../data/scenarios';
 
 function findMatchingScenario(actionText: string) {
@@ -19,9 +25,17 @@ function formatDate(dateStr: string): string {
   return new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
 }
 
+function trendPointLabel(point: GoalTrendPoint): string {
+  const rating = point.rating === null ? 'no check-in' : `rated ${point.rating}/5`;
+  const milestones = point.milestones_done > 0
+    ? `, ${point.milestones_done} milestone${point.milestones_done === 1 ? '' : 's'} reached`
+    : '';
+  return `Week of ${formatDate(`${point.week_start}T00:00:00`)}: ${rating}${milestones}`;
+}
+
 export default function GoalTracker() {
   const navigate = useNavigate();
-  const { reloadActionItems, sessions } = usePortalData();
+  const { reloadActionItems, sessions, employee } = usePortalData();
   const {
     loading,
     coachingGoal,
@@ -31,6 +45,10 @@ export default function GoalTracker() {
     selfProgress,
     updateReflection,
     updateSelfProgress,
+    employeeGoals,
+    goalCommitments,
+    goalCheckins,
+    milestones,
   } = useGoalData();
 
   const [updatingItem, setUpdatingItem] = useState<string | null>(null);
@@ -80,6 +98,32 @@ export default function GoalTracker() {
     setUpdatingItem(null);
   }
 
+  async function handleStopRepeating(itemId: string) {
+    setUpdatingItem(itemId);
+    const success = await stopActionItemRecurrence(itemId);
+    if (success) {
+      toast('This item will no longer repeat');
+      reloadActionItems();
+    } else {
+      toast.error('Could not update action item');
+    }
+    setUpdatingItem(null);
+  }
+
+  async function handleRelevance(itemId: string, keep: boolean) {
+    setUpdatingItem(itemId);
+    const success = keep
+      ? await confirmActionItemRelevant(itemId)
+      : await updateActionItemStatus(itemId, 'dismissed');
+    if (success) {
+      toast(keep ? 'Kept on your list' : 'Removed from your list');
+      reloadActionItems();
+    } else {
+      toast.error('Could not update action item');
+    }
+    setUpdatingItem(null);
+  }
+
   if (loading) {
     return (
       <div className="max-w-6xl mx-auto animate-fade-in">
@@ -92,6 +136,142 @@ export default function GoalTracker() {
     );
   }
 
+  const goalTitles = new Map(employeeGoals.map(g => [g.id, g.title]));
+  const today = localDateString(new Date());
+
+  // Shared by both layouts: employees without a coach-set goal can still
+  // keep and add their own action items
+  const actionItemsList = (
+    <>
+      {pendingActionItems.length > 0 && (
+        <div className="space-y-3 mb-3">
+          {pendingActionItems.map(item => {
+            const isCompleted = item.status === 'completed';
+            const isUpdating = updatingItem === item.id;
+            const matchingScenario = findMatchingScenario(item.action_text);
+            const due = getActionItemDue(item, today);
+
+            return (
+              <div
+                key={item.id}
+                className={`flex items-start gap-4 p-4 bg-boon-offWhite rounded-btn border border-boon-charcoal/[0.08] hover:shadow-md transition-all ${
+                  isCompleted ? 'opacity-50' : ''
+                } ${isUpdating ? 'opacity-50' : ''}`}
+              >
+                <button
+                  onClick={() => handleToggleAction(item.id, item.status)}
+                  disabled={isUpdating}
+                  className="mt-1 w-5 h-5 rounded-pill border-2 border-boon-charcoal/[0.08] hover:border-blue-500 hover:bg-boon-blue/10 transition-all flex-shrink-0 flex items-center justify-center group"
+                >
+                  <svg className="w-2.5 h-2.5 text-transparent group-hover:text-boon-blue transition-colors" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+                  </svg>
+                </button>
+                <div className="flex-1">
+                  <p className={`text-sm text-boon-charcoal/75 leading-relaxed ${isCompleted ? 'line-through text-boon-charcoal/55' : ''}`}>
+                    {item.action_text}
+                  </p>
+                  {(item.source === 'employee' || item.recurrence || item.due_date || item.goal_id) && (
+                    <div className="flex flex-wrap items-center gap-2 mt-1 text-[11px] text-boon-charcoal/55">
+                      {item.source === 'employee' && <span className="font-semibold">Yours</span>}
+                      {item.recurrence && (
+                        <span className="px-2 py-0.5 rounded-pill bg-boon-blue/10 text-boon-blue font-semibold">{RECURRENCE_LABELS[item.recurrence]}</span>
+                      )}
+                      {item.due_date && (
+                        due?.state === 'overdue'
+                          ? <span className="font-semibold text-boon-coral">Overdue · {formatDate(`${item.due_date}T00:00:00`)}</span>
+                          : <span>{due?.state === 'due_today' ? 'Due today' : `Due ${formatDate(`${item.due_date}T00:00:00`)}`}</span>
+                      )}
+                      {item.goal_id && goalTitles.get(item.goal_id) && <span>Toward: {goalTitles.get(item.goal_id)}</span>}
+                      {item.recurrence && !isCompleted && (
+                        <button
+                          onClick={() => handleStopRepeating(item.id)}
+                          disabled={isUpdating}
+                          className="font-medium hover:underline"
+                        >
+                          Stop repeating
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  {!isCompleted && needsRelevanceCheck(item) && (
+                    <div className="flex flex-wrap items-center gap-3 mt-2 text-[11px]">
+                      <span className="text-boon-charcoal/75 font-medium">Still relevant?</span>
+                      <button
+                        onClick={() => handleRelevance(item.id, true)}
+                        disabled={isUpdating}
+                        className="text-boon-blue font-semibold hover:underline"
+                      >
+                        Keep it
+                      </button>
+                      <button
+                        onClick={() => handleRelevance(item.id, false)}
+                        disabled={isUpdating}
+                        className="text-boon-charcoal/55 font-semibold hover:underline"
+                      >
+                        Remove it
+                      </button>
+                    </div>
+                  )}
+                  {matchingScenario && !isCompleted && (
+                    <button
+                      onClick={() => navigate('/practice')}
+                      className="mt-1 text-xs font-semibold text-boon-purple hover:text-boon-purple flex items-center gap-1"
+                    >
+                      Practice this
+                      <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                      </svg>
+                    </button>
+                  )}
+                  {!isCompleted && (
+                    <div className="mt-1">
+                      {expandedNoteId === item.id ? (
+                        <div className="flex gap-2 mt-1">
+                          <input
+                            type="text"
+                            value={noteTexts[item.id] ?? item.employee_note ?? ''}
+                            onChange={(e) => setNoteTexts(prev => ({ ...prev, [item.id]: e.target.value }))}
+                            placeholder="Add a note..."
+                            className="flex-1 px-3 py-1.5 text-xs rounded-btn border border-boon-charcoal/[0.08] focus:outline-none focus:border-blue-500"
+                            onBlur={async () => {
+                              const note = noteTexts[item.id];
+                              if (note !== undefined) {
+                                setSavingNote(item.id);
+                                await updateActionItemNote(item.id, note);
+                                setSavingNote(null);
+                              }
+                              setExpandedNoteId(null);
+                            }}
+                            autoFocus
+                          />
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => setExpandedNoteId(item.id)}
+                          className="text-[10px] text-boon-charcoal/55 hover:text-boon-charcoal/55 font-medium"
+                        >
+                          {item.employee_note ? `\u{1F4DD} ${item.employee_note}` : '+ Add note'}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      {employee?.company_email && (
+        <ActionItemForm
+          email={employee.company_email}
+          goals={employeeGoals.filter(g => g.status === 'active')}
+          onCreated={reloadActionItems}
+        />
+      )}
+    </>
+  );
+
   if (!coachingGoal) {
     return (
       <div className="max-w-6xl mx-auto space-y-8 animate-fade-in">
@@ -109,10 +289,24 @@ export default function GoalTracker() {
             After each coaching session, your coach will set goals and action items for you. This page helps you stay on track between sessions.
           </p>
         </section>
+        <EmployeeGoalsPanel />
+        <section className="bg-white rounded-card p-6 md:p-8">
+          <span className="text-[10px] font-bold uppercase tracking-widest text-boon-charcoal/55 mb-4 block">Your Action Items</span>
+          {actionItemsList}
+        </section>
       </div>
     );
   }
 
+  // Weekly trend for each active employee goal that has check-ins or milestones
+  const goalTrends = employeeGoals
+    .filter(g => g.status === 'active')
+    .flatMap(goal => {
+      const progress = computeGoalProgress(goal.id, milestones, goalCommitments, goalCheckins);
+      if (!progress) return [];
+      return [{ goal, progress, trend: buildGoalProgressTrend(goal.id, milestones, goalCommitments, goalCheckins) }];
+    });
+
   const recentCompleted = sessions.filter(s => s.status === 'Completed').slice(0, 3);
   const sessionThemes = {
     leadership: recentCompleted.some(s => !!s.leadership_management_skills),
@@ -130,7 +324,7 @@ export default function GoalTracker() {
 
       {/* Two-column grid */}
       <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
-        {/* ── Left column: Goal card + Reflection ── */}
+        {/* ── Left column: Goal card + Reflection + employee goals ── */}
         <div className="lg:col-span-3 space-y-8">
           {/* Goal card with blue header */}
           <section className="bg-white rounded-card overflow-hidden">
@@ -188,86 +382,11 @@ export default function GoalTracker() {
                 </div>
               </div>
 
-              {/* Action Items */}
-              {pendingActionItems.length > 0 && (
-                <div>
-                  <span className="text-[10px] font-bold uppercase tracking-widest text-boon-charcoal/55 mb-4 block">Action Items</span>
-                  <div className="space-y-3">
-                    {pendingActionItems.map(item => {
-                      const isCompleted = item.status === 'completed';
-                      const isUpdating = updatingItem === item.id;
-                      const matchingScenario = findMatchingScenario(item.action_text);
-
-                      return (
-                        <div
-                          key={item.id}
-                          className={`flex items-start gap-4 p-4 bg-boon-offWhite rounded-btn border border-boon-charcoal/[0.08] hover:shadow-md transition-all ${
-                            isCompleted ? 'opacity-50' : ''
-                          } ${isUpdating ? 'opacity-50' : ''}`}
-                        >
-                          <button
-                            onClick={() => handleToggleAction(item.id, item.status)}
-                            disabled={isUpdating}
-                            className="mt-1 w-5 h-5 rounded-pill border-2 border-boon-charcoal/[0.08] hover:border-blue-500 hover:bg-boon-blue/10 transition-all flex-shrink-0 flex items-center justify-center group"
-                          >
-                            <svg className="w-2.5 h-2.5 text-transparent group-hover:text-boon-blue transition-colors" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
-                            </svg>
-                          </button>
-                          <div className="flex-1">
-                            <p className={`text-sm text-boon-charcoal/75 leading-relaxed ${isCompleted ? 'line-through text-boon-charcoal/55' : ''}`}>
-                              {item.action_text}
-                            </p>
-                            {matchingScenario && !isCompleted && (
-                              <button
-                                onClick={() => navigate('/practice')}
-                                className="mt-1 text-xs font-semibold text-boon-purple hover:text-boon-purple flex items-center gap-1"
-                              >
-                                Practice this
-                                <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-                                </svg>
-                              </button>
-                            )}
-                            {!isCompleted && (
-                              <div className="mt-1">
-                                {expandedNoteId === item.id ? (
-                                  <div className="flex gap-2 mt-1">
-                                    <input
-                                      type="text"
-                                      value={noteTexts[item.id] ?? item.employee_note ?? ''}
-                                      onChange={(e) => setNoteTexts(prev => ({ ...prev, [item.id]: e.target.value }))}
-                                      placeholder="Add a note..."
-                                      className="flex-1 px-3 py-1.5 text-xs rounded-btn border border-boon-charcoal/[0.08] focus:outline-none focus:border-blue-500"
-                                      onBlur={async () => {
-                                        const note = noteTexts[item.id];
-                                        if (note !== undefined) {
-                                          setSavingNote(item.id);
-                                          await updateActionItemNote(item.id, note);
-                                          setSavingNote(null);
-                                        }
-                                        setExpandedNoteId(null);
-                                      }}
-                                      autoFocus
-                                    />
-                                  </div>
-                                ) : (
-                                  <button
-                                    onClick={() => setExpandedNoteId(item.id)}
-                                    className="text-[10px] text-boon-charcoal/55 hover:text-boon-charcoal/55 font-medium"
-                                  >
-                                    {item.employee_note ? `\u{1F4DD} ${item.employee_note}` : '+ Add note'}
-                                  </button>
-                                )}
-                              </div>
-                            )}
-                          </div>
-                        </div>
-                      );
-                    })}
-                  </div>
-                </div>
-              )}
+              {/* Action Items: coach-set and the employee's own */}
+              <div>
+                <span className="text-[10px] font-bold uppercase tracking-widest text-boon-charcoal/55 mb-4 block">Action Items</span>
+                {actionItemsList}
+              </div>
 
               {/* Resource suggestion */}
               <ResourceSuggestion sessionThemes={sessionThemes} label="Resource for this goal" />
@@ -312,10 +431,56 @@ export default function GoalTracker() {
               </button>
             </div>
           </section>
+
+          <EmployeeGoalsPanel />
         </div>
 
         {/* ── Right column: Goal Evolution ── */}
         <div className="lg:col-span-2 space-y-8">
+          <StreakCard showEmpty />
+
+          {/* Goal progress trend: weekly check-in ratings + milestones reached */}
+          {goalTrends.length > 0 && (
+            <section className="bg-white rounded-card p-6">
+              <div className="flex items-center gap-3 mb-6">
+                <div className="w-10 h-10 bg-boon-blue/10 rounded-btn flex items-center justify-center">
+                  <svg className="w-5 h-5 text-boon-blue" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" />
+                  </svg>
+                </div>
+                <span className="text-sm font-bold text-boon-blue uppercase tracking-widest">Goal Progress</span>
+              </div>
+              <div className="space-y-6">
+                {goalTrends.map(({ goal, progress, trend }) => (
+                  <div key={goal.id}>
+                    <div className="flex items-baseline justify-between gap-3 mb-1.5">
+                      <p className="text-sm font-semibold text-boon-navy truncate">{goal.title}</p>
+                      <span className="text-xs font-bold text-boon-navy flex-shrink-0">{progress.percent}%</span>
+                    </div>
+                    <GoalProgressBar percent={progress.percent} />
+                    {trend.length > 1 && (
+                      <div className="flex items-end gap-1.5 h-12 mt-4" aria-label="Weekly check-in ratings">
+                        {trend.map(point => (
+                          <div key={point.week_start} className="flex-1 flex flex-col items-center justify-end h-full" title={trendPointLabel(point)}>
+                            <div
+                              className={`w-full rounded-t-sm ${point.rating === null ? 'bg-boon-charcoal/[0.08]' : 'bg-boon-blue/70'}`}
+                              style={{ height: `${point.rating === null ? 8 : (point.rating / 5) * 100}%` }}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    <p className="text-[11px] text-boon-charcoal/55 mt-2">
+                      {progress.recentRating !== null && `Recent check-ins average ${progress.recentRating}/5`}
+                      {progress.recentRating !== null && progress.milestonesTotal > 0 && ' · '}
+                      {progress.milestonesTotal > 0 && `${progress.milestonesDone} of ${progress.milestonesTotal} milestones`}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
           {/* Goal Evolution Timeline */}
           {goalHistory.length > 1 && (
             <section className="bg-white rounded-card overflow-hidden">
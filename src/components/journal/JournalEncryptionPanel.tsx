@@ -0,0 +1,271 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { useJournalVault } from '../../hooks/useJournalVault';
+import { MIN_PASSPHRASE_LENGTH } from '../../lib/journalCrypto';
+
+const LOST_PASSPHRASE_WARNING =
+  "Your passphrase never leaves this browser and Boon doesn't store it. If you forget it, your encrypted entries can't be recovered by you, your coach or Boon.";
+
+const fieldClass = 'w-full bg-boon-offWhite border border-boon-charcoal/[0.08] rounded-btn px-3 py-2 text-sm text-boon-navy placeholder-boon-charcoal/55 focus:outline-none focus:ring-2 focus:ring-boon-blue/20 focus:border-boon-blue';
+
+function LockIcon() {
+  return (
+    <svg className="w-4 h-4 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 10.5V6.75a4.5 4.5 0 10-9 0v3.75m-.75 11.25h10.5a2.25 2.25 0 002.25-2.25v-6.75a2.25 2.25 0 00-2.25-2.25H6.75a2.25 2.25 0 00-2.25 2.25v6.75a2.25 2.25 0 002.25 2.25z" />
+    </svg>
+  );
+}
+
+/**
+ * Opt-in end-to-end encryption for the journal: turn it on, unlock it once
+ * per visit, lock it again or turn it off.
+ */
+export function JournalEncryptionPanel() {
+  const { status, enable, unlock, lock, disable, reset } = useJournalVault();
+  const [open, setOpen] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [acknowledged, setAcknowledged] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showForgot, setShowForgot] = useState(false);
+
+  function clearForm() {
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setAcknowledged(false);
+    setError(null);
+  }
+
+  async function handleEnable() {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setError("Passphrases don't match.");
+      return;
+    }
+    setBusy(true);
+    const success = await enable(passphrase);
+    setBusy(false);
+    if (success) {
+      clearForm();
+      setOpen(false);
+      toast.success('Journal encryption is on');
+    } else {
+      setError("Couldn't turn on encryption. Please try again.");
+    }
+  }
+
+  async function handleUnlock() {
+    setBusy(true);
+    const success = await unlock(passphrase);
+    setBusy(false);
+    if (success) {
+      clearForm();
+    } else {
+      setError("That passphrase doesn't match.");
+    }
+  }
+
+  async function handleDisable() {
+    if (!confirm('Turn off encryption? Your entries will be decrypted and stored the way they were before.')) return;
+    setBusy(true);
+    const success = await disable();
+    setBusy(false);
+    if (success) toast.success('Journal encryption is off');
+    else toast.error("Couldn't turn off encryption. Please try again.");
+  }
+
+  async function handleReset() {
+    if (!confirm('Delete all encrypted entries and turn encryption off? This cannot be undone.')) return;
+    setBusy(true);
+    const success = await reset();
+    setBusy(false);
+    if (success) {
+      clearForm();
+      setShowForgot(false);
+      toast.success('Encrypted entries deleted');
+    } else {
+      toast.error("Couldn't delete your encrypted entries. Please try again.");
+    }
+  }
+
+  if (status === 'loading') return null;
+
+  if (status === 'unlocked') {
+    return (
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-boon-charcoal/55">
+        <span className="flex items-center gap-1.5 text-boon-purple font-semibold">
+          <LockIcon />
+          Private entries are end-to-end encrypted
+        </span>
+        <button onClick={lock} className="hover:text-boon-blue transition-colors">
+          Lock now
+        </button>
+        <button onClick={handleDisable} disabled={busy} className="hover:text-boon-blue transition-colors disabled:opacity-50">
+          {busy ? 'Decrypting...' : 'Turn off encryption'}
+        </button>
+      </div>
+    );
+  }
+
+  if (status === 'locked') {
+    return (
+      <div className="bg-white rounded-card p-6 border border-boon-charcoal/[0.08] shadow-sm">
+        <div className="flex items-center gap-2 text-boon-navy mb-1">
+          <LockIcon />
+          <h2 className="font-bold">Your journal is encrypted</h2>
+        </div>
+        <p className="text-sm text-boon-charcoal/55 mb-4">
+          Enter your passphrase to read and write reflections on this device.
+        </p>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleUnlock();
+          }}
+          className="flex flex-col sm:flex-row gap-2"
+        >
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => {
+              setPassphrase(e.target.value);
+              setError(null);
+            }}
+            placeholder="Passphrase"
+            autoComplete="current-password"
+            className={fieldClass}
+            aria-label="Journal passphrase"
+          />
+          <button
+            type="submit"
+            disabled={!passphrase || busy}
+            className="bg-boon-blue text-white font-semibold text-sm rounded-btn px-5 py-2 hover:bg-boon-darkBlue disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {busy ? 'Unlocking...' : 'Unlock'}
+          </button>
+        </form>
+        {error && <p className="text-xs text-boon-error mt-2">{error}</p>}
+
+        <button
+          onClick={() => setShowForgot(!showForgot)}
+          className="mt-4 text-xs text-boon-charcoal/55 hover:text-boon-blue transition-colors"
+        >
+          Forgot your passphrase?
+        </button>
+        {showForgot && (
+          <div className="mt-2 bg-boon-offWhite rounded-btn p-4 text-sm text-boon-charcoal/75 space-y-3">
+            <p>{LOST_PASSPHRASE_WARNING}</p>
+            <p>
+              You can start over: your encrypted entries are deleted and encryption is turned off.
+              Entries shared with your coach are kept.
+            </p>
+            <button
+              onClick={handleReset}
+              disabled={busy}
+              className="text-sm font-semibold text-boon-error hover:underline disabled:opacity-50"
+            >
+              Delete encrypted entries and start over
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="flex items-center gap-1.5 text-xs text-boon-charcoal/55 hover:text-boon-blue transition-colors"
+      >
+        <LockIcon />
+        Encrypt my private entries with a passphrase
+      </button>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-card p-6 border border-boon-charcoal/[0.08] shadow-sm">
+      <div className="flex items-center gap-2 text-boon-navy mb-1">
+        <LockIcon />
+        <h2 className="font-bold">Encrypt your private journal</h2>
+      </div>
+      <div className="text-sm text-boon-charcoal/75 space-y-2 mb-4">
+        <p>
+          Reflections you don&apos;t share are encrypted in your browser before they&apos;re saved, so
+          only someone with your passphrase can read them. You&apos;ll enter it once each visit.
+        </p>
+        <p className="text-boon-charcoal/55">
+          Entries you share with your coach are stored readable so your coach can see them. Prompts,
+          tags, mood and energy ratings and dates aren&apos;t encrypted. Reflections saved from Slack or Teams are encrypted the
+          next time you unlock your journal.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => {
+            setPassphrase(e.target.value);
+            setError(null);
+          }}
+          placeholder={`Passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)`}
+          autoComplete="new-password"
+          className={fieldClass}
+          aria-label="New journal passphrase"
+        />
+        <input
+          type="password"
+          value={confirmPassphrase}
+          onChange={(e) => {
+            setConfirmPassphrase(e.target.value);
+            setError(null);
+          }}
+          placeholder="Confirm passphrase"
+          autoComplete="new-password"
+          className={fieldClass}
+          aria-label="Confirm journal passphrase"
+        />
+      </div>
+
+      <label className="flex items-start gap-2 mt-4 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={acknowledged}
+          onChange={(e) => setAcknowledged(e.target.checked)}
+          className="w-4 h-4 mt-0.5 rounded-md border-boon-charcoal/[0.08] accent-boon-blue"
+        />
+        <span className="text-sm text-boon-charcoal/75">
+          I understand that if I forget my passphrase, my encrypted entries are lost for good.{' '}
+          <span className="text-boon-charcoal/55">{LOST_PASSPHRASE_WARNING}</span>
+        </span>
+      </label>
+
+      {error && <p className="text-xs text-boon-error mt-2">{error}</p>}
+
+      <div className="flex items-center gap-3 mt-4">
+        <button
+          onClick={handleEnable}
+          disabled={!acknowledged || !passphrase || busy}
+          className="bg-boon-blue text-white font-semibold text-sm rounded-btn px-5 py-2 hover:bg-boon-darkBlue disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {busy ? 'Encrypting...' : 'Turn on encryption'}
+        </button>
+        <button
+          onClick={() => {
+            clearForm();
+            setOpen(false);
+          }}
+          className="text-sm text-boon-charcoal/55 hover:text-boon-navy"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,14 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import type { JournalEntry as JournalEntryType } from '../../lib/fetchers/journalFetcher';
 import { useJournalData } from '../../hooks/useJournalData';
+import { mergeTags, MAX_TAGS_PER_ENTRY } from '../../lib/journalTags';
+import { ENERGY_SCALE, MOOD_SCALE } from '../../lib/journalMood';
 
 interface JournalEntryProps {
   entry: JournalEntryType;
+  // Clicking a tag filters the journal by it
+  onTagClick?: (tag: string) => void;
+  onTagsChange?: (tags: string[]) => void;
 }
 
 function formatDate(dateStr: string): string {
@@ -16,21 +21,53 @@ function formatDate(dateStr: string): string {
   });
 }
 
-export function JournalEntry({ entry }: JournalEntryProps) {
-  const { toggleShare } = useJournalData();
+export function JournalEntry({ entry, onTagClick, onTagsChange }: JournalEntryProps) {
+  const { toggleShare, updateTags } = useJournalData();
+  // Sharing and unsharing can switch the entry between encrypted and readable
+  const [current, setCurrent] = useState(entry);
   const [sharing, setSharing] = useState(false);
-  const [shared, setShared] = useState(entry.is_shared_with_coach);
+  const [tags, setTags] = useState<string[]>(entry.tags || []);
+  const [editingTags, setEditingTags] = useState(false);
+  const [tagInput, setTagInput] = useState('');
+  const [savingTags, setSavingTags] = useState(false);
+
+  // The page hands over a new object once the journal is unlocked
+  useEffect(() => {
+    setCurrent(entry);
+  }, [entry]);
+
+  const shared = current.is_shared_with_coach;
+  const encrypted = Boolean(current.encrypted_body);
+  const locked = encrypted && !current.body;
 
   async function handleToggleShare() {
+    if (!shared && encrypted && !confirm('Your coach will be able to read this entry. While shared it is stored without end-to-end encryption, and it is encrypted again if you unshare it.')) {
+      return;
+    }
     setSharing(true);
-    const newShared = !shared;
-    const success = await toggleShare(entry.id, newShared);
-    if (success) {
-      setShared(newShared);
+    const updated = await toggleShare(current, !shared);
+    if (updated) {
+      setCurrent(updated);
     }
     setSharing(false);
   }
 
+  async function saveTags(next: string[]) {
+    setSavingTags(true);
+    const success = await updateTags(entry.id, next);
+    if (success) {
+      setTags(next);
+      onTagsChange?.(next);
+    }
+    setSavingTags(false);
+  }
+
+  async function handleAddTag() {
+    const next = mergeTags(tags, tagInput.split(','));
+    setTagInput('');
+    if (next.length !== tags.length) await saveTags(next);
+  }
+
   return (
     <div className="bg-white rounded-card p-5 border border-boon-charcoal/[0.08] shadow-sm">
       <div className="flex items-center justify-between mb-3">
@@ -43,6 +80,14 @@ export function JournalEntry({ entry }: JournalEntryProps) {
               {entry.competency_area}
             </span>
           )}
+          {encrypted && (
+            <span className="text-xs bg-boon-purple/10 text-boon-purple font-medium rounded-pill px-2.5 py-0.5 flex items-center gap-1">
+              <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2.5}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 10.5V6.75a4.5 4.5 0 10-9 0v3.75m-.75 11.25h10.5a2.25 2.25 0 002.25-2.25v-6.75a2.25 2.25 0 00-2.25-2.25H6.75a2.25 2.25 0 00-2.25 2.25v6.75a2.25 2.25 0 002.25 2.25z" />
+              </svg>
+              Encrypted
+            </span>
+          )}
           {shared && (
             <span className="text-xs bg-boon-success/10 text-boon-success font-medium rounded-pill px-2.5 py-0.5 flex items-center gap-1">
               <svg width="12" height="12" viewBox="0 0 12 12" fill="none" xmlns="http://www.w3.org/2000/svg">
@@ -58,14 +103,75 @@ export function JournalEntry({ entry }: JournalEntryProps) {
         <p className="text-sm italic text-boon-charcoal/55 mb-2">{entry.prompt}</p>
       )}
 
-      <p className="text-sm text-boon-charcoal/75 leading-relaxed whitespace-pre-wrap">
-        {entry.body}
-      </p>
+      {(entry.mood || entry.energy) && (
+        <div className="flex gap-3 text-xs text-boon-charcoal/55 mb-2">
+          {entry.mood && (
+            <span>Mood {MOOD_SCALE[entry.mood - 1]?.emoji} {MOOD_SCALE[entry.mood - 1]?.label}</span>
+          )}
+          {entry.energy && (
+            <span>Energy {ENERGY_SCALE[entry.energy - 1]?.emoji} {ENERGY_SCALE[entry.energy - 1]?.label}</span>
+          )}
+        </div>
+      )}
 
-      <div className="mt-3 pt-3 border-t border-gray-50">
+      {locked ? (
+        <p className="text-sm text-boon-charcoal/55 italic">
+          Unlock your journal to read this entry.
+        </p>
+      ) : (
+        <p className="text-sm text-boon-charcoal/75 leading-relaxed whitespace-pre-wrap">
+          {current.body}
+        </p>
+      )}
+
+      {(tags.length > 0 || editingTags) && (
+        <div className="flex flex-wrap items-center gap-1.5 mt-3">
+          {tags.map((tag) => (
+            <span key={tag} className="inline-flex items-center gap-1 text-xs bg-boon-offWhite text-boon-charcoal/75 rounded-pill px-2.5 py-0.5">
+              <button
+                onClick={() => onTagClick?.(tag)}
+                disabled={!onTagClick}
+                className="hover:text-boon-blue transition-colors"
+              >
+                #{tag}
+              </button>
+              {editingTags && (
+                <button
+                  onClick={() => saveTags(tags.filter((t) => t !== tag))}
+                  disabled={savingTags}
+                  className="text-boon-charcoal/40 hover:text-boon-coral"
+                  aria-label={`Remove tag ${tag}`}
+                >
+                  ×
+                </button>
+              )}
+            </span>
+          ))}
+          {editingTags && tags.length < MAX_TAGS_PER_ENTRY && (
+            <input
+              type="text"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ',') {
+                  e.preventDefault();
+                  handleAddTag();
+                }
+              }}
+              onBlur={() => tagInput.trim() && handleAddTag()}
+              placeholder="Add a tag"
+              disabled={savingTags}
+              className="text-xs px-2 py-0.5 rounded-pill border border-boon-charcoal/[0.08] w-28 focus:outline-none focus:border-boon-blue"
+              autoFocus
+            />
+          )}
+        </div>
+      )}
+
+      <div className="mt-3 pt-3 border-t border-gray-50 flex items-center gap-4">
         <button
           onClick={handleToggleShare}
-          disabled={sharing}
+          disabled={sharing || locked}
           className="text-xs text-boon-charcoal/55 hover:text-boon-blue transition-colors disabled:opacity-50"
         >
           {sharing
@@ -74,6 +180,12 @@ export function JournalEntry({ entry }: JournalEntryProps) {
               ? 'Unshare with coach'
               : 'Share with coach'}
         </button>
+        <button
+          onClick={() => setEditingTags(!editingTags)}
+          className="text-xs text-boon-charcoal/55 hover:text-boon-blue transition-colors"
+        >
+          {editingTags ? 'Done' : tags.length > 0 ? 'Edit tags' : 'Add tags'}
+        </button>
       </div>
     </div>
   );
@@ -0,0 +1,136 @@
+import { COMPETENCY_OPTIONS } from '../../data/competencies';
+import {
+  EMPTY_JOURNAL_FILTERS,
+  hasJournalFilters,
+  type JournalFilters,
+} from '../../lib/fetchers/journalFetcher';
+import type { TagCount } from '../../lib/journalTags';
+
+interface JournalFilterBarProps {
+  filters: JournalFilters;
+  onChange: (filters: JournalFilters) => void;
+  tags: TagCount[];
+  // Prompts the employee has answered
+  prompts: string[];
+}
+
+// Tags shown before "more"
+const VISIBLE_TAGS = 12;
+
+export function JournalFilterBar({ filters, onChange, tags, prompts }: JournalFilterBarProps) {
+  const update = (changes: Partial<JournalFilters>) => onChange({ ...filters, ...changes });
+
+  function toggleTag(tag: string) {
+    update({
+      tags: filters.tags.includes(tag)
+        ? filters.tags.filter((t) => t !== tag)
+        : [...filters.tags, tag],
+    });
+  }
+
+  // Selected tags stay visible even when they aren't among the most used
+  const shownTags = [
+    ...tags.slice(0, VISIBLE_TAGS),
+    ...tags.slice(VISIBLE_TAGS).filter((t) => filters.tags.includes(t.tag)),
+  ];
+
+  const fieldClass = 'bg-white border border-boon-charcoal/[0.08] rounded-btn px-3 py-2 text-sm text-boon-navy focus:outline-none focus:ring-2 focus:ring-boon-blue/20 focus:border-boon-blue';
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <svg className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-boon-charcoal/40" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-4.35-4.35M11 18a7 7 0 100-14 7 7 0 000 14z" />
+        </svg>
+        <input
+          type="search"
+          value={filters.query}
+          onChange={(e) => update({ query: e.target.value })}
+          placeholder='Search your reflections, e.g. "skip-level" or Priya'
+          className={`${fieldClass} w-full pl-9 placeholder-boon-charcoal/55`}
+          aria-label="Search journal"
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <select
+          value={filters.competencyArea}
+          onChange={(e) => update({ competencyArea: e.target.value })}
+          className={fieldClass}
+          aria-label="Competency area"
+        >
+          <option value="">All competencies</option>
+          {COMPETENCY_OPTIONS.map((opt) => (
+            <option key={opt} value={opt}>{opt}</option>
+          ))}
+        </select>
+        <select
+          value={filters.prompt}
+          onChange={(e) => update({ prompt: e.target.value })}
+          className={`${fieldClass} max-w-[16rem]`}
+          aria-label="Prompt"
+        >
+          <option value="">All prompts</option>
+          {prompts.map((prompt) => (
+            <option key={prompt} value={prompt}>{prompt}</option>
+          ))}
+        </select>
+        <select
+          value={filters.shared}
+          onChange={(e) => update({ shared: e.target.value as JournalFilters['shared'] })}
+          className={fieldClass}
+          aria-label="Shared with coach"
+        >
+          <option value="all">Shared and private</option>
+          <option value="shared">Shared with coach</option>
+          <option value="private">Private</option>
+        </select>
+        <input
+          type="date"
+          value={filters.from}
+          max={filters.to || undefined}
+          onChange={(e) => update({ from: e.target.value })}
+          className={fieldClass}
+          aria-label="From date"
+        />
+        <input
+          type="date"
+          value={filters.to}
+          min={filters.from || undefined}
+          onChange={(e) => update({ to: e.target.value })}
+          className={fieldClass}
+          aria-label="To date"
+        />
+        {hasJournalFilters(filters) && (
+          <button
+            onClick={() => onChange(EMPTY_JOURNAL_FILTERS)}
+            className="px-3 py-2 text-xs font-bold text-boon-charcoal/55 hover:text-boon-navy"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {shownTags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {shownTags.map(({ tag, count }) => {
+            const active = filters.tags.includes(tag);
+            return (
+              <button
+                key={tag}
+                onClick={() => toggleTag(tag)}
+                className={`text-xs rounded-pill px-2.5 py-0.5 transition-colors ${
+                  active
+                    ? 'bg-boon-blue text-white'
+                    : 'bg-boon-offWhite text-boon-charcoal/75 hover:text-boon-blue'
+                }`}
+              >
+                #{tag} <span className={active ? 'text-white/70' : 'text-boon-charcoal/40'}>{count}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,26 @@
-import { useMemo } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useJournalData } from '../../hooks/useJournalData';
+import { useJournalVault } from '../../hooks/useJournalVault';
 import { usePortalData } from '../ProtectedLayout';
 import { JournalPromptCard } from './JournalPromptCard';
 import { JournalEntry } from './JournalEntry';
-import type { JournalEntry as JournalEntryType } from '../../lib/fetchers/journalFetcher';
-import { JOURNAL_PROMPTS } from '../../lib/fetchers/journalFetcher';
+import { JournalFilterBar } from './JournalFilterBar';
+import { JournalEncryptionPanel } from './JournalEncryptionPanel';
+import type { JournalEntry as JournalEntryType, JournalFilters } from '../../lib/fetchers/journalFetcher';
+import {
+  EMPTY_JOURNAL_FILTERS,
+  fetchAnsweredPrompts,
+  fetchJournalTags,
+  hasJournalFilters,
+  matchesJournalQuery,
+  searchJournalEntries,
+} from '../../lib/fetchers/journalFetcher';
+import { summarizeTags, type TagCount } from '../../lib/journalTags';
+
+// Wait for typing to pause before searching
+const SEARCH_DEBOUNCE_MS = 300;
+// Encrypted journals are searched in the browser over this many entries
+const ENCRYPTED_SEARCH_LIMIT = 500;
 
 function getWeekLabel(dateStr: string): string {
   const date = new Date(dateStr);
@@ -30,10 +46,79 @@ function groupByWeek(entries: JournalEntryType[]): { weekLabel: string; entries:
 }
 
 export default function JournalPage() {
-  const { entries, loading } = useJournalData();
-  const { sessions } = usePortalData();
+  const { entries, loading, locked } = useJournalData();
+  const { status: vaultStatus, revision: vaultRevision, decryptEntries } = useJournalVault();
+  const { sessions, employee } = usePortalData();
+  const email = employee?.company_email;
+
+  const [filters, setFilters] = useState<JournalFilters>(EMPTY_JOURNAL_FILTERS);
+  // null while no filter is set: the page shows the latest entries
+  const [results, setResults] = useState<JournalEntryType[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [tags, setTags] = useState<TagCount[]>([]);
+  const [tagsVersion, setTagsVersion] = useState(0);
+  const [answeredPrompts, setAnsweredPrompts] = useState<string[]>([]);
+  const filtering = hasJournalFilters(filters);
+
+  useEffect(() => {
+    if (!email || !filtering) {
+      setResults(null);
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      const query = filters.query.trim();
+      // The database only indexes readable entries, so with encryption on the
+      // other filters run there and the text is matched after decrypting
+      const found = vaultStatus !== 'off' && query
+        ? (await decryptEntries(await searchJournalEntries(email, { ...filters, query: '' }, ENCRYPTED_SEARCH_LIMIT)))
+            .filter((entry) => matchesJournalQuery(entry.body, query))
+        : await decryptEntries(await searchJournalEntries(email, filters));
+      if (!cancelled) {
+        setResults(found);
+        setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [email, filters, filtering, vaultStatus, vaultRevision, decryptEntries]);
 
-  const groupedEntries = useMemo(() => groupByWeek(entries), [entries]);
+  // Reload the tag list when entries are added or retagged
+  useEffect(() => {
+    if (!email) return;
+    let cancelled = false;
+    fetchJournalTags(email).then((rows) => {
+      if (!cancelled) setTags(summarizeTags(rows));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [email, entries.length, tagsVersion]);
+
+  // Prompts are personalised, so the prompt filter lists the ones answered
+  useEffect(() => {
+    if (!email) return;
+    let cancelled = false;
+    fetchAnsweredPrompts(email).then((prompts) => {
+      if (!cancelled) setAnsweredPrompts(prompts);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [email, entries.length]);
+
+  const visibleEntries = results ?? entries;
+  const groupedEntries = useMemo(() => groupByWeek(visibleEntries), [visibleEntries]);
+
+  function filterByTag(tag: string) {
+    if (!filters.tags.includes(tag)) setFilters({ ...filters, tags: [...filters.tags, tag] });
+  }
 
   // Count unique weeks with entries for streak display
   const weeksWithEntries = useMemo(() => {
@@ -64,9 +149,6 @@ export default function JournalPage() {
     return themes;
   }, [sessions]);
 
-  // Show how many prompts exist for rotation context
-  const totalPrompts = JOURNAL_PROMPTS.length;
-
   if (loading) {
     return (
       <div className="max-w-3xl mx-auto space-y-6 animate-fade-in">
@@ -101,15 +183,17 @@ export default function JournalPage() {
         </div>
       </div>
 
+      <JournalEncryptionPanel />
+
       {/* This week's prompt */}
       <JournalPromptCard compact={false} />
 
-      {/* Prompt rotation context */}
+      {/* Prompt context */}
       <div className="flex items-center gap-2 text-xs text-boon-charcoal/55">
         <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
         </svg>
-        <span>New prompt every week ({totalPrompts} prompts rotating)</span>
+        <span>New prompt every week, chosen from your focus areas, sessions and commitments</span>
       </div>
 
       {/* Coaching themes context */}
@@ -126,16 +210,37 @@ export default function JournalPage() {
       {entries.length > 0 && (
         <section>
           <h2 className="text-[11px] font-extrabold uppercase tracking-[0.18em] text-boon-charcoal/55 mb-4">Past Reflections</h2>
+          <div className="mb-6">
+            <JournalFilterBar filters={filters} onChange={setFilters} tags={tags} prompts={answeredPrompts} />
+          </div>
+          {filtering && (
+            <p className="text-xs text-boon-charcoal/55 mb-4">
+              {searching
+                ? 'Searching...'
+                : `${visibleEntries.length} matching reflection${visibleEntries.length === 1 ? '' : 's'}`}
+              {locked && filters.query.trim() && ' · unlock your journal to search encrypted entries'}
+            </p>
+          )}
           {groupedEntries.map((group) => (
             <div key={group.weekLabel} className="mb-6">
               <h3 className="text-xs font-semibold text-boon-charcoal/55 mb-3">{group.weekLabel}</h3>
               <div className="space-y-3">
                 {group.entries.map((entry) => (
-                  <JournalEntry key={entry.id} entry={entry} />
+                  <JournalEntry
+                    key={entry.id}
+                    entry={entry}
+                    onTagClick={filterByTag}
+                    onTagsChange={() => setTagsVersion((v) => v + 1)}
+                  />
                 ))}
               </div>
             </div>
           ))}
+          {filtering && !searching && visibleEntries.length === 0 && (
+            <p className="text-sm text-boon-charcoal/55 text-center py-8">
+              Nothing matches those filters yet.
+            </p>
+          )}
         </section>
       )}
 
@@ -1,49 +1,57 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useJournalData } from '../../hooks/useJournalData';
+import { useJournalPrompt } from '../../hooks/useJournalPrompt';
 import { ResourceSuggestion } from '../ResourceSuggestion';
+import { COMPETENCY_OPTIONS } from '../../data/competencies';
+import { parseTags } from '../../lib/journalTags';
+import { MoodEnergyPicker } from './MoodEnergyPicker';
 
 interface JournalPromptCardProps {
   compact?: boolean;
 }
 
-const COMPETENCY_OPTIONS = [
-  'Effective Communication',
-  'Delegation & Accountability',
-  'Emotional Intelligence',
-  'Strategic Thinking',
-  'Adaptability & Resilience',
-  'Giving & Receiving Feedback',
-  'Building Relationships at Work',
-  'Change Management',
-  'Effective Planning & Execution',
-  'Persuasion & Influence',
-  'Self-Confidence & Imposter Syndrome',
-  'Time Management & Productivity',
-];
-
 export function JournalPromptCard({ compact = false }: JournalPromptCardProps) {
-  const { weeklyPrompt, addEntry, hasEntryThisWeek } = useJournalData();
+  const { weeklyPrompt, addEntry, toggleShare, hasEntryThisWeek, locked } = useJournalData();
+  const { prompt: personalPrompt, loading: promptLoading } = useJournalPrompt();
   const [body, setBody] = useState('');
   const [competencyArea, setCompetencyArea] = useState('');
+  const [tagInput, setTagInput] = useState('');
+  const [mood, setMood] = useState<number | null>(null);
+  const [energy, setEnergy] = useState<number | null>(null);
   const [shareWithCoach, setShareWithCoach] = useState(false);
   const [saving, setSaving] = useState(false);
   const [saved, setSaved] = useState(false);
   const [savedCompetency, setSavedCompetency] = useState<string | null>(null);
 
+  const promptText = personalPrompt?.prompt || weeklyPrompt;
+
+  // Prompts from a competency set file the reflection under that competency
+  useEffect(() => {
+    setCompetencyArea(personalPrompt?.competencyArea || '');
+  }, [personalPrompt]);
+
   async function handleSave() {
     if (!body.trim()) return;
     setSaving(true);
-    const entry = await addEntry(body.trim(), competencyArea || undefined);
+    const entry = await addEntry(body.trim(), {
+      prompt: promptText,
+      competencyArea: competencyArea || undefined,
+      tags: parseTags(tagInput),
+      mood,
+      energy,
+    });
     setSaving(false);
 
     if (entry) {
       if (shareWithCoach) {
-        const { updateJournalEntry } = await import('../../lib/fetchers/journalFetcher');
-        await updateJournalEntry(entry.id, { is_shared_with_coach: true });
+        await toggleShare(entry, true);
       }
       setSavedCompetency(competencyArea || null);
       setBody('');
-      setCompetencyArea('');
+      setCompetencyArea(personalPrompt?.competencyArea || '');
+      setTagInput('');
+      setMood(null);
+      setEnergy(null);
       setShareWithCoach(false);
       setSaved(true);
     }
@@ -87,12 +95,35 @@ export function JournalPromptCard({ compact = false }: JournalPromptCardProps) {
     );
   }
 
+  if (locked && compact) {
+    return (
+      <div className="flex items-center gap-2 text-boon-navy">
+        <span className="font-semibold">Your journal is locked.</span>
+        <a
+          href="/journal"
+          className="ml-auto text-sm text-boon-blue hover:text-boon-darkBlue font-semibold transition-colors"
+        >
+          Unlock to write →
+        </a>
+      </div>
+    );
+  }
+
   if (compact) {
     return (
       <div>
-        <p className="font-display font-bold text-[22px] md:text-[26px] leading-[1.15] tracking-[-0.02em] text-boon-navy mb-4">
-          {weeklyPrompt}
-        </p>
+        {promptLoading ? (
+          <div className="h-8 w-3/4 bg-boon-offWhite rounded-btn animate-pulse mb-4" />
+        ) : (
+          <div className="mb-4">
+            <p className="font-display font-bold text-[22px] md:text-[26px] leading-[1.15] tracking-[-0.02em] text-boon-navy">
+              {promptText}
+            </p>
+            {personalPrompt?.reason && (
+              <p className="text-xs text-boon-charcoal/55 mt-2">{personalPrompt.reason}</p>
+            )}
+          </div>
+        )}
         <textarea
           value={body}
           onChange={(e) => setBody(e.target.value)}
@@ -100,6 +131,9 @@ export function JournalPromptCard({ compact = false }: JournalPromptCardProps) {
           rows={3}
           className="w-full bg-boon-offWhite border border-boon-charcoal/[0.08] rounded-btn p-3 text-sm text-boon-navy placeholder-boon-charcoal/55 resize-none focus:outline-none focus:ring-2 focus:ring-boon-coral/20 focus:border-boon-coral"
         />
+        <div className="mt-3">
+          <MoodEnergyPicker mood={mood} energy={energy} onMoodChange={setMood} onEnergyChange={setEnergy} />
+        </div>
         <button
           onClick={handleSave}
           disabled={!body.trim() || saving}
@@ -120,55 +154,87 @@ export function JournalPromptCard({ compact = false }: JournalPromptCardProps) {
         </h3>
       </div>
 
-      <p className="font-display font-bold text-xl md:text-2xl mb-4 leading-[1.2] tracking-[-0.01em] text-boon-navy">
-        {weeklyPrompt}
-      </p>
-
-      <textarea
-        value={body}
-        onChange={(e) => setBody(e.target.value)}
-        placeholder="Write your reflection..."
-        rows={5}
-        className="w-full bg-boon-offWhite border border-boon-charcoal/[0.08] rounded-btn p-3 text-sm text-boon-navy placeholder-boon-charcoal/55 resize-none focus:outline-none focus:ring-2 focus:ring-boon-blue/20 focus:border-boon-blue"
-      />
-
-      <div className="mt-4 space-y-3">
-        <div>
-          <label className="block text-xs font-medium text-boon-charcoal/55 mb-1">
-            Competency area (optional)
-          </label>
-          <select
-            value={competencyArea}
-            onChange={(e) => setCompetencyArea(e.target.value)}
-            className="w-full bg-boon-offWhite border border-boon-charcoal/[0.08] rounded-btn px-3 py-2 text-sm text-boon-navy focus:outline-none focus:ring-2 focus:ring-boon-blue/20 focus:border-boon-blue"
-          >
-            <option value="">None</option>
-            {COMPETENCY_OPTIONS.map((opt) => (
-              <option key={opt} value={opt}>
-                {opt}
-              </option>
-            ))}
-          </select>
+      {promptLoading ? (
+        <div className="h-7 w-3/4 bg-boon-offWhite rounded-btn animate-pulse mb-4" />
+      ) : (
+        <div className="mb-4">
+          <p className="font-display font-bold text-xl md:text-2xl leading-[1.2] tracking-[-0.01em] text-boon-navy">
+            {promptText}
+          </p>
+          {personalPrompt?.reason && (
+            <p className="text-xs text-boon-charcoal/55 mt-2">{personalPrompt.reason}</p>
+          )}
         </div>
+      )}
 
-        <label className="flex items-center gap-2 cursor-pointer">
-          <input
-            type="checkbox"
-            checked={shareWithCoach}
-            onChange={(e) => setShareWithCoach(e.target.checked)}
-            className="w-4 h-4 rounded-md border-boon-charcoal/[0.08] text-boon-blue accent-boon-blue focus:ring-boon-blue/20"
+      {locked ? (
+        <p className="text-sm text-boon-charcoal/55">
+          Your journal is encrypted. Unlock it to write this week&apos;s reflection.
+        </p>
+      ) : (
+        <>
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Write your reflection..."
+            rows={5}
+            className="w-full bg-boon-offWhite border border-boon-charcoal/[0.08] rounded-btn p-3 text-sm text-boon-navy placeholder-boon-charcoal/55 resize-none focus:outline-none focus:ring-2 focus:ring-boon-blue/20 focus:border-boon-blue"
           />
-          <span className="text-sm text-boon-charcoal/75">Share with my coach</span>
-        </label>
-      </div>
 
-      <button
-        onClick={handleSave}
-        disabled={!body.trim() || saving}
-        className="mt-4 w-full bg-boon-blue text-white font-semibold text-sm rounded-btn py-2.5 hover:bg-boon-darkBlue disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-      >
-        {saving ? 'Saving...' : 'Save Reflection'}
-      </button>
+          <div className="mt-4 space-y-3">
+            <MoodEnergyPicker mood={mood} energy={energy} onMoodChange={setMood} onEnergyChange={setEnergy} />
+
+            <div>
+              <label className="block text-xs font-medium text-boon-charcoal/55 mb-1">
+                Competency area (optional)
+              </label>
+              <select
+                value={competencyArea}
+                onChange={(e) => setCompetencyArea(e.target.value)}
+                className="w-full bg-boon-offWhite border border-boon-charcoal/[0.08] rounded-btn px-3 py-2 text-sm text-boon-navy focus:outline-none focus:ring-2 focus:ring-boon-blue/20 focus:border-boon-blue"
+              >
+                <option value="">None</option>
+                {COMPETENCY_OPTIONS.map((opt) => (
+                  <option key={opt} value={opt}>
+                    {opt}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-boon-charcoal/55 mb-1">
+                Tags (optional)
+              </label>
+              <input
+                type="text"
+                value={tagInput}
+                onChange={(e) => setTagInput(e.target.value)}
+                placeholder="People or projects, separated by commas"
+                className="w-full bg-boon-offWhite border border-boon-charcoal/[0.08] rounded-btn px-3 py-2 text-sm text-boon-navy placeholder-boon-charcoal/55 focus:outline-none focus:ring-2 focus:ring-boon-blue/20 focus:border-boon-blue"
+              />
+            </div>
+
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={shareWithCoach}
+                onChange={(e) => setShareWithCoach(e.target.checked)}
+                className="w-4 h-4 rounded-md border-boon-charcoal/[0.08] text-boon-blue accent-boon-blue focus:ring-boon-blue/20"
+              />
+              <span className="text-sm text-boon-charcoal/75">Share with my coach</span>
+            </label>
+          </div>
+
+          <button
+            onClick={handleSave}
+            disabled={!body.trim() || saving}
+            className="mt-4 w-full bg-boon-blue text-white font-semibold text-sm rounded-btn py-2.5 hover:bg-boon-darkBlue disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {saving ? 'Saving...' : 'Save Reflection'}
+          </button>
+        </>
+      )}
 
       {saved && (
         <div className="mt-3">
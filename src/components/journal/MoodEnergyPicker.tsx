@@ -0,0 +1,61 @@
+import { ENERGY_SCALE, MOOD_SCALE } from '../../lib/journalMood';
+
+interface MoodEnergyPickerProps {
+  mood: number | null;
+  energy: number | null;
+  onMoodChange: (mood: number | null) => void;
+  onEnergyChange: (energy: number | null) => void;
+}
+
+function ScaleRow({
+  label,
+  scale,
+  value,
+  onChange,
+}: {
+  label: string;
+  scale: typeof MOOD_SCALE | typeof ENERGY_SCALE;
+  value: number | null;
+  onChange: (value: number | null) => void;
+}) {
+  const selected = scale.find((s) => s.value === value);
+  return (
+    <div className="flex items-center gap-3">
+      <span className="w-14 text-xs font-medium text-boon-charcoal/55">{label}</span>
+      <div className="flex gap-1" role="radiogroup" aria-label={label}>
+        {scale.map((option) => {
+          const active = option.value === value;
+          return (
+            <button
+              key={option.value}
+              type="button"
+              role="radio"
+              aria-checked={active}
+              title={option.label}
+              // Clicking the selected rating again clears it
+              onClick={() => onChange(active ? null : option.value)}
+              className={`w-8 h-8 rounded-pill text-base transition-all ${
+                active
+                  ? 'bg-boon-lightBlue ring-2 ring-boon-blue'
+                  : 'bg-boon-offWhite opacity-60 hover:opacity-100'
+              }`}
+            >
+              {option.emoji}
+            </button>
+          );
+        })}
+      </div>
+      {selected && <span className="text-xs text-boon-charcoal/55">{selected.label}</span>}
+    </div>
+  );
+}
+
+/** Optional mood and energy ratings for a journal entry */
+export function MoodEnergyPicker({ mood, energy, onMoodChange, onEnergyChange }: MoodEnergyPickerProps) {
+  return (
+    <div className="space-y-2">
+      <ScaleRow label="Mood" scale={MOOD_SCALE} value={mood} onChange={onMoodChange} />
+      <ScaleRow label="Energy" scale={ENERGY_SCALE} value={energy} onChange={onEnergyChange} />
+    </div>
+  );
+}
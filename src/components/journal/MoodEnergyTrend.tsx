@@ -0,0 +1,92 @@
+import { useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import { buildMoodWeeks, compareCoachingWeeks, type MoodAverages, type MoodRating } from '../../lib/journalMood';
+
+interface MoodEnergyTrendProps {
+  ratings: MoodRating[];
+  // Dates of completed coaching sessions
+  sessionDates: string[];
+}
+
+function formatWeek(weekStart: string): string {
+  return new Date(`${weekStart}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+function AverageCard({ title, averages, accent }: { title: string; averages: MoodAverages; accent: string }) {
+  return (
+    <div className="relative bg-white rounded-card border border-boon-charcoal/[0.08] p-4 overflow-hidden">
+      <span aria-hidden className={`absolute left-0 top-0 bottom-0 w-[3px] ${accent}`} />
+      <p className="text-[10px] font-extrabold uppercase tracking-[0.18em] text-boon-charcoal/55">
+        {title} · {averages.weeks} week{averages.weeks === 1 ? '' : 's'}
+      </p>
+      <div className="mt-2 flex gap-6">
+        <p className="text-sm text-boon-charcoal/75">
+          Mood <span className="font-bold text-boon-navy text-lg">{averages.mood ?? '·'}</span>/5
+        </p>
+        <p className="text-sm text-boon-charcoal/75">
+          Energy <span className="font-bold text-boon-navy text-lg">{averages.energy ?? '·'}</span>/5
+        </p>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Weekly mood and energy from journal entries, with coaching-session weeks
+ * marked, plus how those weeks compare with the rest.
+ */
+export function MoodEnergyTrend({ ratings, sessionDates }: MoodEnergyTrendProps) {
+  const weeks = useMemo(() => buildMoodWeeks(ratings, sessionDates), [ratings, sessionDates]);
+  const comparison = useMemo(() => compareCoachingWeeks(weeks), [weeks]);
+
+  if (weeks.length === 0) return null;
+
+  const canCompare = comparison.coachingWeeks.weeks > 0 && comparison.otherWeeks.weeks > 0;
+
+  return (
+    <section className="bg-white rounded-card p-6 border border-boon-charcoal/[0.08]">
+      <h2 className="text-lg font-extrabold text-boon-navy">Mood &amp; Energy</h2>
+      <p className="text-sm text-boon-charcoal/55 mt-1 mb-4">
+        Weekly averages from your journal. Dashed lines mark weeks with a coaching session.
+      </p>
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={weeks} margin={{ top: 8, right: 16, bottom: 0, left: -16 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" vertical={false} />
+            <XAxis dataKey="weekStart" tickFormatter={formatWeek} tick={{ fontSize: 11, fill: '#6B7280' }} />
+            <YAxis domain={[1, 5]} ticks={[1, 2, 3, 4, 5]} tick={{ fontSize: 11, fill: '#6B7280' }} />
+            <Tooltip labelFormatter={(week) => `Week of ${formatWeek(String(week))}`} />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            {weeks.filter((w) => w.hadSession).map((w) => (
+              <ReferenceLine key={w.weekStart} x={w.weekStart} stroke="#466FF6" strokeOpacity={0.35} strokeDasharray="4 4" />
+            ))}
+            <Line type="monotone" dataKey="mood" name="Mood" stroke="#FF6D6A" strokeWidth={2} dot={{ r: 3 }} connectNulls />
+            <Line type="monotone" dataKey="energy" name="Energy" stroke="#466FF6" strokeWidth={2} dot={{ r: 3 }} connectNulls />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {canCompare ? (
+        <div className="grid sm:grid-cols-2 gap-3 mt-4">
+          <AverageCard title="Coaching weeks" averages={comparison.coachingWeeks} accent="bg-boon-blue" />
+          <AverageCard title="Other weeks" averages={comparison.otherWeeks} accent="bg-boon-charcoal/20" />
+        </div>
+      ) : (
+        <p className="text-xs text-boon-charcoal/55 mt-4">
+          Keep rating your mood and energy in the journal to compare weeks with and without a session.
+        </p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,261 @@
+import { useMemo, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { CATEGORY_INFO, type PracticeScenario } from '../../data/scenarios';
+import {
+  buildCategoryWeeks,
+  buildScenarioTrends,
+  findRecurringThemes,
+  suggestNextScenario,
+  type RecurringTheme,
+  type ScenarioTrend,
+} from '../../lib/practiceProgress';
+import type { PracticeEvaluation } from '../../lib/storageService';
+import { RubricEvaluation } from './RubricEvaluation';
+
+interface PracticeProgressProps {
+  // Newest first, as returned by getPracticeEvaluations
+  evaluations: PracticeEvaluation[];
+  onPractice: (scenario: PracticeScenario) => void;
+}
+
+function formatWeek(weekStart: string): string {
+  return new Date(`${weekStart}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function scoreColor(score: number): string {
+  if (score >= 4) return 'bg-boon-success';
+  if (score >= 3) return 'bg-boon-blue';
+  return 'bg-boon-coral';
+}
+
+function ScenarioTrendRow({ trend }: { trend: ScenarioTrend }) {
+  return (
+    <div className="flex items-center gap-4 py-3 border-b border-boon-charcoal/[0.06] last:border-0">
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-bold text-boon-navy truncate">{trend.title}</p>
+        <p className="text-xs text-boon-charcoal/55">
+          {trend.category ? CATEGORY_INFO[trend.category].label : 'Your own situations'} · {trend.attempts} attempt{trend.attempts === 1 ? '' : 's'}
+        </p>
+      </div>
+      <div className="flex items-end gap-1 h-8" aria-label={`Scores: ${trend.scores.map(s => s.score).join(', ')}`}>
+        {trend.scores.slice(-8).map((s) => (
+          <span
+            key={s.date}
+            title={`${formatDate(s.date)}: ${s.score}/5`}
+            className={`w-2 rounded-sm ${scoreColor(s.score)}`}
+            style={{ height: `${(s.score / 5) * 100}%` }}
+          />
+        ))}
+      </div>
+      <div className="w-20 text-right shrink-0">
+        <p className="text-sm font-bold text-boon-navy">{trend.latestScore ?? '·'}<span className="text-xs text-boon-charcoal/55">/5</span></p>
+        {trend.change !== null && trend.change !== 0 && (
+          <p className={`text-xs font-semibold ${trend.change > 0 ? 'text-boon-success' : 'text-boon-coral'}`}>
+            {trend.change > 0 ? '+' : ''}{trend.change} since first
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ThemeList({ title, themes, tone }: { title: string; themes: RecurringTheme[]; tone: string }) {
+  return (
+    <div>
+      <h4 className={`text-xs font-bold uppercase tracking-wide mb-2 ${tone}`}>{title}</h4>
+      {themes.length > 0 ? (
+        <ul className="space-y-1.5">
+          {themes.map((theme) => (
+            <li key={theme.label} className="flex items-center justify-between gap-3 text-sm text-boon-charcoal/75">
+              <span>{theme.label}</span>
+              <span className="text-xs text-boon-charcoal/55 shrink-0">
+                {theme.averageScore !== null ? `avg ${theme.averageScore}/5 · ` : ''}{theme.count}×
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-boon-charcoal/55">Nothing recurring yet.</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Steps through a saved roleplay one turn at a time, then shows how it was
+ * scored. Older evaluations without a rubric fall back to their prose feedback.
+ */
+function TranscriptReplay({ evaluation }: { evaluation: PracticeEvaluation }) {
+  const conversation = evaluation.conversation || [];
+  const [shown, setShown] = useState(Math.min(2, conversation.length));
+  const finished = shown >= conversation.length;
+
+  return (
+    <div className="space-y-4 pt-4">
+      {conversation.length > 0 ? (
+        <div className="space-y-3">
+          {conversation.slice(0, shown).map((message, i) => (
+            <div key={i} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div
+                className={`max-w-[80%] px-4 py-2.5 rounded-card text-sm whitespace-pre-wrap ${
+                  message.role === 'user'
+                    ? 'bg-boon-blue text-white rounded-br-sm'
+                    : 'bg-boon-offWhite text-boon-charcoal/75 rounded-bl-sm'
+                }`}
+              >
+                {message.interrupted ? `${message.text.trimEnd()}—` : message.text}
+              </div>
+            </div>
+          ))}
+          {!finished && (
+            <div className="flex justify-center gap-2">
+              <button
+                onClick={() => setShown(shown + 1)}
+                className="px-3 py-1.5 text-xs font-bold text-boon-blue bg-boon-blue/10 hover:bg-boon-blue/15 rounded-btn transition-colors"
+              >
+                Next turn
+              </button>
+              <button
+                onClick={() => setShown(conversation.length)}
+                className="px-3 py-1.5 text-xs font-bold text-boon-charcoal/55 hover:text-boon-navy transition-colors"
+              >
+                Show all
+              </button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="text-xs text-boon-charcoal/55">No transcript was saved for this session.</p>
+      )}
+
+      {finished && (
+        evaluation.rubric_evaluation ? (
+          <RubricEvaluation evaluation={evaluation.rubric_evaluation} />
+        ) : evaluation.feedback ? (
+          <p className="text-sm text-boon-charcoal/75 leading-relaxed whitespace-pre-wrap">{evaluation.feedback}</p>
+        ) : null
+      )}
+    </div>
+  );
+}
+
+/**
+ * An employee's practice history: what to practice next, scores over time
+ * by category and by scenario, recurring themes, and past sessions to replay.
+ */
+export function PracticeProgress({ evaluations, onPractice }: PracticeProgressProps) {
+  const trends = useMemo(() => buildScenarioTrends(evaluations), [evaluations]);
+  const weeks = useMemo(() => buildCategoryWeeks(evaluations), [evaluations]);
+  const themes = useMemo(() => findRecurringThemes(evaluations), [evaluations]);
+  const suggestion = useMemo(() => suggestNextScenario(trends), [trends]);
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  if (evaluations.length === 0) {
+    return (
+      <div className="text-center py-16 bg-white rounded-card border border-boon-charcoal/[0.08]">
+        <p className="font-display font-bold text-boon-navy text-xl mb-2 tracking-[-0.02em]">
+          No practice <span className="font-serif italic font-normal">yet</span>.
+        </p>
+        <p className="text-boon-charcoal/55 text-sm">Finish a roleplay and get feedback to start tracking your progress.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {suggestion && (
+        <section className="relative bg-white rounded-card border border-boon-charcoal/[0.08] p-6 overflow-hidden flex flex-col sm:flex-row sm:items-center gap-4">
+          <span aria-hidden className="absolute left-0 top-0 bottom-0 w-[3px] bg-boon-coral" />
+          <div className="flex-1 pl-2">
+            <p className="text-[11px] font-extrabold uppercase tracking-[0.18em] text-boon-coral mb-1">Practice next</p>
+            <h3 className="font-display font-bold text-boon-navy text-[17px] leading-tight tracking-[-0.015em]">
+              {suggestion.scenario.title}
+            </h3>
+            <p className="text-sm text-boon-charcoal/65 mt-1">{suggestion.reason}</p>
+          </div>
+          <button
+            onClick={() => onPractice(suggestion.scenario)}
+            className="px-5 py-2.5 text-white bg-boon-coral rounded-pill font-semibold text-sm hover:opacity-90 transition-opacity shrink-0"
+          >
+            Practice it
+          </button>
+        </section>
+      )}
+
+      {weeks.length > 0 && (
+        <section className="bg-white rounded-card p-6 border border-boon-charcoal/[0.08]">
+          <h2 className="text-lg font-extrabold text-boon-navy">Scores by category</h2>
+          <p className="text-sm text-boon-charcoal/55 mt-1 mb-4">Weekly average roleplay score in each area.</p>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={weeks} margin={{ top: 8, right: 16, bottom: 0, left: -16 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" vertical={false} />
+                <XAxis dataKey="weekStart" tickFormatter={formatWeek} tick={{ fontSize: 11, fill: '#6B7280' }} />
+                <YAxis domain={[1, 5]} ticks={[1, 2, 3, 4, 5]} tick={{ fontSize: 11, fill: '#6B7280' }} />
+                <Tooltip labelFormatter={(week) => `Week of ${formatWeek(String(week))}`} />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                <Line type="monotone" dataKey="leadership" name={CATEGORY_INFO.leadership.label} stroke="#1A253B" strokeWidth={2} dot={{ r: 3 }} connectNulls />
+                <Line type="monotone" dataKey="communication" name={CATEGORY_INFO.communication.label} stroke="#466FF6" strokeWidth={2} dot={{ r: 3 }} connectNulls />
+                <Line type="monotone" dataKey="wellbeing" name={CATEGORY_INFO.wellbeing.label} stroke="#6CD893" strokeWidth={2} dot={{ r: 3 }} connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </section>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <section className="bg-white rounded-card p-6 border border-boon-charcoal/[0.08]">
+          <h2 className="text-lg font-extrabold text-boon-navy mb-2">By scenario</h2>
+          {trends.map((trend) => <ScenarioTrendRow key={trend.key} trend={trend} />)}
+        </section>
+
+        <section className="bg-white rounded-card p-6 border border-boon-charcoal/[0.08] space-y-5">
+          <h2 className="text-lg font-extrabold text-boon-navy">Recurring themes</h2>
+          <ThemeList title="Consistent strengths" themes={themes.strengths} tone="text-boon-success" />
+          <ThemeList title="Keeps coming up" themes={themes.areas} tone="text-boon-coral" />
+        </section>
+      </div>
+
+      <section className="bg-white rounded-card p-6 border border-boon-charcoal/[0.08]">
+        <h2 className="text-lg font-extrabold text-boon-navy mb-2">Past sessions</h2>
+        {evaluations.map((evaluation) => {
+          const isOpen = openId === evaluation.id;
+          return (
+            <div key={evaluation.id} className="py-3 border-b border-boon-charcoal/[0.06] last:border-0">
+              <button
+                onClick={() => setOpenId(isOpen ? null : evaluation.id)}
+                className="w-full flex items-center justify-between gap-3 text-left"
+                aria-expanded={isOpen}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-bold text-boon-navy truncate">{evaluation.scenario_title}</p>
+                  <p className="text-xs text-boon-charcoal/55">{formatDate(evaluation.created_at)}</p>
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  {evaluation.score !== null && (
+                    <span className="text-sm font-bold text-boon-navy">{evaluation.score}/5</span>
+                  )}
+                  <span className="text-xs font-semibold text-boon-blue">{isOpen ? 'Hide' : 'Replay'}</span>
+                </div>
+              </button>
+              {isOpen && <TranscriptReplay evaluation={evaluation} />}
+            </div>
+          );
+        })}
+      </section>
+    </div>
+  );
+}
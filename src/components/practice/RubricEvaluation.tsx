@@ -0,0 +1,111 @@
+import type { RoleplayEvaluation } from '../../lib/practiceService';
+
+interface RubricEvaluationProps {
+  evaluation: RoleplayEvaluation;
+}
+
+function scoreColor(score: number): string {
+  if (score >= 4) return 'bg-boon-success';
+  if (score >= 3) return 'bg-boon-blue';
+  return 'bg-boon-coral';
+}
+
+function ScoreBar({ score }: { score: number }) {
+  return (
+    <div className="flex gap-1" aria-label={`${score} out of 5`}>
+      {[1, 2, 3, 4, 5].map((step) => (
+        <span
+          key={step}
+          className={`h-1.5 w-6 rounded-pill ${step <= score ? scoreColor(score) : 'bg-boon-charcoal/10'}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * A roleplay scored against the scenario's rubric: overall score, each
+ * criterion with quotes from the conversation, and suggested rewrites.
+ */
+export function RubricEvaluation({ evaluation }: RubricEvaluationProps) {
+  return (
+    <div className="space-y-5">
+      <div className="flex items-start gap-4">
+        <div className="shrink-0 text-center">
+          <p className="text-3xl font-extrabold text-boon-navy leading-none">
+            {evaluation.score}<span className="text-base text-boon-charcoal/55">/5</span>
+          </p>
+          <p className="text-[10px] font-extrabold uppercase tracking-[0.18em] text-boon-charcoal/55 mt-1">Overall</p>
+        </div>
+        {evaluation.summary && (
+          <p className="text-sm text-boon-charcoal/75 leading-relaxed">{evaluation.summary}</p>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {evaluation.criteria.map((criterion) => (
+          <div key={criterion.id} className="bg-white rounded-btn border border-boon-charcoal/[0.08] p-4">
+            <div className="flex items-center justify-between gap-3 mb-2">
+              <h4 className="text-sm font-bold text-boon-navy">{criterion.label}</h4>
+              <div className="flex items-center gap-2">
+                <ScoreBar score={criterion.score} />
+                <span className="text-xs font-bold text-boon-charcoal/75">{criterion.score}/5</span>
+              </div>
+            </div>
+            {criterion.feedback && (
+              <p className="text-sm text-boon-charcoal/75 leading-relaxed">{criterion.feedback}</p>
+            )}
+            {criterion.evidence.map((quote) => (
+              <blockquote
+                key={quote}
+                className="mt-2 border-l-2 border-boon-blue/30 pl-3 text-xs italic text-boon-charcoal/55"
+              >
+                &ldquo;{quote}&rdquo;
+              </blockquote>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {(evaluation.strengths.length > 0 || evaluation.areasToImprove.length > 0) && (
+        <div className="grid sm:grid-cols-2 gap-3">
+          {evaluation.strengths.length > 0 && (
+            <div>
+              <h4 className="text-xs font-bold text-boon-success uppercase tracking-wide mb-2">What went well</h4>
+              <ul className="space-y-1 text-sm text-boon-charcoal/75 list-disc pl-4">
+                {evaluation.strengths.map((item) => <li key={item}>{item}</li>)}
+              </ul>
+            </div>
+          )}
+          {evaluation.areasToImprove.length > 0 && (
+            <div>
+              <h4 className="text-xs font-bold text-boon-coral uppercase tracking-wide mb-2">What to work on</h4>
+              <ul className="space-y-1 text-sm text-boon-charcoal/75 list-disc pl-4">
+                {evaluation.areasToImprove.map((item) => <li key={item}>{item}</li>)}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      {evaluation.rewrites.length > 0 && (
+        <div>
+          <h4 className="text-xs font-bold text-boon-blue uppercase tracking-wide mb-2">Try saying it this way</h4>
+          <div className="space-y-3">
+            {evaluation.rewrites.map((rewrite) => (
+              <div key={rewrite.original} className="bg-boon-offWhite rounded-btn p-4 text-sm space-y-1.5">
+                <p className="text-boon-charcoal/55">
+                  <span className="font-semibold">You said:</span> &ldquo;{rewrite.original}&rdquo;
+                </p>
+                <p className="text-boon-navy">
+                  <span className="font-semibold">Try:</span> &ldquo;{rewrite.improved}&rdquo;
+                </p>
+                {rewrite.why && <p className="text-xs text-boon-charcoal/55">{rewrite.why}</p>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+// Competency areas an employee can tag journal entries and goals with
+
+export const COMPETENCY_OPTIONS = [
+  'Effective Communication',
+  'Delegation & Accountability',
+  'Emotional Intelligence',
+  'Strategic Thinking',
+  'Adaptability & Resilience',
+  'Giving & Receiving Feedback',
+  'Building Relationships at Work',
+  'Change Management',
+  'Effective Planning & Execution',
+  'Persuasion & Influence',
+  'Self-Confidence & Imposter Syndrome',
+  'Time Management & Productivity',
+];
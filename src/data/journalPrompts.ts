@@ -0,0 +1,108 @@
+// Built-in journal prompts. Coaches and admins add to these through the
+// journal_prompts table.
+
+// General prompts, for weeks when nothing more personal applies
+export const JOURNAL_PROMPTS = [
+  "What leadership moment stood out this week?",
+  "What conversation went well? What made it work?",
+  "What's one thing you'd do differently if you could redo this week?",
+  "When did you feel most confident at work recently?",
+  "What feedback did you give or receive that mattered?",
+  "What's draining your energy right now?",
+  "What did you learn about yourself this week?",
+  "What's one small win you haven't acknowledged yet?",
+];
+
+// Prompt sets per competency
+export const COMPETENCY_JOURNAL_PROMPTS: Record<string, string[]> = {
+  'Effective Communication': [
+    "Which conversation this week landed differently than you intended?",
+    "Where did you say less than you meant to? What held you back?",
+    "Who did you really listen to this week, and what did you hear?",
+  ],
+  'Delegation & Accountability': [
+    "What did you hold onto this week that someone else could have owned?",
+    "Where did you follow up well, and where did something slip?",
+    "What would it take to hand off one task completely next week?",
+  ],
+  'Emotional Intelligence': [
+    "What emotion showed up most at work this week, and what triggered it?",
+    "When did you notice someone else's mood shift? How did you respond?",
+    "What reaction of yours would you like to understand better?",
+  ],
+  'Strategic Thinking': [
+    "What did you spend time on this week that won't matter in three months?",
+    "What's one bet you'd make for your team if no one could say no?",
+    "Where did you step back from the day-to-day to see the bigger picture?",
+  ],
+  'Adaptability & Resilience': [
+    "What didn't go to plan this week, and how did you recover?",
+    "What change are you resisting right now? What's underneath that?",
+    "What helped you bounce back the last time things got hard?",
+  ],
+  'Giving & Receiving Feedback': [
+    "What feedback have you been putting off giving? What's stopping you?",
+    "What's the most useful thing someone told you recently?",
+    "How did you react the last time you heard something you didn't want to?",
+  ],
+  'Building Relationships at Work': [
+    "Who did you connect with this week beyond the task at hand?",
+    "Which working relationship needs more attention right now?",
+    "Who could you reach out to next week that you haven't spoken to in a while?",
+  ],
+  'Change Management': [
+    "How are the people around you experiencing the changes underway?",
+    "What's one thing you could explain more clearly about what's changing?",
+    "Where have you seen someone come round to a change? What helped?",
+  ],
+  'Effective Planning & Execution': [
+    "What did you finish this week that you're proud of?",
+    "Where did your plan meet reality this week? What did you adjust?",
+    "What's the one thing that would make next week a success?",
+  ],
+  'Persuasion & Influence': [
+    "Whose support do you need for something you care about?",
+    "When did you change someone's mind recently? What worked?",
+    "Where did you hold back an idea this week? Why?",
+  ],
+  'Self-Confidence & Imposter Syndrome': [
+    "When did you doubt yourself this week? What was the evidence against that doubt?",
+    "What's something you did well this week that you'd praise in someone else?",
+    "Where did you speak up, even though it felt uncomfortable?",
+  ],
+  'Time Management & Productivity': [
+    "Where did your time actually go this week, compared with where you wanted it to go?",
+    "What's one meeting or task you could drop without anyone noticing?",
+    "When were you most focused this week? What made that possible?",
+  ],
+};
+
+// Focus areas (welcome survey, GROW baseline and focus_area_selections)
+// mapped to the competency whose prompts fit them. Labels that already are a
+// competency name need no entry.
+export const FOCUS_AREA_COMPETENCIES: Record<string, string> = {
+  // SCALE welcome survey
+  'Work Relationships': 'Building Relationships at Work',
+  'Work-Life Balance': 'Time Management & Productivity',
+  'Leadership Development': 'Strategic Thinking',
+  'Realizing Potential': 'Self-Confidence & Imposter Syndrome',
+  'Work Performance': 'Effective Planning & Execution',
+  'Work Stress': 'Emotional Intelligence',
+  'New Environment': 'Adaptability & Resilience',
+  'Adapting to Change': 'Adaptability & Resilience',
+  'Dealing with Uncertainty': 'Adaptability & Resilience',
+  'Bouncing Back': 'Adaptability & Resilience',
+  'Relationship with Self': 'Emotional Intelligence',
+  'Inner Confidence': 'Self-Confidence & Imposter Syndrome',
+  'Positive Habits': 'Time Management & Productivity',
+  'Personal Accountability': 'Delegation & Accountability',
+  'Professional Development': 'Strategic Thinking',
+  'Persevering Through Change': 'Change Management',
+  'Relationships with Self & Others': 'Emotional Intelligence',
+  'Coping with Stress & Anxiety': 'Emotional Intelligence',
+  // GROW baseline short labels
+  'Building Relationships': 'Building Relationships at Work',
+  'Planning & Execution': 'Effective Planning & Execution',
+  'Self Confidence': 'Self-Confidence & Imposter Syndrome',
+  'Time Management': 'Time Management & Productivity',
+};
@@ -4,6 +4,14 @@
 export type ScenarioCategory = 'leadership' | 'communication' | 'wellbeing';
 export type ScenarioDifficulty = 'Low' | 'Medium' | 'High';
 
+// One part of the scenario's framework that a roleplay is scored on, 1-5.
+// ids are stable: stored evaluations refer to them.
+export interface RubricCriterion {
+  id: string;
+  label: string;
+  description: string;
+}
+
 export interface PracticeScenario {
   id: string;
   title: string;
@@ -12,9 +20,18 @@ export interface PracticeScenario {
   difficulty: ScenarioDifficulty;
   tags: string[];
   explanation: string;
+  rubric: RubricCriterion[];
   basePrompt: string;
 }
 
+// Rubric for custom situations, which have no framework of their own
+export const GENERAL_RUBRIC: RubricCriterion[] = [
+  { id: 'clarity', label: 'Clarity', description: 'Says what the conversation is about early and plainly.' },
+  { id: 'specificity', label: 'Specificity', description: 'Uses concrete examples rather than generalities.' },
+  { id: 'listening', label: 'Listening', description: 'Asks questions and responds to what the other person says.' },
+  { id: 'next_steps', label: 'Next steps', description: 'Ends with an agreed, concrete next step.' },
+];
+
 export const SCENARIOS: PracticeScenario[] = [
   // LEADERSHIP SCENARIOS
   {
@@ -25,6 +42,12 @@ export const SCENARIOS: PracticeScenario[] = [
     difficulty: 'High',
     tags: ['performance', 'growth', '1:1'],
     explanation: 'Uses the "Situation-Behavior-Impact" (SBI) model to remove ambiguity and defensiveness.',
+    rubric: [
+      { id: 'situation', label: 'Situation', description: 'Anchors the feedback in a specific time and place.' },
+      { id: 'behavior', label: 'Behavior', description: 'Describes observable actions, not personality or intent.' },
+      { id: 'impact', label: 'Impact', description: 'Explains the effect on the team, client or work.' },
+      { id: 'problem_solving', label: 'Problem solving', description: 'Invites their view and moves toward a fix together rather than blame.' },
+    ],
     basePrompt: `**STRATEGY GUIDE:** The SBI Model
 
 1. **Situation:** Be specific about when and where it happened.
@@ -46,6 +69,13 @@ export const SCENARIOS: PracticeScenario[] = [
     difficulty: 'High',
     tags: ['pip', 'hr', 'documentation'],
     explanation: 'Ensures clarity, measurable goals, and legal defensibility while remaining humane.',
+    rubric: [
+      { id: 'expectation', label: 'Expectation', description: 'States the expected standard or output clearly.' },
+      { id: 'reality', label: 'Reality', description: 'Describes current performance with specific facts.' },
+      { id: 'gap', label: 'Gap and impact', description: 'Names the gap and how it affects the team.' },
+      { id: 'plan', label: 'Plan', description: 'Agrees measurable changes and a timeframe.' },
+      { id: 'barriers', label: 'Barriers', description: 'Asks what is getting in the way and listens.' },
+    ],
     basePrompt: `**STRATEGY GUIDE:** The Gap Analysis
 
 1. **The Expectation:** "We need X level of output."
@@ -63,6 +93,12 @@ export const SCENARIOS: PracticeScenario[] = [
     difficulty: 'Medium',
     tags: ['delegation', 'trust'],
     explanation: 'Uses the "Commander\'s Intent" framework to define the "What" and "Why" but leave the "How" to them.',
+    rubric: [
+      { id: 'purpose', label: 'Purpose', description: 'Explains why the work matters.' },
+      { id: 'end_state', label: 'End state', description: 'Describes what success looks like.' },
+      { id: 'guardrails', label: 'Guardrails', description: 'Sets budget, time and resource limits.' },
+      { id: 'autonomy', label: 'Autonomy', description: 'Leaves the "how" to them and names when to escalate.' },
+    ],
     basePrompt: `**STRATEGY GUIDE:** Commander's Intent
 
 To delegate effectively without micromanaging, define:
@@ -80,6 +116,12 @@ To delegate effectively without micromanaging, define:
     difficulty: 'High',
     tags: ['mediation', 'conflict'],
     explanation: 'Shifts focus from personality clashes to shared business objectives.',
+    rubric: [
+      { id: 'de_escalate', label: 'De-escalation', description: 'Lowers the temperature before problem solving.' },
+      { id: 'problem_framing', label: 'Problem framing', description: 'Frames the issue as a process misalignment, not personalities.' },
+      { id: 'shared_goal', label: 'Shared goal', description: 'Connects both people to a common objective.' },
+      { id: 'protocol', label: 'Protocol', description: 'Agrees how disagreements will be handled going forward.' },
+    ],
     basePrompt: `**STRATEGY GUIDE:** Interest-Based Relational Approach
 
 1. **De-escalate:** Meet separately first if emotions are high.
@@ -97,6 +139,12 @@ Focus on the 'Third Entity': The Relationship/Project, not the individuals.`
     difficulty: 'Medium',
     tags: ['onboarding', 'training'],
     explanation: 'Focuses on relationship building and quick wins.',
+    rubric: [
+      { id: 'relationship', label: 'Relationship', description: 'Builds rapport and trust early.' },
+      { id: 'expectations', label: '30-60-90 expectations', description: 'Sets clear expectations for each phase.' },
+      { id: 'quick_wins', label: 'Quick wins', description: 'Points them to small, early wins.' },
+      { id: 'support', label: 'Support', description: 'Makes it clear where to get help.' },
+    ],
     basePrompt: `**STRATEGY GUIDE:** The 30-60-90 Framework
 
 - **Days 1-30: Sponge Mode.** Interview everyone. Understand the history. Don't make big changes.
@@ -113,6 +161,12 @@ Focus on the 'Third Entity': The Relationship/Project, not the individuals.`
     difficulty: 'Low',
     tags: ['retention', 'culture'],
     explanation: 'Proactive conversations to understand motivation triggers.',
+    rubric: [
+      { id: 'motivation', label: 'Motivation', description: 'Asks what energizes them about the work.' },
+      { id: 'change', label: 'What would change', description: 'Asks what they would change about their role.' },
+      { id: 'untapped_talent', label: 'Untapped talent', description: 'Explores skills that aren\'t being used.' },
+      { id: 'listening', label: 'Listening', description: 'Listens and follows up rather than defending or selling.' },
+    ],
     basePrompt: `**STRATEGY GUIDE:** The Stay Interview
 
 Don't wait for the exit interview. Ask these now:
@@ -132,6 +186,12 @@ Don't wait for the exit interview. Ask these now:
     difficulty: 'Medium',
     tags: ['negotiation', 'boundaries'],
     explanation: 'Focuses on trade-offs and resource constraints rather than simple refusal.',
+    rubric: [
+      { id: 'acknowledge', label: 'Acknowledge', description: 'Recognizes the importance of the request.' },
+      { id: 'constraint', label: 'Constraint', description: 'States current capacity or constraints clearly.' },
+      { id: 'trade_off', label: 'Trade-off', description: 'Offers a trade-off or alternative instead of a flat no.' },
+      { id: 'decision', label: 'Decision', description: 'Asks the requester to choose a priority.' },
+    ],
     basePrompt: `**STRATEGY GUIDE:** The "Yes, If" Technique
 
 Instead of saying "No", say "Yes, if we can prioritize X over Y."
@@ -152,6 +212,12 @@ Instead of saying "No", say "Yes, if we can prioritize X over Y."
     difficulty: 'High',
     tags: ['change management', 'transparency'],
     explanation: 'Balances transparency with empathy, acknowledging emotions without validating unfounded fears.',
+    rubric: [
+      { id: 'headline', label: 'Headline', description: 'Leads with the news in the first sentence.' },
+      { id: 'context', label: 'Context', description: 'Explains the business reality behind the decision.' },
+      { id: 'impact', label: 'Impact', description: 'Spells out exactly what changes for them.' },
+      { id: 'next_step', label: 'Next step', description: 'Says what happens next.' },
+    ],
     basePrompt: `**STRATEGY GUIDE:** The "Rip the Band-Aid" Method
 
 1. **The Headline:** State the news in the first sentence. Don't build up to it.
@@ -169,6 +235,12 @@ Do not promise "everything will be fine." Promise "I will be transparent with yo
     difficulty: 'Medium',
     tags: ['influence', 'executive'],
     explanation: 'Focuses on speaking their language and aligning with their priorities.',
+    rubric: [
+      { id: 'bluf', label: 'Bottom line up front', description: 'Opens with what they need from the other person.' },
+      { id: 'context', label: 'Context', description: 'Gives brief, relevant background.' },
+      { id: 'options', label: 'Options', description: 'Presents options with a recommendation.' },
+      { id: 'ask', label: 'Clear ask', description: 'Ends with a specific question that is easy to say yes to.' },
+    ],
     basePrompt: `**STRATEGY GUIDE:** The Executive Summary Approach
 
 Leaders are time-constrained. Structure communication as:
@@ -187,6 +259,12 @@ Leaders are time-constrained. Structure communication as:
     difficulty: 'Low',
     tags: ['facilitation', 'productivity'],
     explanation: 'Uses structured facilitation to prevent meetings from becoming status updates.',
+    rubric: [
+      { id: 'decision_agenda', label: 'Decision agenda', description: 'Frames topics as questions to decide.' },
+      { id: 'preparation', label: 'Preparation', description: 'Uses pre-reads instead of reading in the meeting.' },
+      { id: 'timebox', label: 'Timebox', description: 'Keeps topics to set times and moves on.' },
+      { id: 'actions', label: 'Actions', description: 'Ends with who does what by when.' },
+    ],
     basePrompt: `**STRATEGY GUIDE:** The Decision Meeting Framework
 
 1. **Agenda with Questions:** Not "Discuss Q3 Budget" but "Should we increase Q3 budget by 15%?"
@@ -204,6 +282,12 @@ Leaders are time-constrained. Structure communication as:
     difficulty: 'Low',
     tags: ['motivation', 'culture'],
     explanation: 'Specific recognition reinforces the exact behavior you want repeated.',
+    rubric: [
+      { id: 'specific_action', label: 'Specific action', description: 'Names exactly what the person did.' },
+      { id: 'why_it_mattered', label: 'Why it mattered', description: 'Connects the action to its impact.' },
+      { id: 'character', label: 'Character', description: 'Links the action to a strength or trait.' },
+      { id: 'sincerity', label: 'Sincerity', description: 'Sounds genuine rather than generic.' },
+    ],
     basePrompt: `**STRATEGY GUIDE:** The Specific Praise Formula
 
 Generic: "Great job on the project!"
@@ -224,6 +308,12 @@ Make it public when appropriate to amplify the effect.`
     difficulty: 'High',
     tags: ['negotiation', 'career'],
     explanation: 'Frames requests in terms of business value, not personal preference.',
+    rubric: [
+      { id: 'opportunity', label: 'Opportunity', description: 'Describes what becomes possible.' },
+      { id: 'cost_of_inaction', label: 'Cost of inaction', description: 'Explains what is lost without it.' },
+      { id: 'ask', label: 'Specific ask', description: 'Makes a specific, measurable, time-bound request.' },
+      { id: 'commitment', label: 'Commitment', description: 'Offers what they will deliver in return.' },
+    ],
     basePrompt: `**STRATEGY GUIDE:** The Value-Based Ask
 
 Don't frame as: "I need this because..."
@@ -247,6 +337,12 @@ Make it easy for them to champion your request to others.`
     difficulty: 'Medium',
     tags: ['mental health', 'retention'],
     explanation: 'Focuses on psychological safety and operational changes, not just "take a day off".',
+    rubric: [
+      { id: 'observation', label: 'Observation', description: 'Names specific signs they noticed.' },
+      { id: 'validation', label: 'Validation', description: 'Affirms the person\'s value and work.' },
+      { id: 'operational_change', label: 'Operational change', description: 'Works on reducing the load, not just advice.' },
+      { id: 'follow_up', label: 'Follow-up', description: 'Agrees how they will check in.' },
+    ],
     basePrompt: `**STRATEGY GUIDE:** The "Oxygen Mask" Conversation
 
 1. **Observation:** "I've noticed you sending emails at 11 PM and seem more withdrawn."
@@ -264,6 +360,12 @@ Make it easy for them to champion your request to others.`
     difficulty: 'Medium',
     tags: ['boundaries', 'self-care'],
     explanation: 'Reframes boundaries as professional discipline, not lack of commitment.',
+    rubric: [
+      { id: 'clear_boundary', label: 'Clear boundary', description: 'States the boundary plainly.' },
+      { id: 'business_reason', label: 'Business reason', description: 'Gives a work-focused reason.' },
+      { id: 'alternative', label: 'Alternative', description: 'Offers a way to reach them for real urgencies.' },
+      { id: 'consistency', label: 'Consistency', description: 'Holds the boundary when pushed.' },
+    ],
     basePrompt: `**STRATEGY GUIDE:** The Professional Boundary
 
 Boundaries aren't "I can't." They're "I don't—so I can."
@@ -283,6 +385,12 @@ Boundaries aren't "I can't." They're "I don't—so I can."
     difficulty: 'Medium',
     tags: ['confidence', 'mindset'],
     explanation: 'Reframes the internal narrative from "I\'m fooling everyone" to "I\'m still learning."',
+    rubric: [
+      { id: 'evidence', label: 'Evidence', description: 'Points to concrete wins and feedback.' },
+      { id: 'reframe', label: 'Reframe', description: 'Replaces luck with preparation and skill.' },
+      { id: 'normalize', label: 'Normalize', description: 'Acknowledges the feeling as common.' },
+      { id: 'self_talk', label: 'Self-talk', description: 'Uses constructive language about themselves.' },
+    ],
     basePrompt: `**STRATEGY GUIDE:** The Evidence Journal
 
 Imposter syndrome ignores evidence. Counter it with:
@@ -300,6 +408,12 @@ Imposter syndrome ignores evidence. Counter it with:
     difficulty: 'High',
     tags: ['resilience', 'accountability'],
     explanation: 'Focuses on accountability, learning, and forward motion—not rumination.',
+    rubric: [
+      { id: 'ownership', label: 'Ownership', description: 'Owns the mistake without minimizing or deflecting.' },
+      { id: 'impact', label: 'Impact', description: 'Shows they understand the consequences.' },
+      { id: 'fix', label: 'Fix', description: 'Shares what has been done to address it.' },
+      { id: 'lesson', label: 'Lesson', description: 'States what will change going forward.' },
+    ],
     basePrompt: `**STRATEGY GUIDE:** The Mistake Recovery Protocol
 
 1. **Own it immediately:** Don't minimize or deflect. "I made the wrong call."
@@ -317,6 +431,12 @@ Imposter syndrome ignores evidence. Counter it with:
     difficulty: 'Low',
     tags: ['self-care', 'boundaries'],
     explanation: 'Normalizes mental health as part of overall health, requiring no special justification.',
+    rubric: [
+      { id: 'simple_ask', label: 'Simple ask', description: 'States the day off without over-explaining.' },
+      { id: 'coverage', label: 'Coverage', description: 'Explains how urgent work is covered.' },
+      { id: 'boundaries', label: 'Boundaries', description: 'Declines to share private details when pressed.' },
+      { id: 'return', label: 'Return', description: 'Gives a clear return date.' },
+    ],
     basePrompt: `**STRATEGY GUIDE:** The Simple Ask
 
 You don't need to justify a mental health day any more than a physical sick day.
@@ -336,6 +456,12 @@ You owe them your output, not your medical history.`
     difficulty: 'Medium',
     tags: ['conflict', 'emotional regulation'],
     explanation: 'Focuses on what you can control: your response, not their behavior.',
+    rubric: [
+      { id: 'name_behavior', label: 'Name the behavior', description: 'Describes behavior rather than labeling the person.' },
+      { id: 'boundaries', label: 'Interaction boundaries', description: 'Sets limits on how they interact.' },
+      { id: 'documentation', label: 'Documentation', description: 'Keeps specifics if the pattern continues.' },
+      { id: 'composure', label: 'Composure', description: 'Stays professional without getting pulled in emotionally.' },
+    ],
     basePrompt: `**STRATEGY GUIDE:** The Detachment Protocol
 
 You can't change them. You can change your response.
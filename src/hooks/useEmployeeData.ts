@@ -4,7 +4,7 @@ import { useAuth } from '../lib/AuthContext';
 const devLog = (...args: unknown[]) => {
   if (import.meta.env.DEV) console.log(...args);
 };
-import { fetchSessions, fetchProgressData, fetchBaseline, fetchWelcomeSurveyScale, fetchCompetencyScores, fetchProgramType, fetchActionItems, fetchCheckpoints, fetchPendingSurvey, fetchCoachingWins, addCoachingWin, deleteCoachingWin, updateCoachingWin, fetchWelcomeSurveyLink } from '../lib/dataFetcher';
+import { fetchSessions, fetchProgressData, fetchBaseline, fetchWelcomeSurveyScale, fetchCompetencyScores, fetchProgramType, fetchActionItems, fetchCheckpoints, fetchPendingSurvey, fetchCoachingWins, addCoachingWin, deleteCoachingWin, updateCoachingWin, fetchWelcomeSurveyLink, fetchConfiguredSessionCount } from '../lib/dataFetcher';
 import { getCoachingState, type CoachingStateData, type CoachingState } from '../lib/coachingState';
 import type { Session, SurveyResponse, BaselineSurvey, WelcomeSurveyScale, CompetencyScore, ProgramType, ActionItem, Checkpoint, PendingSurvey, CoachingWin } from '../lib/types';
 
@@ -81,6 +81,7 @@ export function useEmployeeData(): EmployeeData {
   const [welcomeSurveyScale, setWelcomeSurveyScale] = useState<WelcomeSurveyScale | null>(null);
   const [coachingWins, setCoachingWins] = useState<CoachingWin[]>([]);
   const [welcomeSurveyLink, setWelcomeSurveyLink] = useState<string | null>(null);
+  const [configuredSessionCount, setConfiguredSessionCount] = useState<number | null>(null);
   const [showCheckpointFlow, setShowCheckpointFlow] = useState(false);
   const [stateOverride, setStateOverride] = useState<CoachingState | null>(null);
   const [programTypeOverride, setProgramTypeOverride] = useState<string | null>(null);
@@ -107,7 +108,7 @@ export function useEmployeeData(): EmployeeData {
       setDataLoading(true);
       setDataError(null);
       try {
-        const [sessionsData, progressData, baselineData, welcomeSurveyScaleData, competencyData, programTypeData, actionItemsData, checkpointsData, winsData, welcomeSurveyLinkData] = await Promise.all([
+        const [sessionsData, progressData, baselineData, welcomeSurveyScaleData, competencyData, programTypeData, actionItemsData, checkpointsData, winsData, welcomeSurveyLinkData, configuredSessionCountData] = await Promise.all([
           fetchSessions(employee.id),
           fetchProgressData(employee.company_email),
           fetchBaseline(employee.company_email),
@@ -118,6 +119,7 @@ export function useEmployeeData(): EmployeeData {
           fetchCheckpoints(employee.company_email),
           fetchCoachingWins(employee.company_email),
           employee.company_id ? fetchWelcomeSurveyLink(employee.company_id, employee.coaching_program) : Promise.resolve(null),
+          fetchConfiguredSessionCount(employee.company_id, employee.coaching_program),
         ]);
 
         devLog('[App.loadData] Sessions loaded:', {
@@ -137,6 +139,7 @@ export function useEmployeeData(): EmployeeData {
           actionItemsCount: actionItemsData.length,
           checkpointsCount: checkpointsData.length,
           winsCount: winsData.length,
+          configuredSessionCount: configuredSessionCountData,
         });
 
         setSessions(sessionsData);
@@ -189,9 +192,10 @@ export function useEmployeeData(): EmployeeData {
         setCheckpoints(checkpointsData);
         setCoachingWins(winsData);
         setWelcomeSurveyLink(welcomeSurveyLinkData);
+        setConfiguredSessionCount(configuredSessionCountData);
 
         // Check for pending survey after data loads
-        const pending = await fetchPendingSurvey(employee.company_email, finalProgramType, sessionsData);
+        const pending = await fetchPendingSurvey(employee.company_email, finalProgramType, sessionsData, configuredSessionCountData);
         if (pending) {
           setPendingSurvey(pending);
           setShowSurveyModal(true);
@@ -302,7 +306,7 @@ export function useEmployeeData(): EmployeeData {
   };
 
   const actualCoachingState: CoachingStateData = employee
-    ? getCoachingState(employee, sessions, baseline, competencyScores, checkpoints, welcomeSurveyScale, programType)
+    ? getCoachingState(employee, sessions, baseline, competencyScores, checkpoints, welcomeSurveyScale, programType, configuredSessionCount)
     : defaultCoachingState;
 
   // Effective program type (actual or overridden for admin preview)
@@ -429,6 +433,12 @@ export function useEmployeeData(): EmployeeData {
       due_date: null,
       status: 'pending',
       employee_note: null,
+      source: 'coach',
+      recurrence: null,
+      goal_id: null,
+      last_confirmed_at: null,
+      auto_dismissed_at: null,
+      relevance_prompted_at: null,
       created_at: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
       completed_at: null,
     },
@@ -441,6 +451,12 @@ export function useEmployeeData(): EmployeeData {
       due_date: null,
       status: 'pending',
       employee_note: null,
+      source: 'coach',
+      recurrence: null,
+      goal_id: null,
+      last_confirmed_at: null,
+      auto_dismissed_at: null,
+      relevance_prompted_at: null,
       created_at: new Date(Date.now() - 14 * 24 * 60 * 60 * 1000).toISOString(),
       completed_at: null,
     },
@@ -453,6 +469,12 @@ export function useEmployeeData(): EmployeeData {
       due_date: null,
       status: 'pending',
       employee_note: null,
+      source: 'coach',
+      recurrence: null,
+      goal_id: null,
+      last_confirmed_at: null,
+      auto_dismissed_at: null,
+      relevance_prompted_at: null,
       created_at: new Date(Date.now() - 21 * 24 * 60 * 60 * 1000).toISOString(),
       completed_at: null,
     },
@@ -1,6 +1,6 @@
 import { createContext, useContext, useState, useEffect, useCallback, useMemo, type ReactNode } from 'react';
 import { useAuth } from '../lib/AuthContext';
-import type { Session, ActionItem, Goal, WeeklyCommitment, GoalCheckin, CommitmentStatus, CheckinType } from '../lib/types';
+import type { Session, ActionItem, Goal, GoalStatus, GoalMilestone, WeeklyCommitment, GoalCheckin, CommitmentStatus, CheckinType } from '../lib/types';
 import {
   type CoachingGoal,
   getLatestCoachingGoal,
@@ -9,6 +9,7 @@ import {
   fetchWeeklyCommitments,
   createWeeklyCommitment,
   updateCommitmentStatus,
+  updateCommitmentGoal,
   createGoalCheckin,
   fetchGoalCheckins,
   getCurrentWeekCommitmentStatus,
@@ -17,7 +18,15 @@ import {
   upsertGoalReflection,
   fetchEmployeeGoals,
   createEmployeeGoal,
+  updateEmployeeGoal,
+  updateEmployeeGoalStatus,
+  fetchGoalCommitments,
+  fetchGoalMilestones,
+  createGoalMilestone,
+  updateGoalMilestone,
+  deleteGoalMilestone,
 } from '../lib/fetchers/goalFetcher';
+import { canTransitionGoal } from '../lib/goalLifecycle';
 
 export interface GoalData {
   loading: boolean;
@@ -44,13 +53,23 @@ export interface GoalData {
   updateReflection: (text: string) => Promise<void>;
   updateSelfProgress: (status: string) => Promise<void>;
 
-  // Employee-owned goals
+  // Employee-owned goals, with every commitment ever attached to them, the
+  // check-ins on those commitments and the goals' milestones
   employeeGoals: Goal[];
-  addEmployeeGoal: (title: string) => Promise<Goal | null>;
+  goalCommitments: WeeklyCommitment[];
+  goalCheckins: GoalCheckin[];
+  milestones: GoalMilestone[];
+  addEmployeeGoal: (title: string, details?: { description?: string; competencyArea?: string }) => Promise<Goal | null>;
+  editEmployeeGoal: (goalId: string, updates: Partial<Pick<Goal, 'title' | 'description' | 'competency_area'>>) => Promise<boolean>;
+  setEmployeeGoalStatus: (goalId: string, status: GoalStatus) => Promise<boolean>;
+  addMilestone: (goalId: string, milestone: { title: string; targetValue?: number; unit?: string; dueDate?: string }) => Promise<GoalMilestone | null>;
+  updateMilestone: (milestoneId: string, updates: Partial<Pick<GoalMilestone, 'title' | 'target_value' | 'current_value' | 'unit' | 'due_date' | 'completed_at'>>) => Promise<boolean>;
+  removeMilestone: (milestoneId: string) => Promise<boolean>;
 
   // Actions
-  addCommitment: (commitmentText: string) => Promise<WeeklyCommitment | null>;
+  addCommitment: (commitmentText: string, goalId?: string) => Promise<WeeklyCommitment | null>;
   updateCommitment: (commitmentId: string, status: CommitmentStatus, reflectionText?: string) => Promise<boolean>;
+  linkCommitmentToGoal: (commitmentId: string, goalId: string | null) => Promise<boolean>;
   submitCheckin: (commitmentId: string, checkinType: CheckinType, progressRating: number, reflectionText?: string, blockers?: string) => Promise<GoalCheckin | null>;
   reload: () => Promise<void>;
 
@@ -87,6 +106,9 @@ export function GoalProvider({ children, sessions, actionItems }: GoalProviderPr
 
   // Employee-owned goals
   const [employeeGoals, setEmployeeGoals] = useState<Goal[]>([]);
+  const [goalCommitments, setGoalCommitments] = useState<WeeklyCommitment[]>([]);
+  const [goalCheckins, setGoalCheckins] = useState<GoalCheckin[]>([]);
+  const [milestones, setMilestones] = useState<GoalMilestone[]>([]);
 
   // Reflection & self-progress
   const [reflection, setReflection] = useState<string | null>(null);
@@ -99,16 +121,24 @@ export function GoalProvider({ children, sessions, actionItems }: GoalProviderPr
     setError(null);
 
     try {
-      const [commitmentsData, weekStatus, reflectionData, empGoals] = await Promise.all([
+      const [commitmentsData, weekStatus, reflectionData, empGoals, milestonesData] = await Promise.all([
         fetchWeeklyCommitments(employee.company_email),
         getCurrentWeekCommitmentStatus(employee.company_email),
         fetchGoalReflection(employee.company_email),
         fetchEmployeeGoals(employee.company_email),
+        fetchGoalMilestones(employee.company_email),
       ]);
 
       setCommitments(commitmentsData);
       setCurrentWeek(weekStatus);
       setEmployeeGoals(empGoals);
+      setMilestones(milestonesData);
+
+      const linkedCommitments = await fetchGoalCommitments(employee.company_email, empGoals.map(g => g.id));
+      setGoalCommitments(linkedCommitments);
+      setGoalCheckins(linkedCommitments.length > 0
+        ? await fetchGoalCheckins(employee.company_email, linkedCommitments.map(c => c.id))
+        : []);
 
       if (reflectionData) {
         setReflection(reflectionData.reflection);
@@ -138,7 +168,7 @@ export function GoalProvider({ children, sessions, actionItems }: GoalProviderPr
     }
   }, [loadCommitmentData]);
 
-  const addCommitment = useCallback(async (commitmentText: string): Promise<WeeklyCommitment | null> => {
+  const addCommitment = useCallback(async (commitmentText: string, goalId?: string): Promise<WeeklyCommitment | null> => {
     if (!employee?.company_email) return null;
 
     const companyId = employee.company_id || '';
@@ -148,11 +178,13 @@ export function GoalProvider({ children, sessions, actionItems }: GoalProviderPr
       const newCommitment = await createWeeklyCommitment({
         employee_email: employee.company_email,
         company_id: companyId,
+        goal_id: goalId,
         commitment_text: commitmentText,
         week_start: weekStart,
       });
       if (newCommitment) {
         setCommitments(prev => [newCommitment, ...prev]);
+        if (newCommitment.goal_id) setGoalCommitments(prev => [newCommitment, ...prev]);
         setCurrentWeek(prev => ({
           ...prev,
           hasCommitment: true,
@@ -176,9 +208,10 @@ export function GoalProvider({ children, sessions, actionItems }: GoalProviderPr
     try {
       const success = await updateCommitmentStatus(commitmentId, status, reflectionText);
       if (success) {
-        setCommitments(prev => prev.map(c =>
-          c.id === commitmentId ? { ...c, status, reflection_text: reflectionText ?? c.reflection_text } : c,
-        ));
+        const applyUpdate = (c: WeeklyCommitment) =>
+          c.id === commitmentId ? { ...c, status, reflection_text: reflectionText ?? c.reflection_text } : c;
+        setCommitments(prev => prev.map(applyUpdate));
+        setGoalCommitments(prev => prev.map(applyUpdate));
         setCurrentWeek(prev => {
           if (prev.commitment?.id === commitmentId) {
             return { ...prev, commitment: { ...prev.commitment, status, reflection_text: reflectionText ?? prev.commitment.reflection_text } };
@@ -193,6 +226,32 @@ export function GoalProvider({ children, sessions, actionItems }: GoalProviderPr
     }
   }, [employee?.company_email]);
 
+  const linkCommitmentToGoal = useCallback(async (commitmentId: string, goalId: string | null): Promise<boolean> => {
+    try {
+      const success = await updateCommitmentGoal(commitmentId, goalId);
+      if (success) {
+        const applyLink = (c: WeeklyCommitment) => (c.id === commitmentId ? { ...c, goal_id: goalId } : c);
+        const linked = commitments.find(c => c.id === commitmentId);
+        setCommitments(prev => prev.map(applyLink));
+        setGoalCommitments(prev => {
+          const rest = prev.filter(c => c.id !== commitmentId);
+          return goalId && linked ? [applyLink(linked), ...rest] : rest;
+        });
+        setGoalCheckins(prev => {
+          const rest = prev.filter(k => k.commitment_id !== commitmentId);
+          return goalId ? [...checkins.filter(k => k.commitment_id === commitmentId), ...rest] : rest;
+        });
+        setCurrentWeek(prev => (
+          prev.commitment?.id === commitmentId ? { ...prev, commitment: { ...prev.commitment, goal_id: goalId } } : prev
+        ));
+      }
+      return success;
+    } catch (err) {
+      console.error('[useGoalData] Error linking commitment:', err);
+      return false;
+    }
+  }, [commitments, checkins]);
+
   const submitCheckin = useCallback(async (
     commitmentId: string,
     checkinType: CheckinType,
@@ -216,6 +275,9 @@ export function GoalProvider({ children, sessions, actionItems }: GoalProviderPr
       });
       if (newCheckin) {
         setCheckins(prev => [newCheckin, ...prev]);
+        if (goalCommitments.some(c => c.id === commitmentId)) {
+          setGoalCheckins(prev => [newCheckin, ...prev]);
+        }
         setCurrentWeek(prev => ({
           ...prev,
           hasMidweekCheckin: checkinType === 'midweek' ? true : prev.hasMidweekCheckin,
@@ -227,7 +289,7 @@ export function GoalProvider({ children, sessions, actionItems }: GoalProviderPr
       console.error('[useGoalData] Error submitting checkin:', err);
       return null;
     }
-  }, [employee?.company_email, employee?.company_id]);
+  }, [employee?.company_email, employee?.company_id, goalCommitments]);
 
   const updateReflection = useCallback(async (text: string) => {
     if (!employee?.company_email) return;
@@ -253,7 +315,10 @@ export function GoalProvider({ children, sessions, actionItems }: GoalProviderPr
     if (success) setSelfProgress(status);
   }, [employee?.company_email, employee?.company_id, coachingGoal?.goals]);
 
-  const addEmployeeGoal = useCallback(async (title: string): Promise<Goal | null> => {
+  const addEmployeeGoal = useCallback(async (
+    title: string,
+    details: { description?: string; competencyArea?: string } = {},
+  ): Promise<Goal | null> => {
     if (!employee?.company_email) return null;
     const companyId = employee.company_id || '';
     try {
@@ -261,6 +326,7 @@ export function GoalProvider({ children, sessions, actionItems }: GoalProviderPr
         email: employee.company_email,
         companyId,
         title,
+        ...details,
       });
       if (newGoal) {
         setEmployeeGoals(prev => [newGoal, ...prev]);
@@ -272,6 +338,90 @@ export function GoalProvider({ children, sessions, actionItems }: GoalProviderPr
     }
   }, [employee?.company_email, employee?.company_id]);
 
+  const editEmployeeGoal = useCallback(async (
+    goalId: string,
+    updates: Partial<Pick<Goal, 'title' | 'description' | 'competency_area'>>,
+  ): Promise<boolean> => {
+    try {
+      const updated = await updateEmployeeGoal(goalId, updates);
+      if (updated) {
+        setEmployeeGoals(prev => prev.map(g => (g.id === goalId ? updated : g)));
+      }
+      return !!updated;
+    } catch (err) {
+      console.error('[useGoalData] Error editing employee goal:', err);
+      return false;
+    }
+  }, []);
+
+  const setEmployeeGoalStatus = useCallback(async (goalId: string, status: GoalStatus): Promise<boolean> => {
+    const goal = employeeGoals.find(g => g.id === goalId);
+    if (!goal || !canTransitionGoal(goal.status, status)) return false;
+
+    try {
+      const updated = await updateEmployeeGoalStatus(goalId, status);
+      if (updated) {
+        setEmployeeGoals(prev => prev.map(g => (g.id === goalId ? updated : g)));
+      }
+      return !!updated;
+    } catch (err) {
+      console.error('[useGoalData] Error updating employee goal status:', err);
+      return false;
+    }
+  }, [employeeGoals]);
+
+  const addMilestone = useCallback(async (
+    goalId: string,
+    milestone: { title: string; targetValue?: number; unit?: string; dueDate?: string },
+  ): Promise<GoalMilestone | null> => {
+    if (!employee?.company_email) return null;
+
+    try {
+      const newMilestone = await createGoalMilestone({
+        email: employee.company_email,
+        goalId,
+        ...milestone,
+        sortOrder: milestones.filter(m => m.goal_id === goalId).length,
+      });
+      if (newMilestone) {
+        setMilestones(prev => [...prev, newMilestone]);
+      }
+      return newMilestone;
+    } catch (err) {
+      console.error('[useGoalData] Error adding milestone:', err);
+      return null;
+    }
+  }, [employee?.company_email, milestones]);
+
+  const updateMilestone = useCallback(async (
+    milestoneId: string,
+    updates: Partial<Pick<GoalMilestone, 'title' | 'target_value' | 'current_value' | 'unit' | 'due_date' | 'completed_at'>>,
+  ): Promise<boolean> => {
+    try {
+      const updated = await updateGoalMilestone(milestoneId, updates);
+      if (updated) {
+        setMilestones(prev => prev.map(m => (m.id === milestoneId ? updated : m)));
+      }
+      return !!updated;
+    } catch (err) {
+      console.error('[useGoalData] Error updating milestone:', err);
+      return false;
+    }
+  }, []);
+
+  const removeMilestone = useCallback(async (milestoneId: string): Promise<boolean> => {
+    try {
+      const success = await deleteGoalMilestone(milestoneId);
+      if (success) {
+        setMilestones(prev => prev.filter(m => m.id !== milestoneId));
+      }
+      return success;
+    } catch (err) {
+      console.error('[useGoalData] Error removing milestone:', err);
+      return false;
+    }
+  }, []);
+
   const reload = useCallback(async () => {
     await loadCommitmentData();
   }, [loadCommitmentData]);
@@ -283,7 +433,15 @@ export function GoalProvider({ children, sessions, actionItems }: GoalProviderPr
     goalHistory,
     pendingActionItems,
     employeeGoals,
+    goalCommitments,
+    goalCheckins,
+    milestones,
     addEmployeeGoal,
+    editEmployeeGoal,
+    setEmployeeGoalStatus,
+    addMilestone,
+    updateMilestone,
+    removeMilestone,
     commitments,
     checkins,
     currentWeek,
@@ -293,6 +451,7 @@ export function GoalProvider({ children, sessions, actionItems }: GoalProviderPr
     updateSelfProgress,
     addCommitment,
     updateCommitment,
+    linkCommitmentToGoal,
     submitCheckin,
     reload,
   };
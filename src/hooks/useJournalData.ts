@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '../lib/AuthContext';
+import { useJournalVault } from './useJournalVault';
 import {
   type JournalEntry,
   getWeeklyPrompt,
@@ -9,17 +10,35 @@ import {
   hasEntryThisWeek as checkHasEntryThisWeek,
 } from '../lib/fetchers/journalFetcher';
 
+export interface NewJournalEntryOptions {
+  // Defaults to weeklyPrompt, the same-for-everyone rotation
+  prompt?: string;
+  competencyArea?: string;
+  tags?: string[];
+  mood?: number | null;
+  energy?: number | null;
+}
+
 export interface JournalData {
   entries: JournalEntry[];
   loading: boolean;
+  // Encryption is on and the passphrase hasn't been entered: encrypted
+  // entries have an empty body and new entries can't be saved
+  locked: boolean;
   weeklyPrompt: string;
   hasEntryThisWeek: boolean;
-  addEntry: (body: string, competencyArea?: string) => Promise<JournalEntry | null>;
-  toggleShare: (entryId: string, shared: boolean) => Promise<boolean>;
+  addEntry: (body: string, options?: NewJournalEntryOptions) => Promise<JournalEntry | null>;
+  // Sharing an encrypted entry stores it readable so the coach can see it;
+  // unsharing encrypts it again. Returns the entry as now stored, with body
+  // still readable, or null on failure.
+  toggleShare: (entry: JournalEntry, shared: boolean) => Promise<JournalEntry | null>;
+  updateTags: (entryId: string, tags: string[]) => Promise<boolean>;
 }
 
 export function useJournalData(): JournalData {
   const { employee } = useAuth();
+  const { status: vaultStatus, revision: vaultRevision, encrypt, decryptEntries } = useJournalVault();
+  const [storedEntries, setStoredEntries] = useState<JournalEntry[]>([]);
   const [entries, setEntries] = useState<JournalEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [hasEntry, setHasEntry] = useState(false);
@@ -38,7 +57,7 @@ export function useJournalData(): JournalData {
         fetchJournalEntries(employee.company_email),
         checkHasEntryThisWeek(employee.company_email),
       ]);
-      setEntries(fetchedEntries);
+      setStoredEntries(fetchedEntries);
       setHasEntry(weekCheck);
     } catch (err) {
       console.error('Error loading journal data:', err);
@@ -47,43 +66,82 @@ export function useJournalData(): JournalData {
     }
   }, [employee?.company_email]);
 
+  // Also reload after the vault encrypts or decrypts entries in bulk
   useEffect(() => {
     loadData();
-  }, [loadData]);
+  }, [loadData, vaultRevision]);
+
+  // Re-run when the journal is unlocked or locked
+  useEffect(() => {
+    let cancelled = false;
+    decryptEntries(storedEntries).then((decrypted) => {
+      if (!cancelled) setEntries(decrypted);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [storedEntries, decryptEntries]);
 
   const addEntry = useCallback(
-    async (body: string, competencyArea?: string): Promise<JournalEntry | null> => {
+    async (body: string, options: NewJournalEntryOptions = {}): Promise<JournalEntry | null> => {
       if (!employee?.company_email || !employee?.company_id) return null;
+      if (vaultStatus === 'locked' || vaultStatus === 'loading') return null;
 
+      const encrypted = vaultStatus === 'unlocked';
       const created = await createJournalEntry({
         employee_email: employee.company_email,
         company_id: employee.company_id,
-        prompt: weeklyPrompt,
-        body,
-        competency_area: competencyArea,
+        prompt: options.prompt || weeklyPrompt,
+        body: encrypted ? '' : body,
+        encrypted_body: encrypted ? await encrypt(body) : undefined,
+        competency_area: options.competencyArea,
+        mood: options.mood,
+        energy: options.energy,
+        tags: options.tags,
       });
 
       if (created) {
-        setEntries((prev) => [created, ...prev]);
+        setStoredEntries((prev) => [created, ...prev]);
         setHasEntry(true);
       }
 
-      return created;
+      return created && { ...created, body };
     },
-    [employee?.company_email, employee?.company_id, weeklyPrompt]
+    [employee?.company_email, employee?.company_id, weeklyPrompt, vaultStatus, encrypt]
   );
 
   const toggleShare = useCallback(
-    async (entryId: string, shared: boolean): Promise<boolean> => {
-      const success = await updateJournalEntry(entryId, {
-        is_shared_with_coach: shared,
-      });
+    async (entry: JournalEntry, shared: boolean): Promise<JournalEntry | null> => {
+      const updates: Parameters<typeof updateJournalEntry>[1] = { is_shared_with_coach: shared };
+      if (shared && entry.encrypted_body) {
+        // entry.body is empty while locked; never overwrite the ciphertext with it
+        if (vaultStatus !== 'unlocked' || !entry.body) return null;
+        updates.body = entry.body;
+        updates.encrypted_body = null;
+      } else if (!shared && !entry.encrypted_body && vaultStatus === 'unlocked') {
+        updates.body = '';
+        updates.encrypted_body = await encrypt(entry.body);
+      }
+
+      const success = await updateJournalEntry(entry.id, updates);
+
+      if (!success) return null;
+
+      setStoredEntries((prev) =>
+        prev.map((e) => (e.id === entry.id ? { ...e, ...updates } : e))
+      );
+      return { ...entry, ...updates, body: entry.body };
+    },
+    [vaultStatus, encrypt]
+  );
+
+  const updateTags = useCallback(
+    async (entryId: string, tags: string[]): Promise<boolean> => {
+      const success = await updateJournalEntry(entryId, { tags });
 
       if (success) {
-        setEntries((prev) =>
-          prev.map((e) =>
-            e.id === entryId ? { ...e, is_shared_with_coach: shared } : e
-          )
+        setStoredEntries((prev) =>
+          prev.map((e) => (e.id === entryId ? { ...e, tags } : e))
         );
       }
 
@@ -95,9 +153,11 @@ export function useJournalData(): JournalData {
   return {
     entries,
     loading,
+    locked: vaultStatus === 'locked',
     weeklyPrompt,
     hasEntryThisWeek: hasEntry,
     addEntry,
     toggleShare,
+    updateTags,
   };
 }
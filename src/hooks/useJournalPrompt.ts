@@ -0,0 +1,72 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useAuth } from '../lib/AuthContext';
+import { usePortalData } from '../components/ProtectedLayout';
+import { SCALE_FOCUS_AREA_LABELS } from '../lib/types';
+import { fetchSelectedFocusAreas } from '../lib/dataFetcher';
+import { fetchWeeklyCommitments, getWeekStart } from '../lib/fetchers/goalFetcher';
+import { fetchAnsweredPrompts, fetchJournalPromptLibrary } from '../lib/fetchers/journalFetcher';
+import { selectJournalPrompt, type PersonalJournalPrompt } from '../lib/journalPrompts';
+
+/**
+ * This week's personalised journal prompt (see lib/journalPrompts).
+ * `prompt` is null until the inputs have loaded.
+ */
+export function useJournalPrompt(): { prompt: PersonalJournalPrompt | null; loading: boolean } {
+  const { employee } = useAuth();
+  const { sessions, welcomeSurveyScale } = usePortalData();
+  const email = employee?.company_email?.toLowerCase();
+  const [prompt, setPrompt] = useState<PersonalJournalPrompt | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Most recent completed session the coach left goals or a plan on
+  const latestSession = useMemo(() => {
+    const withNotes = sessions
+      .filter((s) => s.status === 'Completed' && (s.goals || s.plan))
+      .sort((a, b) => new Date(b.session_date).getTime() - new Date(a.session_date).getTime());
+    return withNotes[0] ? { goals: withNotes[0].goals, plan: withNotes[0].plan } : null;
+  }, [sessions]);
+
+  const surveyFocusAreas = useMemo(() => {
+    if (!welcomeSurveyScale) return [];
+    return Object.entries(SCALE_FOCUS_AREA_LABELS)
+      .filter(([field]) => welcomeSurveyScale[field as keyof typeof welcomeSurveyScale] === true)
+      .map(([, label]) => label);
+  }, [welcomeSurveyScale]);
+
+  useEffect(() => {
+    if (!email) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const weekStart = getWeekStart();
+
+    async function load(employeeEmail: string) {
+      setLoading(true);
+      const [selectedFocusAreas, commitments, answeredPrompts, library] = await Promise.all([
+        fetchSelectedFocusAreas(employeeEmail),
+        fetchWeeklyCommitments(employeeEmail, weekStart),
+        fetchAnsweredPrompts(employeeEmail),
+        fetchJournalPromptLibrary(),
+      ]);
+      if (cancelled) return;
+
+      setPrompt(selectJournalPrompt({
+        focusAreas: [...selectedFocusAreas, ...surveyFocusAreas],
+        latestSession,
+        commitment: commitments[0]?.commitment_text ?? null,
+        answeredPrompts,
+        library,
+      }, `${employeeEmail}:${weekStart}`));
+      setLoading(false);
+    }
+
+    load(email);
+    return () => {
+      cancelled = true;
+    };
+  }, [email, latestSession, surveyFocusAreas]);
+
+  return { prompt, loading };
+}
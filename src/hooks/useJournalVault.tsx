@@ -0,0 +1,200 @@
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, type ReactNode } from 'react';
+import { useAuth } from '../lib/AuthContext';
+import {
+  type JournalEntry,
+  type JournalEncryptionKey,
+  fetchJournalEncryptionKey,
+  createJournalEncryptionKey,
+  deleteJournalEncryptionKey,
+  deleteEncryptedJournalEntries,
+  fetchAllJournalEntries,
+  updateJournalEntry,
+} from '../lib/fetchers/journalFetcher';
+import {
+  PBKDF2_ITERATIONS,
+  checkVerifier,
+  createVerifier,
+  decryptText,
+  deriveJournalKey,
+  encryptText,
+  generateSalt,
+} from '../lib/journalCrypto';
+
+// off: entries are stored readable. locked: encryption is on but the
+// passphrase hasn't been entered since the page loaded.
+export type JournalVaultStatus = 'loading' | 'off' | 'locked' | 'unlocked';
+
+export interface JournalVault {
+  status: JournalVaultStatus;
+  // Bumped whenever stored entries were re-encrypted or decrypted in bulk,
+  // so loaded entries can be refetched
+  revision: number;
+  // Turn encryption on and encrypt existing private entries
+  enable: (passphrase: string) => Promise<boolean>;
+  unlock: (passphrase: string) => Promise<boolean>;
+  lock: () => void;
+  // Decrypt every entry back to readable form and forget the key settings
+  disable: () => Promise<boolean>;
+  // Forgotten passphrase: delete encrypted entries and turn encryption off
+  reset: () => Promise<boolean>;
+  // Throws while locked
+  encrypt: (text: string) => Promise<string>;
+  // Fills in body for encrypted entries; entries stay empty while locked
+  decryptEntries: (entries: JournalEntry[]) => Promise<JournalEntry[]>;
+}
+
+const JournalVaultContext = createContext<JournalVault | null>(null);
+
+export function JournalVaultProvider({ children }: { children: ReactNode }) {
+  const { employee } = useAuth();
+  const email = employee?.company_email?.toLowerCase();
+
+  const [settings, setSettings] = useState<JournalEncryptionKey | null>(null);
+  const [loading, setLoading] = useState(true);
+  // Held in memory only: reloading the page locks the journal again
+  const [key, setKey] = useState<CryptoKey | null>(null);
+  const [revision, setRevision] = useState(0);
+
+  useEffect(() => {
+    if (!email) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    fetchJournalEncryptionKey(email).then((row) => {
+      if (cancelled) return;
+      setSettings(row);
+      setKey(null);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [email]);
+
+  const status: JournalVaultStatus = loading ? 'loading' : !settings ? 'off' : key ? 'unlocked' : 'locked';
+
+  // Private entries saved readable while the key wasn't available (e.g.
+  // captured from Slack or Teams, or unshared while locked)
+  const encryptReadableEntries = useCallback(async (employeeEmail: string, journalKey: CryptoKey) => {
+    const entries = await fetchAllJournalEntries(employeeEmail);
+    const readable = entries.filter((e) => !e.encrypted_body && !e.is_shared_with_coach && e.body);
+    for (const entry of readable) {
+      await updateJournalEntry(entry.id, {
+        body: '',
+        encrypted_body: await encryptText(journalKey, entry.body),
+      });
+    }
+    if (readable.length > 0) setRevision((r) => r + 1);
+  }, []);
+
+  const enable = useCallback(async (passphrase: string): Promise<boolean> => {
+    if (!email || settings) return false;
+
+    const salt = generateSalt();
+    const journalKey = await deriveJournalKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const created = await createJournalEncryptionKey({
+      employee_email: email,
+      salt,
+      iterations: PBKDF2_ITERATIONS,
+      verifier: await createVerifier(journalKey),
+    });
+    if (!created) return false;
+
+    await encryptReadableEntries(email, journalKey);
+    setSettings(created);
+    setKey(journalKey);
+    return true;
+  }, [email, settings, encryptReadableEntries]);
+
+  const unlock = useCallback(async (passphrase: string): Promise<boolean> => {
+    if (!email || !settings) return false;
+
+    const journalKey = await deriveJournalKey(passphrase, settings.salt, settings.iterations);
+    if (!(await checkVerifier(journalKey, settings.verifier))) return false;
+
+    setKey(journalKey);
+    encryptReadableEntries(email, journalKey).catch((err) => {
+      console.error('Error encrypting readable journal entries:', err);
+    });
+    return true;
+  }, [email, settings, encryptReadableEntries]);
+
+  const lock = useCallback(() => setKey(null), []);
+
+  const disable = useCallback(async (): Promise<boolean> => {
+    if (!email || !key) return false;
+
+    const entries = await fetchAllJournalEntries(email);
+    for (const entry of entries) {
+      if (!entry.encrypted_body) continue;
+      const success = await updateJournalEntry(entry.id, {
+        body: await decryptText(key, entry.encrypted_body),
+        encrypted_body: null,
+      });
+      if (!success) return false;
+    }
+
+    if (!(await deleteJournalEncryptionKey(email))) return false;
+    setSettings(null);
+    setKey(null);
+    setRevision((r) => r + 1);
+    return true;
+  }, [email, key]);
+
+  const reset = useCallback(async (): Promise<boolean> => {
+    if (!email) return false;
+    if (!(await deleteEncryptedJournalEntries(email))) return false;
+    if (!(await deleteJournalEncryptionKey(email))) return false;
+    setSettings(null);
+    setKey(null);
+    setRevision((r) => r + 1);
+    return true;
+  }, [email]);
+
+  const encrypt = useCallback(async (text: string): Promise<string> => {
+    if (!key) throw new Error('Journal is locked');
+    return encryptText(key, text);
+  }, [key]);
+
+  const decryptEntries = useCallback(async (entries: JournalEntry[]): Promise<JournalEntry[]> => {
+    if (!key) return entries;
+    return Promise.all(entries.map(async (entry) => {
+      if (!entry.encrypted_body) return entry;
+      try {
+        return { ...entry, body: await decryptText(key, entry.encrypted_body) };
+      } catch (err) {
+        console.error('Error decrypting journal entry:', entry.id, err);
+        return entry;
+      }
+    }));
+  }, [key]);
+
+  const value = useMemo<JournalVault>(() => ({
+    status,
+    revision,
+    enable,
+    unlock,
+    lock,
+    disable,
+    reset,
+    encrypt,
+    decryptEntries,
+  }), [status, revision, enable, unlock, lock, disable, reset, encrypt, decryptEntries]);
+
+  return (
+    <JournalVaultContext.Provider value={value}>
+      {children}
+    </JournalVaultContext.Provider>
+  );
+}
+
+export function useJournalVault(): JournalVault {
+  const context = useContext(JournalVaultContext);
+  if (!context) {
+    throw new Error('useJournalVault must be used within a JournalVaultProvider');
+  }
+  return context;
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { getActionItemDue, needsRelevanceCheck } from './actionItemDue';
+import type { ActionItem } from './types';
+
+const today = '2026-10-19';
+
+const item = (overrides: Partial<Pick<ActionItem, 'status' | 'due_date' | 'recurrence' | 'created_at' | 'last_confirmed_at' | 'relevance_prompted_at'>> = {}) => ({
+  status: 'pending' as const,
+  due_date: null,
+  recurrence: null,
+  created_at: '2026-10-15T12:00:00Z',
+  last_confirmed_at: null,
+  relevance_prompted_at: null,
+  ...overrides,
+});
+
+describe('getActionItemDue', () => {
+  it('classifies pending items by local calendar day', () => {
+    expect(getActionItemDue(item({ due_date: '2026-10-17' }), today)).toEqual({ state: 'overdue', days: -2 });
+    expect(getActionItemDue(item({ due_date: '2026-10-19' }), today)?.state).toBe('due_today');
+    expect(getActionItemDue(item({ due_date: '2026-10-22' }), today)?.state).toBe('due_soon');
+    expect(getActionItemDue(item({ due_date: '2026-11-01' }), today)?.state).toBe('upcoming');
+  });
+
+  it('ignores undated and finished items', () => {
+    expect(getActionItemDue(item(), today)).toBeNull();
+    expect(getActionItemDue(item({ status: 'completed', due_date: '2026-10-01' }), today)).toBeNull();
+  });
+});
+
+describe('needsRelevanceCheck', () => {
+  it('asks once the scheduler has prompted, until the item is kept or finished', () => {
+    const prompted = '2026-10-18T09:00:00Z';
+    expect(needsRelevanceCheck(item({ due_date: '2026-09-01' }))).toBe(false);
+    expect(needsRelevanceCheck(item({ relevance_prompted_at: prompted }))).toBe(true);
+    expect(needsRelevanceCheck(item({ relevance_prompted_at: prompted, last_confirmed_at: '2026-10-01T12:00:00Z' }))).toBe(true);
+    expect(needsRelevanceCheck(item({ relevance_prompted_at: prompted, last_confirmed_at: '2026-10-18T10:00:00Z' }))).toBe(false);
+    expect(needsRelevanceCheck(item({ relevance_prompted_at: prompted, recurrence: 'weekly' }))).toBe(false);
+    expect(needsRelevanceCheck(item({ relevance_prompted_at: prompted, status: 'completed' as 'pending' }))).toBe(false);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Due state of a pending action item, for the overdue badges in the portal.
+ *
+ * Dates are compared as local calendar days, so an item due today stays
+ * "due today" until midnight rather than going overdue at UTC midnight.
+ */
+
+import type { ActionItem } from './types';
+
+// "Due soon" covers the next few days
+const DUE_SOON_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ActionItemDueState = 'overdue' | 'due_today' | 'due_soon' | 'upcoming';
+
+export interface ActionItemDue {
+  state: ActionItemDueState;
+  // Days until due; negative when overdue
+  days: number;
+}
+
+/** YYYY-MM-DD for a Date in the browser's timezone */
+export function localDateString(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to.slice(0, 10)}T00:00:00Z`) - Date.parse(`${from.slice(0, 10)}T00:00:00Z`)) / DAY_MS);
+}
+
+export function getActionItemDue(item: Pick<ActionItem, 'status' | 'due_date'>, today: string): ActionItemDue | null {
+  if (item.status !== 'pending' || !item.due_date) return null;
+  const days = daysBetween(today, item.due_date);
+
+  if (days < 0) return { state: 'overdue', days };
+  if (days === 0) return { state: 'due_today', days };
+  if (days <= DUE_SOON_DAYS) return { state: 'due_soon', days };
+  return { state: 'upcoming', days };
+}
+
+/**
+ * Whether the nudge scheduler has asked "still relevant?" about a pending
+ * item and the employee hasn't said to keep it since. The scheduler decides
+ * when to ask (ACTION_STILL_RELEVANT_DAYS); the portal repeats its question.
+ */
+export function needsRelevanceCheck(
+  item: Pick<ActionItem, 'status' | 'recurrence' | 'last_confirmed_at' | 'relevance_prompted_at'>
+): boolean {
+  if (item.status !== 'pending' || item.recurrence || !item.relevance_prompted_at) return false;
+  return !item.last_confirmed_at || Date.parse(item.last_confirmed_at) < Date.parse(item.relevance_prompted_at);
+}
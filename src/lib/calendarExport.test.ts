@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { buildSessionIcs, getSessionUid } from './calendarExport';
+import type { Session } from './types';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+function session(overrides: Partial<Session> = {}): Session {
+  return {
+    id: 'abc-123',
+    session_date: '2026-10-21T15:00:00Z',
+    status: 'Upcoming',
+    coach_name: 'Dana Reyes',
+    duration_minutes: 30,
+    zoom_join_link: null,
+    employee_pre_session_note: null,
+    ...overrides,
+  } as Session;
+}
+
+// Undo line folding so assertions can look at whole content lines
+function unfold(ics: string): string[] {
+  return ics.replace(/\r\n /g, '').split('\r\n');
+}
+
+describe('buildSessionIcs', () => {
+  it('builds a confirmed event with a stable UID', () => {
+    const lines = unfold(buildSessionIcs(session(), now));
+
+    expect(lines).toContain(`UID:${getSessionUid({ id: 'abc-123' })}`);
+    expect(lines).toContain('DTSTART:20261021T150000Z');
+    expect(lines).toContain('DTEND:20261021T153000Z');
+    expect(lines).toContain('STATUS:CONFIRMED');
+  });
+
+  it('marks cancelled and rescheduled sessions as cancelled', () => {
+    for (const status of ['Cancelled', 'Canceled', 'Late Cancel', 'Rescheduled']) {
+      const ics = buildSessionIcs(session({ status: status as Session['status'] }), now);
+      expect(unfold(ics)).toContain('STATUS:CANCELLED');
+    }
+  });
+
+  it('escapes text values', () => {
+    const lines = unfold(buildSessionIcs(session({
+      coach_name: 'Lee, Jr.; PhD',
+      employee_pre_session_note: 'Line one\nC:\\path',
+    }), now));
+
+    expect(lines).toContain('SUMMARY:Coaching session with Lee\\, Jr.\\; PhD');
+    expect(lines).toContain('DESCRIPTION:Your note for this session:\\nLine one\\nC:\\\\path');
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const note = 'é'.repeat(100);
+    const ics = buildSessionIcs(session({ employee_pre_session_note: note }), now);
+    const encoder = new TextEncoder();
+
+    for (const line of ics.split('\r\n')) {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(ics).not.toContain('�');
+    expect(unfold(ics)).toContain(`DESCRIPTION:Your note for this session:\\n${note}`);
+  });
+});
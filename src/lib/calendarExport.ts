@@ -0,0 +1,132 @@
+import type { Session } from './types';
+
+// iCalendar (RFC 5545) export for coaching sessions.
+//
+// The UID is derived from the session_tracking id, so re-importing a session
+// after session-reconciliation moves it updates the existing calendar entry
+// instead of creating a duplicate. The subscribable feed
+// (supabase/functions/session-calendar-feed) uses the same UID scheme — keep
+// the two in sync if this changes.
+
+const UID_DOMAIN = 'my.boon-health.com';
+
+// Salesforce leaves DurationInMinutes empty on some older appointments.
+const DEFAULT_SESSION_MINUTES = 45;
+
+// Statuses that mean the slot is no longer happening. Calendar clients hide
+// or strike through events with STATUS:CANCELLED. Includes the raw SF
+// spelling as well as the portal's normalized one; must match _shared/ics.ts.
+const CANCELLED_STATUSES = ['Cancelled', 'Canceled', 'Late Cancel', 'Rescheduled'];
+
+function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Content lines are folded at 75 octets of UTF-8; continuation lines start
+// with a single space. Breaks fall between characters so multi-byte text
+// stays intact.
+function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // The leading space counts toward a continuation line's 75 octets
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+export function getSessionUid(session: Pick<Session, 'id'>): string {
+  return `session-${session.id}@${UID_DOMAIN}`;
+}
+
+function buildDescription(session: Session): string {
+  const lines: string[] = [];
+  if (session.zoom_join_link) {
+    lines.push(`Join: ${session.zoom_join_link}`);
+  }
+  if (session.employee_pre_session_note?.trim()) {
+    if (lines.length > 0) lines.push('');
+    lines.push('Your note for this session:');
+    lines.push(session.employee_pre_session_note.trim());
+  }
+  return lines.join('\n');
+}
+
+function buildEventLines(session: Session, now: Date): string[] {
+  const start = new Date(session.session_date);
+  const end = new Date(start.getTime() + (session.duration_minutes || DEFAULT_SESSION_MINUTES) * 60_000);
+  const description = buildDescription(session);
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${getSessionUid(session)}`,
+    `DTSTAMP:${formatIcsDate(now)}`,
+    `DTSTART:${formatIcsDate(start)}`,
+    `DTEND:${formatIcsDate(end)}`,
+    `SUMMARY:${escapeIcsText(`Coaching session with ${session.coach_name}`)}`,
+    `STATUS:${CANCELLED_STATUSES.includes(session.status) ? 'CANCELLED' : 'CONFIRMED'}`,
+  ];
+  if (description) {
+    lines.push(`DESCRIPTION:${escapeIcsText(description)}`);
+  }
+  if (session.zoom_join_link) {
+    lines.push(`LOCATION:${escapeIcsText(session.zoom_join_link)}`);
+    lines.push(`URL:${session.zoom_join_link}`);
+  }
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Build a single-event .ics document for a session
+ */
+export function buildSessionIcs(session: Session, now: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Boon Health//Employee Portal//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...buildEventLines(session, now),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Trigger a browser download of a session's .ics file
+ */
+export function downloadSessionIcs(session: Session): void {
+  const blob = new Blob([buildSessionIcs(session)], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const date = session.session_date.split('T')[0];
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `boon-coaching-${date}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
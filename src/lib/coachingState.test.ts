@@ -4,6 +4,8 @@ import {
   canBookSessions,
   isAlumniState,
   getStateLabel,
+  getExpectedSessionCount,
+  DEFAULT_PROGRAM_SESSION_COUNTS,
   type CoachingState,
 } from './coachingState';
 import type { Employee, Session, BaselineSurvey, CompetencyScore } from './types';
@@ -67,6 +69,9 @@ const createSession = (overrides: Partial<Session> = {}): Session => ({
   ...overrides,
 });
 
+// Session dates relative to now, so fixtures don't age into the INACTIVE window
+const daysAgo = (days: number): string => new Date(Date.now() - days * 86400000).toISOString();
+
 const createBaseline = (overrides: Partial<BaselineSurvey> = {}): BaselineSurvey => ({
   id: 'baseline-1',
   email: 'test@example.com',
@@ -151,7 +156,7 @@ describe('getCoachingState', () => {
   describe('ACTIVE_PROGRAM state', () => {
     it('returns ACTIVE_PROGRAM when has completed sessions', () => {
       const employee = createEmployee({ coaching_program: 'GROW - Cohort 1', coach_id: 'coach-1' });
-      const completedSession = createSession({ status: 'Completed' });
+      const completedSession = createSession({ status: 'Completed', session_date: daysAgo(7) });
       const result = getCoachingState(employee, [completedSession], createBaseline());
       expect(result.state).toBe('ACTIVE_PROGRAM');
       expect(result.hasCompletedSessions).toBe(true);
@@ -161,7 +166,7 @@ describe('getCoachingState', () => {
     it('calculates program progress correctly', () => {
       const employee = createEmployee({ coaching_program: 'GROW - Cohort 1' });
       const sessions = Array.from({ length: 6 }, (_, i) =>
-        createSession({ id: `session-${i}`, status: 'Completed' })
+        createSession({ id: `session-${i}`, status: 'Completed', session_date: daysAgo(7 + i * 14) })
       );
       const result = getCoachingState(employee, sessions, createBaseline());
       expect(result.state).toBe('ACTIVE_PROGRAM');
@@ -260,6 +265,89 @@ describe('getCoachingState', () => {
   });
 });
 
+describe('configured session counts', () => {
+  const growEmployee = () => createEmployee({ coaching_program: 'GROW - Cohort 1', coach_id: 'coach-1' });
+  const completedSessions = (count: number) =>
+    Array.from({ length: count }, (_, i) =>
+      createSession({ id: `session-${i}`, status: 'Completed', session_date: daysAgo(7 + i * 14) })
+    );
+
+  it.each([8, 10, 16])('uses a %i-session GROW contract for totals and progress', (contracted) => {
+    const half = contracted / 2;
+    const result = getCoachingState(growEmployee(), completedSessions(half), createBaseline(), [], [], null, null, contracted);
+    expect(result.totalExpectedSessions).toBe(contracted);
+    expect(result.programProgress).toBe(50);
+    expect(result.state).toBe('ACTIVE_PROGRAM');
+  });
+
+  it('moves an 8-session contract to PENDING_REFLECTION after the 8th session', () => {
+    const result = getCoachingState(growEmployee(), completedSessions(8), createBaseline(), [], [], null, null, 8);
+    expect(result.state).toBe('PENDING_REFLECTION');
+    expect(result.programProgress).toBe(100);
+  });
+
+  it('keeps a 16-session contract active after 12 sessions', () => {
+    const result = getCoachingState(growEmployee(), completedSessions(12), createBaseline(), [], [], null, null, 16);
+    expect(result.state).toBe('ACTIVE_PROGRAM');
+    expect(result.programProgress).toBe(75);
+  });
+
+  it('applies the configured count to EXEC programs', () => {
+    const employee = createEmployee({ coaching_program: 'EXEC Leadership 2024', coach_id: 'coach-1' });
+    const result = getCoachingState(employee, completedSessions(10), createBaseline(), [], [], null, null, 10);
+    expect(result.totalExpectedSessions).toBe(10);
+    expect(result.state).toBe('PENDING_REFLECTION');
+  });
+
+  it('never puts SCALE into PENDING_REFLECTION, even with a session cap', () => {
+    const employee = createEmployee({ coaching_program: 'SCALE', coach_id: 'coach-1' });
+    const result = getCoachingState(employee, completedSessions(8), null, [], [], null, null, 8);
+    expect(result.totalExpectedSessions).toBe(8);
+    expect(result.programProgress).toBe(0);
+    expect(result.state).toBe('ACTIVE_PROGRAM');
+  });
+
+  it('falls back to the program default when no count is configured', () => {
+    const result = getCoachingState(growEmployee(), completedSessions(8), createBaseline(), [], [], null, null, null);
+    expect(result.totalExpectedSessions).toBe(12);
+    expect(result.state).toBe('ACTIVE_PROGRAM');
+  });
+
+  it('ignores non-positive configured counts', () => {
+    const result = getCoachingState(growEmployee(), completedSessions(3), createBaseline(), [], [], null, null, 0);
+    expect(result.totalExpectedSessions).toBe(12);
+    expect(result.programProgress).toBe(25);
+  });
+
+  it('falls back to 12 for unknown programs', () => {
+    const employee = createEmployee({ coaching_program: 'Custom Leadership Track', coach_id: 'coach-1' });
+    const result = getCoachingState(employee, completedSessions(3), createBaseline());
+    expect(result.totalExpectedSessions).toBe(12);
+  });
+});
+
+describe('getExpectedSessionCount', () => {
+  it('returns the configured count when positive', () => {
+    expect(getExpectedSessionCount('GROW', 8)).toBe(8);
+    expect(getExpectedSessionCount('GROW', 10)).toBe(10);
+    expect(getExpectedSessionCount('GROW', 16)).toBe(16);
+    expect(getExpectedSessionCount(null, 10)).toBe(10);
+  });
+
+  it('returns program defaults when not configured', () => {
+    expect(getExpectedSessionCount('GROW')).toBe(DEFAULT_PROGRAM_SESSION_COUNTS.GROW);
+    expect(getExpectedSessionCount('EXEC')).toBe(DEFAULT_PROGRAM_SESSION_COUNTS.EXEC);
+    expect(getExpectedSessionCount('SCALE')).toBe(DEFAULT_PROGRAM_SESSION_COUNTS.SCALE);
+  });
+
+  it('returns 12 for unknown or missing program types', () => {
+    expect(getExpectedSessionCount('PILOT')).toBe(12);
+    expect(getExpectedSessionCount(null)).toBe(12);
+    expect(getExpectedSessionCount('GROW', -4)).toBe(12);
+    expect(getExpectedSessionCount('GROW', Number.NaN)).toBe(12);
+  });
+});
+
 describe('canBookSessions', () => {
   it('returns true for MATCHED_PRE_FIRST_SESSION', () => {
     expect(canBookSessions('MATCHED_PRE_FIRST_SESSION')).toBe(true);
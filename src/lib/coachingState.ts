@@ -81,12 +81,32 @@ export interface CoachingStateData {
   scaleCheckpointStatus: ScaleCheckpointStatus;
 }
 
-// Program session expectations
-const PROGRAM_SESSION_COUNTS: Record<string, number> = {
+// Default session expectations, used when neither programs.sessions_per_employee
+// nor program_config.sessions_per_employee gives a contracted count (legacy
+// programs, ghost rows, or an unrecognised program name).
+export const DEFAULT_PROGRAM_SESSION_COUNTS: Record<string, number> = {
   GROW: 12,
   EXEC: 12,
   SCALE: 6,
 };
+const FALLBACK_SESSION_COUNT = 12;
+
+/**
+ * Resolve how many sessions a program is expected to have.
+ * A configured count (8-, 10-, 16-session contracts etc.) wins; otherwise
+ * fall back to the per-program default.
+ */
+export function getExpectedSessionCount(
+  programType: string | null,
+  configuredSessionCount: number | null = null
+): number {
+  if (configuredSessionCount !== null && Number.isFinite(configuredSessionCount) && configuredSessionCount > 0) {
+    return Math.round(configuredSessionCount);
+  }
+  return programType
+    ? DEFAULT_PROGRAM_SESSION_COUNTS[programType] || FALLBACK_SESSION_COUNT
+    : FALLBACK_SESSION_COUNT;
+}
 
 // Statuses that count towards session totals (completed, late cancels, no-shows all count)
 export const COUNTED_SESSION_STATUSES = ['Completed', 'Late Cancel', 'Client No-Show'];
@@ -107,12 +127,11 @@ export function isUpcomingSession(session: Session): boolean {
  */
 function areAllSessionsDone(
   sessions: Session[],
-  programType: string | null
+  expectedSessions: number
 ): boolean {
   // Count sessions that count towards totals (completed, late cancel, no-show)
   const countedSessions = sessions.filter(s => COUNTED_SESSION_STATUSES.includes(s.status));
   const upcomingSessions = sessions.filter(isUpcomingSession);
-  const expectedSessions = programType ? PROGRAM_SESSION_COUNTS[programType] || 12 : 12;
 
   return countedSessions.length >= expectedSessions && upcomingSessions.length === 0;
 }
@@ -227,6 +246,7 @@ function calculateScaleCheckpointStatus(
  * Single source of truth for coaching state
  *
  * @param fetchedProgramType - Optional program type from database lookup (takes precedence over pattern matching)
+ * @param configuredSessionCount - Optional contracted session count from programs / program_config
  */
 export function getCoachingState(
   employee: Employee | null,
@@ -235,7 +255,8 @@ export function getCoachingState(
   competencyScores: CompetencyScore[] = [],
   checkpoints: Checkpoint[] = [],
   welcomeSurveyScale: WelcomeSurveyScale | null = null,
-  fetchedProgramType: string | null = null
+  fetchedProgramType: string | null = null,
+  configuredSessionCount: number | null = null
 ): CoachingStateData {
   // Sessions that actually completed (for finding last session with goals/plan)
   const completedSessions = sessions.filter(s => s.status === 'Completed');
@@ -258,14 +279,14 @@ export function getCoachingState(
   const programType = fetchedProgramType || extractProgramType(employee?.coaching_program || null);
   const isGrowOrExec = programType === 'GROW' || programType === 'EXEC';
   const isScale = programType === 'SCALE';
-  const totalExpectedSessions = programType ? PROGRAM_SESSION_COUNTS[programType] || 12 : 12;
+  const totalExpectedSessions = getExpectedSessionCount(programType, configuredSessionCount);
   const programProgress = isScale
     ? 0 // SCALE is ongoing, no fixed progress
     : Math.min(100, Math.round((countedSessions.length / totalExpectedSessions) * 100));
 
   const hasEndOfProgramScores = competencyScores.some(cs => cs.score_type === 'end_of_program');
   const hasReflection = hasEndOfProgramScores;
-  const allSessionsDone = !isScale && areAllSessionsDone(sessions, programType);
+  const allSessionsDone = !isScale && areAllSessionsDone(sessions, totalExpectedSessions);
   const isFullyCompleted = !isScale && isProgramFullyCompleted(employee, competencyScores);
 
   // Days since last truly-completed session. Late Cancel / No-Show don't count
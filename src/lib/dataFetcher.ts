@@ -1,5 +1,8 @@
 import { supabase } from './supabase';
-import type { Employee, Session, SurveyResponse, BaselineSurvey, WelcomeSurveyScale, CompetencyScore, ProgramType, ActionItem, SlackConnectionStatus, TeamsConnectionStatus, Nudge, Checkpoint, Coach } from './types';
+import { getExpectedSessionCount } from './coachingState';
+import { localDateString } from './actionItemDue';
+import type { ProgressReport } from './progressReport';
+import type { Employee, Session, SurveyResponse, BaselineSurvey, WelcomeSurveyScale, CompetencyScore, ProgramType, ActionItem, ActionItemRecurrence, SlackConnectionStatus, TeamsConnectionStatus, EmailNudgeSettings, NudgeDeliveryWindow, Nudge, DataErasureRequest, ProgressReportShare, EmployeeStreaks, Checkpoint, Coach } from './types';
 
 const devLog = (...args: unknown[]) => {
   if (import.meta.env.DEV) console.log(...args);
@@ -209,13 +212,13 @@ export async function fetchProgramType(programId: string | null): Promise<Progra
     }
   }
 
-  // Try to look up by name/title
+  // Try to look up by exact name
   const { data: byName, error: nameError } = await supabase
     .from('programs')
     .select('program_type')
-    .ilike('name', `%${programId}%`)
+    .eq('name', programId)
     .limit(1)
-    .single();
+    .maybeSingle();
 
   if (!nameError && byName?.program_type) {
     return byName.program_type as ProgramType;
@@ -312,6 +315,76 @@ export async function updateActionItemStatus(
   return true;
 }
 
+/**
+ * Add an action item the employee wrote themselves. Recurring items get
+ * their next occurrence from a DB trigger when completed.
+ */
+export async function createActionItem(params: {
+  email: string;
+  actionText: string;
+  dueDate?: string;
+  recurrence?: ActionItemRecurrence;
+  goalId?: string;
+}): Promise<ActionItem | null> {
+  const { data, error } = await supabase
+    .from('action_items')
+    .insert({
+      email: params.email.toLowerCase(),
+      action_text: params.actionText,
+      // A habit starts today unless given a date, so its first occurrence is
+      // due (and shows up in nudge digests) straight away
+      due_date: params.dueDate || (params.recurrence ? localDateString(new Date()) : null),
+      recurrence: params.recurrence || null,
+      goal_id: params.goalId || null,
+      source: 'employee',
+      status: 'pending',
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating action item:', error);
+    return null;
+  }
+
+  return data as ActionItem;
+}
+
+/**
+ * Stop a recurring action item from repeating; the current occurrence stays
+ */
+export async function stopActionItemRecurrence(itemId: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('action_items')
+    .update({ recurrence: null })
+    .eq('id', itemId);
+
+  if (error) {
+    console.error('Error stopping action item recurrence:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Answer "still relevant" for an action item that's been sitting; the
+ * nudge scheduler waits a while before asking again
+ */
+export async function confirmActionItemRelevant(itemId: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('action_items')
+    .update({ last_confirmed_at: new Date().toISOString() })
+    .eq('id', itemId);
+
+  if (error) {
+    console.error('Error confirming action item:', error);
+    return false;
+  }
+
+  return true;
+}
+
 /**
  * Submit session feedback
  */
@@ -724,7 +797,7 @@ export async function fetchMatchSummary(employeeId: string, email?: string): Pro
 }
 
 // ============================================
-// MESSAGING INTEGRATIONS (Slack + Teams)
+// MESSAGING INTEGRATIONS (Slack + Teams + Email)
 // ============================================
 
 const SLACK_FUNCTION_URL = import.meta.env.VITE_SUPABASE_URL
@@ -804,7 +877,7 @@ export async function updateSlackSettings(settings: {
   nudge_frequency?: 'smart' | 'daily' | 'weekly' | 'none';
   preferred_time?: string;
   timezone?: string;
-}): Promise<boolean> {
+} & Partial<NudgeDeliveryWindow>): Promise<boolean> {
   try {
     const { data: { session } } = await supabase.auth.getSession();
 
@@ -897,7 +970,7 @@ export async function updateTeamsSettings(settings: {
   nudge_frequency?: 'smart' | 'daily' | 'weekly' | 'none';
   preferred_time?: string;
   timezone?: string;
-}): Promise<boolean> {
+} & Partial<NudgeDeliveryWindow>): Promise<boolean> {
   try {
     const { data: { session } } = await supabase.auth.getSession();
 
@@ -922,7 +995,52 @@ export async function updateTeamsSettings(settings: {
 }
 
 /**
- * Fetch nudge history for the current user (last 30 days, both channels)
+ * Get email nudge settings for the current user.
+ * Returns null if the employee has never opted in to email nudges.
+ */
+export async function fetchEmailNudgeSettings(email: string): Promise<EmailNudgeSettings | null> {
+  const { data, error } = await supabase
+    .from('employee_email_nudge_settings')
+    .select('nudge_enabled, nudge_frequency, preferred_time, timezone, quiet_hours_start, quiet_hours_end, working_days, holidays, snoozed_until')
+    .ilike('employee_email', email)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching email nudge settings:', error);
+    return null;
+  }
+
+  return data as EmailNudgeSettings | null;
+}
+
+/**
+ * Create or update email nudge settings for the current user
+ */
+export async function updateEmailNudgeSettings(
+  email: string,
+  settings: EmailNudgeSettings
+): Promise<boolean> {
+  const { error } = await supabase
+    .from('employee_email_nudge_settings')
+    .upsert(
+      {
+        employee_email: email.toLowerCase(),
+        ...settings,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'employee_email' }
+    );
+
+  if (error) {
+    console.error('Error updating email nudge settings:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Fetch nudge history for the current user (last 30 days, all channels)
  */
 export async function fetchNudgeHistory(email: string): Promise<Nudge[]> {
   const thirtyDaysAgo = new Date();
@@ -958,6 +1076,352 @@ export async function fetchNudgeHistory(email: string): Promise<Nudge[]> {
   return (data as Nudge[]) || [];
 }
 
+// ============================================
+// SESSION CALENDAR FEED
+// ============================================
+
+const CALENDAR_FEED_FUNCTION_URL = import.meta.env.VITE_SUPABASE_URL
+  ? `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/session-calendar-feed`
+  : '/functions/v1/session-calendar-feed';
+
+/**
+ * Get the current user's private calendar feed URL (creates one on first call)
+ */
+export async function fetchCalendarFeedUrl(): Promise<string | null> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session?.access_token) {
+      return null;
+    }
+
+    const response = await fetch(`${CALENDAR_FEED_FUNCTION_URL}?action=url`, {
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+    });
+
+    if (!response.ok) {
+      console.error('Failed to fetch calendar feed URL');
+      return null;
+    }
+
+    const data = await response.json();
+    return data.url || null;
+  } catch (error) {
+    console.error('Error fetching calendar feed URL:', error);
+    return null;
+  }
+}
+
+/**
+ * Revoke the current feed URL and issue a new one
+ */
+export async function rotateCalendarFeedUrl(): Promise<string | null> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session?.access_token) {
+      return null;
+    }
+
+    const response = await fetch(`${CALENDAR_FEED_FUNCTION_URL}?action=rotate`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+    });
+
+    if (!response.ok) {
+      console.error('Failed to rotate calendar feed URL');
+      return null;
+    }
+
+    const data = await response.json();
+    return data.url || null;
+  } catch (error) {
+    console.error('Error rotating calendar feed URL:', error);
+    return null;
+  }
+}
+
+// ============================================
+// PERSONAL DATA EXPORT
+// ============================================
+
+const DATA_EXPORT_FUNCTION_URL = import.meta.env.VITE_SUPABASE_URL
+  ? `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/data-export`
+  : '/functions/v1/data-export';
+
+/**
+ * Download everything Boon holds about the current user as a zip
+ * (JSON + one CSV per section). Returns false if the export failed.
+ */
+export async function downloadMyDataExport(): Promise<boolean> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session?.access_token) {
+      return false;
+    }
+
+    const response = await fetch(DATA_EXPORT_FUNCTION_URL, {
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+    });
+
+    if (!response.ok) {
+      console.error('Failed to generate data export');
+      return false;
+    }
+
+    const blob = await response.blob();
+    const filename = response.headers.get('content-disposition')?.match(/filename="([^"]+)"/)?.[1]
+      || 'boon-data-export.zip';
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    return true;
+  } catch (error) {
+    console.error('Error downloading data export:', error);
+    return false;
+  }
+}
+
+// ============================================
+// DATA ERASURE
+// ============================================
+
+const DATA_ERASURE_FUNCTION_URL = import.meta.env.VITE_SUPABASE_URL
+  ? `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/data-erasure`
+  : '/functions/v1/data-erasure';
+
+async function callDataErasure(
+  action: 'status' | 'request' | 'confirm' | 'cancel',
+  body?: Record<string, string>
+): Promise<DataErasureRequest | null> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session?.access_token) {
+      return null;
+    }
+
+    const response = await fetch(`${DATA_ERASURE_FUNCTION_URL}?action=${action}`, {
+      method: action === 'status' ? 'GET' : 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        ...(body ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      console.error(`Data erasure ${action} failed`);
+      return null;
+    }
+
+    const data = await response.json();
+    return data.request || null;
+  } catch (error) {
+    console.error(`Error calling data erasure ${action}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Latest erasure request for the current user, or null if there isn't one
+ */
+export async function fetchDataErasureRequest(): Promise<DataErasureRequest | null> {
+  return callDataErasure('status');
+}
+
+/**
+ * Open an erasure request. Nothing is deleted until it's confirmed.
+ */
+export async function requestDataErasure(): Promise<DataErasureRequest | null> {
+  return callDataErasure('request');
+}
+
+/**
+ * Confirm an erasure request by re-typing the account email. Schedules the
+ * purge after the grace period.
+ */
+export async function confirmDataErasure(requestId: string, confirmEmail: string): Promise<DataErasureRequest | null> {
+  return callDataErasure('confirm', { request_id: requestId, confirm_email: confirmEmail });
+}
+
+export async function cancelDataErasure(requestId: string): Promise<DataErasureRequest | null> {
+  return callDataErasure('cancel', { request_id: requestId });
+}
+
+// ============================================
+// STREAKS
+// ============================================
+
+const STREAKS_FUNCTION_URL = import.meta.env.VITE_SUPABASE_URL
+  ? `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/streaks`
+  : '/functions/v1/streaks';
+
+/**
+ * Current and best weekly streaks (commitments, journal, action items).
+ * Weeks start on Monday in the browser's timezone.
+ */
+export async function fetchStreaks(): Promise<EmployeeStreaks | null> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session?.access_token) {
+      return null;
+    }
+
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const response = await fetch(`${STREAKS_FUNCTION_URL}?tz=${encodeURIComponent(timezone)}`, {
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+    });
+
+    if (!response.ok) {
+      return null;
+    }
+
+    const data = await response.json();
+    return data.streaks || null;
+  } catch (error) {
+    console.error('Error fetching streaks:', error);
+    return null;
+  }
+}
+
+// ============================================
+// PROGRESS REPORT SHARING
+// ============================================
+
+const PROGRESS_REPORT_FUNCTION_URL = import.meta.env.VITE_SUPABASE_URL
+  ? `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/progress-report`
+  : '/functions/v1/progress-report';
+
+/**
+ * Create a time-limited link to a progress report. The server keeps a
+ * snapshot, so later edits to wins or scores don't change what was shared.
+ */
+export async function createProgressReportShare(
+  report: ProgressReport,
+  expiresInDays: number,
+  recipientLabel?: string
+): Promise<ProgressReportShare | null> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session?.access_token) {
+      return null;
+    }
+
+    const response = await fetch(`${PROGRESS_REPORT_FUNCTION_URL}?action=create`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        report,
+        expires_in_days: expiresInDays,
+        recipient_label: recipientLabel || null,
+      }),
+    });
+
+    if (!response.ok) {
+      console.error('Failed to create progress report link');
+      return null;
+    }
+
+    const data = await response.json();
+    return data.share || null;
+  } catch (error) {
+    console.error('Error creating progress report link:', error);
+    return null;
+  }
+}
+
+export async function fetchProgressReportShares(): Promise<ProgressReportShare[]> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session?.access_token) {
+      return [];
+    }
+
+    const response = await fetch(`${PROGRESS_REPORT_FUNCTION_URL}?action=list`, {
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+    });
+
+    if (!response.ok) {
+      return [];
+    }
+
+    const data = await response.json();
+    return data.shares || [];
+  } catch (error) {
+    console.error('Error fetching progress report links:', error);
+    return [];
+  }
+}
+
+export async function revokeProgressReportShare(shareId: string): Promise<boolean> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session?.access_token) {
+      return false;
+    }
+
+    const response = await fetch(`${PROGRESS_REPORT_FUNCTION_URL}?action=revoke`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ id: shareId }),
+    });
+
+    return response.ok;
+  } catch (error) {
+    console.error('Error revoking progress report link:', error);
+    return false;
+  }
+}
+
+/**
+ * Load a shared report by its link token. Public — the manager viewing it
+ * isn't signed in. Returns null for unknown, expired or revoked links.
+ */
+export async function fetchSharedProgressReport(
+  token: string
+): Promise<{ report: ProgressReport; expires_at: string } | null> {
+  try {
+    const response = await fetch(`${PROGRESS_REPORT_FUNCTION_URL}?token=${encodeURIComponent(token)}`);
+
+    if (!response.ok) {
+      return null;
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error fetching shared progress report:', error);
+    return null;
+  }
+}
+
 // ============================================
 // POST-PROGRAM REFLECTION
 // ============================================
@@ -1295,6 +1759,7 @@ function getGrowMilestones(totalSessions: number): { milestones: number[]; midpo
  * @param email - User's email
  * @param programType - Program type (GROW, SCALE, EXEC)
  * @param loadedSessions - Optional: already-loaded sessions to avoid re-querying
+ * @param configuredSessionCount - Optional: contracted session count (see fetchConfiguredSessionCount)
  */
 // Survey types that are anchored to a specific session and lose their value
 // once that session is far enough in the past. Structural surveys
@@ -1313,7 +1778,8 @@ function isStalePendingSurvey(survey: PendingSurvey | null | undefined): boolean
 export async function fetchPendingSurvey(
   email: string,
   programType?: string | null,
-  loadedSessions?: Array<{ id: string; appointment_number: string | null; session_date: string; coach_name: string; status: string }>
+  loadedSessions?: Array<{ id: string; appointment_number: string | null; session_date: string; coach_name: string; status: string }>,
+  configuredSessionCount?: number | null
 ): Promise<PendingSurvey | null> {
   devLog('[fetchPendingSurvey] Checking for pending survey:', { email, programType, hasLoadedSessions: !!loadedSessions });
 
@@ -1355,8 +1821,10 @@ export async function fetchPendingSurvey(
   // Fallback: use loaded sessions if available
   const isGrow = normalizedProgram === 'GROW' || normalizedProgram.startsWith('GROW');
 
-  // For GROW programs, calculate midpoint
-  const sessionsPerEmployee = isGrow ? 12 : 36; // defaults
+  // Calculate the midpoint from the contracted session count (8/10/16-session
+  // contracts), falling back to the program default.
+  const programKey = isGrow ? 'GROW' : normalizedProgram.startsWith('EXEC') ? 'EXEC' : normalizedProgram || null;
+  const sessionsPerEmployee = getExpectedSessionCount(programKey, configuredSessionCount ?? null);
   const growMidpoint = Math.floor(sessionsPerEmployee / 2);
 
   // Use loaded sessions if available, otherwise we can't check (RPC should have worked)
@@ -1911,9 +2379,14 @@ export interface ProgramInfo {
 
 /**
  * Fetch program configuration for a participant
- * Looks up via employee's program field -> programs table
+ * Looks up via employee's program field -> programs table. The session total
+ * resolves the same way as getCoachingState's, so the dashboard and the
+ * coaching state agree on 8-, 10- and 16-session contracts.
  */
-export async function fetchProgramInfo(programId: string | null): Promise<ProgramInfo | null> {
+export async function fetchProgramInfo(
+  programId: string | null,
+  companyId: string | null = null
+): Promise<ProgramInfo | null> {
   if (!programId) return null;
 
   const upperProgram = programId.toUpperCase();
@@ -1926,52 +2399,24 @@ export async function fetchProgramInfo(programId: string | null): Promise<Progra
     programType = 'EXEC';
   }
 
-  // Try to look up by ID first (if it looks like a UUID)
+  // Look up by ID if it looks like a UUID, otherwise by exact name
   const isUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(programId);
-
-  if (isUuid) {
-    const { data, error } = await supabase
-      .from('programs')
-      .select('name, program_type, sessions_per_employee, program_end_date')
-      .eq('id', programId)
-      .single();
-
-    if (!error && data) {
-      return {
-        program_title: data.name || programId,
-        program_type: data.program_type || programType,
-        sessions_per_employee: data.sessions_per_employee || (programType === 'GROW' ? 12 : 36),
-        program_start_date: null,
-        program_end_date: data.program_end_date || null,
-      };
-    }
-  }
-
-  // Try to look up by name/title
-  const { data: byName, error: nameError } = await supabase
+  const query = supabase
     .from('programs')
-    .select('name, program_type, sessions_per_employee, program_end_date')
-    .ilike('name', `%${programId}%`)
-    .limit(1)
-    .single();
+    .select('name, program_type, program_end_date');
 
-  if (!nameError && byName) {
-    return {
-      program_title: byName.name || programId,
-      program_type: byName.program_type || programType,
-      sessions_per_employee: byName.sessions_per_employee || (programType === 'GROW' ? 12 : 36),
-      program_start_date: null,
-      program_end_date: byName.program_end_date || null,
-    };
-  }
+  const [{ data }, configuredSessionCount] = await Promise.all([
+    (isUuid ? query.eq('id', programId) : query.eq('name', programId)).limit(1).maybeSingle(),
+    fetchConfiguredSessionCount(companyId, programId),
+  ]);
 
-  // Return defaults based on inferred program type
+  const resolvedType = data?.program_type || programType;
   return {
-    program_title: programId,
-    program_type: programType,
-    sessions_per_employee: programType === 'GROW' ? 12 : 36,
+    program_title: data?.name || programId,
+    program_type: resolvedType,
+    sessions_per_employee: getExpectedSessionCount(resolvedType, configuredSessionCount),
     program_start_date: null,
-    program_end_date: null,
+    program_end_date: data?.program_end_date || null,
   };
 }
 
@@ -2071,6 +2516,25 @@ export async function fetchGrowFocusAreas(email: string): Promise<GrowFocusArea[
   });
 }
 
+/**
+ * Focus areas the employee has selected (focus_area_selections), primary first
+ */
+export async function fetchSelectedFocusAreas(email: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('focus_area_selections')
+    .select('focus_area_name, is_primary')
+    .eq('email', email)
+    .eq('selected', true)
+    .order('is_primary', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching focus area selections:', error);
+    return [];
+  }
+
+  return (data || []).map((row) => row.focus_area_name as string);
+}
+
 /**
  * Fetch all baseline competency scores for a participant
  * Used to display full competency profile on GROW dashboard
@@ -2162,6 +2626,47 @@ export async function fetchProgramConfig(
   return data as ProgramConfig | null;
 }
 
+/**
+ * Fetch the contracted number of sessions for an employee's program.
+ * Checks the company's active program_config first (per-contract override),
+ * then the programs table by id or exact name. Returns null when neither has a
+ * positive sessions_per_employee so callers can fall back to program defaults.
+ */
+export async function fetchConfiguredSessionCount(
+  companyId: string | null,
+  coachingProgram: string | null
+): Promise<number | null> {
+  if (companyId) {
+    const config = await fetchProgramConfig(companyId, coachingProgram);
+    if (config?.sessions_per_employee && config.sessions_per_employee > 0) {
+      return config.sessions_per_employee;
+    }
+  }
+
+  if (!coachingProgram) return null;
+
+  const isUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(coachingProgram);
+  const query = supabase
+    .from('programs')
+    .select('sessions_per_employee');
+
+  const { data, error } = await (isUuid
+    ? query.eq('id', coachingProgram)
+    : query.eq('name', coachingProgram)
+  ).limit(1).maybeSingle();
+
+  if (error) {
+    if (error.code !== 'PGRST116' && error.code !== '42P01' && error.code !== 'PGRST205') {
+      console.error('Error fetching program session count:', error);
+    }
+    return null;
+  }
+
+  return data?.sessions_per_employee && data.sessions_per_employee > 0
+    ? data.sessions_per_employee
+    : null;
+}
+
 // ============================================
 // COACHING WINS
 // ============================================
@@ -3,11 +3,14 @@ import type {
   Session,
   ActionItem,
   Goal,
+  GoalMilestone,
   WeeklyCommitment,
   GoalCheckin,
+  GoalStatus,
   CommitmentStatus,
   CheckinType,
 } from '../types';
+import { buildGoalStatusUpdate } from '../goalLifecycle';
 
 const devLog = (...args: unknown[]) => {
   if (import.meta.env.DEV) console.log(...args);
@@ -162,6 +165,22 @@ export async function updateCommitmentStatus(
   return true;
 }
 
+export async function updateCommitmentGoal(commitmentId: string, goalId: string | null): Promise<boolean> {
+  devLog('[updateCommitmentGoal] Linking:', commitmentId, goalId);
+
+  const { error } = await supabase
+    .from('weekly_commitments')
+    .update({ goal_id: goalId })
+    .eq('id', commitmentId);
+
+  if (error) {
+    console.error('Error linking commitment to goal:', error);
+    return false;
+  }
+
+  return true;
+}
+
 // ============================================
 // CHECK-INS
 // ============================================
@@ -243,6 +262,7 @@ export async function fetchGoalReflection(email: string): Promise<{
     .select('description, self_progress')
     .ilike('employee_email', email)
     .eq('status', 'active')
+    .or('source.is.null,source.eq.coach')
     .order('updated_at', { ascending: false })
     .limit(1)
     .maybeSingle();
@@ -258,12 +278,14 @@ export async function upsertGoalReflection(params: {
   reflection?: string;
   selfProgress?: string;
 }): Promise<boolean> {
-  // Check if a goal record exists for this employee
+  // Check if a goal record exists for this employee. Employee-owned goals
+  // have their own description, so the coaching-goal reflection skips them.
   const { data: existing } = await supabase
     .from('goals')
     .select('id')
     .ilike('employee_email', params.email)
     .eq('status', 'active')
+    .or('source.is.null,source.eq.coach')
     .limit(1)
     .maybeSingle();
 
@@ -302,7 +324,6 @@ export async function fetchEmployeeGoals(email: string): Promise<Goal[]> {
     .select('*')
     .ilike('employee_email', email)
     .eq('source', 'employee')
-    .in('status', ['active', 'completed'])
     .order('created_at', { ascending: false });
 
   if (error) {
@@ -316,6 +337,8 @@ export async function createEmployeeGoal(params: {
   email: string;
   companyId: string;
   title: string;
+  description?: string;
+  competencyArea?: string;
 }): Promise<Goal | null> {
   const { data, error } = await supabase
     .from('goals')
@@ -323,6 +346,8 @@ export async function createEmployeeGoal(params: {
       employee_email: params.email,
       company_id: params.companyId,
       title: params.title,
+      description: params.description || null,
+      competency_area: params.competencyArea || null,
       source: 'employee',
       status: 'active',
     })
@@ -336,6 +361,70 @@ export async function createEmployeeGoal(params: {
   return data as Goal;
 }
 
+export async function updateEmployeeGoal(
+  goalId: string,
+  updates: Partial<Pick<Goal, 'title' | 'description' | 'competency_area'>>
+): Promise<Goal | null> {
+  devLog('[updateEmployeeGoal] Updating:', goalId);
+
+  const { data, error } = await supabase
+    .from('goals')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', goalId)
+    .eq('source', 'employee')
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating employee goal:', error);
+    return null;
+  }
+  return data as Goal;
+}
+
+/**
+ * Move an employee goal to a new status. Callers check the transition with
+ * canTransitionGoal first; this only stamps/clears completed_at.
+ */
+export async function updateEmployeeGoalStatus(goalId: string, status: GoalStatus): Promise<Goal | null> {
+  devLog('[updateEmployeeGoalStatus] Updating:', goalId, status);
+
+  const { data, error } = await supabase
+    .from('goals')
+    .update(buildGoalStatusUpdate(status))
+    .eq('id', goalId)
+    .eq('source', 'employee')
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating employee goal status:', error);
+    return null;
+  }
+  return data as Goal;
+}
+
+/**
+ * Every weekly commitment attached to the given goals, however old; the
+ * regular commitment fetch only looks back eight weeks.
+ */
+export async function fetchGoalCommitments(email: string, goalIds: string[]): Promise<WeeklyCommitment[]> {
+  if (goalIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('weekly_commitments')
+    .select('*')
+    .ilike('employee_email', email)
+    .in('goal_id', goalIds)
+    .order('week_start', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching goal commitments:', error);
+    return [];
+  }
+  return (data || []) as WeeklyCommitment[];
+}
+
 export async function updateActionItemNote(itemId: string, note: string): Promise<boolean> {
   const { error } = await supabase
     .from('action_items')
@@ -349,6 +438,88 @@ export async function updateActionItemNote(itemId: string, note: string): Promis
   return true;
 }
 
+// ============================================
+// GOAL MILESTONES
+// ============================================
+
+export async function fetchGoalMilestones(email: string): Promise<GoalMilestone[]> {
+  const { data, error } = await supabase
+    .from('goal_milestones')
+    .select('*')
+    .ilike('employee_email', email)
+    .order('sort_order', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching goal milestones:', error);
+    return [];
+  }
+  return (data || []) as GoalMilestone[];
+}
+
+export async function createGoalMilestone(params: {
+  email: string;
+  goalId: string;
+  title: string;
+  targetValue?: number;
+  unit?: string;
+  dueDate?: string;
+  sortOrder: number;
+}): Promise<GoalMilestone | null> {
+  devLog('[createGoalMilestone] Creating for goal:', params.goalId);
+
+  const { data, error } = await supabase
+    .from('goal_milestones')
+    .insert({
+      goal_id: params.goalId,
+      employee_email: params.email.toLowerCase(),
+      title: params.title,
+      target_value: params.targetValue ?? null,
+      unit: params.unit || null,
+      due_date: params.dueDate || null,
+      sort_order: params.sortOrder,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating goal milestone:', error);
+    return null;
+  }
+  return data as GoalMilestone;
+}
+
+export async function updateGoalMilestone(
+  milestoneId: string,
+  updates: Partial<Pick<GoalMilestone, 'title' | 'target_value' | 'current_value' | 'unit' | 'due_date' | 'completed_at'>>
+): Promise<GoalMilestone | null> {
+  const { data, error } = await supabase
+    .from('goal_milestones')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', milestoneId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating goal milestone:', error);
+    return null;
+  }
+  return data as GoalMilestone;
+}
+
+export async function deleteGoalMilestone(milestoneId: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('goal_milestones')
+    .delete()
+    .eq('id', milestoneId);
+
+  if (error) {
+    console.error('Error deleting goal milestone:', error);
+    return false;
+  }
+  return true;
+}
+
 // ============================================
 // HELPERS
 // ============================================
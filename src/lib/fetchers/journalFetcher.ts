@@ -1,31 +1,89 @@
 import { supabase } from '../supabase';
+import { JOURNAL_PROMPTS } from '../../data/journalPrompts';
+import type { LibraryPrompt } from '../journalPrompts';
+import type { MoodRating } from '../journalMood';
 
 const devLog = (...args: unknown[]) => {
   if (import.meta.env.DEV) console.log(...args);
 };
 
-export const JOURNAL_PROMPTS = [
-  "What leadership moment stood out this week?",
-  "What conversation went well? What made it work?",
-  "What's one thing you'd do differently if you could redo this week?",
-  "When did you feel most confident at work recently?",
-  "What feedback did you give or receive that mattered?",
-  "What's draining your energy right now?",
-  "What did you learn about yourself this week?",
-  "What's one small win you haven't acknowledged yet?",
-];
-
 export interface JournalEntry {
   id: string;
   employee_email: string;
   company_id: string;
   prompt: string | null;
+  // Empty for encrypted entries until the portal decrypts encrypted_body
   body: string;
+  // Ciphertext of a private entry (see lib/journalCrypto); null otherwise
+  encrypted_body: string | null;
   is_shared_with_coach: boolean;
   competency_area: string | null;
+  // Optional 1-5 ratings (see lib/journalMood)
+  mood: number | null;
+  energy: number | null;
+  // Normalised free-form tags (see lib/journalTags)
+  tags: string[];
+  created_at: string;
+}
+
+export interface JournalEncryptionKey {
+  employee_email: string;
+  salt: string;
+  iterations: number;
+  verifier: string;
   created_at: string;
 }
 
+export interface JournalFilters {
+  query: string;
+  competencyArea: string;
+  prompt: string;
+  shared: 'all' | 'shared' | 'private';
+  // YYYY-MM-DD, inclusive, in the employee's local time
+  from: string;
+  to: string;
+  tags: string[];
+}
+
+export const EMPTY_JOURNAL_FILTERS: JournalFilters = {
+  query: '',
+  competencyArea: '',
+  prompt: '',
+  shared: 'all',
+  from: '',
+  to: '',
+  tags: [],
+};
+
+// Everything but search_vector, which only the database needs
+const JOURNAL_COLUMNS = 'id, employee_email, company_id, prompt, body, encrypted_body, is_shared_with_coach, competency_area, mood, energy, tags, created_at';
+
+export function hasJournalFilters(filters: JournalFilters): boolean {
+  return Boolean(
+    filters.query.trim() ||
+    filters.competencyArea ||
+    filters.prompt ||
+    filters.shared !== 'all' ||
+    filters.from ||
+    filters.to ||
+    filters.tags.length > 0
+  );
+}
+
+/**
+ * Client-side stand-in for full-text search over decrypted entries, which
+ * the database can't index: every word of the query must appear in the body.
+ */
+export function matchesJournalQuery(body: string, query: string): boolean {
+  const text = body.toLowerCase();
+  return query
+    .toLowerCase()
+    .replace(/"/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((word) => text.includes(word));
+}
+
 /**
  * Returns the weekly prompt based on the current week number of the year.
  */
@@ -50,7 +108,7 @@ export async function fetchJournalEntries(
 
   const { data, error } = await supabase
     .from('journal_entries')
-    .select('*')
+    .select(JOURNAL_COLUMNS)
     .ilike('employee_email', email)
     .order('created_at', { ascending: false })
     .limit(limit);
@@ -64,6 +122,151 @@ export async function fetchJournalEntries(
   return (data || []) as JournalEntry[];
 }
 
+/**
+ * Every journal entry of an employee, oldest first, for encrypting or
+ * decrypting the whole journal at once.
+ */
+export async function fetchAllJournalEntries(email: string): Promise<JournalEntry[]> {
+  const pageSize = 1000;
+  const entries: JournalEntry[] = [];
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from('journal_entries')
+      .select(JOURNAL_COLUMNS)
+      .ilike('employee_email', email)
+      .order('created_at', { ascending: true })
+      .range(from, from + pageSize - 1);
+
+    if (error) {
+      console.error('Error fetching all journal entries:', error);
+      return entries;
+    }
+
+    entries.push(...((data || []) as JournalEntry[]));
+    if (!data || data.length < pageSize) return entries;
+  }
+}
+
+/**
+ * Search an employee's journal: full-text over the body (websearch syntax,
+ * so "quoted phrases" and -exclusions work) plus the other filters, newest
+ * first. An entry must carry every selected tag.
+ */
+export async function searchJournalEntries(
+  email: string,
+  filters: JournalFilters,
+  limit = 50
+): Promise<JournalEntry[]> {
+  devLog('[searchJournalEntries] Searching for:', email, filters);
+
+  let query = supabase
+    .from('journal_entries')
+    .select(JOURNAL_COLUMNS)
+    .ilike('employee_email', email);
+
+  if (filters.query.trim()) {
+    query = query.textSearch('search_vector', filters.query.trim(), { type: 'websearch', config: 'english' });
+  }
+  if (filters.competencyArea) query = query.eq('competency_area', filters.competencyArea);
+  if (filters.prompt) query = query.eq('prompt', filters.prompt);
+  if (filters.shared !== 'all') query = query.eq('is_shared_with_coach', filters.shared === 'shared');
+  if (filters.from) query = query.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) {
+    const dayAfter = new Date(`${filters.to}T00:00:00`);
+    dayAfter.setDate(dayAfter.getDate() + 1);
+    query = query.lt('created_at', dayAfter.toISOString());
+  }
+  if (filters.tags.length > 0) query = query.contains('tags', filters.tags);
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error searching journal entries:', error);
+    return [];
+  }
+
+  devLog('[searchJournalEntries] Found:', data?.length || 0);
+  return (data || []) as JournalEntry[];
+}
+
+/**
+ * Tags across all of an employee's entries, for the tag filter
+ */
+export async function fetchJournalTags(email: string): Promise<{ tags: string[] }[]> {
+  const { data, error } = await supabase
+    .from('journal_entries')
+    .select('tags')
+    .ilike('employee_email', email)
+    .neq('tags', '{}');
+
+  if (error) {
+    console.error('Error fetching journal tags:', error);
+    return [];
+  }
+
+  return (data || []) as { tags: string[] }[];
+}
+
+/**
+ * Every distinct prompt the employee has written to, so the prompt selector
+ * can skip them and the journal filter can offer them
+ */
+export async function fetchAnsweredPrompts(email: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('journal_entries')
+    .select('prompt')
+    .ilike('employee_email', email)
+    .not('prompt', 'is', null)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching answered prompts:', error);
+    return [];
+  }
+
+  return [...new Set((data || []).map((row) => row.prompt as string))];
+}
+
+/**
+ * Coach- and admin-contributed prompts visible to the employee (RLS scopes
+ * them to their company and coach)
+ */
+export async function fetchJournalPromptLibrary(): Promise<LibraryPrompt[]> {
+  const { data, error } = await supabase
+    .from('journal_prompts')
+    .select('competency_area, prompt')
+    .eq('is_active', true);
+
+  if (error) {
+    console.error('Error fetching journal prompt library:', error);
+    return [];
+  }
+
+  return (data || []) as LibraryPrompt[];
+}
+
+/**
+ * Every mood/energy rating the employee has given, oldest first
+ */
+export async function fetchJournalMoodHistory(email: string): Promise<MoodRating[]> {
+  const { data, error } = await supabase
+    .from('journal_entries')
+    .select('created_at, mood, energy')
+    .ilike('employee_email', email)
+    .or('mood.not.is.null,energy.not.is.null')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching journal mood history:', error);
+    return [];
+  }
+
+  return (data || []) as MoodRating[];
+}
+
 /**
  * Create a new journal entry and return it.
  */
@@ -72,7 +275,11 @@ export async function createJournalEntry(entry: {
   company_id: string;
   prompt?: string;
   body: string;
+  encrypted_body?: string;
   competency_area?: string;
+  mood?: number | null;
+  energy?: number | null;
+  tags?: string[];
 }): Promise<JournalEntry | null> {
   devLog('[createJournalEntry] Creating for:', entry.employee_email);
 
@@ -83,10 +290,14 @@ export async function createJournalEntry(entry: {
       company_id: entry.company_id,
       prompt: entry.prompt || null,
       body: entry.body,
+      encrypted_body: entry.encrypted_body || null,
       competency_area: entry.competency_area || null,
+      mood: entry.mood ?? null,
+      energy: entry.energy ?? null,
+      tags: entry.tags || [],
       is_shared_with_coach: false,
     })
-    .select()
+    .select(JOURNAL_COLUMNS)
     .single();
 
   if (error) {
@@ -99,11 +310,12 @@ export async function createJournalEntry(entry: {
 }
 
 /**
- * Update an existing journal entry (body and/or share status).
+ * Update an existing journal entry (body, share status and/or tags). Setting
+ * encrypted_body needs body '' in the same update, and vice versa.
  */
 export async function updateJournalEntry(
   id: string,
-  updates: { body?: string; is_shared_with_coach?: boolean }
+  updates: { body?: string; encrypted_body?: string | null; is_shared_with_coach?: boolean; tags?: string[] }
 ): Promise<boolean> {
   devLog('[updateJournalEntry] Updating:', id, updates);
 
@@ -146,3 +358,72 @@ export async function hasEntryThisWeek(email: string): Promise<boolean> {
 
   return (data?.length || 0) > 0;
 }
+
+/**
+ * The employee's journal encryption settings, or null if they haven't turned
+ * encryption on.
+ */
+export async function fetchJournalEncryptionKey(email: string): Promise<JournalEncryptionKey | null> {
+  const { data, error } = await supabase
+    .from('journal_encryption_keys')
+    .select('employee_email, salt, iterations, verifier, created_at')
+    .eq('employee_email', email.toLowerCase())
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching journal encryption key:', error);
+    return null;
+  }
+
+  return data as JournalEncryptionKey | null;
+}
+
+export async function createJournalEncryptionKey(
+  key: Omit<JournalEncryptionKey, 'created_at'>
+): Promise<JournalEncryptionKey | null> {
+  const { data, error } = await supabase
+    .from('journal_encryption_keys')
+    .insert({ ...key, employee_email: key.employee_email.toLowerCase() })
+    .select('employee_email, salt, iterations, verifier, created_at')
+    .single();
+
+  if (error) {
+    console.error('Error creating journal encryption key:', error);
+    return null;
+  }
+
+  return data as JournalEncryptionKey;
+}
+
+export async function deleteJournalEncryptionKey(email: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('journal_encryption_keys')
+    .delete()
+    .eq('employee_email', email.toLowerCase());
+
+  if (error) {
+    console.error('Error deleting journal encryption key:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Delete every encrypted entry, for an employee who has forgotten their
+ * passphrase and wants to start over. Shared and unencrypted entries stay.
+ */
+export async function deleteEncryptedJournalEntries(email: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('journal_entries')
+    .delete()
+    .ilike('employee_email', email)
+    .not('encrypted_body', 'is', null);
+
+  if (error) {
+    console.error('Error deleting encrypted journal entries:', error);
+    return false;
+  }
+
+  return true;
+}
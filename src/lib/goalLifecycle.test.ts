@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { canTransitionGoal, buildGoalStatusUpdate, summarizeGoalOutcome } from './goalLifecycle';
+import type { WeeklyCommitment } from './types';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+const createCommitment = (overrides: Partial<WeeklyCommitment> = {}): WeeklyCommitment => ({
+  id: 'c-1',
+  employee_email: 'sam@example.com',
+  company_id: 'co-1',
+  goal_id: 'goal-1',
+  commitment_text: 'Delegate the weekly report',
+  week_start: '2026-10-05',
+  status: 'completed',
+  reflection_text: null,
+  created_at: '2026-10-05T09:00:00Z',
+  ...overrides,
+});
+
+describe('canTransitionGoal', () => {
+  it('allows pausing, completing and archiving an active goal', () => {
+    expect(canTransitionGoal('active', 'paused')).toBe(true);
+    expect(canTransitionGoal('active', 'completed')).toBe(true);
+    expect(canTransitionGoal('active', 'archived')).toBe(true);
+  });
+
+  it('only restores an archived goal to active', () => {
+    expect(canTransitionGoal('archived', 'active')).toBe(true);
+    expect(canTransitionGoal('archived', 'completed')).toBe(false);
+    expect(canTransitionGoal('archived', 'paused')).toBe(false);
+  });
+});
+
+describe('buildGoalStatusUpdate', () => {
+  it('stamps completed_at on completion and clears it on reopen', () => {
+    expect(buildGoalStatusUpdate('completed', now)).toEqual({
+      status: 'completed',
+      updated_at: now.toISOString(),
+      completed_at: now.toISOString(),
+    });
+    expect(buildGoalStatusUpdate('active', now).completed_at).toBeNull();
+  });
+
+  it('keeps completed_at when a completed goal is archived', () => {
+    expect(buildGoalStatusUpdate('archived', now)).not.toHaveProperty('completed_at');
+  });
+});
+
+describe('summarizeGoalOutcome', () => {
+  it('counts only the commitments linked to the goal', () => {
+    const outcome = summarizeGoalOutcome('goal-1', [
+      createCommitment({ id: 'c-1', week_start: '2026-10-05' }),
+      createCommitment({ id: 'c-2', week_start: '2026-10-12', status: 'partial' }),
+      createCommitment({ id: 'c-3', week_start: '2026-10-12', goal_id: 'goal-2' }),
+      createCommitment({ id: 'c-4', week_start: '2026-09-28', status: 'missed' }),
+    ]);
+
+    expect(outcome).toMatchObject({ weeks: 3, completed: 1, partial: 1, missed: 1 });
+    expect(outcome.commitments.map(c => c.id)).toEqual(['c-2', 'c-1', 'c-4']);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Goal lifecycle rules for employee-owned goals.
+ *
+ *   active ──► paused ──► active
+ *     │          │
+ *     ├──────────┴──► completed ──► active (reopen)
+ *     └──────────────► archived ──► active (restore)
+ *
+ * Coach-set goals come from sessions and aren't managed here.
+ */
+
+import type { GoalStatus, WeeklyCommitment } from './types';
+
+export const GOAL_STATUS_TRANSITIONS: Record<GoalStatus, GoalStatus[]> = {
+  active: ['paused', 'completed', 'archived'],
+  paused: ['active', 'completed', 'archived'],
+  completed: ['active', 'archived'],
+  archived: ['active'],
+};
+
+export interface GoalStatusUpdate {
+  status: GoalStatus;
+  updated_at: string;
+  completed_at?: string | null;
+}
+
+export function canTransitionGoal(from: GoalStatus, to: GoalStatus): boolean {
+  return GOAL_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Column updates for a status change. completed_at is stamped on completion
+ * and cleared when a goal goes back to active; archiving a completed goal
+ * keeps it, so the history still knows when it was done.
+ */
+export function buildGoalStatusUpdate(to: GoalStatus, now: Date = new Date()): GoalStatusUpdate {
+  const update: GoalStatusUpdate = {
+    status: to,
+    updated_at: now.toISOString(),
+  };
+  if (to === 'completed') update.completed_at = now.toISOString();
+  else if (to === 'active') update.completed_at = null;
+  return update;
+}
+
+export interface GoalOutcome {
+  weeks: number;
+  completed: number;
+  partial: number;
+  missed: number;
+  commitments: WeeklyCommitment[];
+}
+
+/**
+ * What a goal achieved: its linked weekly commitments, newest first, and how
+ * they went.
+ */
+export function summarizeGoalOutcome(goalId: string, commitments: WeeklyCommitment[]): GoalOutcome {
+  const linked = commitments
+    .filter(c => c.goal_id === goalId)
+    .sort((a, b) => b.week_start.localeCompare(a.week_start));
+
+  return {
+    weeks: new Set(linked.map(c => c.week_start)).size,
+    completed: linked.filter(c => c.status === 'completed').length,
+    partial: linked.filter(c => c.status === 'partial').length,
+    missed: linked.filter(c => c.status === 'missed').length,
+    commitments: linked,
+  };
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { computeGoalProgress, buildGoalProgressTrend, milestoneProgress } from './goalProgress';
+import type { GoalCheckin, GoalMilestone, WeeklyCommitment } from './types';
+
+// Test fixtures
+const createMilestone = (overrides: Partial<GoalMilestone> = {}): GoalMilestone => ({
+  id: 'm-1',
+  goal_id: 'goal-1',
+  employee_email: 'sam@example.com',
+  title: 'Run skip-levels',
+  target_value: 6,
+  current_value: 0,
+  unit: 'meetings',
+  due_date: null,
+  completed_at: null,
+  sort_order: 0,
+  created_at: '2026-09-01T00:00:00Z',
+  updated_at: '2026-09-01T00:00:00Z',
+  ...overrides,
+});
+
+const createCommitment = (overrides: Partial<WeeklyCommitment> = {}): WeeklyCommitment => ({
+  id: 'c-1',
+  employee_email: 'sam@example.com',
+  company_id: 'co-1',
+  goal_id: 'goal-1',
+  commitment_text: 'Hold one skip-level',
+  week_start: '2026-10-05',
+  status: 'completed',
+  reflection_text: null,
+  created_at: '2026-10-05T09:00:00Z',
+  ...overrides,
+});
+
+const createCheckin = (overrides: Partial<GoalCheckin> = {}): GoalCheckin => ({
+  id: 'k-1',
+  employee_email: 'sam@example.com',
+  company_id: 'co-1',
+  commitment_id: 'c-1',
+  checkin_type: 'endweek',
+  progress_rating: 5,
+  reflection_text: null,
+  blockers: null,
+  created_at: '2026-10-09T09:00:00Z',
+  ...overrides,
+});
+
+describe('milestoneProgress', () => {
+  it('uses current/target and treats completed_at as done', () => {
+    expect(milestoneProgress(createMilestone({ current_value: 3 }))).toBe(0.5);
+    expect(milestoneProgress(createMilestone({ current_value: 9 }))).toBe(1);
+    expect(milestoneProgress(createMilestone({ target_value: null }))).toBe(0);
+    expect(milestoneProgress(createMilestone({ target_value: null, completed_at: '2026-10-01T00:00:00Z' }))).toBe(1);
+  });
+});
+
+describe('computeGoalProgress', () => {
+  it('returns null with no milestones or check-ins', () => {
+    expect(computeGoalProgress('goal-1', [], [], [])).toBeNull();
+  });
+
+  it('weights milestones over check-in ratings', () => {
+    const progress = computeGoalProgress(
+      'goal-1',
+      [createMilestone({ current_value: 3 }), createMilestone({ id: 'm-2', goal_id: 'goal-2', current_value: 6 })],
+      [createCommitment()],
+      [createCheckin({ progress_rating: 5 })]
+    );
+    // 0.7 * 0.5 + 0.3 * 1
+    expect(progress).toEqual({ percent: 65, milestonesDone: 0, milestonesTotal: 1, recentRating: 5 });
+  });
+
+  it('ignores check-ins on commitments for other goals', () => {
+    const progress = computeGoalProgress(
+      'goal-1',
+      [],
+      [createCommitment(), createCommitment({ id: 'c-2', goal_id: 'goal-2' })],
+      [createCheckin({ progress_rating: 3 }), createCheckin({ id: 'k-2', commitment_id: 'c-2', progress_rating: 1 })]
+    );
+    expect(progress?.percent).toBe(50);
+  });
+});
+
+describe('buildGoalProgressTrend', () => {
+  it('gives one point per linked week with milestones done by week end', () => {
+    const trend = buildGoalProgressTrend(
+      'goal-1',
+      [createMilestone({ completed_at: '2026-10-14T10:00:00Z' })],
+      [createCommitment(), createCommitment({ id: 'c-2', week_start: '2026-10-12' })],
+      [createCheckin({ progress_rating: 2 }), createCheckin({ id: 'k-2', progress_rating: 4 })]
+    );
+    expect(trend).toEqual([
+      { week_start: '2026-10-05', rating: 3, milestones_done: 0 },
+      { week_start: '2026-10-12', rating: null, milestones_done: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Goal progress roll-up for employee goals.
+ *
+ * Two signals feed a goal's progress:
+ *   - milestones: each contributes current/target (or 0/1 for checkbox
+ *     milestones), averaged across the goal
+ *   - check-ins: progress_rating (1-5) on weekly commitments linked to the
+ *     goal, averaged over the most recent few
+ * Milestones are the concrete measure, so they carry most of the weight when
+ * both exist. With neither, a goal has no progress to show (null).
+ */
+
+import type { GoalCheckin, GoalMilestone, WeeklyCommitment } from './types';
+
+const MILESTONE_WEIGHT = 0.7;
+const RECENT_CHECKINS = 4;
+const MAX_RATING = 5;
+
+export interface GoalProgress {
+  percent: number;
+  milestonesDone: number;
+  milestonesTotal: number;
+  // Average of the recent check-in ratings (1-5), if any
+  recentRating: number | null;
+}
+
+export interface GoalTrendPoint {
+  week_start: string;
+  rating: number | null;
+  milestones_done: number;
+}
+
+export function isMilestoneDone(milestone: GoalMilestone): boolean {
+  if (milestone.completed_at) return true;
+  return milestone.target_value !== null && milestone.current_value >= milestone.target_value;
+}
+
+export function milestoneProgress(milestone: GoalMilestone): number {
+  if (isMilestoneDone(milestone)) return 1;
+  if (!milestone.target_value) return 0;
+  return Math.min(milestone.current_value / milestone.target_value, 1);
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/** Check-ins on the goal's linked commitments, newest first */
+function goalCheckins(goalId: string, commitments: WeeklyCommitment[], checkins: GoalCheckin[]): GoalCheckin[] {
+  const commitmentIds = new Set(commitments.filter(c => c.goal_id === goalId).map(c => c.id));
+  return checkins
+    .filter(c => commitmentIds.has(c.commitment_id) && c.progress_rating !== null)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+export function computeGoalProgress(
+  goalId: string,
+  milestones: GoalMilestone[],
+  commitments: WeeklyCommitment[],
+  checkins: GoalCheckin[]
+): GoalProgress | null {
+  const own = milestones.filter(m => m.goal_id === goalId);
+  const recent = goalCheckins(goalId, commitments, checkins).slice(0, RECENT_CHECKINS);
+
+  const milestonePart = average(own.map(milestoneProgress));
+  const recentRating = average(recent.map(c => c.progress_rating!));
+  const checkinPart = recentRating === null ? null : (recentRating - 1) / (MAX_RATING - 1);
+
+  let fraction: number;
+  if (milestonePart !== null && checkinPart !== null) {
+    fraction = MILESTONE_WEIGHT * milestonePart + (1 - MILESTONE_WEIGHT) * checkinPart;
+  } else if (milestonePart !== null) {
+    fraction = milestonePart;
+  } else if (checkinPart !== null) {
+    fraction = checkinPart;
+  } else {
+    return null;
+  }
+
+  return {
+    percent: Math.round(fraction * 100),
+    milestonesDone: own.filter(isMilestoneDone).length,
+    milestonesTotal: own.length,
+    recentRating: recentRating === null ? null : Math.round(recentRating * 10) / 10,
+  };
+}
+
+/**
+ * One point per week the goal had a linked commitment, oldest first: that
+ * week's average check-in rating and how many milestones were done by the
+ * end of it.
+ */
+export function buildGoalProgressTrend(
+  goalId: string,
+  milestones: GoalMilestone[],
+  commitments: WeeklyCommitment[],
+  checkins: GoalCheckin[],
+  maxWeeks = 8
+): GoalTrendPoint[] {
+  const linked = commitments.filter(c => c.goal_id === goalId);
+  const weeks = [...new Set(linked.map(c => c.week_start))].sort().slice(-maxWeeks);
+  const rated = goalCheckins(goalId, commitments, checkins);
+  const completedDates = milestones
+    .filter(m => m.goal_id === goalId && m.completed_at)
+    .map(m => m.completed_at!.split('T')[0]);
+
+  return weeks.map(weekStart => {
+    const weekIds = new Set(linked.filter(c => c.week_start === weekStart).map(c => c.id));
+    const weekEnd = new Date(`${weekStart}T00:00:00Z`);
+    weekEnd.setUTCDate(weekEnd.getUTCDate() + 7);
+    const weekEndDate = weekEnd.toISOString().split('T')[0];
+    const rating = average(rated.filter(c => weekIds.has(c.commitment_id)).map(c => c.progress_rating!));
+
+    return {
+      week_start: weekStart,
+      rating: rating === null ? null : Math.round(rating * 10) / 10,
+      milestones_done: completedDates.filter(d => d < weekEndDate).length,
+    };
+  });
+}
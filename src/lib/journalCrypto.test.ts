@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { checkVerifier, createVerifier, decryptText, deriveJournalKey, encryptText, generateSalt } from './journalCrypto';
+
+// Keep derivation quick in tests; production uses PBKDF2_ITERATIONS
+const ITERATIONS = 1000;
+
+describe('journal encryption', () => {
+  it('round-trips text with a fresh IV each time', async () => {
+    const key = await deriveJournalKey('correct horse battery', generateSalt(), ITERATIONS);
+    const first = await encryptText(key, 'Felt anxious before the board meeting');
+    const second = await encryptText(key, 'Felt anxious before the board meeting');
+
+    expect(first).toMatch(/^v1:/);
+    expect(first).not.toBe(second);
+    expect(await decryptText(key, first)).toBe('Felt anxious before the board meeting');
+  });
+
+  it('tells a wrong passphrase apart by the verifier', async () => {
+    const salt = generateSalt();
+    const key = await deriveJournalKey('correct horse battery', salt, ITERATIONS);
+    const wrong = await deriveJournalKey('incorrect horse battery', salt, ITERATIONS);
+    const verifier = await createVerifier(key);
+
+    expect(await checkVerifier(key, verifier)).toBe(true);
+    expect(await checkVerifier(wrong, verifier)).toBe(false);
+    await expect(decryptText(wrong, await encryptText(key, 'private'))).rejects.toThrow();
+  });
+});
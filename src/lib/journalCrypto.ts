@@ -0,0 +1,92 @@
+/**
+ * Browser-side encryption for private journal entries.
+ *
+ * A key is derived from the employee's passphrase (PBKDF2-SHA256) and used
+ * with AES-GCM. Only the salt, iteration count and a verifier (a known
+ * string encrypted with the key, to tell a wrong passphrase apart) are
+ * stored; the passphrase and key never leave the browser, so nobody at Boon
+ * can recover an entry if the passphrase is forgotten.
+ *
+ * Ciphertext is stored as "v1:<iv>:<ciphertext>", both base64.
+ */
+
+export const PBKDF2_ITERATIONS = 600_000;
+export const MIN_PASSPHRASE_LENGTH = 10;
+
+const PAYLOAD_VERSION = 'v1';
+const VERIFIER_PLAINTEXT = 'boon-journal';
+const IV_BYTES = 12;
+const SALT_BYTES = 16;
+
+export function generateSalt(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+}
+
+/** Non-extractable AES-GCM key for the passphrase */
+export async function deriveJournalKey(
+  passphrase: string,
+  salt: string,
+  iterations = PBKDF2_ITERATIONS
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function encryptText(key: CryptoKey, text: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(text)
+  );
+  return `${PAYLOAD_VERSION}:${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+/** Throws if the payload is malformed or was encrypted with another key */
+export async function decryptText(key: CryptoKey, payload: string): Promise<string> {
+  const [version, iv, ciphertext] = payload.split(':');
+  if (version !== PAYLOAD_VERSION || !iv || !ciphertext) {
+    throw new Error('Unrecognised journal ciphertext');
+  }
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv) },
+    key,
+    fromBase64(ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+export function createVerifier(key: CryptoKey): Promise<string> {
+  return encryptText(key, VERIFIER_PLAINTEXT);
+}
+
+/** Whether the key (i.e. the passphrase it came from) matches the verifier */
+export async function checkVerifier(key: CryptoKey, verifier: string): Promise<boolean> {
+  try {
+    return (await decryptText(key, verifier)) === VERIFIER_PLAINTEXT;
+  } catch {
+    return false;
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
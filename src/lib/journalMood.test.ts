@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { buildMoodWeeks, compareCoachingWeeks, weekStartOf } from './journalMood';
+
+describe('weekStartOf', () => {
+  it('returns the Monday of the local week', () => {
+    expect(weekStartOf(new Date(2026, 9, 19))).toBe('2026-10-19');
+    expect(weekStartOf(new Date(2026, 9, 25))).toBe('2026-10-19');
+    expect(weekStartOf(new Date(2026, 10, 1))).toBe('2026-10-26');
+  });
+});
+
+describe('buildMoodWeeks', () => {
+  it('averages ratings per week and marks weeks with a session', () => {
+    const weeks = buildMoodWeeks(
+      [
+        { created_at: new Date(2026, 9, 20, 9).toISOString(), mood: 4, energy: 2 },
+        { created_at: new Date(2026, 9, 22, 9).toISOString(), mood: 5, energy: null },
+        { created_at: new Date(2026, 9, 13, 9).toISOString(), mood: 2, energy: 3 },
+        { created_at: new Date(2026, 9, 14, 9).toISOString(), mood: null, energy: null },
+      ],
+      [new Date(2026, 9, 21, 15).toISOString()]
+    );
+
+    expect(weeks).toEqual([
+      { weekStart: '2026-10-12', mood: 2, energy: 3, hadSession: false },
+      { weekStart: '2026-10-19', mood: 4.5, energy: 2, hadSession: true },
+    ]);
+    expect(compareCoachingWeeks(weeks)).toEqual({
+      coachingWeeks: { mood: 4.5, energy: 2, weeks: 1 },
+      otherWeeks: { mood: 2, energy: 3, weeks: 1 },
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Optional mood and energy ratings on journal entries (1-5 each), rolled up
+ * by week and split into weeks with and without a coaching session, so an
+ * employee can see whether coaching weeks feel different.
+ */
+
+export const MOOD_SCALE = [
+  { value: 1, emoji: '😞', label: 'Low' },
+  { value: 2, emoji: '😕', label: 'Meh' },
+  { value: 3, emoji: '😐', label: 'Okay' },
+  { value: 4, emoji: '🙂', label: 'Good' },
+  { value: 5, emoji: '😄', label: 'Great' },
+] as const;
+
+export const ENERGY_SCALE = [
+  { value: 1, emoji: '🪫', label: 'Drained' },
+  { value: 2, emoji: '😮‍💨', label: 'Tired' },
+  { value: 3, emoji: '😌', label: 'Steady' },
+  { value: 4, emoji: '⚡', label: 'Energised' },
+  { value: 5, emoji: '🔥', label: 'Fired up' },
+] as const;
+
+export interface MoodRating {
+  created_at: string;
+  mood: number | null;
+  energy: number | null;
+}
+
+export interface MoodWeek {
+  // Monday of the week, YYYY-MM-DD in local time
+  weekStart: string;
+  mood: number | null;
+  energy: number | null;
+  // A completed coaching session fell in this week
+  hadSession: boolean;
+}
+
+export interface MoodAverages {
+  mood: number | null;
+  energy: number | null;
+  weeks: number;
+}
+
+export interface CoachingWeekComparison {
+  coachingWeeks: MoodAverages;
+  otherWeeks: MoodAverages;
+}
+
+/** Monday of the local week containing the date, as YYYY-MM-DD */
+export function weekStartOf(date: Date): string {
+  const day = date.getDay();
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate() - (day === 0 ? 6 : day - 1));
+  const mm = String(monday.getMonth() + 1).padStart(2, '0');
+  const dd = String(monday.getDate()).padStart(2, '0');
+  return `${monday.getFullYear()}-${mm}-${dd}`;
+}
+
+/**
+ * Average mood and energy per week, oldest first. Only weeks with at least
+ * one rating are included.
+ */
+export function buildMoodWeeks(ratings: MoodRating[], sessionDates: string[]): MoodWeek[] {
+  const sessionWeeks = new Set(sessionDates.map((d) => weekStartOf(new Date(d))));
+  const weeks = new Map<string, { mood: number[]; energy: number[] }>();
+
+  for (const rating of ratings) {
+    if (rating.mood === null && rating.energy === null) continue;
+    const week = weekStartOf(new Date(rating.created_at));
+    const bucket = weeks.get(week) || { mood: [], energy: [] };
+    if (rating.mood !== null) bucket.mood.push(rating.mood);
+    if (rating.energy !== null) bucket.energy.push(rating.energy);
+    weeks.set(week, bucket);
+  }
+
+  return [...weeks]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([weekStart, bucket]) => ({
+      weekStart,
+      mood: average(bucket.mood),
+      energy: average(bucket.energy),
+      hadSession: sessionWeeks.has(weekStart),
+    }));
+}
+
+/** Average weekly mood and energy in coaching weeks vs. the rest */
+export function compareCoachingWeeks(weeks: MoodWeek[]): CoachingWeekComparison {
+  const summarize = (subset: MoodWeek[]): MoodAverages => ({
+    mood: average(subset.flatMap((w) => (w.mood === null ? [] : [w.mood]))),
+    energy: average(subset.flatMap((w) => (w.energy === null ? [] : [w.energy]))),
+    weeks: subset.length,
+  });
+  return {
+    coachingWeeks: summarize(weeks.filter((w) => w.hadSession)),
+    otherWeeks: summarize(weeks.filter((w) => !w.hadSession)),
+  };
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10;
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { JOURNAL_PROMPTS } from '../data/journalPrompts';
+import {
+  buildPromptCandidates,
+  focusCompetencies,
+  quoteForPrompt,
+  selectJournalPrompt,
+  type JournalPromptInputs,
+} from './journalPrompts';
+
+const inputs = (overrides: Partial<JournalPromptInputs> = {}): JournalPromptInputs => ({
+  focusAreas: [],
+  latestSession: null,
+  commitment: null,
+  answeredPrompts: [],
+  library: [],
+  ...overrides,
+});
+
+describe('focusCompetencies', () => {
+  it('maps survey focus areas onto competencies, once each', () => {
+    expect(focusCompetencies(['Work Stress', 'Emotional Intelligence', 'Bouncing Back', 'Unknown']))
+      .toEqual(['Emotional Intelligence', 'Adaptability & Resilience']);
+  });
+});
+
+describe('quoteForPrompt', () => {
+  it('takes the first bullet and shortens long text at a word', () => {
+    expect(quoteForPrompt('- Run weekly 1:1s with the team.\n- Delegate hiring')).toBe('Run weekly 1:1s with the team');
+    const quoted = quoteForPrompt('word '.repeat(40));
+    expect(quoted.length).toBeLessThanOrEqual(91);
+    expect(quoted.endsWith('word…')).toBe(true);
+  });
+});
+
+describe('buildPromptCandidates', () => {
+  it('draws on the commitment, last session, focus areas and library', () => {
+    const candidates = buildPromptCandidates(inputs({
+      commitment: 'Block two focus mornings',
+      latestSession: { goals: 'Have the promotion conversation with Sam', plan: null },
+      focusAreas: ['Inner Confidence'],
+      library: [
+        { competency_area: 'Self-Confidence & Imposter Syndrome', prompt: 'What would you try if you knew you would not fail?' },
+        { competency_area: 'Strategic Thinking', prompt: 'Not a focus area of theirs' },
+      ],
+    }));
+
+    expect(candidates[0]).toMatchObject({ source: 'commitment', prompt: expect.stringContaining('"Block two focus mornings"') });
+    expect(candidates[1]).toMatchObject({ source: 'session', prompt: expect.stringContaining('promotion conversation') });
+    expect(candidates[2]).toMatchObject({
+      source: 'focus_area',
+      competencyArea: 'Self-Confidence & Imposter Syndrome',
+      prompt: 'What would you try if you knew you would not fail?',
+    });
+    expect(candidates.some((c) => c.prompt === 'Not a focus area of theirs')).toBe(false);
+  });
+});
+
+describe('selectJournalPrompt', () => {
+  it('is stable for a seed and skips answered prompts', () => {
+    const base = inputs({ focusAreas: ['Work Stress'], commitment: 'Say no to one meeting' });
+    const first = selectJournalPrompt(base, 'jane@acme.com:2026-10-19');
+    expect(selectJournalPrompt(base, 'jane@acme.com:2026-10-19')).toEqual(first);
+
+    const next = selectJournalPrompt({ ...base, answeredPrompts: [first.prompt] }, 'jane@acme.com:2026-10-19');
+    expect(next.prompt).not.toBe(first.prompt);
+  });
+
+  it('starts the general prompts over once everything is answered', () => {
+    const picked = selectJournalPrompt(inputs({ answeredPrompts: JOURNAL_PROMPTS }), 'sam@acme.com:2026-10-19');
+    expect(JOURNAL_PROMPTS).toContain(picked.prompt);
+    expect(picked.source).toBe('general');
+  });
+});
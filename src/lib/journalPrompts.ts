@@ -0,0 +1,192 @@
+/**
+ * Picks an employee's weekly journal prompt from what we know about them:
+ * this week's commitment, their latest session goals and plan, their focus
+ * areas (mapped to competency prompt sets, built-in plus coach/admin
+ * contributed), and finally the general prompts.
+ *
+ * Prompts they have already answered are skipped. The pick is seeded by
+ * employee and week, so the card shows the same prompt all week on every
+ * page but different employees get different prompts.
+ */
+
+import { COMPETENCY_OPTIONS } from '../data/competencies';
+import {
+  COMPETENCY_JOURNAL_PROMPTS,
+  FOCUS_AREA_COMPETENCIES,
+  JOURNAL_PROMPTS,
+} from '../data/journalPrompts';
+
+export type JournalPromptSource = 'commitment' | 'session' | 'focus_area' | 'general';
+
+export interface LibraryPrompt {
+  competency_area: string | null;
+  prompt: string;
+}
+
+export interface JournalPromptInputs {
+  // Focus area labels from the welcome survey and focus_area_selections
+  focusAreas: string[];
+  latestSession: { goals: string | null; plan: string | null } | null;
+  // This week's commitment text, if they've made one
+  commitment: string | null;
+  answeredPrompts: string[];
+  // Coach/admin prompts from the journal_prompts table
+  library: LibraryPrompt[];
+}
+
+export interface PersonalJournalPrompt {
+  prompt: string;
+  source: JournalPromptSource;
+  competencyArea: string | null;
+  // "Why this prompt" line for the card; null for general prompts
+  reason: string | null;
+}
+
+// How often each kind of prompt comes up when several apply
+const SOURCE_WEIGHTS: Record<JournalPromptSource, number> = {
+  commitment: 3,
+  session: 2,
+  focus_area: 2,
+  general: 1,
+};
+
+const QUOTE_MAX_LENGTH = 90;
+
+/** Competencies behind the employee's focus areas, in the order given */
+export function focusCompetencies(focusAreas: string[]): string[] {
+  const competencies: string[] = [];
+  for (const label of focusAreas) {
+    const name = label.trim();
+    const competency = COMPETENCY_OPTIONS.includes(name) ? name : FOCUS_AREA_COMPETENCIES[name];
+    if (competency && !competencies.includes(competency)) competencies.push(competency);
+  }
+  return competencies;
+}
+
+/**
+ * First line of free text (session goals come from Salesforce, often as a
+ * bulleted list), trimmed to a length that reads well inside a prompt
+ */
+export function quoteForPrompt(text: string): string {
+  const line = text
+    .split('\n')
+    .map((l) => l.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').replace(/\s+/g, ' ').trim())
+    .find(Boolean) || '';
+  const sentence = line.replace(/[.!?;:,]+$/, '');
+  if (sentence.length <= QUOTE_MAX_LENGTH) return sentence;
+  const cut = sentence.slice(0, QUOTE_MAX_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > 0 ? cut.slice(0, lastSpace) : cut}…`;
+}
+
+/** Every prompt that fits the employee, before answered ones are removed */
+export function buildPromptCandidates(inputs: JournalPromptInputs): PersonalJournalPrompt[] {
+  const candidates: PersonalJournalPrompt[] = [];
+
+  const commitment = inputs.commitment ? quoteForPrompt(inputs.commitment) : '';
+  if (commitment) {
+    candidates.push({
+      prompt: `This week you committed to "${commitment}". How is it going so far?`,
+      source: 'commitment',
+      competencyArea: null,
+      reason: "Based on this week's commitment",
+    });
+  }
+
+  const goals = inputs.latestSession?.goals ? quoteForPrompt(inputs.latestSession.goals) : '';
+  const plan = inputs.latestSession?.plan ? quoteForPrompt(inputs.latestSession.plan) : '';
+  if (goals) {
+    candidates.push({
+      prompt: `In your last session you set out to work on "${goals}". Where did that show up this week?`,
+      source: 'session',
+      competencyArea: null,
+      reason: 'From your last coaching session',
+    });
+  }
+  if (plan) {
+    candidates.push({
+      prompt: `Your plan from your last session was "${plan}". What have you tried so far?`,
+      source: 'session',
+      competencyArea: null,
+      reason: 'From your last coaching session',
+    });
+  }
+
+  for (const competency of focusCompetencies(inputs.focusAreas)) {
+    const prompts = [
+      ...inputs.library.filter((p) => p.competency_area === competency).map((p) => p.prompt),
+      ...(COMPETENCY_JOURNAL_PROMPTS[competency] || []),
+    ];
+    for (const prompt of prompts) {
+      candidates.push({
+        prompt,
+        source: 'focus_area',
+        competencyArea: competency,
+        reason: `For your focus on ${competency}`,
+      });
+    }
+  }
+
+  const general = [
+    ...inputs.library.filter((p) => !p.competency_area).map((p) => p.prompt),
+    ...JOURNAL_PROMPTS,
+  ];
+  for (const prompt of general) {
+    candidates.push({ prompt, source: 'general', competencyArea: null, reason: null });
+  }
+
+  // The same prompt can come from the library and the built-in set
+  const seen = new Set<string>();
+  return candidates.filter((c) => {
+    const key = promptKey(c.prompt);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * This week's prompt for the employee. `seed` should identify the employee
+ * and week (e.g. "jane@acme.com:2026-10-19").
+ */
+export function selectJournalPrompt(inputs: JournalPromptInputs, seed: string): PersonalJournalPrompt {
+  const candidates = buildPromptCandidates(inputs);
+  const answered = new Set(inputs.answeredPrompts.map(promptKey));
+  let available = candidates.filter((c) => !answered.has(promptKey(c.prompt)));
+  // Answered everything: start the general prompts over
+  if (available.length === 0) available = candidates.filter((c) => c.source === 'general');
+
+  const groups = new Map<JournalPromptSource, PersonalJournalPrompt[]>();
+  for (const candidate of available) {
+    groups.set(candidate.source, [...(groups.get(candidate.source) || []), candidate]);
+  }
+
+  const sources = [...groups.keys()];
+  const totalWeight = sources.reduce((sum, source) => sum + SOURCE_WEIGHTS[source], 0);
+  let roll = hashSeed(seed) % totalWeight;
+  let source = sources[0];
+  for (const s of sources) {
+    if (roll < SOURCE_WEIGHTS[s]) {
+      source = s;
+      break;
+    }
+    roll -= SOURCE_WEIGHTS[s];
+  }
+
+  const group = groups.get(source)!;
+  return group[hashSeed(`${seed}:${source}`) % group.length];
+}
+
+function promptKey(prompt: string): string {
+  return prompt.trim().toLowerCase();
+}
+
+// FNV-1a: small, stable across browsers, good enough to spread employees
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { mergeTags, normalizeTag, parseTags, summarizeTags, MAX_TAGS_PER_ENTRY } from './journalTags';
+
+describe('normalizeTag', () => {
+  it('lowercases, collapses spaces and drops a leading #', () => {
+    expect(normalizeTag('  #Q3   Launch ')).toBe('q3 launch');
+    expect(normalizeTag('##')).toBe('');
+  });
+});
+
+describe('parseTags', () => {
+  it('splits on commas and skips blanks and duplicates', () => {
+    expect(parseTags('Priya, q3 launch, , #priya')).toEqual(['priya', 'q3 launch']);
+  });
+
+  it('caps the number of tags', () => {
+    const many = Array.from({ length: 15 }, (_, i) => `tag ${i}`).join(',');
+    expect(parseTags(many)).toHaveLength(MAX_TAGS_PER_ENTRY);
+    expect(mergeTags(['priya'], ['Priya', 'board'])).toEqual(['priya', 'board']);
+  });
+});
+
+describe('summarizeTags', () => {
+  it('counts tags across entries, most used first', () => {
+    expect(summarizeTags([
+      { tags: ['priya', 'q3 launch'] },
+      { tags: ['priya'] },
+      { tags: null },
+      { tags: ['board'] },
+    ])).toEqual([
+      { tag: 'priya', count: 2 },
+      { tag: 'board', count: 1 },
+      { tag: 'q3 launch', count: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Free-form journal tags ("priya", "q3 launch"), so an employee can find
+ * what they wrote about a person or project months later.
+ *
+ * Tags are stored normalised — lowercase, single-spaced, no leading '#' —
+ * so "Q3 Launch" and "#q3  launch" are the same tag and the tags filter can
+ * use an exact array match.
+ */
+
+export const MAX_TAGS_PER_ENTRY = 10;
+export const MAX_TAG_LENGTH = 40;
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+export function normalizeTag(raw: string): string {
+  return raw
+    .trim()
+    .replace(/^#+/, '')
+    .replace(/\s+/g, ' ')
+    .toLowerCase()
+    .slice(0, MAX_TAG_LENGTH)
+    .trim();
+}
+
+/**
+ * Tags from a comma-separated input, normalised and de-duplicated, capped
+ * at MAX_TAGS_PER_ENTRY
+ */
+export function parseTags(input: string): string[] {
+  return mergeTags([], input.split(','));
+}
+
+/** Add tags to an existing list, skipping blanks and duplicates */
+export function mergeTags(existing: string[], added: string[]): string[] {
+  const tags = [...existing];
+  for (const raw of added) {
+    const tag = normalizeTag(raw);
+    if (tag && !tags.includes(tag)) tags.push(tag);
+  }
+  return tags.slice(0, MAX_TAGS_PER_ENTRY);
+}
+
+/** Every tag the employee has used, most used first */
+export function summarizeTags(entries: { tags: string[] | null }[]): TagCount[] {
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    for (const tag of entry.tags || []) {
+      counts.set(tag, (counts.get(tag) || 0) + 1);
+    }
+  }
+  return [...counts]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCategoryWeeks,
+  buildScenarioTrends,
+  CUSTOM_SCENARIO_KEY,
+  findRecurringThemes,
+  suggestNextScenario,
+  type PracticeEvaluationRecord,
+} from './practiceProgress';
+
+let nextId = 0;
+function evaluation(
+  scenarioId: string,
+  date: Date,
+  score: number | null,
+  criteria: Array<[string, number]> = []
+): PracticeEvaluationRecord {
+  nextId += 1;
+  return {
+    id: `eval-${nextId}`,
+    scenario_id: scenarioId,
+    scenario_title: scenarioId,
+    score,
+    strengths: null,
+    areas_to_improve: null,
+    rubric_evaluation: criteria.length
+      ? {
+          score: score ?? 0,
+          summary: '',
+          criteria: criteria.map(([label, s]) => ({ id: label.toLowerCase(), label, score: s, evidence: [], feedback: '' })),
+          strengths: [],
+          areasToImprove: [],
+          rewrites: [],
+        }
+      : null,
+    created_at: date.toISOString(),
+  };
+}
+
+describe('buildScenarioTrends', () => {
+  it('groups attempts per scenario, oldest first, with custom situations together', () => {
+    const trends = buildScenarioTrends([
+      evaluation('lead-2', new Date(2026, 9, 14, 9), 4, [['Plan', 4], ['Barriers', 3]]),
+      evaluation('lead-2', new Date(2026, 9, 7, 9), 2, [['Plan', 2], ['Barriers', 1]]),
+      evaluation('custom-1760000000000', new Date(2026, 9, 8, 9), 3),
+      evaluation('custom-1760100000000', new Date(2026, 9, 9, 9), null),
+    ]);
+
+    expect(trends.map(t => [t.key, t.attempts])).toEqual([['lead-2', 2], [CUSTOM_SCENARIO_KEY, 2]]);
+    expect(trends[0]).toMatchObject({
+      title: 'Managing Underperformance',
+      category: 'leadership',
+      latestScore: 4,
+      bestScore: 4,
+      change: 2,
+      weakestCriterion: 'Barriers',
+    });
+    expect(trends[0].scores.map(s => s.score)).toEqual([2, 4]);
+    expect(trends[1]).toMatchObject({ category: null, latestScore: 3, change: null });
+  });
+});
+
+describe('buildCategoryWeeks', () => {
+  it('averages scores per category per week and leaves out custom situations', () => {
+    expect(buildCategoryWeeks([
+      evaluation('lead-1', new Date(2026, 9, 20, 9), 4),
+      evaluation('lead-2', new Date(2026, 9, 22, 9), 3),
+      evaluation('well-1', new Date(2026, 9, 13, 9), 2),
+      evaluation('custom-1', new Date(2026, 9, 13, 9), 5),
+    ])).toEqual([
+      { weekStart: '2026-10-12', leadership: null, communication: null, wellbeing: 2 },
+      { weekStart: '2026-10-19', leadership: 3.5, communication: null, wellbeing: null },
+    ]);
+  });
+});
+
+describe('findRecurringThemes', () => {
+  it('keeps criteria that score high or low across attempts, plus repeated free-text notes', () => {
+    const older = {
+      ...evaluation('comm-1', new Date(2026, 8, 1), 3),
+      strengths: ['Stayed calm'],
+      areas_to_improve: ['Ask more questions'],
+    };
+    const themes = findRecurringThemes([
+      evaluation('lead-1', new Date(2026, 9, 1), 3, [['Listening', 5], ['Next steps', 2]]),
+      evaluation('comm-2', new Date(2026, 9, 2), 3, [['Listening', 4], ['Next steps', 2], ['Clarity', 1]]),
+      older,
+      { ...older, id: 'older-2', areas_to_improve: ['ask more questions'] },
+    ]);
+
+    expect(themes.strengths).toEqual([
+      { label: 'Listening', count: 2, averageScore: 4.5 },
+      { label: 'Stayed calm', count: 2, averageScore: null },
+    ]);
+    expect(themes.areas).toEqual([
+      { label: 'Next steps', count: 2, averageScore: 2 },
+      { label: 'Ask more questions', count: 2, averageScore: null },
+    ]);
+  });
+});
+
+describe('suggestNextScenario', () => {
+  it('retries the weakest recent scenario, naming its weakest criterion', () => {
+    const suggestion = suggestNextScenario(buildScenarioTrends([
+      evaluation('lead-1', new Date(2026, 9, 10), 3),
+      evaluation('lead-2', new Date(2026, 9, 12), 2, [['Plan', 3], ['Barriers', 1]]),
+      evaluation('comm-1', new Date(2026, 9, 14), 5),
+    ]));
+
+    expect(suggestion?.scenario.id).toBe('lead-2');
+    expect(suggestion?.reason).toMatch(/barriers/);
+  });
+
+  it('moves to an untried scenario in the weakest category once scores are good', () => {
+    const suggestion = suggestNextScenario(buildScenarioTrends([
+      evaluation('lead-1', new Date(2026, 9, 10), 5),
+      evaluation('well-1', new Date(2026, 9, 12), 4),
+    ]));
+
+    expect(suggestion?.scenario.category).toBe('communication');
+    expect(suggestNextScenario([])).toBeNull();
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * An employee's practice trajectory from their saved evaluations: score
+ * trends per scenario and per category, rubric criteria that keep coming up
+ * strong or weak, and which scenario to practice next.
+ */
+
+import { SCENARIOS, type PracticeScenario, type ScenarioCategory } from '../data/scenarios';
+import { weekStartOf } from './journalMood';
+import type { PracticeEvaluation } from './storageService';
+
+export type PracticeEvaluationRecord = Pick<
+  PracticeEvaluation,
+  'id' | 'scenario_id' | 'scenario_title' | 'score' | 'strengths' | 'areas_to_improve' | 'rubric_evaluation' | 'created_at'
+>;
+
+// Custom situations each get a one-off id, so they're grouped together
+export const CUSTOM_SCENARIO_KEY = 'custom';
+
+export interface ScenarioTrend {
+  // Scenario id, or CUSTOM_SCENARIO_KEY
+  key: string;
+  title: string;
+  category: ScenarioCategory | null;
+  // Scored attempts, oldest first
+  scores: Array<{ date: string; score: number }>;
+  attempts: number;
+  latestScore: number | null;
+  bestScore: number | null;
+  // Latest minus first scored attempt
+  change: number | null;
+  lastPracticedAt: string;
+  // Lowest-scoring rubric criterion on the latest attempt that has one
+  weakestCriterion: string | null;
+}
+
+export interface CategoryWeek {
+  // Monday of the week, YYYY-MM-DD
+  weekStart: string;
+  leadership: number | null;
+  communication: number | null;
+  wellbeing: number | null;
+}
+
+export interface RecurringTheme {
+  label: string;
+  count: number;
+  // Average rubric score, or null for themes from free-text notes
+  averageScore: number | null;
+}
+
+export interface PracticeSuggestion {
+  scenario: PracticeScenario;
+  reason: string;
+}
+
+const CATEGORIES: ScenarioCategory[] = ['leadership', 'communication', 'wellbeing'];
+const MAX_THEMES = 5;
+
+function byDate(a: PracticeEvaluationRecord, b: PracticeEvaluationRecord): number {
+  return a.created_at.localeCompare(b.created_at);
+}
+
+function scenarioFor(evaluation: PracticeEvaluationRecord): PracticeScenario | undefined {
+  return SCENARIOS.find(s => s.id === evaluation.scenario_id);
+}
+
+/** One trend per library scenario practiced, plus one for custom situations; most recent first */
+export function buildScenarioTrends(evaluations: PracticeEvaluationRecord[]): ScenarioTrend[] {
+  const groups = new Map<string, PracticeEvaluationRecord[]>();
+  for (const evaluation of [...evaluations].sort(byDate)) {
+    const key = scenarioFor(evaluation) ? evaluation.scenario_id : CUSTOM_SCENARIO_KEY;
+    groups.set(key, [...(groups.get(key) || []), evaluation]);
+  }
+
+  return [...groups].map(([key, group]) => {
+    const scenario = SCENARIOS.find(s => s.id === key);
+    const scores = group.flatMap(e => (e.score === null ? [] : [{ date: e.created_at, score: e.score }]));
+    const latestRubric = [...group].reverse().find(e => e.rubric_evaluation?.criteria.length)?.rubric_evaluation;
+    const weakest = latestRubric
+      ? [...latestRubric.criteria].sort((a, b) => a.score - b.score)[0]
+      : null;
+
+    return {
+      key,
+      title: scenario?.title || 'Custom situations',
+      category: scenario?.category || null,
+      scores,
+      attempts: group.length,
+      latestScore: scores.length > 0 ? scores[scores.length - 1].score : null,
+      bestScore: scores.length > 0 ? Math.max(...scores.map(s => s.score)) : null,
+      change: scores.length > 1 ? scores[scores.length - 1].score - scores[0].score : null,
+      lastPracticedAt: group[group.length - 1].created_at,
+      weakestCriterion: weakest && weakest.score <= 3 ? weakest.label : null,
+    };
+  }).sort((a, b) => b.lastPracticedAt.localeCompare(a.lastPracticedAt));
+}
+
+/** Average score per category per week, oldest first. Custom situations aren't included. */
+export function buildCategoryWeeks(evaluations: PracticeEvaluationRecord[]): CategoryWeek[] {
+  const weeks = new Map<string, Record<ScenarioCategory, number[]>>();
+
+  for (const evaluation of evaluations) {
+    const category = scenarioFor(evaluation)?.category;
+    if (!category || evaluation.score === null) continue;
+    const week = weekStartOf(new Date(evaluation.created_at));
+    const bucket = weeks.get(week) || { leadership: [], communication: [], wellbeing: [] };
+    bucket[category].push(evaluation.score);
+    weeks.set(week, bucket);
+  }
+
+  return [...weeks]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([weekStart, bucket]) => ({
+      weekStart,
+      leadership: average(bucket.leadership),
+      communication: average(bucket.communication),
+      wellbeing: average(bucket.wellbeing),
+    }));
+}
+
+/**
+ * Rubric criteria that have scored well (4+) or poorly (2.5 or less) on
+ * average across at least two attempts, plus notes repeated word for word
+ * in older, free-text evaluations.
+ */
+export function findRecurringThemes(
+  evaluations: PracticeEvaluationRecord[]
+): { strengths: RecurringTheme[]; areas: RecurringTheme[] } {
+  const criteria = new Map<string, { label: string; scores: number[] }>();
+  for (const evaluation of evaluations) {
+    for (const criterion of evaluation.rubric_evaluation?.criteria || []) {
+      const key = criterion.label.toLowerCase();
+      const entry = criteria.get(key) || { label: criterion.label, scores: [] };
+      entry.scores.push(criterion.score);
+      criteria.set(key, entry);
+    }
+  }
+
+  const rubricThemes = [...criteria.values()]
+    .filter(c => c.scores.length >= 2)
+    .map(c => ({ label: c.label, count: c.scores.length, averageScore: average(c.scores) as number }));
+
+  // Older evaluations only have prose strengths and areas
+  const legacy = evaluations.filter(e => !e.rubric_evaluation);
+  const repeated = (items: string[]): RecurringTheme[] => {
+    const counts = new Map<string, RecurringTheme>();
+    for (const item of items) {
+      const key = item.toLowerCase();
+      const entry = counts.get(key) || { label: item, count: 0, averageScore: null };
+      entry.count += 1;
+      counts.set(key, entry);
+    }
+    return [...counts.values()].filter(t => t.count >= 2);
+  };
+
+  const strengths = [
+    ...rubricThemes.filter(t => t.averageScore >= 4).sort((a, b) => b.averageScore - a.averageScore),
+    ...repeated(legacy.flatMap(e => e.strengths || [])).sort((a, b) => b.count - a.count),
+  ];
+  const areas = [
+    ...rubricThemes.filter(t => t.averageScore <= 2.5).sort((a, b) => a.averageScore - b.averageScore),
+    ...repeated(legacy.flatMap(e => e.areas_to_improve || [])).sort((a, b) => b.count - a.count),
+  ];
+
+  return { strengths: strengths.slice(0, MAX_THEMES), areas: areas.slice(0, MAX_THEMES) };
+}
+
+/**
+ * Which scenario to practice next:
+ *   1. The library scenario with the lowest latest score of 3 or less
+ *      (ties go to the one practiced longest ago)
+ *   2. Otherwise one not tried yet, from the weakest category
+ *   3. Otherwise the one practiced longest ago
+ * Null until there's at least one evaluation.
+ */
+export function suggestNextScenario(trends: ScenarioTrend[]): PracticeSuggestion | null {
+  const library = trends.filter(t => t.key !== CUSTOM_SCENARIO_KEY);
+  if (trends.length === 0) return null;
+
+  const retry = library
+    .filter(t => t.latestScore !== null && t.latestScore <= 3)
+    .sort((a, b) => (a.latestScore as number) - (b.latestScore as number) || a.lastPracticedAt.localeCompare(b.lastPracticedAt))[0];
+  if (retry) {
+    const scenario = SCENARIOS.find(s => s.id === retry.key) as PracticeScenario;
+    return {
+      scenario,
+      reason: retry.weakestCriterion
+        ? `Your last score was ${retry.latestScore}/5. Focus on ${retry.weakestCriterion.toLowerCase()} this time.`
+        : `Your last score was ${retry.latestScore}/5. Another run should help it stick.`,
+    };
+  }
+
+  const tried = new Set(library.map(t => t.key));
+  const categoryAverage = (category: ScenarioCategory) =>
+    average(library.filter(t => t.category === category && t.latestScore !== null).map(t => t.latestScore as number));
+  const weakestFirst = [...CATEGORIES].sort((a, b) => (categoryAverage(a) ?? 0) - (categoryAverage(b) ?? 0));
+  for (const category of weakestFirst) {
+    const untried = SCENARIOS.find(s => s.category === category && !tried.has(s.id));
+    if (untried) {
+      return { scenario: untried, reason: "You haven't practiced this one yet." };
+    }
+  }
+
+  const oldest = [...library].sort((a, b) => a.lastPracticedAt.localeCompare(b.lastPracticedAt))[0];
+  if (!oldest) return null;
+  return {
+    scenario: SCENARIOS.find(s => s.id === oldest.key) as PracticeScenario,
+    reason: "It's been the longest since you practiced this one.",
+  };
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10;
+}
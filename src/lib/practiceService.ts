@@ -1,6 +1,11 @@
 import { supabase } from './supabase';
 import type { PracticeScenario } from '../data/scenarios';
 import { getPracticeHistorySummary, getEvaluationsForScenario } from './storageService';
+import { readPracticeStream } from './practiceStream';
+
+const PRACTICE_AI_FUNCTION_URL = import.meta.env.VITE_SUPABASE_URL
+  ? `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/practice-ai`
+  : '/functions/v1/practice-ai';
 
 interface GeneratePlanResponse {
   success: boolean;
@@ -16,23 +21,104 @@ interface RoleplayResponse {
 
 interface EvaluateResponse {
   success: boolean;
-  evaluation?: string;
+  evaluation?: RoleplayEvaluation;
   error?: string;
 }
 
+/** Score for one rubric criterion, checked by practice-ai against the transcript */
+export interface CriterionScore {
+  id: string;
+  label: string;
+  score: number;
+  // Verbatim quotes from the user's turns
+  evidence: string[];
+  feedback: string;
+}
+
+export interface EvaluationRewrite {
+  // Verbatim quote from the user's turns
+  original: string;
+  improved: string;
+  why: string;
+}
+
+export interface RoleplayEvaluation {
+  // 1-5, rounded mean of the criterion scores
+  score: number;
+  summary: string;
+  criteria: CriterionScore[];
+  strengths: string[];
+  areasToImprove: string[];
+  rewrites: EvaluationRewrite[];
+}
+
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
+  // A model turn the user cut off mid-stream; text is what was shown so far
+  interrupted?: boolean;
+}
+
+export interface PracticeStreamOptions {
+  // Called with each chunk of text as it arrives
+  onToken: (text: string) => void;
+  signal?: AbortSignal;
 }
 
 /**
- * Generate a strategic plan for a scenario
+ * Call practice-ai with `stream: true` and read the reply as it's generated.
+ * If the signal aborts, resolves with whatever text arrived and
+ * `aborted: true` rather than an error.
+ */
+async function streamPracticeAi(
+  body: Record<string, unknown>,
+  { onToken, signal }: PracticeStreamOptions
+): Promise<{ text: string; error: string | null; aborted: boolean }> {
+  let text = '';
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+    const response = await fetch(PRACTICE_AI_FUNCTION_URL, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session?.access_token || anonKey}`,
+        'apikey': anonKey,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ...body, stream: true }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      console.error('Practice AI stream error:', response.status);
+      return { text, error: 'Failed to get response', aborted: false };
+    }
+
+    const result = await readPracticeStream(response.body, (token) => {
+      text += token;
+      onToken(token);
+    });
+    return { ...result, aborted: false };
+  } catch (err) {
+    if (signal?.aborted) {
+      return { text, error: null, aborted: true };
+    }
+    console.error('Practice AI stream exception:', err);
+    return { text, error: 'Network error - please try again', aborted: false };
+  }
+}
+
+/**
+ * Generate a strategic plan for a scenario. Pass `stream` to receive the plan
+ * as it's written; a cancelled stream resolves with `aborted` and no plan.
  */
 export async function generatePlan(
   scenario: PracticeScenario,
   context: string,
-  userEmail?: string
-): Promise<{ plan: string | null; error: string | null }> {
+  userEmail?: string,
+  stream?: PracticeStreamOptions
+): Promise<{ plan: string | null; error: string | null; aborted?: boolean }> {
   try {
     // Fetch practice history if user email provided
     let practiceHistory = null;
@@ -52,20 +138,26 @@ export async function generatePlan(
       }));
     }
 
-    const { data, error } = await supabase.functions.invoke<GeneratePlanResponse>('practice-ai', {
-      body: {
-        action: 'generate-plan',
-        scenario: {
-          title: scenario.title,
-          description: scenario.description,
-          explanation: scenario.explanation,
-          basePrompt: scenario.basePrompt,
-        },
-        context,
-        practiceHistory,
-        scenarioHistory: scenarioHistory && scenarioHistory.length > 0 ? scenarioHistory : null,
+    const body = {
+      action: 'generate-plan',
+      scenario: {
+        title: scenario.title,
+        description: scenario.description,
+        explanation: scenario.explanation,
+        basePrompt: scenario.basePrompt,
       },
-    });
+      context,
+      practiceHistory,
+      scenarioHistory: scenarioHistory && scenarioHistory.length > 0 ? scenarioHistory : null,
+    };
+
+    if (stream) {
+      const { text, error, aborted } = await streamPracticeAi(body, stream);
+      if (aborted) return { plan: null, error: null, aborted: true };
+      return { plan: error ? null : text || null, error };
+    }
+
+    const { data, error } = await supabase.functions.invoke<GeneratePlanResponse>('practice-ai', { body });
 
     if (error) {
       console.error('Generate plan error:', error);
@@ -84,14 +176,16 @@ export async function generatePlan(
 }
 
 /**
- * Get a roleplay response from the AI
+ * Get a roleplay response from the AI. Pass `stream` to receive it as it's
+ * written; on an error or cancel, `response` holds the text received so far.
  */
 export async function getRoleplayResponse(
   scenario: PracticeScenario,
   messages: ChatMessage[],
   plan?: string,
-  userEmail?: string
-): Promise<{ response: string | null; error: string | null }> {
+  userEmail?: string,
+  stream?: PracticeStreamOptions
+): Promise<{ response: string | null; error: string | null; aborted?: boolean }> {
   try {
     // Fetch practice history for adaptive difficulty
     let practiceHistory = null;
@@ -99,19 +193,24 @@ export async function getRoleplayResponse(
       practiceHistory = await getPracticeHistorySummary(userEmail);
     }
 
-    const { data, error } = await supabase.functions.invoke<RoleplayResponse>('practice-ai', {
-      body: {
-        action: 'roleplay',
-        scenario: {
-          title: scenario.title,
-          description: scenario.description,
-          basePrompt: scenario.basePrompt,
-        },
-        messages,
-        plan,
-        practiceHistory,
+    const body = {
+      action: 'roleplay',
+      scenario: {
+        title: scenario.title,
+        description: scenario.description,
+        basePrompt: scenario.basePrompt,
       },
-    });
+      messages,
+      plan,
+      practiceHistory,
+    };
+
+    if (stream) {
+      const { text, error, aborted } = await streamPracticeAi(body, stream);
+      return { response: text || null, error, aborted };
+    }
+
+    const { data, error } = await supabase.functions.invoke<RoleplayResponse>('practice-ai', { body });
 
     if (error) {
       console.error('Roleplay error:', error);
@@ -130,14 +229,14 @@ export async function getRoleplayResponse(
 }
 
 /**
- * Evaluate a roleplay conversation
+ * Evaluate a roleplay conversation against the scenario's rubric
  */
 export async function evaluateRoleplay(
   scenario: PracticeScenario,
   messages: ChatMessage[],
   plan?: string,
   userEmail?: string
-): Promise<{ evaluation: string | null; error: string | null }> {
+): Promise<{ evaluation: RoleplayEvaluation | null; error: string | null }> {
   try {
     // Fetch history for context-aware evaluation
     let practiceHistory = null;
@@ -165,6 +264,7 @@ export async function evaluateRoleplay(
           description: scenario.description,
         },
         messages,
+        rubric: scenario.rubric,
         plan,
         practiceHistory,
         scenarioHistory: scenarioHistory && scenarioHistory.length > 0 ? scenarioHistory : null,
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { createPracticeStreamParser, readPracticeStream } from './practiceStream';
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+describe('createPracticeStreamParser', () => {
+  it('holds partial events until the rest of the chunk arrives', () => {
+    const parse = createPracticeStreamParser();
+
+    expect(parse('event: token\ndata: {"text":"Hel')).toEqual([]);
+    expect(parse('lo"}\n\nevent: token\ndata: {"text":" there"}\n\nevent: do')).toEqual([
+      { type: 'token', text: 'Hello' },
+      { type: 'token', text: ' there' },
+    ]);
+    expect(parse('ne\ndata: {}\n\n')).toEqual([{ type: 'done' }]);
+  });
+});
+
+describe('readPracticeStream', () => {
+  it('collects tokens until done', async () => {
+    const tokens: string[] = [];
+    const result = await readPracticeStream(
+      streamOf(['event: token\ndata: {"text":"Hi"}\n\n', 'event: token\ndata: {"text":"!"}\n\nevent: done\ndata: {}\n\n']),
+      (token) => tokens.push(token)
+    );
+
+    expect(tokens).toEqual(['Hi', '!']);
+    expect(result).toEqual({ text: 'Hi!', error: null });
+  });
+
+  it('keeps the partial text when the stream fails or closes early', async () => {
+    const failed = await readPracticeStream(
+      streamOf(['event: token\ndata: {"text":"Hi"}\n\nevent: error\ndata: {"error":"Upstream failed"}\n\n']),
+      () => {}
+    );
+    expect(failed).toEqual({ text: 'Hi', error: 'Upstream failed' });
+
+    const cutOff = await readPracticeStream(streamOf(['event: token\ndata: {"text":"Hi"}\n\n']), () => {});
+    expect(cutOff.text).toBe('Hi');
+    expect(cutOff.error).not.toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Reads the server-sent events practice-ai sends when a request asks to
+ * stream: a `token` event per text delta, then `done` or `error`.
+ */
+
+export type PracticeStreamEvent =
+  | { type: 'token'; text: string }
+  | { type: 'done' }
+  | { type: 'error'; error: string };
+
+/**
+ * Returns a parser that takes raw chunks as they arrive and yields the
+ * complete events in them. Partial events are held until the rest arrives.
+ */
+export function createPracticeStreamParser(): (chunk: string) => PracticeStreamEvent[] {
+  let buffer = '';
+
+  return (chunk) => {
+    buffer += chunk;
+    const events: PracticeStreamEvent[] = [];
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const event = parseEvent(buffer.slice(0, boundary));
+      if (event) events.push(event);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+    }
+
+    return events;
+  };
+}
+
+function parseEvent(raw: string): PracticeStreamEvent | null {
+  let name = 'message';
+  const data: string[] = [];
+
+  for (const line of raw.split('\n')) {
+    if (line.startsWith('event:')) name = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+  }
+  if (data.length === 0) return null;
+
+  let payload: { text?: unknown; error?: unknown };
+  try {
+    payload = JSON.parse(data.join('\n'));
+  } catch {
+    return null;
+  }
+
+  switch (name) {
+    case 'token':
+      return typeof payload.text === 'string' ? { type: 'token', text: payload.text } : null;
+    case 'done':
+      return { type: 'done' };
+    case 'error':
+      return { type: 'error', error: typeof payload.error === 'string' ? payload.error : 'Failed to get response' };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Read a practice-ai event stream to the end, calling onToken for each text
+ * delta. Returns the full text, plus an error if the stream failed or closed
+ * before `done`.
+ */
+export async function readPracticeStream(
+  body: ReadableStream<Uint8Array>,
+  onToken: (text: string) => void
+): Promise<{ text: string; error: string | null }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parse = createPracticeStreamParser();
+  let text = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    for (const event of parse(decoder.decode(value, { stream: true }))) {
+      if (event.type === 'token') {
+        text += event.text;
+        onToken(event.text);
+      } else {
+        reader.cancel();
+        return { text, error: event.type === 'error' ? event.error : null };
+      }
+    }
+  }
+
+  return { text, error: 'The response was cut off - please try again' };
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { buildProgressReport, isProgressReportEmpty, type ProgressReportSources } from './progressReport';
+import type { CoachingWin } from './types';
+
+// Test fixtures
+const createWin = (overrides: Partial<CoachingWin> = {}): CoachingWin => ({
+  id: 'win-1',
+  employee_id: 1,
+  coach_id: null,
+  session_number: null,
+  win_text: 'Ran my first skip-level',
+  source: 'manual',
+  is_private: false,
+  survey_response_id: null,
+  created_at: '2026-09-01T00:00:00Z',
+  updated_at: '2026-09-01T00:00:00Z',
+  ...overrides,
+});
+
+const sources: ProgressReportSources = {
+  employeeName: 'Test User',
+  program: 'GROW',
+  competencies: [
+    { key: 'strategic_thinking', label: 'Strategic Thinking', baseline: 2, latest: 4 },
+    { key: 'emotional_intelligence', label: 'Emotional Intelligence', baseline: 3, latest: null },
+  ],
+  focusAreas: ['Strategic Thinking', 'Delegation & Accountability'],
+  wins: [
+    createWin({ id: 'win-public' }),
+    createWin({ id: 'win-private', win_text: 'Something personal', is_private: true }),
+  ],
+};
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+describe('buildProgressReport', () => {
+  it('includes only what the employee selected', () => {
+    const report = buildProgressReport(sources, {
+      competencyKeys: ['strategic_thinking'],
+      focusAreas: ['Delegation & Accountability'],
+      winIds: ['win-public'],
+      note: '  Proud of this quarter  ',
+    }, now);
+
+    expect(report.competencies.map(c => c.key)).toEqual(['strategic_thinking']);
+    expect(report.focus_areas).toEqual(['Delegation & Accountability']);
+    expect(report.wins).toEqual([
+      { id: 'win-public', text: 'Ran my first skip-level', created_at: '2026-09-01T00:00:00Z' },
+    ]);
+    expect(report.note).toBe('Proud of this quarter');
+    expect(report.generated_at).toBe('2026-10-19T12:00:00.000Z');
+  });
+
+  it('never includes private wins, even when selected', () => {
+    const report = buildProgressReport(sources, {
+      competencyKeys: [],
+      focusAreas: [],
+      winIds: ['win-public', 'win-private'],
+      note: '',
+    }, now);
+
+    expect(report.wins.map(w => w.id)).toEqual(['win-public']);
+  });
+
+  it('is empty when nothing is selected', () => {
+    const report = buildProgressReport(sources, {
+      competencyKeys: [],
+      focusAreas: [],
+      winIds: ['win-private'],
+      note: '   ',
+    }, now);
+
+    expect(report.note).toBeNull();
+    expect(isProgressReportEmpty(report)).toBe(true);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Progress report — a printable, shareable summary the employee assembles
+ * from their own progress data.
+ *
+ * Nothing goes in unless the employee ticks it, and private wins
+ * (CoachingWin.is_private) are never included even if selected. The
+ * progress-report edge function re-reads the wins and competency scores
+ * server-side before storing a shared copy.
+ */
+
+import type { CoachingWin } from './types';
+
+export interface ReportCompetencyRow {
+  key: string;
+  label: string;
+  baseline: number | null;
+  latest: number | null;
+}
+
+export interface ReportWin {
+  id: string;
+  text: string;
+  created_at: string;
+}
+
+export interface ProgressReport {
+  employee_name: string;
+  program: string | null;
+  generated_at: string;
+  competencies: ReportCompetencyRow[];
+  focus_areas: string[];
+  wins: ReportWin[];
+  note: string | null;
+}
+
+export interface ProgressReportSelection {
+  competencyKeys: string[];
+  focusAreas: string[];
+  winIds: string[];
+  note: string;
+}
+
+export interface ProgressReportSources {
+  employeeName: string;
+  program: string | null;
+  competencies: ReportCompetencyRow[];
+  focusAreas: string[];
+  wins: CoachingWin[];
+}
+
+/**
+ * Wins that may appear in a report — private ones are never offered
+ */
+export function getShareableWins(wins: CoachingWin[]): CoachingWin[] {
+  return wins.filter(win => !win.is_private);
+}
+
+/**
+ * Assemble a report from the employee's selection, keeping source order
+ */
+export function buildProgressReport(
+  sources: ProgressReportSources,
+  selection: ProgressReportSelection,
+  now: Date = new Date()
+): ProgressReport {
+  const competencyKeys = new Set(selection.competencyKeys);
+  const focusAreas = new Set(selection.focusAreas);
+  const winIds = new Set(selection.winIds);
+
+  return {
+    employee_name: sources.employeeName,
+    program: sources.program,
+    generated_at: now.toISOString(),
+    competencies: sources.competencies.filter(c => competencyKeys.has(c.key)),
+    focus_areas: sources.focusAreas.filter(area => focusAreas.has(area)),
+    wins: getShareableWins(sources.wins)
+      .filter(win => winIds.has(win.id))
+      .map(win => ({ id: win.id, text: win.win_text, created_at: win.created_at })),
+    note: selection.note.trim() || null,
+  };
+}
+
+export function isProgressReportEmpty(report: ProgressReport): boolean {
+  return report.competencies.length === 0
+    && report.focus_areas.length === 0
+    && report.wins.length === 0
+    && !report.note;
+}
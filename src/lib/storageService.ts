@@ -1,5 +1,6 @@
 // Storage service for Practice feature - using Supabase for persistence
 import { supabase } from './supabase';
+import type { ChatMessage, RoleplayEvaluation } from './practiceService';
 
 export interface TeamMember {
   id: string;
@@ -29,7 +30,9 @@ export interface PracticeEvaluation {
   feedback: string | null;
   strengths: string[] | null;
   areas_to_improve: string[] | null;
-  conversation: Array<{ role: 'user' | 'model'; text: string }> | null;
+  conversation: ChatMessage[] | null;
+  // Null for evaluations saved before rubric scoring
+  rubric_evaluation: RoleplayEvaluation | null;
   created_at: string;
 }
 
@@ -210,41 +213,28 @@ export async function getPlanById(id: string): Promise<SavedPlan | null> {
 // ============================================
 
 /**
- * Parse score from evaluation text (format: "**Adherence Score: X/5**")
+ * Readable rendering of a rubric evaluation for the feedback column
  */
-function parseScoreFromEvaluation(evaluation: string): number | null {
-  const match = evaluation.match(/\*?\*?Adherence Score:\s*(\d)\/5\*?\*?/i);
-  return match ? parseInt(match[1], 10) : null;
-}
-
-/**
- * Parse strengths from evaluation text
- */
-function parseStrengthsFromEvaluation(evaluation: string): string[] {
-  const strengthsSection = evaluation.match(/\*?\*?What Went Well:?\*?\*?\s*([\s\S]*?)(?=\*?\*?What Was Missing|$)/i);
-  if (!strengthsSection) return [];
-
-  const lines = strengthsSection[1]
-    .split('\n')
-    .map(l => l.replace(/^[-*•]\s*/, '').trim())
-    .filter(l => l.length > 0 && l.length < 200);
-
-  return lines.slice(0, 5);
-}
-
-/**
- * Parse areas to improve from evaluation text
- */
-function parseAreasToImproveFromEvaluation(evaluation: string): string[] {
-  const areasSection = evaluation.match(/\*?\*?What Was Missing or Weak:?\*?\*?\s*([\s\S]*?)(?=\*?\*?Better Approach|$)/i);
-  if (!areasSection) return [];
-
-  const lines = areasSection[1]
-    .split('\n')
-    .map(l => l.replace(/^[-*•]\s*/, '').trim())
-    .filter(l => l.length > 0 && l.length < 200);
-
-  return lines.slice(0, 5);
+function formatEvaluationFeedback(evaluation: RoleplayEvaluation): string {
+  const sections = [
+    `**Overall Score: ${evaluation.score}/5**`,
+    evaluation.summary,
+    evaluation.criteria
+      .map(c => `**${c.label}: ${c.score}/5**\n${c.feedback}`)
+      .join('\n\n'),
+  ];
+  if (evaluation.strengths.length > 0) {
+    sections.push(`**What Went Well:**\n${evaluation.strengths.map(s => `- ${s}`).join('\n')}`);
+  }
+  if (evaluation.areasToImprove.length > 0) {
+    sections.push(`**What Was Missing or Weak:**\n${evaluation.areasToImprove.map(a => `- ${a}`).join('\n')}`);
+  }
+  if (evaluation.rewrites.length > 0) {
+    sections.push(`**Better Approach:**\n${evaluation.rewrites
+      .map(r => `- Instead of "${r.original}", try "${r.improved}"`)
+      .join('\n')}`);
+  }
+  return sections.filter(Boolean).join('\n\n');
 }
 
 /**
@@ -255,25 +245,22 @@ export async function saveEvaluation(
   evaluation: {
     scenario_id: string;
     scenario_title: string;
-    feedback: string;
-    conversation: Array<{ role: 'user' | 'model'; text: string }>;
+    evaluation: RoleplayEvaluation;
+    conversation: ChatMessage[];
   }
 ): Promise<PracticeEvaluation | null> {
-  const score = parseScoreFromEvaluation(evaluation.feedback);
-  const strengths = parseStrengthsFromEvaluation(evaluation.feedback);
-  const areasToImprove = parseAreasToImproveFromEvaluation(evaluation.feedback);
-
   const { data, error } = await supabase
     .from('practice_evaluations')
     .insert({
       employee_email: email.toLowerCase(),
       scenario_id: evaluation.scenario_id,
       scenario_title: evaluation.scenario_title,
-      score,
-      feedback: evaluation.feedback,
-      strengths,
-      areas_to_improve: areasToImprove,
+      score: evaluation.evaluation.score,
+      feedback: formatEvaluationFeedback(evaluation.evaluation),
+      strengths: evaluation.evaluation.strengths,
+      areas_to_improve: evaluation.evaluation.areasToImprove,
       conversation: evaluation.conversation,
+      rubric_evaluation: evaluation.evaluation,
     })
     .select()
     .single();
@@ -332,6 +319,28 @@ export async function getEvaluationsForScenario(
   return data || [];
 }
 
+/**
+ * Get a user's evaluation history, newest first (for the Practice progress view)
+ */
+export async function getPracticeEvaluations(
+  email: string,
+  limit: number = 200
+): Promise<PracticeEvaluation[]> {
+  const { data, error } = await supabase
+    .from('practice_evaluations')
+    .select('*')
+    .eq('employee_email', email.toLowerCase())
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching practice history:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
 /**
  * Get a summary of user's practice history for AI context
  */
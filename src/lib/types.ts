@@ -225,15 +225,28 @@ export interface Coach {
   notable_credentials: string | null; // Certifications e.g. "ICF PCC, Executive Coach"
 }
 
+export type ActionItemRecurrence = 'daily' | 'weekly';
+
 export interface ActionItem {
   id: string;
   email: string;
   session_id: number | null;
-  coach_name: string;
+  // null for items the employee added themselves
+  coach_name: string | null;
   action_text: string;
   due_date: string | null;
   status: 'pending' | 'completed' | 'dismissed';
   employee_note: string | null;
+  source: 'coach' | 'employee';
+  // Completing a recurring item schedules its next occurrence (DB trigger)
+  recurrence: ActionItemRecurrence | null;
+  goal_id: string | null;
+  // Last "still relevant?" answer, and when the nudge scheduler dismissed an
+  // item nobody answered for
+  last_confirmed_at: string | null;
+  auto_dismissed_at: string | null;
+  // When the nudge scheduler last asked "still relevant?"
+  relevance_prompted_at: string | null;
   created_at: string;
   completed_at: string | null;
 }
@@ -259,7 +272,16 @@ export interface CheckIn {
   created_at: string;
 }
 
-export interface SlackConnection {
+// Per-connection delivery controls, honoured by every nudge-scheduler phase
+export interface NudgeDeliveryWindow {
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  working_days: number[];        // 0 = Sunday … 6 = Saturday
+  holidays: string[];            // 'YYYY-MM-DD'
+  snoozed_until: string | null;
+}
+
+export interface SlackConnection extends NudgeDeliveryWindow {
   slack_user_id: string;
   nudge_enabled: boolean;
   nudge_frequency: 'smart' | 'daily' | 'weekly' | 'none';
@@ -272,7 +294,7 @@ export interface SlackConnectionStatus {
   settings: SlackConnection | null;
 }
 
-export interface TeamsConnection {
+export interface TeamsConnection extends NudgeDeliveryWindow {
   teams_user_id: string;
   nudge_enabled: boolean;
   nudge_frequency: 'smart' | 'daily' | 'weekly' | 'none';
@@ -285,9 +307,18 @@ export interface TeamsConnectionStatus {
   settings: TeamsConnection | null;
 }
 
-export type NudgeChannel = 'slack' | 'teams';
+// Email has no OAuth connection — it's an opt-in preference row keyed by the
+// employee's company email, used when neither Slack nor Teams is connected.
+export interface EmailNudgeSettings extends NudgeDeliveryWindow {
+  nudge_enabled: boolean;
+  nudge_frequency: 'smart' | 'daily' | 'weekly' | 'none';
+  preferred_time: string;
+  timezone: string;
+}
 
-export type NudgeType = 'action_reminder' | 'goal_checkin' | 'goal_midweek_checkin' | 'goal_endweek_checkin' | 'session_prep' | 'weekly_digest' | 'daily_digest' | 'streak_celebration';
+export type NudgeChannel = 'slack' | 'teams' | 'email';
+
+export type NudgeType = 'action_reminder' | 'goal_checkin' | 'goal_midweek_checkin' | 'goal_endweek_checkin' | 'session_prep' | 'weekly_digest' | 'daily_digest' | 'smart_action_digest' | 'smart_commitment_checkin' | 'streak_celebration' | 'action_due_tomorrow' | 'action_due_today' | 'action_overdue' | 'action_still_relevant';
 
 export interface Nudge {
   id: string;
@@ -304,6 +335,41 @@ export interface Nudge {
 // Backward compat alias
 export type SlackNudge = Nudge;
 
+// Right-to-erasure request: pending_confirmation → scheduled → completed
+// (or cancelled during the grace period before scheduled_for)
+export interface DataErasureRequest {
+  id: string;
+  status: 'pending_confirmation' | 'scheduled' | 'completed' | 'cancelled';
+  requested_at: string;
+  confirmed_at: string | null;
+  scheduled_for: string | null;
+  cancelled_at: string | null;
+  completed_at: string | null;
+}
+
+// A time-limited link to a progress report the employee shared
+export interface ProgressReportShare {
+  id: string;
+  url: string;
+  recipient_label: string | null;
+  expires_at: string;
+  revoked_at: string | null;
+  view_count: number;
+  last_viewed_at: string | null;
+  created_at: string;
+}
+
+// Weekly streaks, computed by the streaks edge function
+export type StreakKind = 'commitments' | 'journal' | 'action_items';
+
+export interface Streak {
+  current: number;
+  best: number;
+  active_this_week: boolean;
+}
+
+export type EmployeeStreaks = Record<StreakKind, Streak>;
+
 // SCALE Checkpoint data (longitudinal tracking every 6 sessions)
 export interface Checkpoint {
   id: string;
@@ -482,6 +548,23 @@ export interface Goal {
   completed_at: string | null;
 }
 
+// Measurable when target_value is set (current_value of target_value, in
+// unit); otherwise a checkbox that's done once completed_at is set
+export interface GoalMilestone {
+  id: string;
+  goal_id: string;
+  employee_email: string;
+  title: string;
+  target_value: number | null;
+  current_value: number;
+  unit: string | null;
+  due_date: string | null;
+  completed_at: string | null;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface WeeklyCommitment {
   id: string;
   employee_email: string;
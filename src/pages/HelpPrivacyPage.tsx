@@ -178,6 +178,30 @@ export default function HelpPrivacyPage() {
           </div>
         </section>
 
+        {/* Your data */}
+        <section className="mb-10">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-10 h-10 bg-blue-50 rounded-xl flex items-center justify-center">
+              <svg className="w-5 h-5 text-boon-blue" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+              </svg>
+            </div>
+            <h2 className="text-xl font-bold text-boon-text">Your data</h2>
+          </div>
+          <div className="bg-white rounded-2xl p-6 border border-gray-100">
+            <p className="text-gray-700 mb-4">
+              You can download a copy of everything Boon holds about you at any time — sessions, surveys,
+              competency scores, wins, journal entries, goals, action items, practice history and nudges.
+            </p>
+            <Link
+              to="/settings#your-data"
+              className="inline-flex items-center gap-2 text-boon-blue font-bold hover:underline"
+            >
+              Download my data →
+            </Link>
+          </div>
+        </section>
+
         {/* Questions */}
         <section className="bg-boon-blue/5 rounded-2xl p-6 text-center">
           <h2 className="text-lg font-bold text-boon-text mb-2">Questions?</h2>
@@ -0,0 +1,83 @@
+import { useEffect, useRef, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { fetchSharedProgressReport } from '../lib/dataFetcher';
+import type { ProgressReport } from '../lib/progressReport';
+import ProgressReportDocument, { printProgressReport } from '../components/ProgressReportDocument';
+
+export default function SharedProgressReportPage() {
+  const { token } = useParams<{ token: string }>();
+  const [report, setReport] = useState<ProgressReport | null>(null);
+  const [expiresAt, setExpiresAt] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const documentRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!token) {
+      setLoading(false);
+      return;
+    }
+
+    fetchSharedProgressReport(token).then(result => {
+      setReport(result?.report ?? null);
+      setExpiresAt(result?.expires_at ?? null);
+      setLoading(false);
+    });
+  }, [token]);
+
+  const handlePrint = () => {
+    if (!report || !documentRef.current) return;
+    if (!printProgressReport(documentRef.current, `${report.employee_name} — progress report`)) {
+      window.print();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-boon-bg">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-100">
+        <div className="max-w-3xl mx-auto px-6 py-6 flex items-center justify-between gap-4">
+          <img
+            src="https://res.cloudinary.com/djbo6r080/image/upload/v1764863780/Wordmark_Blue_16_aw7lvc.png"
+            alt="Boon Health"
+            className="h-8 max-w-[140px] object-contain"
+          />
+          {report && (
+            <button
+              onClick={handlePrint}
+              className="px-4 py-2 text-sm font-semibold text-boon-blue border border-boon-blue/30 rounded-btn hover:bg-boon-blue/5 transition-colors"
+            >
+              Print / Save as PDF
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-3xl mx-auto px-6 py-10">
+        {loading ? (
+          <div className="flex justify-center py-20">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-boon-blue" />
+          </div>
+        ) : report ? (
+          <>
+            <div className="bg-white rounded-2xl p-8 border border-gray-100">
+              <ProgressReportDocument ref={documentRef} report={report} />
+            </div>
+            {expiresAt && (
+              <p className="text-xs text-gray-400 text-center mt-6">
+                This link expires on {new Date(expiresAt).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}.
+              </p>
+            )}
+          </>
+        ) : (
+          <div className="bg-white rounded-2xl p-10 border border-gray-100 text-center">
+            <h1 className="text-xl font-bold text-boon-text mb-2">This report isn't available</h1>
+            <p className="text-gray-500 text-sm">
+              The link may have expired or been revoked. Ask the person who shared it to send a new one.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareActionReminders,
+  DEFAULT_ACTION_REMINDER_SETTINGS,
+  getActionReminder,
+  shouldAutoDismiss,
+  type ReminderActionItem,
+} from './action-reminders.ts';
+
+const today = '2026-10-19';
+const settings = DEFAULT_ACTION_REMINDER_SETTINGS;
+const utcDate = (iso: string) => iso.slice(0, 10);
+
+const createItem = (overrides: Partial<ReminderActionItem> = {}): ReminderActionItem => ({
+  id: 'a-1',
+  due_date: null,
+  recurrence: null,
+  created_at: '2026-10-15T09:00:00Z',
+  last_confirmed_at: null,
+  ...overrides,
+});
+
+const reminderFor = (overrides: Partial<ReminderActionItem>) =>
+  getActionReminder(createItem(overrides), today, settings, utcDate);
+
+describe('getActionReminder', () => {
+  it('reminds the day before and the day of', () => {
+    expect(reminderFor({ due_date: '2026-10-20' })).toEqual({ kind: 'due_tomorrow', referenceId: 'a-1:2026-10-20', daysOverdue: 0 });
+    expect(reminderFor({ due_date: '2026-10-19' })?.kind).toBe('due_today');
+    expect(reminderFor({ due_date: '2026-10-22' })).toBeNull();
+  });
+
+  it('escalates overdue items at each step, then asks if they are still relevant', () => {
+    expect(reminderFor({ due_date: '2026-10-18' })?.referenceId).toBe('a-1:2026-10-18:1');
+    expect(reminderFor({ due_date: '2026-10-15' })?.referenceId).toBe('a-1:2026-10-15:1');
+    expect(reminderFor({ due_date: '2026-10-12' })?.referenceId).toBe('a-1:2026-10-12:7');
+    expect(reminderFor({ due_date: '2026-10-05' })).toEqual({ kind: 'still_relevant', referenceId: 'a-1:2026-10-05', daysOverdue: 14 });
+  });
+
+  it('asks about undated items by age, and restarts the clock when kept', () => {
+    expect(reminderFor({ created_at: '2026-10-05T09:00:00Z' })?.kind).toBe('still_relevant');
+    expect(reminderFor({ created_at: '2026-10-05T09:00:00Z', last_confirmed_at: '2026-10-10T12:00:00Z' })).toBeNull();
+  });
+
+  it('only reminds recurring items on the day they are due', () => {
+    expect(reminderFor({ due_date: '2026-10-19', recurrence: 'daily' })?.kind).toBe('due_today');
+    expect(reminderFor({ due_date: '2026-10-20', recurrence: 'weekly' })).toBeNull();
+    expect(reminderFor({ due_date: '2026-09-01', recurrence: 'weekly' })).toBeNull();
+  });
+
+  it('orders reminders by urgency', () => {
+    const reminders = [
+      reminderFor({ id: 'tomorrow', due_date: '2026-10-20' })!,
+      reminderFor({ id: 'late', due_date: '2026-10-18' })!,
+      reminderFor({ id: 'today', due_date: '2026-10-19' })!,
+      reminderFor({ id: 'later', due_date: '2026-10-10' })!,
+    ];
+    expect(reminders.sort(compareActionReminders).map((r) => r.referenceId.split(':')[0]))
+      .toEqual(['today', 'later', 'late', 'tomorrow']);
+  });
+});
+
+describe('shouldAutoDismiss', () => {
+  const promptedAt = '2026-10-10T09:00:00Z';
+  const now = new Date('2026-10-19T09:00:00Z');
+
+  it('dismisses once the prompt has gone unanswered long enough', () => {
+    expect(shouldAutoDismiss(createItem(), promptedAt, now, settings)).toBe(true);
+    expect(shouldAutoDismiss(createItem(), '2026-10-15T09:00:00Z', now, settings)).toBe(false);
+  });
+
+  it('keeps items confirmed since the prompt, and respects the off switch', () => {
+    expect(shouldAutoDismiss(createItem({ last_confirmed_at: '2026-10-11T08:00:00+00:00' }), promptedAt, now, settings)).toBe(false);
+    expect(shouldAutoDismiss(createItem(), promptedAt, now, { ...settings, autoDismissAfterDays: 0 })).toBe(false);
+  });
+});
@@ -0,0 +1,145 @@
+// Due-date reminders for pending action items.
+//
+// No Deno or Supabase imports — nudge-scheduler decides which reminder (if
+// any) each pending item is due today, in the employee's timezone:
+//
+//   due_tomorrow    the day before the due date
+//   due_today       on the due date
+//   overdue         escalating on the days in OVERDUE_ESCALATION_DAYS
+//   still_relevant  once an item has sat untouched for stillRelevantAfterDays
+//                   past its due date (or since it was added, with no due
+//                   date) — asks whether to keep it, and auto-dismisses it if
+//                   nobody answers within autoDismissAfterDays
+//
+// Recurring items are habits: they only get a due_today reminder, and a
+// missed occurrence is never escalated or dismissed.
+//
+// Each reminder carries a reference id that changes with the due date, so
+// moving a due date earns fresh reminders and answering "still relevant"
+// restarts the clock.
+
+export type ActionReminderKind = 'due_tomorrow' | 'due_today' | 'overdue' | 'still_relevant';
+
+export const ACTION_REMINDER_NUDGE_TYPES: Record<ActionReminderKind, string> = {
+  due_tomorrow: 'action_due_tomorrow',
+  due_today: 'action_due_today',
+  overdue: 'action_overdue',
+  still_relevant: 'action_still_relevant',
+};
+
+// Days past due that get an overdue reminder
+export const OVERDUE_ESCALATION_DAYS = [1, 7];
+
+export interface ActionReminderSettings {
+  stillRelevantAfterDays: number;   // 0 turns the prompt off
+  autoDismissAfterDays: number;     // 0 keeps unanswered items forever
+}
+
+export const DEFAULT_ACTION_REMINDER_SETTINGS: ActionReminderSettings = {
+  stillRelevantAfterDays: 14,
+  autoDismissAfterDays: 7,
+};
+
+export interface ReminderActionItem {
+  id: string;
+  due_date: string | null;
+  recurrence: string | null;
+  created_at: string;
+  last_confirmed_at: string | null;
+}
+
+export interface ActionReminder {
+  kind: ActionReminderKind;
+  referenceId: string;
+  daysOverdue: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Most urgent first, when an employee has several reminders due at once
+const KIND_PRIORITY: ActionReminderKind[] = ['due_today', 'overdue', 'due_tomorrow', 'still_relevant'];
+
+/**
+ * Whole days from one YYYY-MM-DD date to another (negative if `to` is earlier)
+ */
+export function daysBetween(from: string, to: string): number {
+  const start = Date.parse(`${from.slice(0, 10)}T00:00:00Z`);
+  const end = Date.parse(`${to.slice(0, 10)}T00:00:00Z`);
+  return Math.round((end - start) / DAY_MS);
+}
+
+/**
+ * The date an item last had attention: its due date, or when it was added,
+ * moved later by a "still relevant" answer. Dates come from `localDate` so
+ * they match the employee's calendar.
+ */
+function idleSince(item: ReminderActionItem, localDate: (iso: string) => string): string {
+  let anchor = item.due_date ? item.due_date.slice(0, 10) : localDate(item.created_at);
+  if (item.last_confirmed_at) {
+    const confirmed = localDate(item.last_confirmed_at);
+    if (confirmed > anchor) anchor = confirmed;
+  }
+  return anchor;
+}
+
+/**
+ * The reminder a pending item is due on `today` (YYYY-MM-DD, employee-local),
+ * or null. Timestamps are turned into local dates with `localDate`.
+ */
+export function getActionReminder(
+  item: ReminderActionItem,
+  today: string,
+  settings: ActionReminderSettings,
+  localDate: (iso: string) => string
+): ActionReminder | null {
+  const dueIn = item.due_date ? daysBetween(today, item.due_date) : null;
+  const dueRef = `${item.id}:${item.due_date}`;
+
+  if (dueIn === 0) return { kind: 'due_today', referenceId: dueRef, daysOverdue: 0 };
+  if (item.recurrence) return null;
+  if (dueIn === 1) return { kind: 'due_tomorrow', referenceId: dueRef, daysOverdue: 0 };
+
+  const daysOverdue = dueIn !== null && dueIn < 0 ? -dueIn : 0;
+
+  if (settings.stillRelevantAfterDays > 0) {
+    const anchor = idleSince(item, localDate);
+    if (daysBetween(anchor, today) >= settings.stillRelevantAfterDays) {
+      return { kind: 'still_relevant', referenceId: `${item.id}:${anchor}`, daysOverdue };
+    }
+  }
+
+  // Latest escalation reached, so a missed run still sends it once
+  const step = OVERDUE_ESCALATION_DAYS.filter((days) => daysOverdue >= days).pop();
+  if (step !== undefined) {
+    return { kind: 'overdue', referenceId: `${dueRef}:${step}`, daysOverdue };
+  }
+
+  return null;
+}
+
+export function compareActionReminders(a: ActionReminder, b: ActionReminder): number {
+  return KIND_PRIORITY.indexOf(a.kind) - KIND_PRIORITY.indexOf(b.kind) || b.daysOverdue - a.daysOverdue;
+}
+
+/**
+ * Whether an item asked "still relevant?" at `promptedAt` has gone unanswered
+ * long enough to dismiss. Keeping the item sets last_confirmed_at; marking
+ * it done or dismissing it takes it out of pending, so neither reaches here.
+ */
+export function shouldAutoDismiss(
+  item: Pick<ReminderActionItem, 'recurrence' | 'last_confirmed_at'>,
+  promptedAt: string,
+  now: Date,
+  settings: ActionReminderSettings
+): boolean {
+  if (settings.autoDismissAfterDays <= 0 || item.recurrence) return false;
+  if (item.last_confirmed_at && Date.parse(item.last_confirmed_at) >= Date.parse(promptedAt)) return false;
+  return now.getTime() - Date.parse(promptedAt) >= settings.autoDismissAfterDays * DAY_MS;
+}
+
+/**
+ * The action item id in a reminder reference id
+ */
+export function actionIdOfReference(referenceId: string): string {
+  return referenceId.split(':')[0];
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  BOT_FRAMEWORK_ISSUER,
+  createBotFrameworkVerifier,
+  type BotFrameworkKey,
+} from './bot-framework-auth.ts';
+
+const appId = 'app-123';
+const serviceUrl = 'https://smba.trafficmanager.net/amer/';
+const activity = { serviceUrl, channelId: 'msteams' };
+const now = new Date('2026-10-21T14:00:00Z');
+const nowSeconds = Math.floor(now.getTime() / 1000);
+
+let privateKey: CryptoKey;
+let publicJwk: BotFrameworkKey;
+
+const base64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+const encodeJson = (value: unknown) => base64Url(new TextEncoder().encode(JSON.stringify(value)));
+
+async function sign(claims: Record<string, unknown>, kid = 'key-1'): Promise<string> {
+  const unsigned = `${encodeJson({ alg: 'RS256', typ: 'JWT', kid })}.${encodeJson(claims)}`;
+  const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', privateKey, new TextEncoder().encode(unsigned));
+  return `Bearer ${unsigned}.${base64Url(new Uint8Array(signature))}`;
+}
+
+const validClaims = (overrides: Record<string, unknown> = {}) => ({
+  iss: BOT_FRAMEWORK_ISSUER,
+  aud: appId,
+  exp: nowSeconds + 3600,
+  nbf: nowSeconds - 60,
+  serviceUrl,
+  ...overrides,
+});
+
+const createVerifier = (keys: () => BotFrameworkKey[] = () => [publicJwk]) =>
+  createBotFrameworkVerifier({ appId, loadKeys: async () => keys(), now: () => now });
+
+beforeAll(async () => {
+  const pair = await crypto.subtle.generateKey(
+    { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+    true,
+    ['sign', 'verify']
+  );
+  privateKey = pair.privateKey;
+  const jwk = await crypto.subtle.exportKey('jwk', pair.publicKey);
+  publicJwk = { kid: 'key-1', kty: 'RSA', n: jwk.n as string, e: jwk.e as string, endorsements: ['msteams'] };
+});
+
+describe('createBotFrameworkVerifier', () => {
+  it('accepts a signed token for this app and service URL', async () => {
+    const verifier = createVerifier();
+    expect(await verifier.verify(await sign(validClaims()), activity)).toBe(true);
+    // Trailing slash and host case don't matter
+    expect(await verifier.verify(
+      await sign(validClaims({ serviceUrl: 'https://SMBA.trafficmanager.net/amer' })),
+      activity
+    )).toBe(true);
+  });
+
+  it('rejects the wrong issuer, audience, service URL or an expired token', async () => {
+    const verifier = createVerifier();
+    const rejected = [
+      validClaims({ iss: 'https://evil.example.com' }),
+      validClaims({ aud: 'another-app' }),
+      validClaims({ serviceUrl: 'https://attacker.example.com/' }),
+      validClaims({ exp: nowSeconds - 600 }),
+      validClaims({ nbf: nowSeconds + 600 }),
+    ];
+
+    for (const claims of rejected) {
+      expect(await verifier.verify(await sign(claims), activity)).toBe(false);
+    }
+  });
+
+  it('rejects missing, unsigned, tampered and unknown-key tokens', async () => {
+    const verifier = createVerifier();
+    const token = await sign(validClaims());
+    const [header, , signature] = token.slice('Bearer '.length).split('.');
+    const forgedClaims = encodeJson(validClaims({ aud: appId, sub: 'someone-else' }));
+
+    expect(await verifier.verify(null, activity)).toBe(false);
+    expect(await verifier.verify('Bearer not-a-jwt', activity)).toBe(false);
+    expect(await verifier.verify(`Bearer ${header}.${forgedClaims}.${signature}`, activity)).toBe(false);
+    expect(await verifier.verify(await sign(validClaims(), 'unknown-key'), activity)).toBe(false);
+  });
+
+  it('requires the key to be endorsed for the channel', async () => {
+    const verifier = createVerifier();
+    expect(await verifier.verify(await sign(validClaims()), { serviceUrl, channelId: 'slack' })).toBe(false);
+  });
+
+  it('reloads keys when a token names one it has not seen', async () => {
+    let keys: BotFrameworkKey[] = [];
+    const verifier = createVerifier(() => keys);
+
+    expect(await verifier.verify(await sign(validClaims()), activity)).toBe(false);
+    keys = [publicJwk];
+    expect(await verifier.verify(await sign(validClaims()), activity)).toBe(true);
+  });
+});
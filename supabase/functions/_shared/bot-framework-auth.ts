@@ -0,0 +1,141 @@
+// Bot Framework request authentication for the Teams messaging endpoint.
+//
+// Every activity the Bot Framework Service sends carries a JWT in the
+// Authorization header. Nothing in the activity body (the sender's AAD id,
+// tenant or serviceUrl) can be trusted until that token checks out:
+//   - signed (RS256) by a key from the Bot Framework OpenID metadata, and
+//     that key is endorsed for the activity's channel
+//   - issued by https://api.botframework.com, for our app id
+//   - not expired (5 minutes of clock skew allowed)
+//   - its serviceUrl claim matches the activity's serviceUrl, so replies
+//     can't be pointed at a server the caller chose
+//
+// No Deno or Supabase imports; keys are loaded through an injectable loader
+// so it can be tested with locally signed tokens.
+
+const OPENID_METADATA_URL = 'https://login.botframework.com/v1/.well-known/openidconfiguration';
+export const BOT_FRAMEWORK_ISSUER = 'https://api.botframework.com';
+const CLOCK_SKEW_SECONDS = 5 * 60;
+// Microsoft rotates keys with plenty of overlap; refetch daily, or sooner
+// when a token names a key we haven't seen
+const KEY_CACHE_MS = 24 * 60 * 60 * 1000;
+
+export interface BotFrameworkKey {
+  kid: string;
+  kty: string;
+  n: string;
+  e: string;
+  endorsements?: string[];
+}
+
+export interface BotFrameworkActivityRef {
+  serviceUrl?: string;
+  channelId?: string;
+}
+
+export interface BotFrameworkVerifierOptions {
+  appId: string;
+  loadKeys?: () => Promise<BotFrameworkKey[]>;
+  now?: () => Date;
+}
+
+export async function fetchBotFrameworkKeys(): Promise<BotFrameworkKey[]> {
+  const metadata = await fetch(OPENID_METADATA_URL).then((r) => r.json());
+  const jwks = await fetch(metadata.jwks_uri).then((r) => r.json());
+  return Array.isArray(jwks.keys) ? jwks.keys : [];
+}
+
+function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+function decodeJsonPart(value: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(new TextDecoder().decode(base64UrlDecode(value)));
+    return typeof parsed === 'object' && parsed !== null ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// serviceUrls differ in trailing slashes and host case between token and body
+function normalizeServiceUrl(value: string): string {
+  try {
+    const url = new URL(value);
+    return `${url.protocol}//${url.host}${url.pathname.replace(/\/+$/, '')}`.toLowerCase();
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * A verifier for one bot app id. Keeps the signing keys cached between
+ * requests; create it once per isolate.
+ */
+export function createBotFrameworkVerifier(options: BotFrameworkVerifierOptions) {
+  const loadKeys = options.loadKeys || fetchBotFrameworkKeys;
+  const now = options.now || (() => new Date());
+  let cache: { keys: BotFrameworkKey[]; fetchedAt: number } | null = null;
+
+  async function findKey(kid: string): Promise<BotFrameworkKey | null> {
+    const fresh = cache && now().getTime() - cache.fetchedAt < KEY_CACHE_MS;
+    let key = fresh ? cache?.keys.find((k) => k.kid === kid) : undefined;
+    if (!key) {
+      cache = { keys: await loadKeys(), fetchedAt: now().getTime() };
+      key = cache.keys.find((k) => k.kid === kid);
+    }
+    return key || null;
+  }
+
+  return {
+    /**
+     * Whether the request's Authorization header is a valid Bot Framework
+     * token for this activity. Never throws.
+     */
+    async verify(authHeader: string | null, activity: BotFrameworkActivityRef): Promise<boolean> {
+      try {
+        if (!options.appId || !authHeader?.startsWith('Bearer ')) return false;
+
+        const parts = authHeader.slice('Bearer '.length).trim().split('.');
+        if (parts.length !== 3) return false;
+        const header = decodeJsonPart(parts[0]);
+        const claims = decodeJsonPart(parts[1]);
+        if (!header || !claims || header.alg !== 'RS256' || typeof header.kid !== 'string') return false;
+
+        const nowSeconds = Math.floor(now().getTime() / 1000);
+        const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+        if (claims.iss !== BOT_FRAMEWORK_ISSUER || !audience.includes(options.appId)) return false;
+        if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < nowSeconds) return false;
+        if (typeof claims.nbf === 'number' && claims.nbf - CLOCK_SKEW_SECONDS > nowSeconds) return false;
+
+        const serviceUrl = normalizeServiceUrl(activity.serviceUrl || '');
+        if (!serviceUrl || typeof claims.serviceUrl !== 'string'
+          || normalizeServiceUrl(claims.serviceUrl) !== serviceUrl) return false;
+
+        const key = await findKey(header.kid);
+        if (!key || key.kty !== 'RSA') return false;
+        if (key.endorsements && (!activity.channelId || !key.endorsements.includes(activity.channelId))) {
+          return false;
+        }
+
+        const cryptoKey = await crypto.subtle.importKey(
+          'jwk',
+          { kty: 'RSA', n: key.n, e: key.e, alg: 'RS256', ext: true },
+          { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+          false,
+          ['verify']
+        );
+        return await crypto.subtle.verify(
+          'RSASSA-PKCS1-v1_5',
+          cryptoKey,
+          base64UrlDecode(parts[2]),
+          new TextEncoder().encode(`${parts[0]}.${parts[1]}`)
+        );
+      } catch (error) {
+        console.error('Bot Framework token check failed:', error);
+        return false;
+      }
+    },
+  };
+}
@@ -0,0 +1,202 @@
+// Chat capture: wins, weekly commitments and journal entries written from
+// Slack or Teams, plus the reads those bots answer with (open action items,
+// next session). Writes the same rows the portal does so everything shows up
+// there unchanged. Channel-specific UI lives in slack-capture.ts / teams.ts.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+
+export type CaptureKind = 'win' | 'commitment' | 'journal';
+
+export const CAPTURE_KINDS: CaptureKind[] = ['win', 'commitment', 'journal'];
+
+export const CAPTURE_SAVED_MESSAGES: Record<CaptureKind, string> = {
+  win: 'Win logged. Nice work!',
+  commitment: 'Commitment added for this week.',
+  journal: 'Journal entry saved.',
+};
+
+// Slack caps plain_text_input at 3000 characters; use the same limit everywhere
+export const MAX_CAPTURE_LENGTH = 3000;
+
+export interface CaptureEmployee {
+  email: string;
+  employeeId: number;
+  companyId: string | null;
+  firstName: string | null;
+  timezone: string;
+}
+
+/**
+ * Look up the employee_manager row behind a chat connection
+ */
+export async function loadCaptureEmployee(
+  supabase: SupabaseClient,
+  email: string,
+  timezone: string | null
+): Promise<CaptureEmployee | null> {
+  const { data: employee } = await supabase
+    .from('employee_manager')
+    .select('id, company_id, first_name')
+    .ilike('company_email', email)
+    .limit(1)
+    .maybeSingle();
+
+  if (!employee) return null;
+
+  return {
+    email: email.toLowerCase(),
+    employeeId: employee.id,
+    companyId: employee.company_id,
+    firstName: employee.first_name,
+    timezone: timezone || 'America/New_York',
+  };
+}
+
+/**
+ * Monday of the current week in the employee's timezone (YYYY-MM-DD),
+ * matching getWeekStart() in the portal.
+ */
+export function getWeekStartIn(timezone: string, now: Date = new Date()): string {
+  let local: Date;
+  try {
+    local = new Date(now.toLocaleString('en-US', { timeZone: timezone }));
+  } catch {
+    local = now;
+  }
+  const day = local.getDay();
+  local.setDate(local.getDate() - (day === 0 ? 6 : day - 1));
+  const yyyy = local.getFullYear();
+  const mm = String(local.getMonth() + 1).padStart(2, '0');
+  const dd = String(local.getDate()).padStart(2, '0');
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+/**
+ * Save a captured win, commitment or journal entry
+ */
+export async function saveCapture(
+  supabase: SupabaseClient,
+  employee: CaptureEmployee,
+  kind: CaptureKind,
+  rawText: string
+): Promise<{ ok: boolean; message: string }> {
+  const text = rawText.trim().slice(0, MAX_CAPTURE_LENGTH);
+  if (!text) return { ok: false, message: 'Add a few words first.' };
+
+  let error: unknown = null;
+
+  if (kind === 'win') {
+    ({ error } = await supabase.from('coaching_wins').insert({
+      employee_id: employee.employeeId,
+      email: employee.email,
+      win_text: text,
+      source: 'manual',
+      is_private: false,
+    }));
+  } else if (kind === 'commitment') {
+    if (!employee.companyId) return { ok: false, message: "Your account isn't linked to a company yet." };
+    ({ error } = await supabase.from('weekly_commitments').insert({
+      employee_email: employee.email,
+      company_id: employee.companyId,
+      goal_id: null,
+      commitment_text: text,
+      week_start: getWeekStartIn(employee.timezone),
+      status: 'active',
+    }));
+  } else {
+    if (!employee.companyId) return { ok: false, message: "Your account isn't linked to a company yet." };
+    ({ error } = await supabase.from('journal_entries').insert({
+      employee_email: employee.email,
+      company_id: employee.companyId,
+      prompt: null,
+      body: text,
+      competency_area: null,
+      is_shared_with_coach: false,
+    }));
+  }
+
+  if (error) {
+    console.error(`Failed to save ${kind} from chat:`, error);
+    return { ok: false, message: 'Something went wrong saving that. Please try again.' };
+  }
+
+  return { ok: true, message: CAPTURE_SAVED_MESSAGES[kind] };
+}
+
+export interface OpenActionItem {
+  id: string;
+  action_text: string;
+  due_date: string | null;
+}
+
+export async function fetchOpenActionItems(
+  supabase: SupabaseClient,
+  email: string
+): Promise<OpenActionItem[]> {
+  const { data, error } = await supabase
+    .from('action_items')
+    .select('id, action_text, due_date')
+    .eq('email', email.toLowerCase())
+    .eq('status', 'pending')
+    .order('created_at', { ascending: false })
+    .limit(10);
+
+  if (error) {
+    console.error('Failed to fetch action items for chat:', error);
+    return [];
+  }
+  return data || [];
+}
+
+/**
+ * Mark an action item complete, scoped to its owner so a forged id
+ * can't complete someone else's item
+ */
+export async function completeOwnActionItem(
+  supabase: SupabaseClient,
+  email: string,
+  actionItemId: string
+): Promise<boolean> {
+  const { error } = await supabase
+    .from('action_items')
+    .update({
+      status: 'completed',
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', actionItemId)
+    .eq('email', email.toLowerCase());
+
+  if (error) {
+    console.error('Failed to mark action complete:', error);
+    return false;
+  }
+  return true;
+}
+
+export interface UpcomingSession {
+  id: string;
+  session_date: string;
+  coach_name: string | null;
+}
+
+export async function fetchNextSession(
+  supabase: SupabaseClient,
+  employeeId: number
+): Promise<UpcomingSession | null> {
+  const today = new Date().toISOString().split('T')[0];
+  const { data, error } = await supabase
+    .from('session_tracking')
+    .select('id, session_date, coach_name')
+    .eq('employee_id', employeeId)
+    .eq('status', 'Upcoming')
+    .gte('session_date', today)
+    .order('session_date', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to fetch next session for chat:', error);
+    return null;
+  }
+  return data;
+}
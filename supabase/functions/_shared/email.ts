@@ -0,0 +1,315 @@
+// Email delivery for coaching nudges
+//
+// Rendering: nudges are authored as Slack Block Kit (nudge_templates.message_blocks
+// or the scheduler's built blocks), so email reuses those blocks rather than
+// keeping a third copy of every template. Buttons with a `url` become plain
+// links; interactive buttons become signed one-click response links.
+//
+// Transport is picked by EMAIL_TRANSPORT:
+//   smtp — SMTP_HOST / SMTP_PORT / SMTP_USERNAME / SMTP_PASSWORD / SMTP_TLS
+//          (point at Inbucket or Mailpit for local testing)
+//   file — writes each message to EMAIL_FILE_SINK_DIR as .json + .html,
+//          no network needed
+// EMAIL_FROM sets the sender for both.
+
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailTransport {
+  name: 'smtp' | 'file';
+  send(message: EmailMessage): Promise<{ ok: boolean; error?: string }>;
+  close(): Promise<void>;
+}
+
+const DEFAULT_FROM = 'Boon Coaching <nudges@boon-health.com>';
+const DEFAULT_SINK_DIR = '/tmp/boon-email-outbox';
+
+function createSmtpTransport(from: string): EmailTransport | null {
+  const hostname = Deno.env.get('SMTP_HOST');
+  if (!hostname) return null;
+
+  const username = Deno.env.get('SMTP_USERNAME');
+  const password = Deno.env.get('SMTP_PASSWORD');
+
+  // One connection per scheduler run, opened on first send
+  let client: SMTPClient | null = null;
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      try {
+        if (!client) {
+          client = new SMTPClient({
+            connection: {
+              hostname,
+              port: parseInt(Deno.env.get('SMTP_PORT') || '587', 10),
+              tls: Deno.env.get('SMTP_TLS') === 'true',
+              auth: username && password ? { username, password } : undefined,
+            },
+          });
+        }
+        await client.send({
+          from,
+          to: message.to,
+          subject: message.subject,
+          content: message.text,
+          html: message.html,
+        });
+        return { ok: true };
+      } catch (error) {
+        return { ok: false, error: String(error) };
+      }
+    },
+    async close() {
+      try {
+        if (client) await client.close();
+      } catch (error) {
+        console.error('Failed to close SMTP connection:', error);
+      }
+      client = null;
+    },
+  };
+}
+
+function createFileSinkTransport(from: string): EmailTransport {
+  const dir = Deno.env.get('EMAIL_FILE_SINK_DIR') || DEFAULT_SINK_DIR;
+
+  return {
+    name: 'file',
+    async send(message) {
+      try {
+        await Deno.mkdir(dir, { recursive: true });
+        const stem = `${dir}/${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomUUID().slice(0, 8)}`;
+        await Deno.writeTextFile(`${stem}.json`, JSON.stringify({ from, ...message }, null, 2));
+        await Deno.writeTextFile(`${stem}.html`, message.html);
+        return { ok: true };
+      } catch (error) {
+        return { ok: false, error: String(error) };
+      }
+    },
+    async close() {},
+  };
+}
+
+/**
+ * Get the configured email transport, or null if email isn't set up
+ */
+export function getEmailTransport(): EmailTransport | null {
+  const from = Deno.env.get('EMAIL_FROM') || DEFAULT_FROM;
+  const kind = Deno.env.get('EMAIL_TRANSPORT') || 'smtp';
+
+  if (kind === 'file') return createFileSinkTransport(from);
+  if (kind === 'smtp') return createSmtpTransport(from);
+
+  console.error(`Unknown EMAIL_TRANSPORT: ${kind}`);
+  return null;
+}
+
+// ============================================
+// Block Kit → HTML / plain text
+// ============================================
+
+// Shortcodes used by our templates; anything else is dropped
+const EMOJI: Record<string, string> = {
+  wave: '👋',
+  calendar: '📅',
+  dart: '🎯',
+  clipboard: '📋',
+  rocket: '🚀',
+  turtle: '🐢',
+  construction: '🚧',
+  white_check_mark: '✅',
+  tada: '🎉',
+  fire: '🔥',
+  star: '⭐',
+  sparkles: '✨',
+  muscle: '💪',
+  hourglass_flowing_sand: '⏳',
+  thinking_face: '🤔',
+};
+
+interface SlackButton {
+  type: 'button';
+  text?: { text?: string };
+  url?: string;
+  action_id?: string;
+  value?: string;
+  style?: string;
+}
+
+interface SlackBlock {
+  type: string;
+  block_id?: string;
+  text?: { type?: string; text?: string };
+  fields?: { text?: string }[];
+  elements?: (SlackButton | { type: string; text?: string })[];
+  accessory?: SlackButton;
+}
+
+/**
+ * Resolves an interactive button (no url) to a link, or null to drop it.
+ * `referenceId` is the button value for per-item buttons, else the block_id suffix.
+ */
+export type ResponseLinkResolver = (actionId: string, referenceId: string | undefined) => Promise<string | null>;
+
+interface EmailButton {
+  label: string;
+  url: string;
+  primary: boolean;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function replaceEmoji(value: string): string {
+  return value.replace(/:([a-z0-9_+-]+):/g, (_, name) => EMOJI[name] ?? '');
+}
+
+function mrkdwnToHtml(value: string): string {
+  const lines = replaceEmoji(value).split('\n').map((line) => {
+    // Split out <url|label> links before escaping so the brackets survive
+    const parts = line.split(/(<[^<>]+>)/g).map((part) => {
+      const link = part.match(/^<(https?:\/\/[^|>]+)(?:\|([^>]+))?>$/);
+      if (link) {
+        return `<a href="${escapeHtml(link[1])}" style="color:#466FF6">${escapeHtml(link[2] || link[1])}</a>`;
+      }
+      return escapeHtml(part)
+        .replace(/\*([^*\n]+)\*/g, '<strong>$1</strong>')
+        .replace(/(^|\W)_([^_\n]+)_(?=\W|$)/g, '$1<em>$2</em>')
+        .replace(/~([^~\n]+)~/g, '<s>$1</s>')
+        .replace(/`([^`\n]+)`/g, '<code>$1</code>');
+    });
+    const html = parts.join('');
+    return html.startsWith('&gt; ')
+      ? `<span style="display:block;border-left:3px solid #DDE3F0;padding-left:10px;color:#333">${html.slice(5)}</span>`
+      : html;
+  });
+  return lines.join('<br>');
+}
+
+function mrkdwnToText(value: string): string {
+  return replaceEmoji(value)
+    .replace(/<(https?:\/\/[^|>]+)\|([^>]+)>/g, '$2 ($1)')
+    .replace(/<(https?:\/\/[^>]+)>/g, '$1')
+    .replace(/\*([^*\n]+)\*/g, '$1')
+    .replace(/(^|\W)_([^_\n]+)_(?=\W|$)/g, '$1$2')
+    .replace(/~([^~\n]+)~/g, '$1')
+    .trim();
+}
+
+async function resolveButton(
+  button: SlackButton,
+  blockId: string | undefined,
+  resolveResponseLink: ResponseLinkResolver
+): Promise<EmailButton | null> {
+  const label = replaceEmoji(button.text?.text || 'Open').trim();
+  if (button.url) {
+    return { label, url: button.url, primary: button.style === 'primary' };
+  }
+  if (!button.action_id) return null;
+
+  // Per-item buttons carry the id in value; template buttons carry it in block_id
+  const referenceId = button.action_id === 'complete_action_item'
+    ? button.value
+    : blockId?.split('_')[1];
+  const url = await resolveResponseLink(button.action_id, referenceId);
+  return url ? { label, url, primary: button.style === 'primary' } : null;
+}
+
+function buttonHtml(button: EmailButton): string {
+  const style = button.primary
+    ? 'background:#466FF6;color:#ffffff;border:1px solid #466FF6'
+    : 'background:#ffffff;color:#466FF6;border:1px solid #466FF6';
+  return `<a href="${escapeHtml(button.url)}" style="display:inline-block;margin:4px 8px 4px 0;padding:8px 14px;border-radius:6px;text-decoration:none;font-size:14px;${style}">${escapeHtml(button.label)}</a>`;
+}
+
+/**
+ * Render Slack blocks to an HTML + plain-text email body
+ */
+export async function renderEmailFromBlocks(
+  blocks: unknown[],
+  options: { resolveResponseLink: ResponseLinkResolver; settingsUrl: string }
+): Promise<{ html: string; text: string }> {
+  const htmlParts: string[] = [];
+  const textParts: string[] = [];
+
+  for (const raw of blocks as SlackBlock[]) {
+    switch (raw.type) {
+      case 'header':
+      case 'section': {
+        const rowHtml: string[] = [];
+        const rowText: string[] = [];
+        if (raw.text?.text) {
+          rowHtml.push(raw.type === 'header'
+            ? `<h2 style="margin:0;font-size:18px">${escapeHtml(replaceEmoji(raw.text.text))}</h2>`
+            : mrkdwnToHtml(raw.text.text));
+          rowText.push(mrkdwnToText(raw.text.text));
+        }
+        for (const field of raw.fields || []) {
+          if (!field.text) continue;
+          rowHtml.push(`<div style="margin-top:8px">${mrkdwnToHtml(field.text)}</div>`);
+          rowText.push(mrkdwnToText(field.text));
+        }
+        if (raw.accessory?.type === 'button') {
+          const button = await resolveButton(raw.accessory, raw.block_id, options.resolveResponseLink);
+          if (button) {
+            rowHtml.push(`<div>${buttonHtml(button)}</div>`);
+            rowText.push(`${button.label}: ${button.url}`);
+          }
+        }
+        htmlParts.push(`<div style="margin:0 0 14px">${rowHtml.join('')}</div>`);
+        textParts.push(rowText.join('\n'));
+        break;
+      }
+      case 'context': {
+        const text = (raw.elements || [])
+          .map((el) => ('text' in el && typeof el.text === 'string' ? el.text : ''))
+          .filter(Boolean)
+          .join(' ');
+        if (text) {
+          htmlParts.push(`<div style="margin:0 0 14px;font-size:12px;color:#777">${mrkdwnToHtml(text)}</div>`);
+          textParts.push(mrkdwnToText(text));
+        }
+        break;
+      }
+      case 'actions': {
+        const buttons: EmailButton[] = [];
+        for (const el of raw.elements || []) {
+          if (el.type !== 'button') continue;
+          const button = await resolveButton(el as SlackButton, raw.block_id, options.resolveResponseLink);
+          if (button) buttons.push(button);
+        }
+        if (buttons.length > 0) {
+          htmlParts.push(`<div style="margin:0 0 14px">${buttons.map(buttonHtml).join('')}</div>`);
+          textParts.push(buttons.map((b) => `${b.label}: ${b.url}`).join('\n'));
+        }
+        break;
+      }
+      case 'divider':
+        htmlParts.push('<hr style="border:none;border-top:1px solid #E5E7EB;margin:16px 0">');
+        textParts.push('---');
+        break;
+      default:
+        break;
+    }
+  }
+
+  const footerHtml = `<div style="margin-top:24px;font-size:12px;color:#999">You're getting this because email nudges are on. <a href="${escapeHtml(options.settingsUrl)}" style="color:#999">Change email settings</a></div>`;
+  const footerText = `You're getting this because email nudges are on. Change email settings: ${options.settingsUrl}`;
+
+  const html = `<!DOCTYPE html><html><body style="margin:0;padding:24px;background:#F7F8FA;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Helvetica,Arial,sans-serif;font-size:15px;line-height:1.5;color:#1F2937"><div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:10px;padding:24px">${htmlParts.join('')}${footerHtml}</div></body></html>`;
+  const text = [...textParts.filter(Boolean), footerText].join('\n\n');
+
+  return { html, text };
+}
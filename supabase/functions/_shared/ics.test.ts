@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { buildSessionFeed, type IcsSession } from './ics.ts';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+const session = (overrides: Partial<IcsSession> = {}): IcsSession => ({
+  id: 42,
+  session_date: '2026-10-21T15:00:00Z',
+  status: 'Upcoming',
+  coach_name: 'Dana Reyes',
+  duration_minutes: null,
+  zoom_join_link: null,
+  employee_pre_session_note: null,
+  ...overrides,
+});
+
+const unfold = (ics: string) => ics.replace(/\r\n /g, '').split('\r\n');
+
+describe('buildSessionFeed', () => {
+  it('renders one event per session, cancelling moved and cancelled ones', () => {
+    const lines = unfold(buildSessionFeed(
+      [session(), session({ id: 43, status: 'Canceled' }), session({ id: 44, status: 'Rescheduled' })],
+      'Coaching, with Dana',
+      now
+    ));
+
+    expect(lines).toContain('X-WR-CALNAME:Coaching\\, with Dana');
+    expect(lines.filter(l => l === 'STATUS:CONFIRMED')).toHaveLength(1);
+    expect(lines.filter(l => l === 'STATUS:CANCELLED')).toHaveLength(2);
+    expect(lines).toContain('UID:session-42@my.boon-health.com');
+    expect(lines).toContain('DTEND:20261021T154500Z');
+  });
+
+  it('folds on UTF-8 octets', () => {
+    const note = '日本語'.repeat(20);
+    const ics = buildSessionFeed([session({ employee_pre_session_note: note })], 'Coaching', now);
+    const encoder = new TextEncoder();
+
+    for (const line of ics.split('\r\n')) {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(unfold(ics).some(l => l.endsWith(note))).toBe(true);
+  });
+});
@@ -0,0 +1,121 @@
+// Shared iCalendar (RFC 5545) builder for Edge Functions
+// Mirrors src/lib/calendarExport.ts — event UIDs must stay identical so a
+// session downloaded as .ics and the same session in the subscribed feed are
+// treated as one event by calendar clients.
+
+export interface IcsSession {
+  id: string | number;
+  session_date: string;
+  status: string;
+  coach_name: string | null;
+  duration_minutes: number | null;
+  zoom_join_link: string | null;
+  employee_pre_session_note: string | null;
+}
+
+const UID_DOMAIN = 'my.boon-health.com';
+const DEFAULT_SESSION_MINUTES = 45;
+
+// Includes the raw SF values as well as the portal's normalized ones —
+// session-reconciliation writes 'Rescheduled' for appointments SF moved.
+// Must match src/lib/calendarExport.ts.
+const CANCELLED_STATUSES = ['Cancelled', 'Canceled', 'Late Cancel', 'Rescheduled'];
+
+function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Content lines are folded at 75 octets of UTF-8; continuation lines start
+// with a single space. Breaks fall between characters so multi-byte text
+// stays intact.
+function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // The leading space counts toward a continuation line's 75 octets
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function buildEventLines(session: IcsSession, now: Date): string[] {
+  const start = new Date(session.session_date);
+  const end = new Date(start.getTime() + (session.duration_minutes || DEFAULT_SESSION_MINUTES) * 60_000);
+
+  const descriptionLines: string[] = [];
+  if (session.zoom_join_link) {
+    descriptionLines.push(`Join: ${session.zoom_join_link}`);
+  }
+  if (session.employee_pre_session_note?.trim()) {
+    if (descriptionLines.length > 0) descriptionLines.push('');
+    descriptionLines.push('Your note for this session:');
+    descriptionLines.push(session.employee_pre_session_note.trim());
+  }
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:session-${session.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatIcsDate(now)}`,
+    `DTSTART:${formatIcsDate(start)}`,
+    `DTEND:${formatIcsDate(end)}`,
+    `SUMMARY:${escapeIcsText(`Coaching session with ${session.coach_name || 'your coach'}`)}`,
+    `STATUS:${CANCELLED_STATUSES.includes(session.status) ? 'CANCELLED' : 'CONFIRMED'}`,
+  ];
+  if (descriptionLines.length > 0) {
+    lines.push(`DESCRIPTION:${escapeIcsText(descriptionLines.join('\n'))}`);
+  }
+  if (session.zoom_join_link) {
+    lines.push(`LOCATION:${escapeIcsText(session.zoom_join_link)}`);
+    lines.push(`URL:${session.zoom_join_link}`);
+  }
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Build a full calendar feed. Clients re-fetch the whole document on every
+ * refresh, so reschedules and cancellations land by simply re-rendering.
+ */
+export function buildSessionFeed(
+  sessions: IcsSession[],
+  calendarName: string,
+  now: Date = new Date()
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Boon Health//Session Feed//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+    // Hint to Outlook / Apple Calendar to poll hourly (Google ignores this)
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+  for (const session of sessions) {
+    lines.push(...buildEventLines(session, now));
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
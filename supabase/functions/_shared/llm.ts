@@ -0,0 +1,101 @@
+// LLM providers for edge functions.
+//
+// Callers build the prompt; a provider turns it into text, either all at once
+// (complete) or as a series of text deltas (stream). Keeping the vendor call
+// behind this interface lets a function swap in a scripted provider for
+// offline development and end-to-end tests.
+
+export interface LlmMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmRequest {
+  model: string;
+  system: string;
+  messages: LlmMessage[];
+  maxTokens: number;
+}
+
+export interface LlmProvider {
+  complete(request: LlmRequest): Promise<string>;
+  // Yields text deltas; stops early once the signal aborts
+  stream(request: LlmRequest, signal: AbortSignal): AsyncGenerator<string>;
+}
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+
+export function createAnthropicProvider(apiKey: string): LlmProvider {
+  async function post(request: LlmRequest, stream: boolean, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(ANTHROPIC_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        system: request.system,
+        messages: request.messages,
+        ...(stream ? { stream: true } : {}),
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error('Claude API error:', error);
+      throw new Error(`Claude API error: ${response.status}`);
+    }
+
+    return response;
+  }
+
+  return {
+    async complete(request) {
+      const response = await post(request, false);
+      const data = await response.json();
+      return data.content[0].text;
+    },
+
+    async *stream(request, signal) {
+      const response = await post(request, true, signal);
+      if (!response.body) {
+        throw new Error('Claude API error: empty stream');
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary !== -1) {
+          const rawEvent = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+          boundary = buffer.indexOf('\n\n');
+
+          const data = rawEvent
+            .split('\n')
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.slice(5).trim())
+            .join('');
+          if (!data) continue;
+
+          const payload = JSON.parse(data);
+          if (payload.type === 'content_block_delta' && payload.delta?.type === 'text_delta') {
+            yield payload.delta.text;
+          } else if (payload.type === 'error') {
+            throw new Error(`Claude stream error: ${payload.error?.message || 'unknown'}`);
+          }
+        }
+      }
+    },
+  };
+}
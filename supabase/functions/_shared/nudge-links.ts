@@ -0,0 +1,90 @@
+// HMAC-SHA256 signed one-click response links for email nudges
+//
+// Email has no interactive payload like Slack block_actions or Teams
+// Action.Submit, so each button becomes a link carrying a signed token that
+// says which nudge it belongs to and what the answer was. The token is the
+// only credential — the nudge-email-response function trusts nothing else.
+
+const encoder = new TextEncoder();
+
+// Links in old emails stop working after this long
+const LINK_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface NudgeResponseClaims {
+  messageId: string;      // nudges.message_id
+  channelId: string;      // nudges.channel_id (recipient address)
+  employeeEmail: string;
+  response: string;       // Slack action_id the button stood in for
+  referenceId?: string;   // e.g. action item id for complete_action_item
+}
+
+function getSecret(): string {
+  const secret = Deno.env.get('NUDGE_LINK_SECRET') || Deno.env.get('OAUTH_STATE_SECRET');
+  if (!secret) throw new Error('Missing NUDGE_LINK_SECRET env var');
+  return secret;
+}
+
+async function getHmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify'],
+  );
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const b64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = b64 + '='.repeat((4 - (b64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), (c) => c.charCodeAt(0));
+}
+
+export async function createNudgeResponseToken(claims: NudgeResponseClaims): Promise<string> {
+  const data = toBase64Url(encoder.encode(JSON.stringify({ ...claims, exp: Date.now() + LINK_TTL_MS })));
+  const key = await getHmacKey(getSecret());
+  const sig = await crypto.subtle.sign('HMAC', key, encoder.encode(data));
+  return `${data}.${toBase64Url(new Uint8Array(sig))}`;
+}
+
+export async function verifyNudgeResponseToken(token: string): Promise<NudgeResponseClaims | null> {
+  const parts = token.split('.');
+  if (parts.length !== 2) return null;
+
+  const [data, sig] = parts;
+
+  try {
+    const key = await getHmacKey(getSecret());
+    const valid = await crypto.subtle.verify('HMAC', key, fromBase64Url(sig), encoder.encode(data));
+    if (!valid) return null;
+
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(data)));
+    if (typeof claims.exp !== 'number' || claims.exp < Date.now()) return null;
+    if (!claims.messageId || !claims.channelId || !claims.employeeEmail || !claims.response) return null;
+
+    return {
+      messageId: claims.messageId,
+      channelId: claims.channelId,
+      employeeEmail: claims.employeeEmail,
+      response: claims.response,
+      referenceId: claims.referenceId,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// NUDGE_EMAIL_RESPONSE_URL is the function's custom-domain URL. The default
+// supabase.co functions URL serves the confirmation page as text/plain.
+export function buildNudgeResponseUrl(token: string): string {
+  const baseUrl = Deno.env.get('NUDGE_EMAIL_RESPONSE_URL')
+    || `${Deno.env.get('SUPABASE_URL') || ''}/functions/v1/nudge-email-response`;
+  return `${baseUrl}?t=${encodeURIComponent(token)}`;
+}
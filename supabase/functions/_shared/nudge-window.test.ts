@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getDeliveryBlock,
+  isValidTimezone,
+  pickDeliveryWindow,
+  type DeliveryPreferences,
+} from './nudge-window.ts';
+
+// Wednesday 10:00 in New York
+const now = new Date('2026-10-21T14:00:00Z');
+// Wednesday 23:30 in New York, already Thursday in UTC
+const lateNight = new Date('2026-10-22T03:30:00Z');
+
+const createPrefs = (overrides: Partial<DeliveryPreferences> = {}): DeliveryPreferences => ({
+  preferred_time: '10:00',
+  timezone: 'America/New_York',
+  ...overrides,
+});
+
+describe('getDeliveryBlock', () => {
+  it('delivers in the preferred hour and not outside it', () => {
+    expect(getDeliveryBlock(createPrefs(), now)).toBeNull();
+    expect(getDeliveryBlock(createPrefs({ preferred_time: '10:45:00' }), now)).toBeNull();
+    expect(getDeliveryBlock(createPrefs({ preferred_time: '09:00' }), now)).toBe('outside_preferred_hour');
+  });
+
+  it('holds nudges during quiet hours that wrap midnight', () => {
+    const quiet = { preferred_time: '23:00', quiet_hours_start: '22:00', quiet_hours_end: '07:00' };
+    expect(getDeliveryBlock(createPrefs(quiet), lateNight)).toBe('quiet_hours');
+
+    const earlyMorning = { ...quiet, preferred_time: '06:00' };
+    expect(getDeliveryBlock(createPrefs(earlyMorning), new Date('2026-10-21T10:59:00Z'))).toBe('quiet_hours');
+
+    const quietEnds = { ...quiet, preferred_time: '07:00' };
+    expect(getDeliveryBlock(createPrefs(quietEnds), new Date('2026-10-21T11:00:00Z'))).toBeNull();
+  });
+
+  it('checks working days and holidays in the employee timezone', () => {
+    const lateWednesday = createPrefs({ preferred_time: '23:00' });
+
+    expect(getDeliveryBlock({ ...lateWednesday, working_days: [3] }, lateNight)).toBeNull();
+    expect(getDeliveryBlock({ ...lateWednesday, working_days: [4] }, lateNight)).toBe('non_working_day');
+    expect(getDeliveryBlock({ ...lateWednesday, holidays: ['2026-10-21'] }, lateNight)).toBe('holiday');
+    expect(getDeliveryBlock({ ...lateWednesday, holidays: ['2026-10-22'] }, lateNight)).toBeNull();
+  });
+
+  it('holds nudges until a snooze runs out', () => {
+    expect(getDeliveryBlock(createPrefs({ snoozed_until: '2026-10-21T15:00:00Z' }), now)).toBe('snoozed');
+    expect(getDeliveryBlock(createPrefs({ snoozed_until: '2026-10-21T13:00:00Z' }), now)).toBeNull();
+  });
+
+  it('fails closed on a missing or unknown timezone', () => {
+    expect(getDeliveryBlock(createPrefs({ timezone: null }), now)).toBe('invalid_timezone');
+    expect(getDeliveryBlock(createPrefs({ timezone: 'Mars/Olympus_Mons' }), now)).toBe('invalid_timezone');
+    expect(isValidTimezone('Europe/London')).toBe(true);
+    expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
+
+describe('pickDeliveryWindow', () => {
+  it('keeps valid fields, leaves absent ones undefined and normalizes', () => {
+    const { window, error } = pickDeliveryWindow({
+      nudge_frequency: 'daily',
+      quiet_hours_start: '22:00',
+      quiet_hours_end: '07:00:00',
+      working_days: [5, 1, 1, 3],
+      snoozed_until: '2026-10-25T12:00:00+02:00',
+    });
+
+    expect(error).toBeNull();
+    expect(window).toEqual({
+      quiet_hours_start: '22:00',
+      quiet_hours_end: '07:00:00',
+      working_days: [1, 3, 5],
+      holidays: undefined,
+      snoozed_until: '2026-10-25T10:00:00.000Z',
+    });
+    // Clearing NOT NULL columns resets them to their defaults
+    expect(pickDeliveryWindow({ working_days: null, holidays: null, snoozed_until: null }).window)
+      .toMatchObject({ working_days: [0, 1, 2, 3, 4, 5, 6], holidays: [], snoozed_until: null });
+  });
+
+  it('rejects malformed values', () => {
+    const invalid = [
+      { quiet_hours_start: '25:00' },
+      { quiet_hours_start: '10pm' },
+      { quiet_hours_start: '22:00', quiet_hours_end: null },
+      { working_days: [] },
+      { working_days: [1, 7] },
+      { working_days: ['Mon'] },
+      { holidays: ['2026-02-30'] },
+      { holidays: '2026-12-25' },
+      { snoozed_until: 'tomorrow' },
+    ];
+
+    for (const body of invalid) {
+      expect(pickDeliveryWindow(body).error).not.toBeNull();
+    }
+  });
+});
@@ -0,0 +1,189 @@
+// Delivery window for nudges: preferred hour, quiet hours, working days,
+// holidays and snooze. Stored per connection (Slack, Teams, email settings)
+// and checked by every nudge-scheduler phase before anything is sent.
+//
+// No Deno or Supabase imports — it's plain date math so it can be reused and
+// tested anywhere. Invalid timezones fail closed: a nudge at 3am is worse
+// than a missed one.
+
+export interface DeliveryPreferences {
+  preferred_time: string | null;       // 'HH:MM' or 'HH:MM:SS'
+  timezone: string | null;
+  quiet_hours_start?: string | null;   // both null = no quiet hours
+  quiet_hours_end?: string | null;     // may be earlier than start (wraps midnight)
+  working_days?: number[] | null;      // 0 = Sunday … 6 = Saturday; null = every day
+  holidays?: string[] | null;          // 'YYYY-MM-DD' in the employee's timezone
+  snoozed_until?: string | null;       // ISO timestamp
+}
+
+export type DeliveryBlock =
+  | 'invalid_timezone'
+  | 'snoozed'
+  | 'non_working_day'
+  | 'holiday'
+  | 'quiet_hours'
+  | 'outside_preferred_hour';
+
+interface LocalTime {
+  date: string;
+  weekday: number;
+  minutes: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function getLocalTime(timezone: string, now: Date): LocalTime | null {
+  try {
+    const parts = Object.fromEntries(
+      new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        weekday: 'short',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+      })
+        .formatToParts(now)
+        .map((p) => [p.type, p.value])
+    );
+
+    return {
+      date: `${parts.year}-${parts.month}-${parts.day}`,
+      weekday: WEEKDAYS.indexOf(parts.weekday),
+      minutes: parseInt(parts.hour, 10) * 60 + parseInt(parts.minute, 10),
+    };
+  } catch {
+    return null;
+  }
+}
+
+function toMinutes(time: string): number | null {
+  const match = time.match(/^(\d{1,2}):(\d{2})/);
+  if (!match) return null;
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
+
+function isInQuietHours(minutes: number, start: string, end: string): boolean {
+  const startMinutes = toMinutes(start);
+  const endMinutes = toMinutes(end);
+  if (startMinutes === null || endMinutes === null || startMinutes === endMinutes) return false;
+
+  return startMinutes < endMinutes
+    ? minutes >= startMinutes && minutes < endMinutes
+    : minutes >= startMinutes || minutes < endMinutes;
+}
+
+/**
+ * Why a nudge can't go out right now, or null if it can
+ */
+export function getDeliveryBlock(prefs: DeliveryPreferences, now: Date = new Date()): DeliveryBlock | null {
+  if (!prefs.timezone) return 'invalid_timezone';
+  const local = getLocalTime(prefs.timezone, now);
+  if (!local || local.weekday < 0) return 'invalid_timezone';
+
+  if (prefs.snoozed_until && new Date(prefs.snoozed_until).getTime() > now.getTime()) {
+    return 'snoozed';
+  }
+
+  if (prefs.working_days && !prefs.working_days.includes(local.weekday)) {
+    return 'non_working_day';
+  }
+
+  if (prefs.holidays?.includes(local.date)) {
+    return 'holiday';
+  }
+
+  if (prefs.quiet_hours_start && prefs.quiet_hours_end
+    && isInQuietHours(local.minutes, prefs.quiet_hours_start, prefs.quiet_hours_end)) {
+    return 'quiet_hours';
+  }
+
+  // Scheduler runs hourly, so match on the preferred hour only
+  const preferredMinutes = toMinutes(prefs.preferred_time || '09:00');
+  if (preferredMinutes === null || Math.floor(local.minutes / 60) !== Math.floor(preferredMinutes / 60)) {
+    return 'outside_preferred_hour';
+  }
+
+  return null;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  return getLocalTime(timezone, new Date()) !== null;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_HOLIDAYS = 366;
+
+function isValidTime(value: unknown): boolean {
+  return typeof value === 'string' && TIME_PATTERN.test(value);
+}
+
+function isValidDate(value: unknown): boolean {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return false;
+  // Rejects dates like 2026-02-30, which Date rolls over into March
+  return new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+}
+
+// working_days and holidays are NOT NULL columns; null resets them to these
+const ALL_WORKING_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+/**
+ * Pick the delivery window fields out of a settings request body, or say why
+ * they can't be saved. Absent keys stay undefined so the update leaves those
+ * columns alone; null clears a setting (every day for working_days, none for
+ * holidays).
+ */
+export function pickDeliveryWindow(
+  body: Record<string, unknown>
+): { window: Partial<Omit<DeliveryPreferences, 'preferred_time' | 'timezone'>>; error: string | null } {
+  const { quiet_hours_start, quiet_hours_end, working_days, holidays, snoozed_until } = body;
+  const invalid = (error: string) => ({ window: {}, error });
+
+  for (const value of [quiet_hours_start, quiet_hours_end]) {
+    if (value !== undefined && value !== null && !isValidTime(value)) {
+      return invalid('Quiet hours must be times like 22:00');
+    }
+  }
+  if (quiet_hours_start !== undefined && quiet_hours_end !== undefined
+    && (quiet_hours_start === null) !== (quiet_hours_end === null)) {
+    return invalid('Quiet hours need both a start and an end');
+  }
+
+  if (working_days !== undefined && working_days !== null) {
+    if (!Array.isArray(working_days) || working_days.length === 0
+      || !working_days.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)) {
+      return invalid('Working days must be a non-empty list of weekdays 0-6');
+    }
+  }
+
+  if (holidays !== undefined && holidays !== null) {
+    if (!Array.isArray(holidays) || holidays.length > MAX_HOLIDAYS || !holidays.every(isValidDate)) {
+      return invalid('Holidays must be a list of dates like 2026-12-25');
+    }
+  }
+
+  if (snoozed_until !== undefined && snoozed_until !== null
+    && (typeof snoozed_until !== 'string' || Number.isNaN(Date.parse(snoozed_until)))) {
+    return invalid('Snooze must be a timestamp');
+  }
+
+  return {
+    window: {
+      quiet_hours_start: quiet_hours_start as string | null | undefined,
+      quiet_hours_end: quiet_hours_end as string | null | undefined,
+      working_days: working_days === undefined
+        ? undefined
+        : working_days === null
+          ? ALL_WORKING_DAYS
+          : [...new Set(working_days as number[])].sort((a, b) => a - b),
+      holidays: holidays === null ? [] : holidays as string[] | undefined,
+      snoozed_until: typeof snoozed_until === 'string'
+        ? new Date(snoozed_until).toISOString()
+        : snoozed_until,
+    },
+    error: null,
+  };
+}
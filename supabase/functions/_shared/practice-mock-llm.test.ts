@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createPracticeMockProvider,
+  DEFAULT_PRACTICE_MOCK_SCRIPT,
+  PRACTICE_MOCK_SCRIPTS,
+} from './practice-mock-llm.ts';
+import { parseRoleplayEvaluation } from './practice-rubric.ts';
+import type { LlmRequest } from './llm.ts';
+
+const request = (messages: LlmRequest['messages']): LlmRequest => ({
+  model: 'mock',
+  system: '',
+  messages,
+  maxTokens: 1024,
+});
+
+describe('createPracticeMockProvider', () => {
+  it('walks the roleplay script by turn and repeats the last line', async () => {
+    const provider = createPracticeMockProvider('roleplay', 'Managing Underperformance', { chunkDelayMs: 0 });
+    const script = PRACTICE_MOCK_SCRIPTS['Managing Underperformance'].roleplay;
+
+    expect(await provider.complete(request([{ role: 'user', content: '[approach]' }]))).toBe(script[0]);
+    expect(await provider.complete(request([
+      { role: 'user', content: '[approach]' },
+      { role: 'assistant', content: script[0] },
+      { role: 'user', content: 'Yes, the sprint.' },
+    ]))).toBe(script[1]);
+
+    const longConversation = Array.from({ length: 10 }, (_, i) => ({
+      role: i % 2 === 0 ? 'user' as const : 'assistant' as const,
+      content: 'line',
+    }));
+    expect(await provider.complete(request(longConversation))).toBe(script[script.length - 1]);
+  });
+
+  it('falls back to the default script and streams the same text it completes', async () => {
+    const provider = createPracticeMockProvider('generate-plan', 'A scenario with no script', { chunkDelayMs: 0 });
+
+    const chunks: string[] = [];
+    for await (const chunk of provider.stream(request([]), new AbortController().signal)) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('')).toBe(DEFAULT_PRACTICE_MOCK_SCRIPT.plan);
+    expect(DEFAULT_PRACTICE_MOCK_SCRIPT.plan).toMatch(/Rapid Action Script/);
+  });
+
+  it('stops streaming once aborted', async () => {
+    const provider = createPracticeMockProvider('generate-plan', 'Managing Underperformance', { chunkDelayMs: 0 });
+    const controller = new AbortController();
+
+    const chunks: string[] = [];
+    for await (const chunk of provider.stream(request([]), controller.signal)) {
+      chunks.push(chunk);
+      controller.abort();
+    }
+
+    expect(chunks).toHaveLength(1);
+  });
+
+  it('scores whatever rubric it is given, quoting the manager', async () => {
+    const rubric = [
+      { id: 'expectation', label: 'Expectation', description: '' },
+      { id: 'plan', label: 'Plan', description: '' },
+    ];
+    const messages = [
+      { role: 'model' as const, text: 'Is this about the sprint?' },
+      { role: 'user' as const, text: 'Yes, the last three deadlines.' },
+    ];
+    const provider = createPracticeMockProvider('evaluate', 'Managing Underperformance', {
+      chunkDelayMs: 0,
+      rubric,
+      managerTurns: ['Yes, the last three deadlines.'],
+    });
+
+    const { evaluation } = parseRoleplayEvaluation(await provider.complete(request([])), rubric, messages);
+
+    expect(evaluation?.criteria.map(c => [c.id, c.score])).toEqual([['expectation', 2], ['plan', 3]]);
+    expect(evaluation?.criteria[0].evidence).toEqual(['Yes, the last three deadlines.']);
+    expect(evaluation?.rewrites[0].original).toBe('Yes, the last three deadlines.');
+  });
+});
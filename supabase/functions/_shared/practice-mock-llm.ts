@@ -0,0 +1,217 @@
+// Scripted LLM provider for practice-ai, used when PRACTICE_AI_PROVIDER=mock.
+//
+// Replies are canned per scenario title (with a generic fallback) so Practice
+// can be developed offline and Playwright can drive PracticeModal end to end
+// against known text. Nothing here reads the prompt beyond counting turns:
+//   - generate-plan returns the scenario's plan
+//   - roleplay returns the next scripted line, repeating the last one once
+//     the script runs out
+//   - evaluate returns the scenario's evaluation as rubric JSON, applying
+//     the scripted scores to whatever rubric the request carried and quoting
+//     the manager's own turns as evidence
+//
+// No Deno or Supabase imports, so the scripts can be tested as plain data.
+
+import type { LlmProvider, LlmRequest } from './llm.ts';
+import type { RubricCriterion } from './practice-rubric.ts';
+
+export type PracticeAction = 'generate-plan' | 'roleplay' | 'evaluate';
+
+export interface PracticeMockEvaluation {
+  // Applied to rubric criteria in order, cycling if the rubric is longer
+  scores: number[];
+  summary: string;
+  strength: string;
+  areaToImprove: string;
+  improved: string;
+  why: string;
+}
+
+export interface PracticeMockScript {
+  plan: string;
+  roleplay: string[];
+  evaluation: PracticeMockEvaluation;
+}
+
+export interface PracticeMockOptions {
+  chunkDelayMs?: number;
+  // evaluate only
+  rubric?: RubricCriterion[];
+  managerTurns?: string[];
+}
+
+function plan(title: string, opening: string, rapid: string[]): string {
+  return `**1. What's Really Happening**
+This is a scripted plan for "${title}" from the offline practice provider.
+
+**2. Your Mindset Going In**
+Stay curious, be specific and keep it about the work.
+
+**3. Opening the Conversation**
+"${opening}"
+
+**4. Key Points to Cover**
+Describe what you observed, the impact it had and what you need going forward.
+
+**5. Handling Likely Responses**
+If they get defensive, acknowledge it and come back to the specifics.
+
+**6. Closing Strong**
+Agree on one next step and a time to check in.
+
+**7. Rapid Action Script**
+${rapid.map((step, i) => `${i + 1}. ${step}`).join('\n')}`;
+}
+
+export const DEFAULT_PRACTICE_MOCK_SCRIPT: PracticeMockScript = {
+  plan: plan('this conversation', "Thanks for making time. There's something I'd like to talk through with you.", [
+    'Thank them for their time',
+    'Describe what you noticed',
+    'Ask for their view',
+    'Agree on a next step',
+  ]),
+  roleplay: [
+    '*Looks up from their laptop* Sure, what did you want to talk about?',
+    "Okay... I wasn't expecting that. Can you tell me a bit more?",
+    'That makes sense. What would you like me to do differently?',
+  ],
+  evaluation: {
+    scores: [3, 2, 3, 4],
+    summary: 'Calm and direct, with room to slow down and listen more.',
+    strength: 'You opened the conversation clearly.',
+    areaToImprove: "You didn't ask for their perspective before moving to solutions.",
+    improved: 'How does that land with you?',
+    why: 'Asking first shows you want their view, not just agreement.',
+  },
+};
+
+// Keyed by scenario title, as sent by the portal
+export const PRACTICE_MOCK_SCRIPTS: Record<string, PracticeMockScript> = {
+  'Delivering Constructive Feedback': {
+    plan: plan(
+      'Delivering Constructive Feedback',
+      "I'd like to share some feedback about Tuesday's client presentation. Is now a good time?",
+      [
+        'Ask if now is a good time',
+        'Name the specific moment in the presentation',
+        'Explain the impact on the client',
+        'Ask what got in the way',
+        'Agree on what changes next time',
+      ]
+    ),
+    roleplay: [
+      '*Closes laptop* Sure, I have a few minutes. Is everything okay?',
+      "Oh. I thought the presentation went fine. The client didn't say anything.",
+      "I guess I did rush the pricing slides. I ran out of prep time.",
+      "Okay. I can walk you through the deck the day before next time.",
+    ],
+    evaluation: {
+      scores: [4, 3, 3, 2],
+      summary: 'Specific and respectful, but quick to jump to solutions.',
+      strength: 'You described a specific moment instead of a general judgement.',
+      areaToImprove: 'You moved to the fix before finding out why the prep time ran short.',
+      improved: 'What made prep tight this time?',
+      why: 'Understanding the cause first makes the fix theirs, not yours.',
+    },
+  },
+  'Managing Underperformance': {
+    plan: plan(
+      'Managing Underperformance',
+      "I want to talk about the last few sprint deadlines and how I can help.",
+      [
+        'Open with your intent to help',
+        'Share the missed deadlines as facts',
+        'Ask what is getting in the way',
+        'Agree on clear expectations',
+        'Set a check-in date',
+      ]
+    ),
+    roleplay: [
+      "*Shifts in chair* Okay. Is this about the sprint?",
+      "Everyone's been slipping, it's not just me. The requirements keep changing.",
+      "Fine. I could use clearer priorities at the start of each sprint.",
+      "A weekly check-in would help. Thursdays work for me.",
+    ],
+    evaluation: {
+      scores: [2, 3, 2, 2, 1],
+      summary: 'Focused on the facts, but defensive when they pushed back.',
+      strength: 'You kept the conversation about specific deadlines.',
+      areaToImprove: "You didn't acknowledge the changing requirements they raised.",
+      improved: "You're right that scope moved. Let's separate that from what was in your control.",
+      why: 'Acknowledging their point lowers defensiveness before you hold the line.',
+    },
+  },
+};
+
+export function getPracticeMockScript(scenarioTitle: string): PracticeMockScript {
+  return PRACTICE_MOCK_SCRIPTS[scenarioTitle] || DEFAULT_PRACTICE_MOCK_SCRIPT;
+}
+
+/** The scripted evaluation, shaped like the JSON practice-ai asks the model for */
+function mockEvaluationJson(script: PracticeMockEvaluation, options: PracticeMockOptions): string {
+  const managerTurns = options.managerTurns || [];
+  return JSON.stringify({
+    summary: script.summary,
+    criteria: (options.rubric || []).map((criterion, i) => ({
+      id: criterion.id,
+      score: script.scores[i % script.scores.length],
+      evidence: managerTurns[i] ? [managerTurns[i]] : [],
+      feedback: `Scripted feedback on ${criterion.label.toLowerCase()}.`,
+    })),
+    strengths: [script.strength],
+    areas_to_improve: [script.areaToImprove],
+    rewrites: managerTurns[0]
+      ? [{ original: managerTurns[0], improved: script.improved, why: script.why }]
+      : [],
+  });
+}
+
+/** The scripted reply for an action, given the request the provider received */
+export function mockPracticeResponse(
+  action: PracticeAction,
+  scenarioTitle: string,
+  request: LlmRequest,
+  options: PracticeMockOptions = {}
+): string {
+  const script = getPracticeMockScript(scenarioTitle);
+  switch (action) {
+    case 'generate-plan':
+      return script.plan;
+    case 'evaluate':
+      return mockEvaluationJson(script.evaluation, options);
+    case 'roleplay': {
+      const turn = request.messages.filter(m => m.role === 'assistant').length;
+      return script.roleplay[Math.min(turn, script.roleplay.length - 1)];
+    }
+  }
+}
+
+/**
+ * A provider that answers with the script for one action and scenario.
+ * Streams word by word, pausing chunkDelayMs between words so cancelling
+ * mid-stream can be exercised.
+ */
+export function createPracticeMockProvider(
+  action: PracticeAction,
+  scenarioTitle: string,
+  options: PracticeMockOptions = {}
+): LlmProvider {
+  const chunkDelayMs = options.chunkDelayMs ?? 30;
+
+  return {
+    complete(request) {
+      return Promise.resolve(mockPracticeResponse(action, scenarioTitle, request, options));
+    },
+
+    async *stream(request, signal) {
+      const words = mockPracticeResponse(action, scenarioTitle, request, options).match(/\S+\s*|\s+/g) || [];
+      for (const word of words) {
+        if (signal.aborted) return;
+        if (chunkDelayMs > 0) {
+          await new Promise(resolve => setTimeout(resolve, chunkDelayMs));
+        }
+        yield word;
+      }
+    },
+  };
+}
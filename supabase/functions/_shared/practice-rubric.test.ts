@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { parseRoleplayEvaluation, validateRubric, type TranscriptMessage } from './practice-rubric.ts';
+
+const rubric = [
+  { id: 'situation', label: 'Situation', description: 'When and where' },
+  { id: 'behavior', label: 'Behavior', description: 'Observable action' },
+  { id: 'impact', label: 'Impact', description: 'Effect on the work' },
+];
+
+const messages: TranscriptMessage[] = [
+  { role: 'model', text: 'Hey, you wanted to talk?' },
+  { role: 'user', text: "In yesterday's client call, you interrupted Dana twice." },
+  { role: 'model', text: 'I was just trying to keep things moving.' },
+  { role: 'user', text: 'I get that. It meant the client stopped sharing requirements.' },
+];
+
+const criterion = (id: string, score: unknown, evidence: string[] = []) => ({ id, score, evidence, feedback: `On ${id}` });
+
+describe('validateRubric', () => {
+  it('rejects empty, malformed or duplicate rubrics', () => {
+    expect(validateRubric(rubric)).toEqual(rubric);
+    expect(validateRubric([])).toBeNull();
+    expect(validateRubric([{ id: 'a', label: '', description: '' }])).toBeNull();
+    expect(validateRubric([rubric[0], rubric[0]])).toBeNull();
+    expect(validateRubric('situation')).toBeNull();
+  });
+});
+
+describe('parseRoleplayEvaluation', () => {
+  it('keeps only verbatim manager quotes and derives the overall score', () => {
+    const text = '```json\n' + JSON.stringify({
+      summary: ' Direct and specific. ',
+      score: 5,
+      criteria: [
+        criterion('situation', 4, ['“in yesterday\'s client call,']),
+        criterion('behavior', 3, ['you interrupted Dana twice', 'you were rude to Dana']),
+        criterion('impact', 2, ['I was just trying to keep things moving.']),
+        criterion('not_in_rubric', 5),
+      ],
+      strengths: ['Named the moment', '', 42],
+      areas_to_improve: ['Ask for their view'],
+      rewrites: [
+        { original: 'I get that.', improved: 'What was going on for you?', why: 'Invites their side' },
+        { original: 'You are always late.', improved: 'x', why: 'y' },
+      ],
+    }) + '\n```';
+
+    const { evaluation, errors } = parseRoleplayEvaluation(text, rubric, messages);
+
+    expect(errors).toEqual([]);
+    expect(evaluation).toEqual({
+      score: 3,
+      summary: 'Direct and specific.',
+      criteria: [
+        { id: 'situation', label: 'Situation', score: 4, evidence: ["in yesterday's client call,"], feedback: 'On situation' },
+        { id: 'behavior', label: 'Behavior', score: 3, evidence: ['you interrupted Dana twice'], feedback: 'On behavior' },
+        { id: 'impact', label: 'Impact', score: 2, evidence: [], feedback: 'On impact' },
+      ],
+      strengths: ['Named the moment'],
+      areasToImprove: ['Ask for their view'],
+      rewrites: [{ original: 'I get that.', improved: 'What was going on for you?', why: 'Invites their side' }],
+    });
+  });
+
+  it('rejects output that misses criteria or scores out of range', () => {
+    expect(parseRoleplayEvaluation('Great job overall!', rubric, messages)).toEqual({
+      evaluation: null,
+      errors: ['Response was not a JSON object'],
+    });
+
+    const { evaluation, errors } = parseRoleplayEvaluation(
+      JSON.stringify({ criteria: [criterion('situation', 4), criterion('behavior', 3.5), criterion('behavior', 3)] }),
+      rubric,
+      messages
+    );
+    expect(evaluation).toBeNull();
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toMatch(/behavior/);
+    expect(errors[1]).toMatch(/impact/);
+  });
+});
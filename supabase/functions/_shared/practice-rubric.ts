@@ -0,0 +1,182 @@
+// Rubric-based roleplay evaluations for practice-ai.
+//
+// The portal sends the scenario's rubric with the evaluate request and the
+// model is asked for JSON. parseRoleplayEvaluation checks that JSON against
+// the rubric and the transcript before anything goes back to be saved:
+//   - every rubric criterion is scored exactly once, as a whole number 1-5
+//   - evidence quotes and rewrite originals must come from the manager's own
+//     turns; anything the model paraphrased or made up is dropped
+//   - the overall score is the rounded mean of the criterion scores, not
+//     whatever the model claims
+//
+// No Deno or Supabase imports, so it can be tested as plain data.
+
+export interface RubricCriterion {
+  id: string;
+  label: string;
+  description: string;
+}
+
+export interface TranscriptMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface CriterionScore {
+  id: string;
+  label: string;
+  score: number;
+  evidence: string[];  // verbatim quotes from the manager's turns
+  feedback: string;
+}
+
+export interface EvaluationRewrite {
+  original: string;  // verbatim quote from the manager's turns
+  improved: string;
+  why: string;
+}
+
+export interface RoleplayEvaluation {
+  score: number;  // 1-5, rounded mean of the criterion scores
+  summary: string;
+  criteria: CriterionScore[];
+  strengths: string[];
+  areasToImprove: string[];
+  rewrites: EvaluationRewrite[];
+}
+
+export const MAX_RUBRIC_CRITERIA = 8;
+const MAX_LIST_ITEMS = 5;
+const MAX_REWRITES = 3;
+
+/** The rubric from a request, or null if it isn't a usable rubric */
+export function validateRubric(rubric: unknown): RubricCriterion[] | null {
+  if (!Array.isArray(rubric) || rubric.length === 0 || rubric.length > MAX_RUBRIC_CRITERIA) return null;
+
+  const criteria: RubricCriterion[] = [];
+  for (const item of rubric) {
+    if (!isRecord(item)) return null;
+    const { id, label, description } = item;
+    if (!nonEmptyString(id) || !nonEmptyString(label) || typeof description !== 'string') return null;
+    if (criteria.some(c => c.id === id)) return null;
+    criteria.push({ id, label, description });
+  }
+  return criteria;
+}
+
+/**
+ * Parse and check a model's evaluation. Returns the evaluation, or null with
+ * the reasons it was rejected (suitable for asking the model to try again).
+ */
+export function parseRoleplayEvaluation(
+  text: string,
+  rubric: RubricCriterion[],
+  messages: TranscriptMessage[]
+): { evaluation: RoleplayEvaluation | null; errors: string[] } {
+  const raw = extractJson(text);
+  if (!isRecord(raw)) {
+    return { evaluation: null, errors: ['Response was not a JSON object'] };
+  }
+
+  const managerText = normalizeQuote(messages.filter(m => m.role === 'user').map(m => m.text).join('\n'));
+  const isQuote = (value: string) => {
+    const quote = normalizeQuote(value);
+    return quote.length >= 3 && managerText.includes(quote);
+  };
+
+  const errors: string[] = [];
+  const rawCriteria = Array.isArray(raw.criteria) ? raw.criteria.filter(isRecord) : [];
+  const criteria: CriterionScore[] = [];
+
+  for (const criterion of rubric) {
+    const matches = rawCriteria.filter(c => c.id === criterion.id);
+    if (matches.length !== 1) {
+      errors.push(`Criterion "${criterion.id}" must be scored exactly once`);
+      continue;
+    }
+
+    const { score, evidence, feedback } = matches[0];
+    if (typeof score !== 'number' || !Number.isInteger(score) || score < 1 || score > 5) {
+      errors.push(`Criterion "${criterion.id}" needs a whole-number score from 1 to 5`);
+      continue;
+    }
+
+    criteria.push({
+      id: criterion.id,
+      label: criterion.label,
+      score,
+      evidence: stringList(evidence, MAX_LIST_ITEMS).map(stripQuoteMarks).filter(isQuote),
+      feedback: typeof feedback === 'string' ? feedback.trim() : '',
+    });
+  }
+
+  if (errors.length > 0) {
+    return { evaluation: null, errors };
+  }
+
+  const rewrites: EvaluationRewrite[] = (Array.isArray(raw.rewrites) ? raw.rewrites : [])
+    .filter(isRecord)
+    .flatMap(r => {
+      const original = typeof r.original === 'string' ? stripQuoteMarks(r.original) : '';
+      const improved = typeof r.improved === 'string' ? r.improved.trim() : '';
+      if (!improved || !isQuote(original)) return [];
+      return [{ original, improved, why: typeof r.why === 'string' ? r.why.trim() : '' }];
+    })
+    .slice(0, MAX_REWRITES);
+
+  const total = criteria.reduce((sum, c) => sum + c.score, 0);
+
+  return {
+    evaluation: {
+      score: Math.round(total / criteria.length),
+      summary: typeof raw.summary === 'string' ? raw.summary.trim() : '',
+      criteria,
+      strengths: stringList(raw.strengths, MAX_LIST_ITEMS),
+      areasToImprove: stringList(raw.areas_to_improve, MAX_LIST_ITEMS),
+      rewrites,
+    },
+    errors: [],
+  };
+}
+
+// Models sometimes wrap JSON in a code fence or a sentence; take the outermost object
+function extractJson(text: string): unknown {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+}
+
+function stripQuoteMarks(value: string): string {
+  return value.trim().replace(/^["'“‘]+|["'”’]+$/g, '').replace(/^(\.\.\.|…)\s*|\s*(\.\.\.|…)$/g, '').trim();
+}
+
+// Compare quotes loosely: case, whitespace and curly vs straight quotes vary
+function normalizeQuote(value: string): string {
+  return stripQuoteMarks(value)
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/\s+/g, ' ');
+}
+
+function stringList(value: unknown, max: number): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item): item is string => typeof item === 'string')
+    .map(item => item.trim())
+    .filter(item => item.length > 0)
+    .slice(0, max);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function nonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
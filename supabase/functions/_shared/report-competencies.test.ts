@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { buildReportCompetencies } from './report-competencies.ts';
+
+describe('buildReportCompetencies', () => {
+  it('scores only the selected competencies from the survey rows, in report order', () => {
+    const rows = buildReportCompetencies(
+      ['strategic_thinking', 'emotional_intelligence', 'change_management', 'made_up'],
+      { comp_strategic_thinking: 8, comp_emotional_intelligence: 3, comp_change_management: null },
+      [
+        { competency_name: 'Strategic Thinking', score: 4 },
+        { competency_name: 'Strategic Thinking', score: 2 },
+      ]
+    );
+
+    expect(rows).toEqual([
+      { key: 'emotional_intelligence', label: 'Emotional Intelligence', baseline: 3, latest: null },
+      { key: 'strategic_thinking', label: 'Strategic Thinking', baseline: 4, latest: 4 },
+    ]);
+  });
+
+  it('returns nothing without survey data', () => {
+    expect(buildReportCompetencies(['strategic_thinking'], null, [])).toEqual([]);
+  });
+});
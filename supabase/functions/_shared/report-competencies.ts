@@ -0,0 +1,74 @@
+// Competency scores for shared progress reports.
+//
+// The progress-report function rebuilds a report's competency rows from the
+// employee's own survey data rather than storing what the browser sent, so a
+// manager's link can't show scores the employee typed in. The list, the
+// baseline normalization and the name matching mirror Progress.tsx (must
+// match), which builds the same rows for the portal preview.
+//
+// No Deno or Supabase imports — progress-report loads the rows and calls
+// buildReportCompetencies.
+
+export interface ReportCompetency {
+  key: string;
+  label: string;
+  baseline: number | null;
+  latest: number | null;
+}
+
+// The 12 competencies, in report order (welcome_survey_baseline has comp_<key>)
+export const REPORT_COMPETENCIES = [
+  { key: 'adaptability_and_resilience', label: 'Adaptability & Resilience', shortLabel: 'Adaptability' },
+  { key: 'building_relationships_at_work', label: 'Building Relationships', shortLabel: 'Relationships' },
+  { key: 'change_management', label: 'Change Management', shortLabel: 'Change Mgmt' },
+  { key: 'delegation_and_accountability', label: 'Delegation & Accountability', shortLabel: 'Delegation' },
+  { key: 'effective_communication', label: 'Effective Communication', shortLabel: 'Communication' },
+  { key: 'effective_planning_and_execution', label: 'Planning & Execution', shortLabel: 'Planning' },
+  { key: 'emotional_intelligence', label: 'Emotional Intelligence', shortLabel: 'EQ' },
+  { key: 'giving_and_receiving_feedback', label: 'Giving & Receiving Feedback', shortLabel: 'Feedback' },
+  { key: 'persuasion_and_influence', label: 'Persuasion & Influence', shortLabel: 'Influence' },
+  { key: 'self_confidence_and_imposter_syndrome', label: 'Self Confidence', shortLabel: 'Confidence' },
+  { key: 'strategic_thinking', label: 'Strategic Thinking', shortLabel: 'Strategic' },
+  { key: 'time_management_and_productivity', label: 'Time Management', shortLabel: 'Time Mgmt' },
+];
+
+// The Typeform baseline is on a 1-10 scale, the portal on 1-5
+function normalizeBaselineScore(value: unknown): number | null {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) return null;
+  return value <= 5 ? value : Math.round(value / 2);
+}
+
+function mapCompetencyName(name: string): string {
+  return name.toLowerCase().replace(/ /g, '_').replace(/&/g, 'and');
+}
+
+/**
+ * Report rows for the selected competency keys, in report order. Unknown
+ * keys and competencies with no score at all are left out.
+ *
+ * @param baseline the employee's latest welcome_survey_baseline row
+ * @param scores   their competency_scores rows, newest first
+ */
+export function buildReportCompetencies(
+  selectedKeys: string[],
+  baseline: Record<string, unknown> | null,
+  scores: { competency_name: string; score: number | null }[]
+): ReportCompetency[] {
+  const selected = new Set(selectedKeys);
+
+  return REPORT_COMPETENCIES.flatMap((comp) => {
+    if (!selected.has(comp.key)) return [];
+
+    const latestScore = scores.find((s) =>
+      mapCompetencyName(s.competency_name) === comp.key
+      || s.competency_name.toLowerCase().includes(comp.shortLabel.toLowerCase())
+    )?.score;
+    const row = {
+      key: comp.key,
+      label: comp.label,
+      baseline: normalizeBaselineScore(baseline?.[`comp_${comp.key}`]),
+      latest: typeof latestScore === 'number' && latestScore > 0 ? latestScore : null,
+    };
+    return row.baseline !== null || row.latest !== null ? [row] : [];
+  });
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type IncomingMessage, type ServerResponse, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  getSalesforceAuth,
+  salesforceQuery,
+  salesforceCompositeWrite,
+  clearSalesforceTokenCache,
+  salesforceClientOptions,
+} from './salesforce.ts';
+
+// A fake Salesforce org: token endpoint, paginated query, composite
+type Handler = (req: IncomingMessage, body: string, res: ServerResponse) => void;
+
+let server: Server;
+let baseUrl: string;
+let handler: Handler;
+let tokenRequests = 0;
+let issuedToken = 'token-1';
+
+function json(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (part) => { body += part; });
+    req.on('end', () => {
+      if (req.url === '/services/oauth2/token') {
+        tokenRequests++;
+        json(res, 200, { access_token: issuedToken, instance_url: baseUrl });
+        return;
+      }
+      handler(req, body, res);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  salesforceClientOptions.rateLimitBackoffMs = 1;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  clearSalesforceTokenCache();
+  tokenRequests = 0;
+  issuedToken = 'token-1';
+});
+
+const config = () => ({ instanceUrl: baseUrl, clientId: 'client', clientSecret: 'secret' });
+
+describe('getSalesforceAuth', () => {
+  it('caches the token across calls', async () => {
+    handler = (_req, _body, res) => json(res, 404, {});
+    await getSalesforceAuth(config());
+    await getSalesforceAuth(config());
+    expect(tokenRequests).toBe(1);
+  });
+});
+
+describe('salesforceQuery', () => {
+  it('follows nextRecordsUrl across pages', async () => {
+    handler = (req, _body, res) => {
+      if (req.url?.startsWith('/services/data/v59.0/query?q=')) {
+        json(res, 200, { totalSize: 3, done: false, records: [{ Id: 'a' }, { Id: 'b' }], nextRecordsUrl: '/services/data/v59.0/query/01g-2000' });
+      } else if (req.url === '/services/data/v59.0/query/01g-2000') {
+        json(res, 200, { totalSize: 3, done: true, records: [{ Id: 'c' }] });
+      } else {
+        json(res, 404, {});
+      }
+    };
+
+    const auth = await getSalesforceAuth(config());
+    const records = await salesforceQuery<{ Id: string }>(auth, 'SELECT Id FROM Contact');
+    expect(records.map((r) => r.Id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('re-authenticates once on a 401 and retries', async () => {
+    handler = (req, _body, res) => {
+      if (req.headers.authorization === 'Bearer token-1') {
+        json(res, 401, [{ errorCode: 'INVALID_SESSION_ID', message: 'Session expired or invalid' }]);
+      } else {
+        json(res, 200, { totalSize: 1, done: true, records: [{ Id: 'a' }] });
+      }
+    };
+
+    const auth = await getSalesforceAuth(config());
+    issuedToken = 'token-2';
+    const records = await salesforceQuery(auth, 'SELECT Id FROM Contact');
+
+    expect(records).toHaveLength(1);
+    expect(auth.accessToken).toBe('token-2');
+    expect(tokenRequests).toBe(2);
+  });
+
+  it('backs off on REQUEST_LIMIT_EXCEEDED, then gives up', async () => {
+    let calls = 0;
+    handler = (_req, _body, res) => {
+      calls++;
+      if (calls <= 2) {
+        json(res, 403, [{ errorCode: 'REQUEST_LIMIT_EXCEEDED', message: 'ConcurrentPerOrgLongTxn Limit exceeded.' }]);
+      } else {
+        json(res, 200, { totalSize: 0, done: true, records: [] });
+      }
+    };
+
+    const auth = await getSalesforceAuth(config());
+    await expect(salesforceQuery(auth, 'SELECT Id FROM Contact')).resolves.toEqual([]);
+    expect(calls).toBe(3);
+
+    calls = -10;
+    await expect(salesforceQuery(auth, 'SELECT Id FROM Contact')).rejects.toThrow(/403/);
+  });
+});
+
+describe('salesforceCompositeWrite', () => {
+  it('reports each record and batches 25 per call', async () => {
+    const batchSizes: number[] = [];
+    handler = (_req, body, res) => {
+      const { compositeRequest } = JSON.parse(body);
+      batchSizes.push(compositeRequest.length);
+      json(res, 200, {
+        compositeResponse: compositeRequest.map((sub: { referenceId: string }) => (
+          sub.referenceId === 'r3'
+            ? { referenceId: sub.referenceId, httpStatusCode: 400, httpHeaders: {}, body: [{ errorCode: 'FIELD_CUSTOM_VALIDATION_EXCEPTION', message: 'Bad date', fields: ['Date__c'] }] }
+            : { referenceId: sub.referenceId, httpStatusCode: 204, httpHeaders: {}, body: null }
+        )),
+      });
+    };
+
+    const auth = await getSalesforceAuth(config());
+    const subrequests = Array.from({ length: 30 }, (_, i) => ({
+      method: 'PATCH' as const,
+      url: `/services/data/v59.0/sobjects/Contact/00${i}`,
+      referenceId: `r${i}`,
+      body: { Title: 'Manager' },
+    }));
+    const results = await salesforceCompositeWrite(auth, subrequests);
+
+    expect(batchSizes).toEqual([25, 5]);
+    expect(results).toHaveLength(30);
+    expect(results.filter((r) => !r.ok)).toEqual([
+      { referenceId: 'r3', ok: false, status: 400, errors: [{ errorCode: 'FIELD_CUSTOM_VALIDATION_EXCEPTION', message: 'Bad date', fields: ['Date__c'] }] },
+    ]);
+  });
+});
@@ -1,6 +1,14 @@
 // Shared Salesforce helpers for Edge Functions
 // Client Credentials OAuth flow + REST API wrappers
-// Used by sf-absence-sync (and future SF integrations)
+// Used by sf-contact-sync and session-reconciliation
+//
+// Every request goes through salesforceFetch, which:
+//   - re-authenticates once on a 401 (expired or revoked token) and retries
+//   - backs off and retries on REQUEST_LIMIT_EXCEEDED (concurrent request
+//     limit); the daily API limit also reports this code, so after the
+//     retries run out the error is thrown rather than waited out
+// Tokens are cached per org + client for the life of the isolate, so warm
+// invocations don't pay for a token request each time.
 
 // ============================================================
 // Types
@@ -9,6 +17,8 @@
 export interface SalesforceAuth {
   accessToken: string
   instanceUrl: string
+  // Set by getSalesforceAuth so an expired token can be refreshed in place
+  config?: SalesforceAuthConfig
 }
 
 interface SalesforceAuthConfig {
@@ -40,11 +50,53 @@ interface CompositeResponse {
   }>
 }
 
+export interface SalesforceRecordError {
+  errorCode: string
+  message: string
+  fields?: string[]
+}
+
+export interface CompositeWriteResult {
+  referenceId: string
+  ok: boolean
+  status: number
+  id?: string
+  errors: SalesforceRecordError[]
+}
+
+// ============================================================
+// Client settings
+// ============================================================
+
+export const SALESFORCE_API_VERSION = 'v59.0'
+
+// Exported so tests (and unusually slow orgs) can tune them
+export const salesforceClientOptions = {
+  // Salesforce doesn't return expires_in for client credentials; sessions
+  // default to 2h, so refresh well before that
+  tokenTtlMs: 60 * 60 * 1000,
+  maxRateLimitRetries: 3,
+  rateLimitBackoffMs: 2000,
+}
+
+// Composite API limit
+const COMPOSITE_MAX_SUBREQUESTS = 25
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
 // ============================================================
 // Authentication (Client Credentials Flow)
 // ============================================================
 
-export async function getSalesforceAuth(config: SalesforceAuthConfig): Promise<SalesforceAuth> {
+const tokenCache = new Map<string, { auth: SalesforceAuth; expiresAt: number }>()
+
+function tokenCacheKey(config: SalesforceAuthConfig): string {
+  return `${config.instanceUrl}|${config.clientId}`
+}
+
+async function requestSalesforceToken(config: SalesforceAuthConfig): Promise<SalesforceAuth> {
   const res = await fetch(`${config.instanceUrl}/services/oauth2/token`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
@@ -64,6 +116,30 @@ export async function getSalesforceAuth(config: SalesforceAuthConfig): Promise<S
   return {
     accessToken: data.access_token,
     instanceUrl: data.instance_url,
+    config,
+  }
+}
+
+export async function getSalesforceAuth(config: SalesforceAuthConfig): Promise<SalesforceAuth> {
+  const key = tokenCacheKey(config)
+  const cached = tokenCache.get(key)
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.auth
+  }
+
+  const auth = await requestSalesforceToken(config)
+  tokenCache.set(key, { auth, expiresAt: Date.now() + salesforceClientOptions.tokenTtlMs })
+  return auth
+}
+
+/**
+ * Drop cached tokens (all, or one org + client)
+ */
+export function clearSalesforceTokenCache(config?: SalesforceAuthConfig): void {
+  if (config) {
+    tokenCache.delete(tokenCacheKey(config))
+  } else {
+    tokenCache.clear()
   }
 }
 
@@ -99,21 +175,71 @@ export function getSalesforcePortalConfig(): SalesforceAuthConfig {
   }
 }
 
+// ============================================================
+// Resilient fetch
+// ============================================================
+
+async function isRequestLimitExceeded(res: Response): Promise<boolean> {
+  if (res.status !== 403) return false
+  const body = await res.clone().text()
+  return body.includes('REQUEST_LIMIT_EXCEEDED')
+}
+
+/**
+ * fetch against the Salesforce REST API with the current token. `path` is
+ * relative to the instance URL. Refreshes `auth` in place on a 401.
+ */
+async function salesforceFetch(
+  auth: SalesforceAuth,
+  path: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  let reauthenticated = false
+  let rateLimitRetries = 0
+
+  for (;;) {
+    const res = await fetch(`${auth.instanceUrl}${path}`, {
+      ...init,
+      headers: { ...init.headers, Authorization: `Bearer ${auth.accessToken}` },
+    })
+
+    if (res.status === 401 && auth.config && !reauthenticated) {
+      reauthenticated = true
+      clearSalesforceTokenCache(auth.config)
+      const fresh = await getSalesforceAuth(auth.config)
+      auth.accessToken = fresh.accessToken
+      auth.instanceUrl = fresh.instanceUrl
+      continue
+    }
+
+    if (rateLimitRetries < salesforceClientOptions.maxRateLimitRetries && await isRequestLimitExceeded(res)) {
+      const delay = salesforceClientOptions.rateLimitBackoffMs * 2 ** rateLimitRetries
+      rateLimitRetries++
+      console.warn(`[salesforce] REQUEST_LIMIT_EXCEEDED, retry ${rateLimitRetries} in ${delay}ms`)
+      await sleep(delay)
+      continue
+    }
+
+    return res
+  }
+}
+
 // ============================================================
 // SOQL Query
 // ============================================================
 
+/**
+ * Run a SOQL query and follow nextRecordsUrl until every page is loaded
+ */
 export async function salesforceQuery<T>(
   auth: SalesforceAuth,
   soql: string
 ): Promise<T[]> {
-  let url = `${auth.instanceUrl}/services/data/v59.0/query?q=${encodeURIComponent(soql)}`
+  let path = `/services/data/${SALESFORCE_API_VERSION}/query?q=${encodeURIComponent(soql)}`
   const allRecords: T[] = []
 
-  while (url) {
-    const res = await fetch(url, {
-      headers: { Authorization: `Bearer ${auth.accessToken}` },
-    })
+  while (path) {
+    const res = await salesforceFetch(auth, path)
 
     if (!res.ok) {
       const err = await res.text()
@@ -123,7 +249,7 @@ export async function salesforceQuery<T>(
     const data: SalesforceQueryResult<T> = await res.json()
     allRecords.push(...data.records)
 
-    url = data.done ? '' : `${auth.instanceUrl}${data.nextRecordsUrl}`
+    path = data.done || !data.nextRecordsUrl ? '' : data.nextRecordsUrl
   }
 
   return allRecords
@@ -137,14 +263,9 @@ export async function salesforceComposite(
   auth: SalesforceAuth,
   subrequests: CompositeSubrequest[]
 ): Promise<CompositeResponse> {
-  const url = `${auth.instanceUrl}/services/data/v59.0/composite`
-
-  const res = await fetch(url, {
+  const res = await salesforceFetch(auth, `/services/data/${SALESFORCE_API_VERSION}/composite`, {
     method: 'POST',
-    headers: {
-      Authorization: `Bearer ${auth.accessToken}`,
-      'Content-Type': 'application/json',
-    },
+    headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({
       allOrNone: false,
       compositeRequest: subrequests,
@@ -159,6 +280,54 @@ export async function salesforceComposite(
   return res.json()
 }
 
+function toRecordErrors(body: unknown): SalesforceRecordError[] {
+  if (!Array.isArray(body)) return []
+  return body.map((e: Record<string, unknown>) => ({
+    errorCode: String(e?.errorCode ?? 'UNKNOWN'),
+    message: String(e?.message ?? ''),
+    ...(Array.isArray(e?.fields) ? { fields: e.fields as string[] } : {}),
+  }))
+}
+
+/**
+ * Run any number of writes through the Composite API, 25 per call, and
+ * report each one separately. A failed record doesn't stop the others; a
+ * failed call (network, auth) marks every record in that call as failed.
+ */
+export async function salesforceCompositeWrite(
+  auth: SalesforceAuth,
+  subrequests: CompositeSubrequest[]
+): Promise<CompositeWriteResult[]> {
+  const results: CompositeWriteResult[] = []
+
+  for (const batch of chunk(subrequests, COMPOSITE_MAX_SUBREQUESTS)) {
+    let response: CompositeResponse
+    try {
+      response = await salesforceComposite(auth, batch)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err)
+      for (const sub of batch) {
+        results.push({ referenceId: sub.referenceId, ok: false, status: 0, errors: [{ errorCode: 'REQUEST_FAILED', message }] })
+      }
+      continue
+    }
+
+    for (const item of response.compositeResponse) {
+      const ok = item.httpStatusCode >= 200 && item.httpStatusCode < 300
+      const id = (item.body as { id?: string } | null)?.id
+      results.push({
+        referenceId: item.referenceId,
+        ok,
+        status: item.httpStatusCode,
+        ...(id ? { id } : {}),
+        errors: ok ? [] : toRecordErrors(item.body),
+      })
+    }
+  }
+
+  return results
+}
+
 // ============================================================
 // Batch helpers
 // ============================================================
@@ -0,0 +1,264 @@
+// Two-way Slack: Block Kit for capturing wins, weekly commitments and
+// journal entries without opening the portal, and listing open action items.
+// The writes themselves live in capture.ts.
+//
+// Shared by slack-commands (the /boon slash command) and slack-interactions
+// (the "Save to Boon" message shortcut, modal submissions and the Done
+// buttons on the action list).
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import {
+  type CaptureKind,
+  type CaptureEmployee,
+  type OpenActionItem,
+  CAPTURE_KINDS,
+  CAPTURE_SAVED_MESSAGES,
+  MAX_CAPTURE_LENGTH,
+  loadCaptureEmployee,
+} from './capture.ts';
+
+// Modal + shortcut identifiers (must match the Slack app config)
+export const CAPTURE_MODAL_CALLBACK_ID = 'boon_capture';
+export const MESSAGE_SHORTCUT_CALLBACK_ID = 'boon_save_message';
+
+const KIND_LABELS: Record<CaptureKind, { title: string; label: string; placeholder: string; emoji: string }> = {
+  win: {
+    title: 'Log a win',
+    label: 'What went well?',
+    placeholder: 'e.g. Ran my first skip-level and it went great',
+    emoji: ':trophy:',
+  },
+  commitment: {
+    title: 'Weekly commitment',
+    label: 'What will you commit to this week?',
+    placeholder: 'e.g. Give one piece of specific feedback every day',
+    emoji: ':dart:',
+  },
+  journal: {
+    title: 'Journal',
+    label: "What's on your mind?",
+    placeholder: 'A few lines is plenty',
+    emoji: ':notebook:',
+  },
+};
+
+export interface SlackEmployee extends CaptureEmployee {
+  dmChannelId: string | null;
+  botToken: string;
+}
+
+/**
+ * Map a Slack user to their Boon employee via employee_slack_connections.
+ * Returns null if they haven't connected Slack in the portal.
+ */
+export async function resolveSlackEmployee(
+  supabase: SupabaseClient,
+  teamId: string,
+  slackUserId: string
+): Promise<SlackEmployee | null> {
+  const { data: connection } = await supabase
+    .from('employee_slack_connections')
+    .select('employee_email, slack_dm_channel_id, timezone')
+    .eq('slack_team_id', teamId)
+    .eq('slack_user_id', slackUserId)
+    .maybeSingle();
+
+  if (!connection) return null;
+
+  const [{ data: installation }, employee] = await Promise.all([
+    supabase
+      .from('slack_installations')
+      .select('bot_token')
+      .eq('team_id', teamId)
+      .maybeSingle(),
+    loadCaptureEmployee(supabase, connection.employee_email, connection.timezone),
+  ]);
+
+  if (!installation?.bot_token || !employee) return null;
+
+  return {
+    ...employee,
+    dmChannelId: connection.slack_dm_channel_id,
+    botToken: installation.bot_token,
+  };
+}
+
+export function savedMessageFor(kind: CaptureKind): string {
+  return `${KIND_LABELS[kind].emoji} ${CAPTURE_SAVED_MESSAGES[kind]}`;
+}
+
+/**
+ * Modal for capturing text. With no kind (message shortcut) the user
+ * picks one; the text box is pre-filled with the message they shortcut from.
+ */
+export function buildCaptureModal(kind: CaptureKind | null, initialText = ''): Record<string, unknown> {
+  const blocks: unknown[] = [];
+
+  if (!kind) {
+    blocks.push({
+      type: 'input',
+      block_id: 'kind',
+      label: { type: 'plain_text', text: 'Save as' },
+      element: {
+        type: 'static_select',
+        action_id: 'value',
+        initial_option: { text: { type: 'plain_text', text: 'Win' }, value: 'win' },
+        options: [
+          { text: { type: 'plain_text', text: 'Win' }, value: 'win' },
+          { text: { type: 'plain_text', text: 'Weekly commitment' }, value: 'commitment' },
+          { text: { type: 'plain_text', text: 'Journal entry' }, value: 'journal' },
+        ],
+      },
+    });
+  }
+
+  const copy = KIND_LABELS[kind || 'win'];
+  blocks.push({
+    type: 'input',
+    block_id: 'text',
+    label: { type: 'plain_text', text: kind ? copy.label : 'Text' },
+    element: {
+      type: 'plain_text_input',
+      action_id: 'value',
+      multiline: true,
+      max_length: MAX_CAPTURE_LENGTH,
+      initial_value: initialText.slice(0, MAX_CAPTURE_LENGTH),
+      placeholder: { type: 'plain_text', text: copy.placeholder },
+    },
+  });
+
+  if (kind === 'journal') {
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: 'Private to you. You can share entries with your coach from the portal.' }],
+    });
+  }
+
+  return {
+    type: 'modal',
+    callback_id: CAPTURE_MODAL_CALLBACK_ID,
+    private_metadata: JSON.stringify({ kind }),
+    title: { type: 'plain_text', text: kind ? copy.title : 'Save to Boon' },
+    submit: { type: 'plain_text', text: 'Save' },
+    close: { type: 'plain_text', text: 'Cancel' },
+    blocks,
+  };
+}
+
+/**
+ * Read kind + text back out of a submitted capture modal
+ */
+export function parseCaptureSubmission(view: {
+  private_metadata?: string;
+  state?: { values?: Record<string, Record<string, { value?: string; selected_option?: { value: string } }>> };
+}): { kind: CaptureKind | null; text: string } {
+  let kind: CaptureKind | null = null;
+  try {
+    kind = JSON.parse(view.private_metadata || '{}').kind || null;
+  } catch {
+    kind = null;
+  }
+
+  const values = view.state?.values || {};
+  const selected = values.kind?.value?.selected_option?.value;
+  if (!kind && CAPTURE_KINDS.includes(selected as CaptureKind)) {
+    kind = selected as CaptureKind;
+  }
+
+  return { kind, text: values.text?.value?.value || '' };
+}
+
+/**
+ * Ephemeral action item list with Done buttons. Uses the same
+ * complete_action_item action and action_<id> block ids as the daily digest.
+ */
+export function buildActionListBlocks(items: OpenActionItem[], portalUrl: string): unknown[] {
+  if (items.length === 0) {
+    return [
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: ':tada: No open action items. Nice work!' },
+      },
+    ];
+  }
+
+  const blocks: unknown[] = [
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: '*Your open action items*' },
+    },
+  ];
+
+  for (const item of items) {
+    const due = item.due_date ? `  _due ${item.due_date}_` : '';
+    blocks.push({
+      type: 'section',
+      block_id: `action_${item.id}`,
+      text: { type: 'mrkdwn', text: `☐ ${item.action_text}${due}` },
+      accessory: {
+        type: 'button',
+        text: { type: 'plain_text', text: '✓ Done', emoji: true },
+        style: 'primary',
+        action_id: 'complete_action_item',
+        value: item.id,
+      },
+    });
+  }
+
+  blocks.push({
+    type: 'context',
+    elements: [{ type: 'mrkdwn', text: `<${portalUrl}|Open Portal>` }],
+  });
+
+  return blocks;
+}
+
+export function buildHelpBlocks(): unknown[] {
+  return [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: [
+          '*Boon from Slack*',
+          '`/boon win [text]` — log a coaching win',
+          '`/boon commit [text]` — add a commitment for this week',
+          '`/boon journal [text]` — write a journal entry',
+          '`/boon actions` — list your open action items',
+          '',
+          'Leave the text off to open a form. You can also use *Save to Boon* from any message\'s ⋯ menu.',
+        ].join('\n'),
+      },
+    },
+  ];
+}
+
+export async function openSlackModal(
+  botToken: string,
+  triggerId: string,
+  view: Record<string, unknown>
+): Promise<{ ok: boolean; error?: string }> {
+  const response = await fetch('https://slack.com/api/views.open', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${botToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ trigger_id: triggerId, view }),
+  });
+  return response.json();
+}
+
+/**
+ * Reply via a slash command / shortcut response_url (ephemeral by default)
+ */
+export async function respondToSlack(
+  responseUrl: string,
+  body: { text: string; blocks?: unknown[]; replace_original?: boolean }
+): Promise<void> {
+  await fetch(responseUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ response_type: 'ephemeral', ...body }),
+  });
+}
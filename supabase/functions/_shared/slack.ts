@@ -147,6 +147,9 @@ export async function exchangeCodeForToken(
   return response.json();
 }
 
+// Slack recommends rejecting requests older than five minutes (replay protection)
+const SLACK_SIGNATURE_MAX_AGE_SECONDS = 60 * 5;
+
 /**
  * Verify Slack request signature
  */
@@ -156,6 +159,13 @@ export async function verifySlackSignature(
   timestamp: string,
   body: string
 ): Promise<boolean> {
+  if (!signingSecret || !signature) return false;
+
+  const requestTime = parseInt(timestamp, 10);
+  if (!requestTime || Math.abs(Date.now() / 1000 - requestTime) > SLACK_SIGNATURE_MAX_AGE_SECONDS) {
+    return false;
+  }
+
   const encoder = new TextEncoder();
   const key = await crypto.subtle.importKey(
     'raw',
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  decideSmartNudge,
+  countConsecutiveIgnored,
+  getSmartNudgeIntervalDays,
+  type SmartNudgeContext,
+  type SmartNudgeHistoryItem,
+} from './smart-nudge.ts';
+
+const now = new Date('2026-10-21T14:00:00Z');
+
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+const daysAhead = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+
+const nudge = (nudge_type: string, sentDaysAgo: number, responded = false): SmartNudgeHistoryItem => ({
+  nudge_type,
+  sent_at: daysAgo(sentDaysAgo),
+  responded_at: responded ? daysAgo(sentDaysAgo - 0.1) : null,
+});
+
+const createContext = (overrides: Partial<SmartNudgeContext> = {}): SmartNudgeContext => ({
+  recentNudges: [],
+  pendingActionCount: 0,
+  commitment: null,
+  nextSessionAt: null,
+  ...overrides,
+});
+
+describe('decideSmartNudge', () => {
+  it('sends nothing when there is nothing to nudge about', () => {
+    expect(decideSmartNudge(createContext(), now)).toEqual({ send: false, reason: 'nothing_to_nudge' });
+  });
+
+  it('prefers an unchecked commitment over open action items', () => {
+    const decision = decideSmartNudge(createContext({
+      pendingActionCount: 3,
+      commitment: { id: 'c-1', checkedIn: false },
+    }), now);
+
+    expect(decision).toMatchObject({ send: true, kind: 'commitment_checkin', referenceId: 'c-1' });
+  });
+
+  it('nudges action items when a session is a few days out', () => {
+    const decision = decideSmartNudge(createContext({
+      pendingActionCount: 2,
+      commitment: { id: 'c-1', checkedIn: false },
+      nextSessionAt: daysAhead(3),
+    }), now);
+
+    expect(decision).toMatchObject({ send: true, kind: 'action_items', reason: 'before_session' });
+  });
+
+  it('leaves the day before a session to session prep', () => {
+    const decision = decideSmartNudge(createContext({ pendingActionCount: 2, nextSessionAt: daysAhead(1) }), now);
+    expect(decision).toEqual({ send: false, reason: 'session_soon' });
+  });
+
+  it('never stacks on a nudge sent in the last 20 hours', () => {
+    const decision = decideSmartNudge(createContext({
+      pendingActionCount: 2,
+      recentNudges: [nudge('goal_checkin', 0.5)],
+    }), now);
+
+    expect(decision).toEqual({ send: false, reason: 'recently_nudged' });
+  });
+
+  it('skips a kind the employee got recently from a fixed schedule', () => {
+    const decision = decideSmartNudge(createContext({
+      pendingActionCount: 2,
+      recentNudges: [nudge('weekly_digest', 2)],
+    }), now);
+
+    expect(decision).toEqual({ send: false, reason: 'nothing_to_nudge' });
+  });
+
+  it('backs off after ignored nudges and recovers after a response', () => {
+    const context = createContext({ pendingActionCount: 2 });
+
+    // Two ignored smart nudges → 8-day gap; the last was 5 days ago
+    const ignored = [nudge('smart_action_digest', 5), nudge('smart_commitment_checkin', 12)];
+    expect(decideSmartNudge({ ...context, recentNudges: ignored }, now)).toEqual({ send: false, reason: 'backing_off' });
+
+    // Answering the latest one resets the gap to 2 days
+    const answered = [nudge('smart_action_digest', 5, true), nudge('smart_commitment_checkin', 12)];
+    expect(decideSmartNudge({ ...context, recentNudges: answered }, now)).toMatchObject({ send: true, kind: 'action_items' });
+  });
+});
+
+describe('getSmartNudgeIntervalDays', () => {
+  it('doubles per ignored nudge and caps at two weeks', () => {
+    expect([0, 1, 2, 3, 10].map(getSmartNudgeIntervalDays)).toEqual([2, 4, 8, 14, 14]);
+  });
+});
+
+describe('countConsecutiveIgnored', () => {
+  it('counts unanswered nudges newest first until a response', () => {
+    expect(countConsecutiveIgnored([
+      nudge('smart_action_digest', 9, true),
+      nudge('goal_checkin', 2),
+      nudge('smart_action_digest', 5),
+    ])).toBe(2);
+  });
+});
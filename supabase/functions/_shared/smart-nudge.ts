@@ -0,0 +1,146 @@
+// Smart nudge policy: for employees on nudge_frequency 'smart', decide
+// whether to nudge today and with what, from what they've got going on and
+// how they've responded to past nudges.
+//
+// No Deno or Supabase imports — nudge-scheduler loads the inputs in bulk and
+// calls decideSmartNudge per employee, so the policy can be tested as plain
+// data in, decision out.
+//
+// The rules, in order:
+//   1. Never stack: nothing if any nudge went out in the last 20 hours.
+//   2. Leave sessions to session_prep: nothing if a session is under 36h away.
+//   3. Back off when ignored: the gap between smart nudges starts at 2 days
+//      and doubles for each unanswered nudge in a row, up to 14 days. Any
+//      response resets it.
+//   4. Pick the most useful nudge: open action items when a session is a few
+//      days out (time to act before it), else an unchecked weekly commitment,
+//      else open action items. The same kind isn't repeated within 3 days.
+
+export type SmartNudgeKind = 'action_items' | 'commitment_checkin';
+
+export const SMART_NUDGE_TYPES: Record<SmartNudgeKind, string> = {
+  action_items: 'smart_action_digest',
+  commitment_checkin: 'smart_commitment_checkin',
+};
+
+export interface SmartNudgeHistoryItem {
+  nudge_type: string;
+  sent_at: string;
+  responded_at: string | null;
+}
+
+export interface SmartNudgeContext {
+  recentNudges: SmartNudgeHistoryItem[];  // any order, any nudge type
+  pendingActionCount: number;
+  commitment: { id: string; checkedIn: boolean } | null;  // this week's active commitment
+  nextSessionAt: string | null;           // next Upcoming session, ISO date or timestamp
+}
+
+export type SmartNudgeSkipReason =
+  | 'recently_nudged'
+  | 'session_soon'
+  | 'backing_off'
+  | 'nothing_to_nudge';
+
+export type SmartNudgeDecision =
+  | { send: true; kind: SmartNudgeKind; nudgeType: string; referenceId: string | null; reason: string }
+  | { send: false; reason: SmartNudgeSkipReason };
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const MIN_HOURS_SINCE_ANY_NUDGE = 20;
+export const SESSION_PREP_WINDOW_HOURS = 36;
+export const PRE_SESSION_WINDOW_DAYS = 4;
+export const BASE_INTERVAL_DAYS = 2;
+export const MAX_INTERVAL_DAYS = 14;
+export const SAME_KIND_COOLDOWN_DAYS = 3;
+
+/**
+ * Unanswered nudges since the last one the employee responded to
+ */
+export function countConsecutiveIgnored(history: SmartNudgeHistoryItem[]): number {
+  const newestFirst = [...history].sort((a, b) => Date.parse(b.sent_at) - Date.parse(a.sent_at));
+  let ignored = 0;
+  for (const nudge of newestFirst) {
+    if (nudge.responded_at) break;
+    ignored++;
+  }
+  return ignored;
+}
+
+/**
+ * Days to wait after the last smart nudge, given how many went unanswered
+ */
+export function getSmartNudgeIntervalDays(consecutiveIgnored: number): number {
+  return Math.min(BASE_INTERVAL_DAYS * 2 ** consecutiveIgnored, MAX_INTERVAL_DAYS);
+}
+
+function latestSentAt(history: SmartNudgeHistoryItem[], matches: (type: string) => boolean): number | null {
+  let latest: number | null = null;
+  for (const nudge of history) {
+    if (!matches(nudge.nudge_type)) continue;
+    const sentAt = Date.parse(nudge.sent_at);
+    if (latest === null || sentAt > latest) latest = sentAt;
+  }
+  return latest;
+}
+
+const isSmartType = (type: string) => Object.values(SMART_NUDGE_TYPES).includes(type);
+
+// Digests and check-ins from the fixed schedules count too, so a smart
+// nudge doesn't repeat something the employee just got another way
+const KIND_MATCHERS: Record<SmartNudgeKind, (type: string) => boolean> = {
+  action_items: (type) => type === SMART_NUDGE_TYPES.action_items || type.endsWith('_digest'),
+  commitment_checkin: (type) => type === SMART_NUDGE_TYPES.commitment_checkin || /^goal_\w+_checkin$/.test(type),
+};
+
+export function decideSmartNudge(context: SmartNudgeContext, now: Date = new Date()): SmartNudgeDecision {
+  const nowMs = now.getTime();
+  const history = context.recentNudges;
+
+  const lastAny = latestSentAt(history, () => true);
+  if (lastAny !== null && nowMs - lastAny < MIN_HOURS_SINCE_ANY_NUDGE * HOUR_MS) {
+    return { send: false, reason: 'recently_nudged' };
+  }
+
+  const msToSession = context.nextSessionAt ? Date.parse(context.nextSessionAt) - nowMs : null;
+  if (msToSession !== null && msToSession >= 0 && msToSession < SESSION_PREP_WINDOW_HOURS * HOUR_MS) {
+    return { send: false, reason: 'session_soon' };
+  }
+
+  const lastSmart = latestSentAt(history, isSmartType);
+  if (lastSmart !== null) {
+    const intervalDays = getSmartNudgeIntervalDays(countConsecutiveIgnored(history));
+    if (nowMs - lastSmart < intervalDays * DAY_MS) {
+      return { send: false, reason: 'backing_off' };
+    }
+  }
+
+  const isCoolingDown = (kind: SmartNudgeKind) => {
+    const last = latestSentAt(history, KIND_MATCHERS[kind]);
+    return last !== null && nowMs - last < SAME_KIND_COOLDOWN_DAYS * DAY_MS;
+  };
+
+  const canNudgeActions = context.pendingActionCount > 0 && !isCoolingDown('action_items');
+  const canNudgeCommitment = !!context.commitment && !context.commitment.checkedIn && !isCoolingDown('commitment_checkin');
+  const sessionComingUp = msToSession !== null && msToSession >= 0 && msToSession < PRE_SESSION_WINDOW_DAYS * DAY_MS;
+
+  if (canNudgeActions && sessionComingUp) {
+    return { send: true, kind: 'action_items', nudgeType: SMART_NUDGE_TYPES.action_items, referenceId: null, reason: 'before_session' };
+  }
+  if (canNudgeCommitment) {
+    return {
+      send: true,
+      kind: 'commitment_checkin',
+      nudgeType: SMART_NUDGE_TYPES.commitment_checkin,
+      referenceId: context.commitment!.id,
+      reason: 'commitment_unchecked',
+    };
+  }
+  if (canNudgeActions) {
+    return { send: true, kind: 'action_items', nudgeType: SMART_NUDGE_TYPES.action_items, referenceId: null, reason: 'open_action_items' };
+  }
+
+  return { send: false, reason: 'nothing_to_nudge' };
+}
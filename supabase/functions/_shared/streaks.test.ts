@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeStreak,
+  computeStreaks,
+  getCelebrationMilestone,
+  getReachedMilestone,
+  STREAK_LOOKBACK_WEEKS,
+  streakMilestoneReference,
+  weekStartOf,
+  localDateOf,
+} from './streaks.ts';
+
+// Wednesday
+const now = new Date('2026-10-21T15:00:00Z');
+const thisWeek = '2026-10-19';
+
+describe('weekStartOf', () => {
+  it('maps any day to its Monday', () => {
+    expect(weekStartOf('2026-10-19')).toBe('2026-10-19');
+    expect(weekStartOf('2026-10-25')).toBe('2026-10-19');
+    expect(weekStartOf('2026-10-26')).toBe('2026-10-26');
+  });
+});
+
+describe('localDateOf', () => {
+  it('uses the employee timezone and falls back to UTC', () => {
+    const sundayNightInNewYork = new Date('2026-10-26T02:00:00Z');
+    expect(localDateOf(sundayNightInNewYork, 'America/New_York')).toBe('2026-10-25');
+    expect(localDateOf(sundayNightInNewYork, 'Not/AZone')).toBe('2026-10-26');
+  });
+});
+
+describe('computeStreak', () => {
+  it('counts consecutive weeks ending this week', () => {
+    const streak = computeStreak(['2026-10-19', '2026-10-12', '2026-10-05'], thisWeek);
+    expect(streak).toEqual({ current: 3, best: 3, active_this_week: true, current_started: '2026-10-05' });
+  });
+
+  it('keeps last week’s streak alive until this week is over', () => {
+    const streak = computeStreak(['2026-10-12', '2026-10-05'], thisWeek);
+    expect(streak.current).toBe(2);
+    expect(streak.active_this_week).toBe(false);
+  });
+
+  it('breaks on a missed week and remembers the best run', () => {
+    const streak = computeStreak(
+      ['2026-10-19', '2026-09-28', '2026-09-21', '2026-09-14', '2026-09-07'],
+      thisWeek
+    );
+    expect(streak.current).toBe(1);
+    expect(streak.best).toBe(4);
+  });
+});
+
+describe('computeStreaks', () => {
+  it('only counts completed commitments and completed action items', () => {
+    const streaks = computeStreaks({
+      commitments: [
+        { week_start: '2026-10-19', status: 'completed' },
+        { week_start: '2026-10-12', status: 'missed' },
+      ],
+      journalEntries: [{ created_at: '2026-10-20T10:00:00Z' }, { created_at: '2026-10-13T10:00:00Z' }],
+      completedActions: [{ completed_at: null }, { completed_at: '2026-10-14T10:00:00Z' }],
+    }, 'UTC', now);
+
+    expect(streaks.commitments.current).toBe(1);
+    expect(streaks.journal.current).toBe(2);
+    expect(streaks.action_items).toMatchObject({ current: 1, active_this_week: false });
+  });
+});
+
+describe('getReachedMilestone', () => {
+  it('returns the highest milestone reached', () => {
+    const streak = (current: number) => ({ current, best: current, active_this_week: true, current_started: thisWeek });
+    expect(getReachedMilestone(streak(2))).toBeNull();
+    expect(getReachedMilestone(streak(3))).toBe(3);
+    expect(getReachedMilestone(streak(7))).toBe(5);
+  });
+});
+
+describe('getCelebrationMilestone', () => {
+  const weeksBefore = (week: string, count: number) =>
+    new Date(Date.parse(`${week}T00:00:00Z`) - count * 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+  // Every week back to the start of the loaded window, as the scheduler sees it
+  const runFillingWindow = (currentWeek: string) =>
+    computeStreak(Array.from({ length: STREAK_LOOKBACK_WEEKS + 1 }, (_, i) => weeksBefore(currentWeek, i)), currentWeek);
+
+  it('keeps the same reference while a run grows past a milestone', () => {
+    const started = weeksBefore(thisWeek, 9);
+    const atTen = computeStreak(Array.from({ length: 10 }, (_, i) => weeksBefore(thisWeek, i)), thisWeek);
+    expect(atTen.current_started).toBe(started);
+    const nextWeek = weeksBefore(thisWeek, -1);
+    const atEleven = computeStreak([...Array.from({ length: 10 }, (_, i) => weeksBefore(thisWeek, i)), nextWeek], nextWeek);
+
+    expect(getCelebrationMilestone(atTen)).toBe(10);
+    expect(streakMilestoneReference('journal', atEleven, 10)).toBe(streakMilestoneReference('journal', atTen, 10));
+  });
+
+  it('celebrates nothing for a run longer than the lookback, week after week', () => {
+    const nextWeek = weeksBefore(thisWeek, -1);
+    expect(runFillingWindow(thisWeek).current).toBe(STREAK_LOOKBACK_WEEKS + 1);
+    expect(getCelebrationMilestone(runFillingWindow(thisWeek))).toBeNull();
+    expect(getCelebrationMilestone(runFillingWindow(nextWeek))).toBeNull();
+
+    // The 52-week milestone itself still counts the week it's reached
+    const atFiftyTwo = computeStreak(Array.from({ length: 52 }, (_, i) => weeksBefore(thisWeek, i)), thisWeek);
+    expect(getCelebrationMilestone(atFiftyTwo)).toBe(52);
+  });
+});
@@ -0,0 +1,150 @@
+// Weekly streaks: consecutive weeks (Monday–Sunday, in the employee's
+// timezone) with a completed weekly commitment, a journal entry, or a
+// completed action item.
+//
+// No Deno or Supabase imports — the streaks function serves these to the
+// portal and nudge-scheduler uses them for streak_celebration nudges, both
+// from the same activity rows, so the two can't disagree.
+//
+// The current week doesn't break a streak until it's over: a 4-week journal
+// streak stays at 4 on Monday morning and becomes 5 once this week's entry
+// is written.
+
+export type StreakKind = 'commitments' | 'journal' | 'action_items';
+
+export const STREAK_KINDS: StreakKind[] = ['commitments', 'journal', 'action_items'];
+
+// Week counts worth a celebration nudge
+export const STREAK_MILESTONES = [3, 5, 10, 20, 52];
+
+// How far back activity is loaded; best streaks are "best in the last year"
+export const STREAK_LOOKBACK_WEEKS = 52;
+
+export interface Streak {
+  current: number;
+  best: number;
+  active_this_week: boolean;
+  current_started: string | null;   // week_start of the current run, for dedupe
+}
+
+export type EmployeeStreaks = Record<StreakKind, Streak>;
+
+export interface StreakActivity {
+  commitments: { week_start: string; status: string }[];
+  journalEntries: { created_at: string }[];
+  completedActions: { completed_at: string | null }[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in the given timezone.
+ * Falls back to UTC for a missing or invalid timezone.
+ */
+export function localDateOf(instant: Date, timezone: string | null): string {
+  if (timezone) {
+    try {
+      // en-CA formats as YYYY-MM-DD
+      return new Intl.DateTimeFormat('en-CA', { timeZone: timezone }).format(instant);
+    } catch {
+      // fall through
+    }
+  }
+  return instant.toISOString().split('T')[0];
+}
+
+/**
+ * Monday of the week containing a YYYY-MM-DD date
+ */
+export function weekStartOf(date: string): string {
+  const day = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  const weekday = day.getUTCDay();
+  return new Date(day.getTime() - (weekday === 0 ? 6 : weekday - 1) * DAY_MS).toISOString().split('T')[0];
+}
+
+function previousWeek(weekStart: string): string {
+  return new Date(Date.parse(`${weekStart}T00:00:00Z`) - 7 * DAY_MS).toISOString().split('T')[0];
+}
+
+/**
+ * Current and best run of consecutive active weeks
+ */
+export function computeStreak(activeWeeks: Iterable<string>, currentWeek: string): Streak {
+  const weeks = new Set(activeWeeks);
+  const activeThisWeek = weeks.has(currentWeek);
+
+  let current = 0;
+  let currentStarted: string | null = null;
+  let week = activeThisWeek ? currentWeek : previousWeek(currentWeek);
+  while (weeks.has(week)) {
+    current++;
+    currentStarted = week;
+    week = previousWeek(week);
+  }
+
+  let best = 0;
+  for (const start of weeks) {
+    // Only count runs from their first week
+    if (weeks.has(previousWeek(start))) continue;
+    let length = 0;
+    let cursor = start;
+    while (weeks.has(cursor)) {
+      length++;
+      cursor = new Date(Date.parse(`${cursor}T00:00:00Z`) + 7 * DAY_MS).toISOString().split('T')[0];
+    }
+    best = Math.max(best, length);
+  }
+
+  return { current, best: Math.max(best, current), active_this_week: activeThisWeek, current_started: currentStarted };
+}
+
+export function computeStreaks(
+  activity: StreakActivity,
+  timezone: string | null,
+  now: Date = new Date()
+): EmployeeStreaks {
+  const currentWeek = weekStartOf(localDateOf(now, timezone));
+  const weekOfInstant = (iso: string) => weekStartOf(localDateOf(new Date(iso), timezone));
+
+  return {
+    commitments: computeStreak(
+      activity.commitments.filter((c) => c.status === 'completed').map((c) => weekStartOf(c.week_start)),
+      currentWeek
+    ),
+    journal: computeStreak(activity.journalEntries.map((e) => weekOfInstant(e.created_at)), currentWeek),
+    action_items: computeStreak(
+      activity.completedActions.flatMap((a) => (a.completed_at ? [weekOfInstant(a.completed_at)] : [])),
+      currentWeek
+    ),
+  };
+}
+
+/**
+ * Highest milestone the current streak has reached, or null below the first
+ */
+export function getReachedMilestone(streak: Streak): number | null {
+  const reached = STREAK_MILESTONES.filter((m) => streak.current >= m);
+  return reached.length > 0 ? reached[reached.length - 1] : null;
+}
+
+/**
+ * Milestone to celebrate for the current run, or null. A run longer than the
+ * lookback reaches back past the loaded activity, so its current_started is
+ * just the oldest loaded week and moves forward every week; every milestone
+ * of such a run was already celebrated as it grew.
+ */
+export function getCelebrationMilestone(streak: Streak): number | null {
+  if (streak.current > STREAK_LOOKBACK_WEEKS) return null;
+  return getReachedMilestone(streak);
+}
+
+/**
+ * Stable id for "this run of this streak reached this milestone", used as
+ * the nudge reference_id so each milestone is celebrated once per run: the
+ * week the run hit the milestone, which doesn't move as the run grows
+ */
+export function streakMilestoneReference(kind: StreakKind, streak: Streak, milestone: number): string {
+  const reachedWeek = new Date(Date.parse(`${streak.current_started}T00:00:00Z`) + (milestone - 1) * 7 * DAY_MS)
+    .toISOString().split('T')[0];
+  return `${kind}:milestone:${reachedWeek}:${milestone}`;
+}
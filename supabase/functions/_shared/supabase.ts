@@ -20,3 +20,11 @@ export function getEnvVar(name: string): string {
   }
   return value;
 }
+
+/**
+ * Escape an email for an exact, case-insensitive .ilike() match. ilike treats
+ * _ and % as wildcards, which matters when a lookalike address must never match.
+ */
+export function exactIlike(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
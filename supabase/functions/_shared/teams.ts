@@ -429,3 +429,177 @@ export function buildTeamsActionItemsCard(
     ],
   };
 }
+
+// ============================================
+// Conversational commands
+// ============================================
+
+export type TeamsCommand =
+  | { kind: 'help' }
+  | { kind: 'actions' }
+  | { kind: 'next_session' }
+  | { kind: 'capture'; capture: 'win' | 'commitment' | 'journal'; text: string }
+  | { kind: 'unknown' };
+
+const CAPTURE_PREFIXES: { pattern: RegExp; capture: 'win' | 'commitment' | 'journal' }[] = [
+  { pattern: /^(?:log\s+(?:a\s+)?)?win\b[:\s-]*/i, capture: 'win' },
+  { pattern: /^commit(?:ment)?\b[:\s-]*/i, capture: 'commitment' },
+  { pattern: /^journal\b[:\s-]*/i, capture: 'journal' },
+];
+
+const GREETINGS = ['hi', 'hello', 'hey', 'help', 'menu', 'start', 'get started'];
+
+/**
+ * Parse a typed message into a bot command. Strips the <at>Boon</at>
+ * mention Teams adds in group chats; capture text keeps its original case.
+ */
+export function parseTeamsCommand(rawText: string): TeamsCommand {
+  const text = rawText.replace(/<at>[^<]*<\/at>/gi, '').trim();
+  const normalized = text.toLowerCase().replace(/[^a-z0-9\s]/g, '').replace(/\s+/g, ' ').trim();
+
+  for (const { pattern, capture } of CAPTURE_PREFIXES) {
+    if (pattern.test(text)) {
+      return { kind: 'capture', capture, text: text.replace(pattern, '').trim() };
+    }
+  }
+
+  if (/^(my )?(open )?(actions|action items|todos?)$/.test(normalized)) return { kind: 'actions' };
+  if (/^(my )?next (session|meeting)$|^(when is my )?next session$|^session$/.test(normalized)) {
+    return { kind: 'next_session' };
+  }
+
+  const isGreeting = GREETINGS.some(
+    (g) => normalized === g || normalized.startsWith(g + ' ') || normalized.endsWith(' ' + g)
+  );
+  return isGreeting ? { kind: 'help' } : { kind: 'unknown' };
+}
+
+function adaptiveCard(body: Record<string, unknown>[], actions: Record<string, unknown>[] = []): Record<string, unknown> {
+  return {
+    type: 'AdaptiveCard',
+    $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+    version: '1.4',
+    body,
+    ...(actions.length > 0 ? { actions } : {}),
+  };
+}
+
+/**
+ * Short confirmation or error reply to a command
+ */
+export function buildTeamsReplyCard(message: string, success = true): Record<string, unknown> {
+  return adaptiveCard([
+    {
+      type: 'TextBlock',
+      text: message,
+      wrap: true,
+      weight: success ? 'Bolder' : 'Default',
+      color: success ? 'Good' : 'Default',
+    },
+  ]);
+}
+
+export function buildTeamsCommandsFactSet(): Record<string, unknown> {
+  return {
+    type: 'FactSet',
+    facts: [
+      { title: 'my actions', value: 'See your open action items' },
+      { title: 'next session', value: 'When your next coaching session is' },
+      { title: 'log win …', value: 'Log a coaching win' },
+      { title: 'commit …', value: 'Add a commitment for this week' },
+      { title: 'journal …', value: 'Write a journal entry' },
+    ],
+  };
+}
+
+/**
+ * Open action items with Done buttons. Same complete_action_item submit
+ * data as the daily digest card, so the existing invoke handler applies.
+ */
+export function buildTeamsOpenActionsCard(
+  pendingActions: { id: string; action_text: string; due_date: string | null }[],
+  portalUrl: string
+): Record<string, unknown> {
+  const portalAction = { type: 'Action.OpenUrl', title: 'Open Portal', url: portalUrl };
+
+  if (pendingActions.length === 0) {
+    return adaptiveCard(
+      [{ type: 'TextBlock', text: 'No open action items. Nice work!', wrap: true, weight: 'Bolder' }],
+      [portalAction]
+    );
+  }
+
+  const body: Record<string, unknown>[] = [
+    { type: 'TextBlock', text: 'Your open action items', weight: 'Bolder', size: 'Medium', wrap: true },
+  ];
+
+  for (const action of pendingActions) {
+    body.push({
+      type: 'ColumnSet',
+      columns: [
+        {
+          type: 'Column',
+          width: 'stretch',
+          items: [
+            { type: 'TextBlock', text: action.action_text, wrap: true },
+            ...(action.due_date
+              ? [{ type: 'TextBlock', text: `Due ${action.due_date}`, size: 'Small', isSubtle: true, spacing: 'None' }]
+              : []),
+          ],
+        },
+        {
+          type: 'Column',
+          width: 'auto',
+          items: [
+            {
+              type: 'ActionSet',
+              actions: [
+                {
+                  type: 'Action.Submit',
+                  title: 'Done',
+                  style: 'positive',
+                  data: { action: 'complete_action_item', reference_id: action.id },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+  }
+
+  return adaptiveCard(body, [portalAction]);
+}
+
+export function buildTeamsNextSessionCard(
+  session: { session_date: string; coach_name: string | null } | null,
+  portalUrl: string
+): Record<string, unknown> {
+  if (!session) {
+    return adaptiveCard(
+      [{ type: 'TextBlock', text: "You don't have an upcoming session booked.", wrap: true, weight: 'Bolder' }],
+      [{ type: 'Action.OpenUrl', title: 'Book a session', url: `${portalUrl}/sessions` }]
+    );
+  }
+
+  const date = new Date(`${session.session_date.split('T')[0]}T12:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+
+  return adaptiveCard(
+    [
+      { type: 'TextBlock', text: 'Your next session', weight: 'Bolder', size: 'Medium', wrap: true },
+      {
+        type: 'FactSet',
+        facts: [
+          { title: 'When', value: date },
+          ...(session.coach_name ? [{ title: 'Coach', value: session.coach_name }] : []),
+        ],
+      },
+    ],
+    [{ type: 'Action.OpenUrl', title: 'Prepare in the portal', url: `${portalUrl}/sessions` }]
+  );
+}
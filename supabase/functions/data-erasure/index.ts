@@ -0,0 +1,395 @@
+// Data Erasure Edge Function
+// Request → confirmation → scheduled purge of an employee's personal content
+// (GDPR Art. 17 / CCPA right to delete). Each request is one row in
+// data_erasure_requests, which stays behind as the audit record.
+//
+// What the purge does:
+//   deletes     journal and its encryption settings, wins, goals/milestones/
+//               commitments/check-ins, action items, practice plans,
+//               evaluations and team members, nudge history (including
+//               legacy slack_nudges), messaging connections and settings,
+//               calendar feed tokens, shared progress reports, focus area
+//               selections, session prep, session feedback and login events
+//   anonymises  records the company is contractually owed (session counts,
+//               survey and competency results): the employee's email and
+//               name are replaced with a pseudonym, session notes, summaries,
+//               goals and plans are cleared and the employee_manager row
+//               keeps only its ids
+//   removes     the auth user, so the portal login stops working
+//
+// Slack/Teams are disconnected by the portal as soon as the request is
+// confirmed (disconnectSlack/disconnectTeams); the purge deletes any
+// connection rows left behind.
+//
+// Actions:
+//   GET  ?action=status    — caller's latest request, or null
+//   POST ?action=request   — open a request (pending_confirmation)
+//   POST ?action=confirm   — { request_id, confirm_email } → scheduled
+//   POST ?action=cancel    — { request_id } → cancelled (before the purge)
+//   POST ?action=purge     — runs due purges; service role key only.
+//                            Schedule: cron "30 * * * *"
+
+import { getSupabaseClient, exactIlike } from '../_shared/supabase.ts';
+
+// Time to change your mind between confirming and the purge
+const ERASURE_GRACE_DAYS = 7;
+const PURGE_BATCH_SIZE = 20;
+
+type Supabase = ReturnType<typeof getSupabaseClient>;
+
+interface ErasureRequest {
+  id: string;
+  employee_email: string;
+  auth_user_id: string | null;
+  status: 'pending_confirmation' | 'scheduled' | 'completed' | 'cancelled';
+  requested_at: string;
+  confirmed_at: string | null;
+  scheduled_for: string | null;
+  cancelled_at: string | null;
+  completed_at: string | null;
+}
+
+const REQUEST_COLUMNS = 'id, employee_email, auth_user_id, status, requested_at, confirmed_at, scheduled_for, cancelled_at, completed_at';
+
+// Deleted outright. Children before parents (check-ins and commitments
+// reference goals). 'employee_id' matches on employee_manager ids — wins
+// added through add_coaching_win_for_user have no email.
+const DELETE_TABLES: { table: string; key: string }[] = [
+  { table: 'journal_entries', key: 'employee_email' },
+  { table: 'journal_encryption_keys', key: 'employee_email' },
+  { table: 'coaching_wins', key: 'employee_id' },
+  { table: 'goal_checkins', key: 'employee_email' },
+  { table: 'weekly_commitments', key: 'employee_email' },
+  { table: 'goal_milestones', key: 'employee_email' },
+  { table: 'goals', key: 'employee_email' },
+  { table: 'action_items', key: 'email' },
+  { table: 'practice_saved_plans', key: 'employee_email' },
+  { table: 'practice_evaluations', key: 'employee_email' },
+  { table: 'practice_team_members', key: 'employee_email' },
+  { table: 'nudges', key: 'employee_email' },
+  { table: 'calendar_feed_tokens', key: 'employee_email' },
+  { table: 'progress_report_shares', key: 'employee_email' },
+  { table: 'employee_slack_connections', key: 'employee_email' },
+  { table: 'employee_teams_connections', key: 'employee_email' },
+  { table: 'employee_email_nudge_settings', key: 'employee_email' },
+  { table: 'slack_nudges', key: 'employee_email' },
+  { table: 'focus_area_selections', key: 'email' },
+  { table: 'session_prep', key: 'email' },
+  { table: 'login_events', key: 'email' },
+];
+
+// Not every environment has every table; a missing one has nothing to erase
+const MISSING_TABLE_CODES = ['42P01', 'PGRST205'];
+
+// Kept for the company's reporting, re-keyed to the pseudonym
+const PSEUDONYMISE_TABLES: { table: string; key: string }[] = [
+  { table: 'survey_submissions', key: 'email' },
+  { table: 'welcome_survey_baseline', key: 'email' },
+  { table: 'welcome_survey_scale', key: 'email' },
+  { table: 'competency_scores', key: 'email' },
+  { table: 'survey_competency_scores', key: 'email' },
+];
+
+function getAllowedOrigin(reqOrigin: string | null): string {
+  const portalUrl = Deno.env.get('PORTAL_URL') || 'http://localhost:5173';
+  const allowed = [portalUrl, 'https://my.boon-health.com', 'http://localhost:5173', 'http://localhost:3000'];
+  if (reqOrigin && allowed.includes(reqOrigin)) return reqOrigin;
+  return portalUrl;
+}
+
+function getCorsHeaders(req: Request) {
+  const origin = req.headers.get('origin');
+  return {
+    'Access-Control-Allow-Origin': getAllowedOrigin(origin),
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Credentials': 'true',
+  };
+}
+
+function jsonResponse(req: Request, body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json' },
+  });
+}
+
+async function getAuthedUser(req: Request): Promise<{ id: string; email: string } | null> {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) return null;
+
+  const supabase = getSupabaseClient();
+  const token = authHeader.replace('Bearer ', '');
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+
+  if (error || !user?.email) return null;
+  return { id: user.id, email: user.email.toLowerCase() };
+}
+
+async function getOpenRequest(supabase: Supabase, email: string): Promise<ErasureRequest | null> {
+  const { data } = await supabase
+    .from('data_erasure_requests')
+    .select(REQUEST_COLUMNS)
+    .eq('employee_email', email)
+    .in('status', ['pending_confirmation', 'scheduled'])
+    .maybeSingle();
+  return data;
+}
+
+// ============================================
+// Purge
+// ============================================
+
+async function purgeRequest(supabase: Supabase, request: ErasureRequest): Promise<Record<string, number>> {
+  const email = request.employee_email;
+  const pattern = exactIlike(email);
+  const pseudonym = `erased-${request.id}@erased.invalid`;
+  const summary: Record<string, number> = {};
+
+  const { data: employees, error: employeeError } = await supabase
+    .from('employee_manager')
+    .select('id')
+    .ilike('company_email', pattern);
+  if (employeeError) throw new Error(`employee_manager: ${employeeError.message}`);
+  const employeeIds = (employees || []).map((e) => e.id);
+
+  for (const { table, key } of DELETE_TABLES) {
+    if (key === 'employee_id' && employeeIds.length === 0) {
+      summary[`deleted.${table}`] = 0;
+      continue;
+    }
+    const query = supabase.from(table).delete({ count: 'exact' });
+    const { count, error } = key === 'employee_id'
+      ? await query.in(key, employeeIds)
+      : await query.ilike(key, pattern);
+    if (error && !MISSING_TABLE_CODES.includes(error.code)) throw new Error(`${table}: ${error.message}`);
+    summary[`deleted.${table}`] = count || 0;
+  }
+
+  for (const { table, key } of PSEUDONYMISE_TABLES) {
+    const { count, error } = await supabase
+      .from(table)
+      .update({ [key]: pseudonym }, { count: 'exact' })
+      .ilike(key, pattern);
+    if (error) throw new Error(`${table}: ${error.message}`);
+    summary[`anonymised.${table}`] = count || 0;
+  }
+
+  // Session rows stay so delivered-session counts remain billable; who they
+  // were with and everything written about them is removed
+  // Older rows may only carry the email, not the employee id
+  const sessionFilter = employeeIds.length > 0
+    ? `employee_id.in.(${employeeIds.join(',')}),employee_email.ilike.${pattern}`
+    : `employee_email.ilike.${pattern}`;
+  const { data: sessions, error: sessionLookupError } = await supabase
+    .from('session_tracking')
+    .select('id')
+    .or(sessionFilter);
+  if (sessionLookupError) throw new Error(`session_tracking: ${sessionLookupError.message}`);
+  const sessionIds = (sessions || []).map((s) => s.id);
+
+  if (sessionIds.length > 0) {
+    const { count: feedbackCount, error: feedbackError } = await supabase
+      .from('session_feedback')
+      .delete({ count: 'exact' })
+      .in('session_id', sessionIds);
+    if (feedbackError && !MISSING_TABLE_CODES.includes(feedbackError.code)) {
+      throw new Error(`session_feedback: ${feedbackError.message}`);
+    }
+    summary['deleted.session_feedback'] = feedbackCount || 0;
+  }
+
+  const { count: sessionCount, error: sessionError } = await supabase
+    .from('session_tracking')
+    .update({
+      employee_email: pseudonym,
+      employee_name: 'Deleted Employee',
+      employee_pre_session_note: null,
+      employee_notes: null,
+      summary: null,
+      goals: null,
+      plan: null,
+    }, { count: 'exact' })
+    .or(sessionFilter);
+  if (sessionError) throw new Error(`session_tracking: ${sessionError.message}`);
+  summary['anonymised.session_tracking'] = sessionCount || 0;
+
+  if (employeeIds.length > 0) {
+    const { count: employeeCount, error: profileError } = await supabase
+      .from('employee_manager')
+      .update({
+        company_email: pseudonym,
+        first_name: 'Deleted',
+        last_name: 'Employee',
+        job_title: null,
+        department: null,
+        manager_name: null,
+        booking_link: null,
+        auth_user_id: null,
+        last_login_at: null,
+      }, { count: 'exact' })
+      .in('id', employeeIds);
+    if (profileError) throw new Error(`employee_manager: ${profileError.message}`);
+    summary['anonymised.employee_manager'] = employeeCount || 0;
+  }
+
+  if (request.auth_user_id) {
+    const { error } = await supabase.auth.admin.deleteUser(request.auth_user_id);
+    // Already gone is fine; anything else should be retried
+    if (error && !/not found/i.test(error.message)) {
+      throw new Error(`auth user: ${error.message}`);
+    }
+    summary['deleted.auth_user'] = error ? 0 : 1;
+  }
+
+  return summary;
+}
+
+async function runDuePurges(supabase: Supabase): Promise<{ completed: number; failed: number }> {
+  const { data: due, error } = await supabase
+    .from('data_erasure_requests')
+    .select(REQUEST_COLUMNS)
+    .eq('status', 'scheduled')
+    .lte('scheduled_for', new Date().toISOString())
+    .order('scheduled_for', { ascending: true })
+    .limit(PURGE_BATCH_SIZE);
+
+  if (error) throw error;
+
+  let completed = 0;
+  let failed = 0;
+
+  for (const request of (due || []) as ErasureRequest[]) {
+    try {
+      const summary = await purgeRequest(supabase, request);
+      await supabase
+        .from('data_erasure_requests')
+        .update({
+          status: 'completed',
+          completed_at: new Date().toISOString(),
+          purge_summary: summary,
+          purge_error: null,
+        })
+        .eq('id', request.id);
+      console.log(`Erasure ${request.id} completed: ${JSON.stringify(summary)}`);
+      completed++;
+    } catch (err) {
+      // Stays scheduled, so the next run retries from the top; every step is idempotent
+      console.error(`Erasure ${request.id} failed:`, err);
+      await supabase
+        .from('data_erasure_requests')
+        .update({ purge_error: String(err) })
+        .eq('id', request.id);
+      failed++;
+    }
+  }
+
+  return { completed, failed };
+}
+
+// ============================================
+// Handler
+// ============================================
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: getCorsHeaders(req) });
+  }
+
+  const url = new URL(req.url);
+  const action = url.searchParams.get('action');
+
+  try {
+    const supabase = getSupabaseClient();
+
+    if (action === 'purge') {
+      const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+      if (!serviceKey || req.headers.get('Authorization') !== `Bearer ${serviceKey}`) {
+        return jsonResponse(req, { error: 'Unauthorized' }, 401);
+      }
+      const result = await runDuePurges(supabase);
+      return jsonResponse(req, { success: true, ...result });
+    }
+
+    const user = await getAuthedUser(req);
+    if (!user) {
+      return jsonResponse(req, { error: 'Unauthorized' }, 401);
+    }
+
+    if (action === 'status' && req.method === 'GET') {
+      const { data } = await supabase
+        .from('data_erasure_requests')
+        .select(REQUEST_COLUMNS)
+        .eq('employee_email', user.email)
+        .order('requested_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      return jsonResponse(req, { request: data });
+    }
+
+    if (req.method !== 'POST') {
+      return jsonResponse(req, { error: 'Method not allowed' }, 405);
+    }
+
+    if (action === 'request') {
+      const existing = await getOpenRequest(supabase, user.email);
+      if (existing) return jsonResponse(req, { request: existing });
+
+      const { data, error } = await supabase
+        .from('data_erasure_requests')
+        .insert({ employee_email: user.email, auth_user_id: user.id })
+        .select(REQUEST_COLUMNS)
+        .single();
+
+      if (error) throw error;
+      return jsonResponse(req, { request: data });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const existing = await getOpenRequest(supabase, user.email);
+
+    if (!existing || existing.id !== body.request_id) {
+      return jsonResponse(req, { error: 'No open erasure request' }, 404);
+    }
+
+    if (action === 'confirm') {
+      if (existing.status !== 'pending_confirmation') {
+        return jsonResponse(req, { request: existing });
+      }
+      if (String(body.confirm_email || '').trim().toLowerCase() !== user.email) {
+        return jsonResponse(req, { error: 'Email does not match' }, 400);
+      }
+
+      const now = new Date();
+      const { data, error } = await supabase
+        .from('data_erasure_requests')
+        .update({
+          status: 'scheduled',
+          confirmed_at: now.toISOString(),
+          scheduled_for: new Date(now.getTime() + ERASURE_GRACE_DAYS * 86_400_000).toISOString(),
+        })
+        .eq('id', existing.id)
+        .select(REQUEST_COLUMNS)
+        .single();
+
+      if (error) throw error;
+      return jsonResponse(req, { request: data });
+    }
+
+    if (action === 'cancel') {
+      const { data, error } = await supabase
+        .from('data_erasure_requests')
+        .update({ status: 'cancelled', cancelled_at: new Date().toISOString() })
+        .eq('id', existing.id)
+        .select(REQUEST_COLUMNS)
+        .single();
+
+      if (error) throw error;
+      return jsonResponse(req, { request: data });
+    }
+
+    return jsonResponse(req, { error: 'Unknown action' }, 400);
+  } catch (error) {
+    console.error('Data erasure error:', error);
+    return jsonResponse(req, { error: 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,235 @@
+// Personal Data Export Edge Function
+// Assembles everything Boon holds about the signed-in employee into a zip
+// (GDPR Art. 15 / CCPA right to know), downloaded from the portal Settings page.
+//
+// The zip contains:
+//   README.txt        what each file is
+//   data.json         every section below in one document
+//   csv/<name>.csv    one CSV per section (nested values are JSON-encoded)
+//
+// Always scoped to the caller's JWT email; there is no way to ask for
+// another employee's data.
+//
+// Actions:
+//   GET  — returns application/zip
+
+import { zipSync, strToU8 } from 'https://esm.sh/fflate@0.8.2';
+import { getSupabaseClient, exactIlike } from '../_shared/supabase.ts';
+
+const PAGE_SIZE = 1000;
+
+// A table this environment hasn't migrated yet; its section exports empty
+// rather than failing the whole export
+const MISSING_TABLE_CODES = ['42P01', 'PGRST205'];
+
+type Supabase = ReturnType<typeof getSupabaseClient>;
+type Row = Record<string, unknown>;
+
+interface ExportSection {
+  name: string;
+  description: string;
+  table: string;
+  // Column holding the employee's email, or 'employee_id' to match on
+  // employee_manager ids
+  key: string;
+  // Unique column to page by; defaults to id
+  orderBy?: string;
+}
+
+const EXPORT_SECTIONS: ExportSection[] = [
+  { name: 'sessions', description: 'Coaching sessions', table: 'session_tracking', key: 'employee_id' },
+  { name: 'survey_submissions', description: 'Survey submissions, including check-ins (checkpoints) and feedback', table: 'survey_submissions', key: 'email' },
+  { name: 'welcome_survey_baseline', description: 'Welcome survey (GROW)', table: 'welcome_survey_baseline', key: 'email' },
+  { name: 'welcome_survey_scale', description: 'Welcome survey (SCALE)', table: 'welcome_survey_scale', key: 'email' },
+  { name: 'competency_scores', description: 'Competency scores', table: 'competency_scores', key: 'email' },
+  { name: 'survey_competency_scores', description: 'Competency scores from surveys', table: 'survey_competency_scores', key: 'email' },
+  { name: 'coaching_wins', description: 'Coaching wins', table: 'coaching_wins', key: 'employee_id' },
+  { name: 'journal_entries', description: 'Journal entries (encrypted entries are exported as ciphertext in encrypted_body)', table: 'journal_entries', key: 'employee_email' },
+  { name: 'journal_encryption', description: 'Journal encryption salt and settings (never your passphrase)', table: 'journal_encryption_keys', key: 'employee_email', orderBy: 'employee_email' },
+  { name: 'goals', description: 'Goals', table: 'goals', key: 'employee_email' },
+  { name: 'goal_milestones', description: 'Goal milestones', table: 'goal_milestones', key: 'employee_email' },
+  { name: 'weekly_commitments', description: 'Weekly commitments', table: 'weekly_commitments', key: 'employee_email' },
+  { name: 'goal_checkins', description: 'Goal check-ins', table: 'goal_checkins', key: 'employee_email' },
+  { name: 'action_items', description: 'Action items', table: 'action_items', key: 'email' },
+  { name: 'practice_plans', description: 'Saved practice plans', table: 'practice_saved_plans', key: 'employee_email' },
+  { name: 'practice_evaluations', description: 'Practice evaluations', table: 'practice_evaluations', key: 'employee_email' },
+  { name: 'progress_report_shares', description: 'Progress reports you shared', table: 'progress_report_shares', key: 'employee_email' },
+  { name: 'nudges', description: 'Nudge history (Slack, Teams and email)', table: 'nudges', key: 'employee_email' },
+];
+
+function getAllowedOrigin(reqOrigin: string | null): string {
+  const portalUrl = Deno.env.get('PORTAL_URL') || 'http://localhost:5173';
+  const allowed = [portalUrl, 'https://my.boon-health.com', 'http://localhost:5173', 'http://localhost:3000'];
+  if (reqOrigin && allowed.includes(reqOrigin)) return reqOrigin;
+  return portalUrl;
+}
+
+function getCorsHeaders(req: Request) {
+  const origin = req.headers.get('origin');
+  return {
+    'Access-Control-Allow-Origin': getAllowedOrigin(origin),
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Credentials': 'true',
+    'Access-Control-Expose-Headers': 'content-disposition',
+  };
+}
+
+function jsonResponse(req: Request, body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json' },
+  });
+}
+
+async function getAuthedEmail(req: Request): Promise<string | null> {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) return null;
+
+  const supabase = getSupabaseClient();
+  const token = authHeader.replace('Bearer ', '');
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+
+  if (error || !user?.email) return null;
+  return user.email.toLowerCase();
+}
+
+async function fetchAllRows(
+  build: (from: number, to: number) => PromiseLike<{ data: Row[] | null; error: unknown }>
+): Promise<Row[]> {
+  const rows: Row[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await build(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+async function loadSection(
+  supabase: Supabase,
+  section: ExportSection,
+  email: string,
+  employeeIds: unknown[]
+): Promise<Row[]> {
+  const orderBy = section.orderBy || 'id';
+
+  try {
+    if (section.key === 'employee_id') {
+      if (employeeIds.length === 0) return [];
+      return await fetchAllRows((from, to) => supabase
+        .from(section.table)
+        .select('*')
+        .in('employee_id', employeeIds)
+        .order(orderBy)
+        .range(from, to));
+    }
+
+    return await fetchAllRows((from, to) => supabase
+      .from(section.table)
+      .select('*')
+      .ilike(section.key, exactIlike(email))
+      .order(orderBy)
+      .range(from, to));
+  } catch (error) {
+    const code = (error as { code?: string } | null)?.code;
+    if (code && MISSING_TABLE_CODES.includes(code)) {
+      console.warn(`Data export: ${section.table} not found, exporting ${section.name} empty`);
+      return [];
+    }
+    throw error;
+  }
+}
+
+function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: Row[]): string {
+  if (rows.length === 0) return '';
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const lines = [columns.map(toCsvCell).join(',')];
+  for (const row of rows) {
+    lines.push(columns.map((column) => toCsvCell(row[column])).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+function buildReadme(email: string, generatedAt: string, counts: Record<string, number>): string {
+  const lines = [
+    'Boon Health — personal data export',
+    '',
+    `Employee: ${email}`,
+    `Generated: ${generatedAt}`,
+    '',
+    'data.json has everything in one file. csv/ has one spreadsheet per section.',
+    '',
+    'Sections:',
+    `  profile — Your employee record (${counts.profile} rows)`,
+    ...EXPORT_SECTIONS.map((s) => `  ${s.name} — ${s.description} (${counts[s.name]} rows)`),
+    '',
+    'Questions or corrections: hello@boon-health.com',
+  ];
+  return lines.join('\n') + '\n';
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: getCorsHeaders(req) });
+  }
+
+  if (req.method !== 'GET') {
+    return jsonResponse(req, { error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const email = await getAuthedEmail(req);
+    if (!email) {
+      return jsonResponse(req, { error: 'Unauthorized' }, 401);
+    }
+
+    const supabase = getSupabaseClient();
+
+    const profile = await fetchAllRows((from, to) => supabase
+      .from('employee_manager')
+      .select('*')
+      .ilike('company_email', exactIlike(email))
+      .order('id')
+      .range(from, to));
+    const employeeIds = profile.map((row) => row.id);
+
+    const sections: Record<string, Row[]> = { profile };
+    for (const section of EXPORT_SECTIONS) {
+      sections[section.name] = await loadSection(supabase, section, email, employeeIds);
+    }
+
+    const generatedAt = new Date().toISOString();
+    const counts = Object.fromEntries(Object.entries(sections).map(([name, rows]) => [name, rows.length]));
+
+    const files: Record<string, Uint8Array> = {
+      'README.txt': strToU8(buildReadme(email, generatedAt, counts)),
+      'data.json': strToU8(JSON.stringify({ employee_email: email, generated_at: generatedAt, ...sections }, null, 2)),
+    };
+    for (const [name, rows] of Object.entries(sections)) {
+      files[`csv/${name}.csv`] = strToU8(toCsv(rows));
+    }
+
+    const zip = zipSync(files, { level: 6 });
+    const filename = `boon-data-export-${generatedAt.split('T')[0]}.zip`;
+
+    console.log(`Data export generated for ${email}: ${JSON.stringify(counts)}`);
+
+    return new Response(zip, {
+      headers: {
+        ...getCorsHeaders(req),
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Data export error:', error);
+    return jsonResponse(req, { error: 'Export failed' }, 500);
+  }
+});
@@ -0,0 +1,155 @@
+// Nudge Email Response Edge Function
+// Handles one-click response links from email nudges — the email
+// equivalent of slack-interactions / teams-interactions.
+//
+// Links carry a signed token (see _shared/nudge-links.ts). GET only renders a
+// confirmation page; nothing is recorded until the employee clicks Confirm,
+// which POSTs the token back. Corporate mail scanners (Outlook Safe Links,
+// Mimecast, ...) prefetch every GET link in a message and some run the page's
+// JavaScript, so the page must not submit itself.
+//
+//   GET  ?t=...   — confirmation page with a Confirm button
+//   POST t=...    — records the response and applies it
+//
+// The pages are HTML. The default <project>.supabase.co/functions domain
+// rewrites text/html responses to text/plain, so this function needs a custom
+// domain (supabase domains create) and NUDGE_EMAIL_RESPONSE_URL set to its
+// URL there; links fall back to the default domain when it isn't set.
+//
+// Deploy: supabase functions deploy nudge-email-response --no-verify-jwt
+
+import { getSupabaseClient } from '../_shared/supabase.ts';
+import { verifyNudgeResponseToken, type NudgeResponseClaims } from '../_shared/nudge-links.ts';
+
+const RESPONSE_MESSAGES: Record<string, string> = {
+  complete_action_item: 'Nice work completing your action item.',
+  action_done: 'Nice work completing your action item.',
+  action_in_progress: 'Got it — keep going!',
+  progress_great: 'Awesome! Keep that momentum going!',
+  progress_slow: 'Progress is progress! Every step counts.',
+  progress_stuck: "That's okay - bring this to your next session. Your coach can help.",
+  relevance_keep: 'Kept. It stays on your list.',
+  relevance_done: 'Nice work completing your action item.',
+  relevance_dismiss: "Removed. It's off your list.",
+};
+
+// Shown above the Confirm button so the employee knows what the click does
+const CONFIRM_PROMPTS: Record<string, string> = {
+  complete_action_item: 'Mark this action item as done?',
+  action_done: 'Mark this action item as done?',
+  action_in_progress: "Let us know you're still working on it?",
+  progress_great: "Let us know it's going great?",
+  progress_slow: "Let us know it's going slowly?",
+  progress_stuck: "Let us know you're stuck?",
+  relevance_keep: 'Keep this action item on your list?',
+  relevance_done: 'Mark this action item as done?',
+  relevance_dismiss: 'Remove this action item from your list?',
+};
+
+// Answers to the "still relevant?" prompt for an action item
+const RELEVANCE_UPDATES: Record<string, () => Record<string, unknown>> = {
+  relevance_keep: () => ({ last_confirmed_at: new Date().toISOString() }),
+  relevance_done: () => ({ status: 'completed', completed_at: new Date().toISOString() }),
+  relevance_dismiss: () => ({ status: 'dismissed' }),
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function htmlPage(title: string, body: string, status = 200): Response {
+  const html = `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>${escapeHtml(title)}</title></head><body style="margin:0;padding:48px 24px;background:#F7F8FA;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Helvetica,Arial,sans-serif;color:#1F2937"><div style="max-width:440px;margin:0 auto;background:#fff;border-radius:10px;padding:28px;text-align:center"><h1 style="font-size:20px;margin:0 0 12px">${escapeHtml(title)}</h1>${body}</div></body></html>`;
+  return new Response(html, {
+    status,
+    headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' },
+  });
+}
+
+function portalLink(): string {
+  const portalUrl = Deno.env.get('PORTAL_URL') || 'https://portal.booncoaching.com';
+  return `<p style="margin-top:20px"><a href="${escapeHtml(portalUrl)}" style="color:#466FF6">Open the Boon portal</a></p>`;
+}
+
+function invalidLinkPage(): Response {
+  return htmlPage(
+    'This link has expired',
+    `<p style="color:#555">Response links work for 30 days. You can still update things in the portal.</p>${portalLink()}`,
+    400
+  );
+}
+
+async function applyResponse(claims: NudgeResponseClaims): Promise<void> {
+  const supabase = getSupabaseClient();
+
+  if ((claims.response === 'complete_action_item' || claims.response === 'action_done') && claims.referenceId) {
+    // Scope to the recipient so a token can only ever touch their own items
+    const { error } = await supabase
+      .from('action_items')
+      .update({ status: 'completed', completed_at: new Date().toISOString() })
+      .eq('id', claims.referenceId)
+      .ilike('email', claims.employeeEmail);
+
+    if (error) {
+      console.error('Failed to mark action complete:', error);
+    }
+  }
+
+  const relevanceUpdate = RELEVANCE_UPDATES[claims.response];
+  if (relevanceUpdate && claims.referenceId) {
+    const { error } = await supabase
+      .from('action_items')
+      .update(relevanceUpdate())
+      .eq('id', claims.referenceId)
+      .eq('status', 'pending')
+      .ilike('email', claims.employeeEmail);
+
+    if (error) {
+      console.error('Failed to update action item relevance:', error);
+    }
+  }
+
+  const { error } = await supabase.rpc('record_nudge_response', {
+    p_message_ts: claims.messageId,
+    p_channel_id: claims.channelId,
+    p_response: claims.response,
+  });
+
+  if (error) {
+    console.error('Failed to record nudge response:', error);
+  }
+}
+
+Deno.serve(async (req) => {
+  try {
+    if (req.method === 'GET') {
+      const token = new URL(req.url).searchParams.get('t') || '';
+      const claims = await verifyNudgeResponseToken(token);
+      if (!claims) return invalidLinkPage();
+
+      return htmlPage(
+        'Confirm your response',
+        `<p style="color:#555">${escapeHtml(CONFIRM_PROMPTS[claims.response] || 'Record your response?')}</p><form method="POST"><input type="hidden" name="t" value="${escapeHtml(token)}"><button type="submit" style="padding:10px 18px;border:none;border-radius:6px;background:#466FF6;color:#fff;font-size:15px;cursor:pointer">Confirm</button></form>`
+      );
+    }
+
+    if (req.method === 'POST') {
+      const form = await req.formData();
+      const claims = await verifyNudgeResponseToken(String(form.get('t') || ''));
+      if (!claims) return invalidLinkPage();
+
+      await applyResponse(claims);
+
+      const message = RESPONSE_MESSAGES[claims.response] || 'Your response has been recorded.';
+      return htmlPage('Thanks for checking in!', `<p style="color:#555">${escapeHtml(message)}</p>${portalLink()}`);
+    }
+
+    return new Response('Method not allowed', { status: 405 });
+  } catch (error) {
+    console.error('Nudge email response error:', error);
+    return htmlPage('Something went wrong', `<p style="color:#555">Please try again later.</p>${portalLink()}`, 500);
+  }
+});
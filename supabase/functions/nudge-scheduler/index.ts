@@ -1,10 +1,52 @@
-// Nudge Scheduler Edge Function (Standalone)
-// Runs on a cron schedule to send coaching nudges via Slack or Microsoft Teams
+// Nudge Scheduler Edge Function
+// Runs on a cron schedule to send coaching nudges via Slack, Microsoft Teams or email
+//
+// Slack/Teams helpers are inlined; email rendering, transport and signed
+// response links live in _shared so nudge-email-response can verify them.
+//
+// Each run prefetches every enabled connection and Slack installation once,
+// then each phase bulk-loads its candidates, dedupe set (nudges already
+// sent) and names, and sends with bounded concurrency, spaced out per
+// workspace. The response reports counts and timing per phase.
+//
+// Employees on nudge_frequency 'smart' get no fixed digest; the smart phase
+// asks _shared/smart-nudge.ts whether and what to send each day.
+//
+// Action item due-date reminders go to everyone not on 'none', whatever
+// their digest frequency; _shared/action-reminders.ts decides which are due.
+// 'smart' employees get at most one, and none within the smart policy's
+// no-stacking window.
+// ACTION_STILL_RELEVANT_DAYS / ACTION_AUTO_DISMISS_DAYS tune the "still
+// relevant?" prompt (0 turns either off).
 //
 // Deploy with cron: supabase functions deploy nudge-scheduler --schedule "0 * * * *"
 // (Runs every hour to catch users in their preferred time windows)
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { getEmailTransport, renderEmailFromBlocks, type EmailTransport } from '../_shared/email.ts';
+import { buildNudgeResponseUrl, createNudgeResponseToken } from '../_shared/nudge-links.ts';
+import { getDeliveryBlock, type DeliveryPreferences } from '../_shared/nudge-window.ts';
+import { decideSmartNudge, MIN_HOURS_SINCE_ANY_NUDGE, type SmartNudgeHistoryItem } from '../_shared/smart-nudge.ts';
+import {
+  computeStreaks,
+  getCelebrationMilestone,
+  localDateOf,
+  streakMilestoneReference,
+  STREAK_KINDS,
+  STREAK_LOOKBACK_WEEKS,
+  type StreakKind,
+} from '../_shared/streaks.ts';
+import {
+  ACTION_REMINDER_NUDGE_TYPES,
+  actionIdOfReference,
+  compareActionReminders,
+  DEFAULT_ACTION_REMINDER_SETTINGS,
+  getActionReminder,
+  shouldAutoDismiss,
+  type ActionReminder,
+  type ActionReminderSettings,
+  type ReminderActionItem,
+} from '../_shared/action-reminders.ts';
 
 // Inline helper: create Supabase client
 function getSupabaseClient() {
@@ -14,24 +56,44 @@ function getSupabaseClient() {
   );
 }
 
+// Retries after an HTTP 429 before giving up on a message
+const MAX_RATE_LIMIT_RETRIES = 2;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Retry-After is in seconds for both Slack and Bot Framework
+function retryAfterMs(response: Response): number {
+  const seconds = parseInt(response.headers.get('Retry-After') || '1', 10);
+  return (Number.isFinite(seconds) ? seconds : 1) * 1000;
+}
+
 // Inline helper: send Slack message
 async function sendSlackMessage(
   botToken: string,
   options: { channel: string; blocks: unknown[]; text: string }
 ): Promise<{ ok: boolean; ts?: string; error?: string }> {
-  const response = await fetch('https://slack.com/api/chat.postMessage', {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${botToken}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      channel: options.channel,
-      blocks: options.blocks,
-      text: options.text,
-    }),
-  });
-  return response.json();
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch('https://slack.com/api/chat.postMessage', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${botToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        channel: options.channel,
+        blocks: options.blocks,
+        text: options.text,
+      }),
+    });
+
+    if (response.status === 429 && attempt < MAX_RATE_LIMIT_RETRIES) {
+      await sleep(retryAfterMs(response));
+      continue;
+    }
+    return response.json();
+  }
 }
 
 // Inline helper: send Teams message via Bot Framework
@@ -43,22 +105,31 @@ async function sendTeamsMessage(
 ): Promise<{ ok: boolean; activityId?: string; error?: string }> {
   const url = `${serviceUrl.replace(/\/$/, '')}/v3/conversations/${conversationId}/activities`;
 
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      type: 'message',
-      attachments: [
-        {
-          contentType: 'application/vnd.microsoft.card.adaptive',
-          content: card,
-        },
-      ],
-    }),
-  });
+  let response: Response;
+  for (let attempt = 0; ; attempt++) {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        type: 'message',
+        attachments: [
+          {
+            contentType: 'application/vnd.microsoft.card.adaptive',
+            content: card,
+          },
+        ],
+      }),
+    });
+
+    if (response.status === 429 && attempt < MAX_RATE_LIMIT_RETRIES) {
+      await sleep(retryAfterMs(response));
+      continue;
+    }
+    break;
+  }
 
   if (!response.ok) {
     const errorText = await response.text();
@@ -172,12 +243,13 @@ function buildActionItemBlocks(
   ];
 
   for (const action of pendingActions) {
+    const due = action.due_date ? `  _due ${action.due_date}_` : '';
     blocks.push({
       type: 'section',
       block_id: `action_${action.id}`,
       text: {
         type: 'mrkdwn',
-        text: `☐ ${action.action_text}`,
+        text: `☐ ${action.action_text}${due}`,
       },
       accessory: {
         type: 'button',
@@ -240,6 +312,9 @@ function buildTeamsActionItemsCard(
               text: action.action_text,
               wrap: true,
             },
+            ...(action.due_date
+              ? [{ type: 'TextBlock', text: `Due ${action.due_date}`, size: 'Small', isSubtle: true, spacing: 'None' }]
+              : []),
           ],
         },
         {
@@ -293,6 +368,7 @@ interface PendingActionItem {
   id: string;
   action_text: string;
   coach_name: string | null;
+  due_date: string | null;
   created_at: string;
 }
 
@@ -302,9 +378,11 @@ interface NudgeTemplate {
   teams_blocks: Record<string, unknown> | null;
 }
 
-// Unified connection info from get_employee_messaging_connection RPC
-interface MessagingConnection {
-  channel: 'slack' | 'teams';
+// Unified connection info from get_employee_messaging_connection RPC.
+// For email, user_id and dm_channel_id are both the recipient address.
+// Quiet hours / working days / holidays / snooze come from DeliveryPreferences.
+interface MessagingConnection extends DeliveryPreferences {
+  channel: 'slack' | 'teams' | 'email';
   user_id: string;
   dm_channel_id: string;
   service_url: string | null;
@@ -316,9 +394,114 @@ interface MessagingConnection {
   bot_token: string | null;
 }
 
+// Row shapes for the bulk queries below. The connection tables share the
+// scheduling columns; session rows carry their employee via an inner join,
+// which PostgREST returns as an object (the untyped client infers an array,
+// hence the .returns<>() on those queries).
+interface NudgeSettingsRow extends DeliveryPreferences {
+  employee_email: string;
+  nudge_frequency: string;
+  preferred_time: string;
+  timezone: string;
+}
+
+interface TeamsConnectionRow extends NudgeSettingsRow {
+  teams_user_id: string;
+  conversation_id: string;
+  tenant_id: string;
+  service_url: string;
+}
+
+interface SlackConnectionRow extends NudgeSettingsRow {
+  slack_user_id: string;
+  slack_dm_channel_id: string;
+  slack_team_id: string;
+}
+
+interface SessionEmployee {
+  company_email: string | null;
+  first_name: string | null;
+}
+
+interface NudgeSessionRow {
+  id: string;
+  employee_id: string;
+  coach_name: string | null;
+  employee_manager: SessionEmployee;
+}
+
+interface UpcomingSessionRow {
+  id: string;
+  session_date: string;
+  employee_manager: Pick<SessionEmployee, 'company_email'>;
+}
+
+interface CommitmentRow {
+  id: string;
+  employee_email: string;
+  commitment_text: string;
+  goal_id: string | null;
+}
+
+// Set per run in the handler; null when no email transport is configured
+let emailTransport: EmailTransport | null = null;
+
+// Bot Framework tokens last an hour, so one fetch per tenant per run is
+// enough. Cleared at the start of each run.
+const teamsTokenCache = new Map<string, Promise<string | null>>();
+
+function getCachedBotAccessToken(clientId: string, clientSecret: string, tenantId: string): Promise<string | null> {
+  let token = teamsTokenCache.get(tenantId);
+  if (!token) {
+    token = getBotAccessToken(clientId, clientSecret, tenantId);
+    teamsTokenCache.set(tenantId, token);
+  }
+  return token;
+}
+
 /**
- * Send a nudge to the appropriate channel (Slack or Teams).
- * Returns the message ID (Slack ts or Teams activity ID).
+ * Send a nudge by email, rendered from the Slack blocks.
+ * The message ID is generated up front because the response links embed it.
+ */
+async function sendEmailNudge(
+  conn: MessagingConnection,
+  slackBlocks: unknown[],
+  subject: string
+): Promise<{ ok: boolean; messageId?: string; channelId: string }> {
+  if (!emailTransport) {
+    console.error('Email nudge skipped: no email transport configured');
+    return { ok: false, channelId: conn.dm_channel_id };
+  }
+
+  const messageId = crypto.randomUUID();
+  const portalUrl = Deno.env.get('PORTAL_URL') || 'https://portal.booncoaching.com';
+
+  const { html, text } = await renderEmailFromBlocks(slackBlocks, {
+    settingsUrl: `${portalUrl}/settings`,
+    resolveResponseLink: async (actionId, referenceId) => {
+      const token = await createNudgeResponseToken({
+        messageId,
+        channelId: conn.dm_channel_id,
+        employeeEmail: conn.user_id,
+        response: actionId,
+        referenceId,
+      });
+      return buildNudgeResponseUrl(token);
+    },
+  });
+
+  const result = await emailTransport.send({ to: conn.dm_channel_id, subject, html, text });
+  if (!result.ok) {
+    console.error(`Email send failed (${emailTransport.name}):`, result.error);
+  }
+
+  return { ok: result.ok, messageId, channelId: conn.dm_channel_id };
+}
+
+/**
+ * Send a nudge to the appropriate channel (Slack, Teams or email).
+ * Returns the message ID (Slack ts, Teams activity ID or generated email ID).
+ * Email reuses the Slack blocks and sends fallbackText as the subject.
  */
 async function sendNudge(
   conn: MessagingConnection,
@@ -326,8 +509,9 @@ async function sendNudge(
   teamsCard: Record<string, unknown>,
   fallbackText: string
 ): Promise<{ ok: boolean; messageId?: string; channelId: string }> {
-  if (conn.channel === 'teams') {
-    // Get a fresh bot token for Teams
+  if (conn.channel === 'email') {
+    return sendEmailNudge(conn, slackBlocks, fallbackText);
+  } else if (conn.channel === 'teams') {
     const clientId = Deno.env.get('TEAMS_CLIENT_ID');
     const clientSecret = Deno.env.get('TEAMS_CLIENT_SECRET');
 
@@ -336,7 +520,7 @@ async function sendNudge(
     }
 
     const appTenantId = Deno.env.get('TEAMS_APP_TENANT_ID') || conn.team_or_tenant_id;
-    const botToken = await getBotAccessToken(clientId, clientSecret, appTenantId);
+    const botToken = await getCachedBotAccessToken(clientId, clientSecret, appTenantId);
     if (!botToken) {
       return { ok: false, channelId: conn.dm_channel_id };
     }
@@ -367,708 +551,1506 @@ async function sendNudge(
   }
 }
 
-Deno.serve(async (req) => {
-  // Allow manual trigger via POST or scheduled via GET
-  if (req.method !== 'POST' && req.method !== 'GET') {
-    return new Response('Method not allowed', { status: 405 });
+// ============================================
+// Batching, concurrency and rate limiting
+// ============================================
+
+type SupabaseClient = ReturnType<typeof getSupabaseClient>;
+
+// PostgREST caps a response at 1000 rows; anything unbounded is paged
+const PAGE_SIZE = 1000;
+// Keeps .in() filters well under URL length limits
+const IN_FILTER_CHUNK = 200;
+// Sends in flight at once, across all workspaces
+const SEND_CONCURRENCY = parseInt(Deno.env.get('NUDGE_SEND_CONCURRENCY') || '10', 10);
+// Minimum gap between sends to the same Slack workspace / Teams tenant / SMTP relay
+const WORKSPACE_SEND_INTERVAL_MS = parseInt(Deno.env.get('NUDGE_WORKSPACE_INTERVAL_MS') || '100', 10);
+// No new sends are started after this, leaving headroom under the edge
+// function wall-clock limit to record what was sent
+const TIME_BUDGET_MS = parseInt(Deno.env.get('NUDGE_TIME_BUDGET_MS') || '120000', 10);
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
   }
+  return chunks;
+}
 
-  const startTime = Date.now();
-  const results = {
-    daily_digests_sent: 0,
-    weekly_digests_sent: 0,
-    goal_checkins_sent: 0,
-    goal_commitment_checkins_sent: 0,
-    session_preps_sent: 0,
-    errors: 0,
+/**
+ * Page through a query with .range() until a short page comes back.
+ * The query must have a stable order.
+ */
+async function fetchAllRows<T>(
+  query: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * fetchAllRows over an .in() filter split into chunks
+ */
+async function fetchAllIn<T>(
+  values: string[],
+  query: (values: string[], from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (const part of chunk([...new Set(values)], IN_FILTER_CHUNK)) {
+    rows.push(...await fetchAllRows<T>((from, to) => query(part, from, to)));
+  }
+  return rows;
+}
+
+/**
+ * Run `worker` over `items` with at most `limit` in flight
+ */
+async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(runners);
+}
+
+/**
+ * Spaces out sends per key. Each caller reserves the next free slot for its
+ * key, so concurrent workers queue up instead of bursting one workspace.
+ */
+function createRateLimiter(intervalMs: number) {
+  const nextSlot = new Map<string, number>();
+  return {
+    async wait(key: string): Promise<void> {
+      const now = Date.now();
+      const slot = Math.max(now, nextSlot.get(key) ?? 0);
+      nextSlot.set(key, slot + intervalMs);
+      if (slot > now) await sleep(slot - now);
+    },
   };
+}
 
-  try {
-    const supabase = getSupabaseClient();
-    const today = new Date();
-    const dayOfWeek = today.getDay(); // 0 = Sunday, 1 = Monday
+const sendLimiter = createRateLimiter(WORKSPACE_SEND_INTERVAL_MS);
 
-    // Get nudge templates (now including teams_blocks)
-    const { data: templates } = await supabase
-      .from('nudge_templates')
-      .select('nudge_type, message_blocks, teams_blocks')
-      .eq('is_default', true);
+function workspaceKey(conn: MessagingConnection): string {
+  return conn.channel === 'email' ? 'email' : `${conn.channel}:${conn.team_or_tenant_id}`;
+}
 
-    const templateMap = new Map<string, NudgeTemplate>();
-    templates?.forEach((t: NudgeTemplate) => templateMap.set(t.nudge_type, t));
+// ============================================
+// Bulk prefetch
+// ============================================
 
-    // ============================================
-    // 1. DAILY ACTION ITEM DIGEST
-    // Query all connected users (both Slack and Teams) with daily frequency
-    // ============================================
+// Same columns on all three connection tables
+const DELIVERY_WINDOW_COLUMNS = 'quiet_hours_start, quiet_hours_end, working_days, holidays, snoozed_until';
 
-    // Get Slack daily users
-    const { data: slackDailyUsers } = await supabase
-      .from('employee_slack_connections')
-      .select('employee_email, slack_user_id, slack_dm_channel_id, slack_team_id, nudge_frequency, preferred_time, timezone')
-      .eq('nudge_enabled', true)
-      .eq('nudge_frequency', 'daily');
+function deliveryWindowOf(row: DeliveryPreferences): Omit<DeliveryPreferences, 'preferred_time' | 'timezone'> {
+  return {
+    quiet_hours_start: row.quiet_hours_start ?? null,
+    quiet_hours_end: row.quiet_hours_end ?? null,
+    working_days: row.working_days ?? null,
+    holidays: row.holidays ?? null,
+    snoozed_until: row.snoozed_until ?? null,
+  };
+}
 
-    // Get Teams daily users
-    const { data: teamsDailyUsers } = await supabase
+/**
+ * Load every enabled connection, keyed by lowercased email.
+ * Same precedence as get_employee_messaging_connection: Teams, then Slack
+ * (only if its workspace is still installed), then email.
+ */
+async function loadConnections(supabase: SupabaseClient): Promise<Map<string, MessagingConnection>> {
+  const [teamsRows, slackRows, emailRows, installations] = await Promise.all([
+    fetchAllRows<TeamsConnectionRow>((from, to) => supabase
       .from('employee_teams_connections')
-      .select('employee_email, teams_user_id, conversation_id, tenant_id, service_url, nudge_frequency, preferred_time, timezone')
+      .select(`employee_email, teams_user_id, conversation_id, tenant_id, service_url, nudge_frequency, preferred_time, timezone, ${DELIVERY_WINDOW_COLUMNS}`)
       .eq('nudge_enabled', true)
-      .eq('nudge_frequency', 'daily');
-
-    // Normalize into unified connections
-    const dailyConnections: { email: string; conn: MessagingConnection }[] = [];
-
-    if (slackDailyUsers) {
-      for (const u of slackDailyUsers) {
-        // Fetch bot token for this Slack team
-        const { data: inst } = await supabase
-          .from('slack_installations')
-          .select('bot_token')
-          .eq('team_id', u.slack_team_id)
-          .single();
-
-        dailyConnections.push({
-          email: u.employee_email,
-          conn: {
-            channel: 'slack',
-            user_id: u.slack_user_id,
-            dm_channel_id: u.slack_dm_channel_id,
-            service_url: null,
-            nudge_enabled: true,
-            nudge_frequency: u.nudge_frequency,
-            preferred_time: u.preferred_time,
-            timezone: u.timezone,
-            team_or_tenant_id: u.slack_team_id,
-            bot_token: inst?.bot_token || null,
-          },
-        });
+      .order('id')
+      .range(from, to)),
+    fetchAllRows<SlackConnectionRow>((from, to) => supabase
+      .from('employee_slack_connections')
+      .select(`employee_email, slack_user_id, slack_dm_channel_id, slack_team_id, nudge_frequency, preferred_time, timezone, ${DELIVERY_WINDOW_COLUMNS}`)
+      .eq('nudge_enabled', true)
+      .order('id')
+      .range(from, to)),
+    fetchAllRows<NudgeSettingsRow>((from, to) => supabase
+      .from('employee_email_nudge_settings')
+      .select(`employee_email, nudge_frequency, preferred_time, timezone, ${DELIVERY_WINDOW_COLUMNS}`)
+      .eq('nudge_enabled', true)
+      .order('id')
+      .range(from, to)),
+    fetchAllRows<{ team_id: string; bot_token: string | null }>((from, to) => supabase
+      .from('slack_installations')
+      .select('team_id, bot_token')
+      .order('team_id')
+      .range(from, to)),
+  ]);
+
+  const botTokens = new Map<string, string>();
+  for (const inst of installations) {
+    if (inst.bot_token) botTokens.set(inst.team_id, inst.bot_token);
+  }
+
+  const connections = new Map<string, MessagingConnection>();
+
+  for (const u of teamsRows) {
+    const email = u.employee_email.toLowerCase();
+    if (connections.has(email)) continue;
+    connections.set(email, {
+      channel: 'teams',
+      user_id: u.teams_user_id,
+      dm_channel_id: u.conversation_id,
+      service_url: u.service_url,
+      nudge_enabled: true,
+      nudge_frequency: u.nudge_frequency,
+      preferred_time: u.preferred_time,
+      timezone: u.timezone,
+      team_or_tenant_id: u.tenant_id,
+      bot_token: null,
+      ...deliveryWindowOf(u),
+    });
+  }
+
+  for (const u of slackRows) {
+    const email = u.employee_email.toLowerCase();
+    const botToken = botTokens.get(u.slack_team_id);
+    if (connections.has(email) || !botToken) continue;
+    connections.set(email, {
+      channel: 'slack',
+      user_id: u.slack_user_id,
+      dm_channel_id: u.slack_dm_channel_id,
+      service_url: null,
+      nudge_enabled: true,
+      nudge_frequency: u.nudge_frequency,
+      preferred_time: u.preferred_time,
+      timezone: u.timezone,
+      team_or_tenant_id: u.slack_team_id,
+      bot_token: botToken,
+      ...deliveryWindowOf(u),
+    });
+  }
+
+  for (const u of emailRows) {
+    const email = u.employee_email.toLowerCase();
+    if (connections.has(email)) continue;
+    connections.set(email, {
+      channel: 'email',
+      user_id: email,
+      dm_channel_id: email,
+      service_url: null,
+      nudge_enabled: true,
+      nudge_frequency: u.nudge_frequency,
+      preferred_time: u.preferred_time,
+      timezone: u.timezone,
+      team_or_tenant_id: '',
+      bot_token: null,
+      ...deliveryWindowOf(u),
+    });
+  }
+
+  return connections;
+}
+
+/**
+ * Emails that already got `nudgeType` since `since`
+ */
+async function loadNudgedEmails(
+  supabase: SupabaseClient,
+  nudgeType: string,
+  emails: string[],
+  since: Date
+): Promise<Set<string>> {
+  const rows = await fetchAllIn<{ employee_email: string }>(emails, (part, from, to) => supabase
+    .from('nudges')
+    .select('employee_email')
+    .eq('nudge_type', nudgeType)
+    .gte('sent_at', since.toISOString())
+    .in('employee_email', part)
+    .order('id')
+    .range(from, to));
+  return new Set(rows.map((r) => r.employee_email.toLowerCase()));
+}
+
+/**
+ * Emails that got any nudge in the last `hours`
+ */
+async function loadRecentlyNudgedEmails(
+  supabase: SupabaseClient,
+  emails: string[],
+  hours: number
+): Promise<Set<string>> {
+  const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+  const rows = await fetchAllIn<{ employee_email: string }>(emails, (part, from, to) => supabase
+    .from('nudges')
+    .select('employee_email')
+    .gte('sent_at', since.toISOString())
+    .in('employee_email', part)
+    .order('id')
+    .range(from, to));
+  return new Set(rows.map((r) => r.employee_email.toLowerCase()));
+}
+
+/**
+ * Reference IDs (session, commitment) that already got `nudgeType`
+ */
+async function loadNudgedReferences(
+  supabase: SupabaseClient,
+  nudgeType: string,
+  referenceIds: string[]
+): Promise<Set<string>> {
+  const rows = await fetchAllIn<{ reference_id: string }>(referenceIds, (part, from, to) => supabase
+    .from('nudges')
+    .select('reference_id')
+    .eq('nudge_type', nudgeType)
+    .in('reference_id', part)
+    .order('id')
+    .range(from, to));
+  return new Set(rows.map((r) => String(r.reference_id)));
+}
+
+/**
+ * Up to 5 most recent pending action items per email, coach-set and
+ * employee-added alike. The next occurrence of a recurring item exists as
+ * soon as the last one is done, so it's held back until it's due.
+ */
+async function loadPendingActions(
+  supabase: SupabaseClient,
+  emails: string[]
+): Promise<Map<string, PendingActionItem[]>> {
+  const today = new Date().toISOString().split('T')[0];
+  // action_items.email is kept lowercase by trigger, so .in() can match exactly
+  const rows = await fetchAllIn<PendingActionItem & { email: string }>(emails, (part, from, to) => supabase
+    .from('action_items')
+    .select('id, email, action_text, coach_name, due_date, created_at')
+    .in('email', part)
+    .eq('status', 'pending')
+    .or(`recurrence.is.null,due_date.lte.${today}`)
+    .order('created_at', { ascending: false })
+    .order('id')
+    .range(from, to));
+
+  const byEmail = new Map<string, PendingActionItem[]>();
+  for (const { email, ...item } of rows) {
+    const items = byEmail.get(email) || [];
+    if (items.length < 5) items.push(item);
+    byEmail.set(email, items);
+  }
+  return byEmail;
+}
+
+async function loadFirstNames(
+  supabase: SupabaseClient,
+  emails: string[]
+): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+  for (const part of chunk([...new Set(emails)], IN_FILTER_CHUNK)) {
+    const { data, error } = await supabase.rpc('get_employee_first_names', { lookup_emails: part });
+    if (error) throw error;
+    for (const row of data || []) {
+      if (row.first_name) names.set(row.email, row.first_name);
+    }
+  }
+  return names;
+}
+
+// ============================================
+// Phase dispatch
+// ============================================
+
+interface NudgeJob {
+  email: string;
+  conn: MessagingConnection;
+  nudgeType: string;
+  referenceId: string | null;
+  referenceType: string;
+  slackBlocks: unknown[];
+  teamsCard: Record<string, unknown>;
+  fallbackText: string;
+}
+
+interface PhaseStats {
+  candidates: number;   // rows the phase looked at
+  due: number;          // in their send window and not already nudged
+  sent: number;
+  errors: number;
+  deferred: number;     // skipped because the run hit its time budget
+  duration_ms: number;
+}
+
+function emptyPhaseStats(): PhaseStats {
+  return { candidates: 0, due: 0, sent: 0, errors: 0, deferred: 0, duration_ms: 0 };
+}
+
+/**
+ * Send a phase's jobs with bounded concurrency and per-workspace spacing,
+ * recording each nudge as soon as it's delivered. Recording as we go means a
+ * run that's killed mid-phase doesn't lose track of messages already sent
+ * (and re-send them next run).
+ */
+async function dispatchNudges(
+  supabase: SupabaseClient,
+  jobs: NudgeJob[],
+  stats: PhaseStats,
+  runStartedAt: number
+): Promise<void> {
+  await runWithConcurrency(jobs, SEND_CONCURRENCY, async (job) => {
+    if (Date.now() - runStartedAt > TIME_BUDGET_MS) {
+      stats.deferred++;
+      return;
+    }
+
+    try {
+      await sendLimiter.wait(workspaceKey(job.conn));
+      const result = await sendNudge(job.conn, job.slackBlocks, job.teamsCard, job.fallbackText);
+
+      if (!result.ok || !result.messageId) {
+        stats.errors++;
+        return;
+      }
+      stats.sent++;
+
+      const { error } = await supabase.from('nudges').insert({
+        employee_email: job.email,
+        nudge_type: job.nudgeType,
+        reference_id: job.referenceId,
+        reference_type: job.referenceType,
+        message_id: result.messageId,
+        channel_id: result.channelId,
+        channel: job.conn.channel,
+      });
+      if (error) {
+        // The message is already out; this employee may get a repeat next run
+        console.error(`Failed to record ${job.nudgeType} for ${job.email}:`, error);
       }
+    } catch (error) {
+      console.error(`Error sending ${job.nudgeType} via ${job.conn.channel} to ${job.email}:`, error);
+      stats.errors++;
     }
+  });
+}
+
+async function runPhase(
+  supabase: SupabaseClient,
+  name: string,
+  runStartedAt: number,
+  buildJobs: (stats: PhaseStats) => Promise<NudgeJob[]>
+): Promise<PhaseStats> {
+  const stats = emptyPhaseStats();
+  const phaseStartedAt = Date.now();
+
+  try {
+    const jobs = await buildJobs(stats);
+    stats.due = jobs.length;
+    if (jobs.length > 0) {
+      console.log(`${name}: sending ${jobs.length} of ${stats.candidates} candidates`);
+      await dispatchNudges(supabase, jobs, stats, runStartedAt);
+    }
+  } catch (error) {
+    console.error(`Nudge phase ${name} failed:`, error);
+    stats.errors++;
+  }
+
+  stats.duration_ms = Date.now() - phaseStartedAt;
+  return stats;
+}
+
+// ============================================
+// Phases
+// ============================================
+
+// Current week's Monday (weekly_commitments.week_start)
+function getCurrentWeekStart(): string {
+  const today = new Date();
+  const dayOfWeek = today.getDay();
+  const mondayOffset = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
+  const monday = new Date(today);
+  monday.setDate(today.getDate() - mondayOffset);
+  return monday.toISOString().split('T')[0];
+}
+
+/**
+ * Daily / weekly action item digests
+ */
+async function buildDigestJobs(
+  supabase: SupabaseClient,
+  connections: Map<string, MessagingConnection>,
+  frequency: 'daily' | 'weekly',
+  stats: PhaseStats
+): Promise<NudgeJob[]> {
+  const nudgeType = `${frequency}_digest`;
+  const candidates = [...connections].filter(([, conn]) => conn.nudge_frequency === frequency);
+  stats.candidates = candidates.length;
+
+  const due = candidates.filter(([, conn]) => isAppropriateTime(conn));
+  if (due.length === 0) return [];
+
+  // Daily dedupes against today, weekly against the week (from Sunday)
+  const since = new Date();
+  if (frequency === 'weekly') since.setDate(since.getDate() - since.getDay());
+  since.setHours(0, 0, 0, 0);
+
+  const emails = due.map(([email]) => email);
+  const [alreadyNudged, pendingByEmail, firstNames] = await Promise.all([
+    loadNudgedEmails(supabase, nudgeType, emails, since),
+    loadPendingActions(supabase, emails),
+    loadFirstNames(supabase, emails),
+  ]);
+
+  const portalUrl = Deno.env.get('PORTAL_URL') || 'https://portal.booncoaching.com';
+  const jobs: NudgeJob[] = [];
+
+  for (const [email, conn] of due) {
+    if (alreadyNudged.has(email)) continue;
+
+    const pendingActions = pendingByEmail.get(email);
+    if (!pendingActions || pendingActions.length === 0) continue;
+
+    const firstName = firstNames.get(email) || 'there';
+    jobs.push({
+      email,
+      conn,
+      nudgeType,
+      referenceId: null,
+      referenceType: 'action_items',
+      slackBlocks: buildActionItemBlocks(firstName, conn.timezone || 'America/New_York', pendingActions, portalUrl),
+      teamsCard: buildTeamsActionItemsCard(firstName, pendingActions, portalUrl),
+      fallbackText: frequency === 'daily'
+        ? `You have ${pendingActions.length} pending coaching action items`
+        : `Weekly coaching digest: ${pendingActions.length} action items`,
+    });
+  }
+
+  return jobs;
+}
+
+/**
+ * Goal check-ins, 3 days after a completed session
+ */
+async function buildGoalCheckinJobs(
+  supabase: SupabaseClient,
+  connections: Map<string, MessagingConnection>,
+  templateMap: Map<string, NudgeTemplate>,
+  stats: PhaseStats
+): Promise<NudgeJob[]> {
+  const threeDaysAgo = new Date();
+  threeDaysAgo.setDate(threeDaysAgo.getDate() - 3);
+  const fourDaysAgo = new Date();
+  fourDaysAgo.setDate(fourDaysAgo.getDate() - 4);
+
+  const recentSessions = await fetchAllRows<NudgeSessionRow & { goals: string }>((from, to) => supabase
+    .from('session_tracking')
+    .select(`
+      id,
+      employee_id,
+      goals,
+      coach_name,
+      employee_manager!inner(company_email, first_name)
+    `)
+    .eq('status', 'Completed')
+    .gte('session_date', fourDaysAgo.toISOString().split('T')[0])
+    .lte('session_date', threeDaysAgo.toISOString().split('T')[0])
+    .not('goals', 'is', null)
+    .order('id')
+    .range(from, to)
+    .returns<(NudgeSessionRow & { goals: string })[]>());
+  stats.candidates = recentSessions.length;
+
+  const due = recentSessions.flatMap((session) => {
+    const email = session.employee_manager?.company_email?.toLowerCase();
+    const conn = email ? connections.get(email) : undefined;
+    if (!email || !conn || !isAppropriateTime(conn)) return [];
+    return [{ session, email, conn }];
+  });
+  if (due.length === 0) return [];
+
+  const alreadyNudged = await loadNudgedReferences(supabase, 'goal_checkin', due.map((d) => String(d.session.id)));
+  const template = templateMap.get('goal_checkin');
+  const jobs: NudgeJob[] = [];
+
+  for (const { session, email, conn } of due) {
+    if (alreadyNudged.has(String(session.id))) continue;
+
+    const employeeData = session.employee_manager;
+    const templateVars = {
+      first_name: employeeData.first_name,
+      coach_name: session.coach_name || 'your coach',
+      goals: session.goals,
+      session_id: String(session.id),
+    };
 
-    if (teamsDailyUsers) {
-      for (const u of teamsDailyUsers) {
-        dailyConnections.push({
-          email: u.employee_email,
-          conn: {
-            channel: 'teams',
-            user_id: u.teams_user_id,
-            dm_channel_id: u.conversation_id,
-            service_url: u.service_url,
-            nudge_enabled: true,
-            nudge_frequency: u.nudge_frequency,
-            preferred_time: u.preferred_time,
-            timezone: u.timezone,
-            team_or_tenant_id: u.tenant_id,
-            bot_token: null,
+    // Build platform-specific content
+    let slackBlocks;
+    if (template) {
+      slackBlocks = renderBlocks(template.message_blocks.blocks, templateVars);
+    } else {
+      slackBlocks = [
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: `*Hey ${employeeData.first_name}!* :wave:\n\nA few days ago you set this goal with ${session.coach_name || 'your coach'}:\n\n_"${session.goals}"_\n\nHow's it going?`,
           },
-        });
-      }
+        },
+      ];
     }
 
-    if (dailyConnections.length > 0) {
-      console.log(`Processing ${dailyConnections.length} daily digest users (Slack + Teams)`);
-
-      for (const { email, conn } of dailyConnections) {
-        try {
-          if (!isAppropriateTime(conn.preferred_time, conn.timezone)) continue;
-
-          // Check if we already sent a daily digest today
-          const todayStart = new Date();
-          todayStart.setHours(0, 0, 0, 0);
-
-          const { data: existingNudge } = await supabase
-            .from('nudges')
-            .select('id')
-            .eq('employee_email', email.toLowerCase())
-            .eq('nudge_type', 'daily_digest')
-            .gte('sent_at', todayStart.toISOString())
-            .limit(1);
-
-          if (existingNudge && existingNudge.length > 0) continue;
-
-          // Get pending action items
-          const { data: pendingActions } = await supabase
-            .from('action_items')
-            .select('id, action_text, coach_name, created_at')
-            .ilike('email', email)
-            .eq('status', 'pending')
-            .order('created_at', { ascending: false })
-            .limit(5);
-
-          if (!pendingActions || pendingActions.length === 0) continue;
-
-          // Get first name
-          const { data: employee } = await supabase
-            .from('employee_manager')
-            .select('first_name')
-            .ilike('company_email', email)
-            .single();
-
-          const firstName = employee?.first_name || 'there';
-          const portalUrl = Deno.env.get('PORTAL_URL') || 'https://portal.booncoaching.com';
-
-          // Build platform-specific content
-          const slackBlocks = buildActionItemBlocks(firstName, conn.timezone || 'America/New_York', pendingActions, portalUrl);
-          const teamsCard = buildTeamsActionItemsCard(firstName, pendingActions, portalUrl);
-          const fallbackText = `You have ${pendingActions.length} pending coaching action items`;
-
-          const result = await sendNudge(conn, slackBlocks, teamsCard, fallbackText);
-
-          if (result.ok && result.messageId) {
-            await supabase.from('nudges').insert({
-              employee_email: email.toLowerCase(),
-              nudge_type: 'daily_digest',
-              reference_id: null,
-              reference_type: 'action_items',
-              message_id: result.messageId,
-              channel_id: result.channelId,
-              channel: conn.channel,
-            });
-
-            results.daily_digests_sent++;
-            console.log(`Sent daily digest via ${conn.channel} to ${email}`);
-          } else {
-            results.errors++;
-          }
-        } catch (error) {
-          console.error(`Error processing daily digest for ${email}:`, error);
-          results.errors++;
-        }
-      }
+    let teamsCard: Record<string, unknown>;
+    if (template?.teams_blocks) {
+      teamsCard = renderAdaptiveCard(template.teams_blocks, templateVars);
+    } else {
+      teamsCard = {
+        type: 'AdaptiveCard',
+        $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+        version: '1.4',
+        body: [
+          { type: 'TextBlock', text: 'Quick Check-in', weight: 'Bolder', size: 'Medium', color: 'Accent' },
+          { type: 'TextBlock', text: `Hey ${employeeData.first_name}! A few days ago you set this goal with ${session.coach_name || 'your coach'}:`, wrap: true },
+          { type: 'TextBlock', text: session.goals || '', wrap: true, weight: 'Bolder' },
+        ],
+        actions: [
+          { type: 'Action.Submit', title: 'Great progress', style: 'positive', data: { action: 'progress_great', reference_id: String(session.id) } },
+          { type: 'Action.Submit', title: 'Slow but moving', data: { action: 'progress_slow', reference_id: String(session.id) } },
+          { type: 'Action.Submit', title: 'Stuck', data: { action: 'progress_stuck', reference_id: String(session.id) } },
+        ],
+      };
     }
 
-    // ============================================
-    // 2. WEEKLY DIGEST (Monday only)
-    // ============================================
-    if (dayOfWeek === 1) {
-      const weeklyConnections: { email: string; conn: MessagingConnection }[] = [];
-
-      const { data: slackWeeklyUsers } = await supabase
-        .from('employee_slack_connections')
-        .select('employee_email, slack_user_id, slack_dm_channel_id, slack_team_id, nudge_frequency, preferred_time, timezone')
-        .eq('nudge_enabled', true)
-        .eq('nudge_frequency', 'weekly');
-
-      const { data: teamsWeeklyUsers } = await supabase
-        .from('employee_teams_connections')
-        .select('employee_email, teams_user_id, conversation_id, tenant_id, service_url, nudge_frequency, preferred_time, timezone')
-        .eq('nudge_enabled', true)
-        .eq('nudge_frequency', 'weekly');
-
-      if (slackWeeklyUsers) {
-        for (const u of slackWeeklyUsers) {
-          const { data: inst } = await supabase
-            .from('slack_installations')
-            .select('bot_token')
-            .eq('team_id', u.slack_team_id)
-            .single();
-
-          weeklyConnections.push({
-            email: u.employee_email,
-            conn: {
-              channel: 'slack',
-              user_id: u.slack_user_id,
-              dm_channel_id: u.slack_dm_channel_id,
-              service_url: null,
-              nudge_enabled: true,
-              nudge_frequency: u.nudge_frequency,
-              preferred_time: u.preferred_time,
-              timezone: u.timezone,
-              team_or_tenant_id: u.slack_team_id,
-              bot_token: inst?.bot_token || null,
-            },
-          });
-        }
-      }
+    jobs.push({
+      email,
+      conn,
+      nudgeType: 'goal_checkin',
+      referenceId: String(session.id),
+      referenceType: 'session',
+      slackBlocks,
+      teamsCard,
+      fallbackText: "How's progress on your coaching goals?",
+    });
+  }
+
+  return jobs;
+}
+
+/**
+ * Session prep reminders, the day before an upcoming session
+ */
+async function buildSessionPrepJobs(
+  supabase: SupabaseClient,
+  connections: Map<string, MessagingConnection>,
+  templateMap: Map<string, NudgeTemplate>,
+  stats: PhaseStats
+): Promise<NudgeJob[]> {
+  const tomorrow = new Date();
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  const tomorrowStr = tomorrow.toISOString().split('T')[0];
+
+  const upcomingSessions = await fetchAllRows<NudgeSessionRow>((from, to) => supabase
+    .from('session_tracking')
+    .select(`
+      id,
+      employee_id,
+      coach_name,
+      employee_manager!inner(company_email, first_name)
+    `)
+    .eq('status', 'Upcoming')
+    .eq('session_date', tomorrowStr)
+    .order('id')
+    .range(from, to)
+    .returns<NudgeSessionRow[]>());
+  stats.candidates = upcomingSessions.length;
+
+  const due = upcomingSessions.flatMap((session) => {
+    const email = session.employee_manager?.company_email?.toLowerCase();
+    const conn = email ? connections.get(email) : undefined;
+    if (!email || !conn || !isAppropriateTime(conn)) return [];
+    return [{ session, email, conn }];
+  });
+  if (due.length === 0) return [];
+
+  const alreadyNudged = await loadNudgedReferences(supabase, 'session_prep', due.map((d) => String(d.session.id)));
+  const template = templateMap.get('session_prep');
+  const portalUrl = Deno.env.get('PORTAL_URL') || 'https://portal.booncoaching.com';
+  const jobs: NudgeJob[] = [];
+
+  for (const { session, email, conn } of due) {
+    if (alreadyNudged.has(String(session.id))) continue;
+
+    const employeeData = session.employee_manager;
+    const templateVars = {
+      first_name: employeeData.first_name,
+      coach_name: session.coach_name || 'your coach',
+      session_id: String(session.id),
+      portal_url: portalUrl,
+    };
 
-      if (teamsWeeklyUsers) {
-        for (const u of teamsWeeklyUsers) {
-          weeklyConnections.push({
-            email: u.employee_email,
-            conn: {
-              channel: 'teams',
-              user_id: u.teams_user_id,
-              dm_channel_id: u.conversation_id,
-              service_url: u.service_url,
-              nudge_enabled: true,
-              nudge_frequency: u.nudge_frequency,
-              preferred_time: u.preferred_time,
-              timezone: u.timezone,
-              team_or_tenant_id: u.tenant_id,
-              bot_token: null,
+    let slackBlocks;
+    if (template) {
+      slackBlocks = renderBlocks(template.message_blocks.blocks, templateVars);
+    } else {
+      slackBlocks = [
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: `*Hey ${employeeData.first_name}!* :calendar:\n\nYou have a coaching session with ${session.coach_name || 'your coach'} tomorrow!\n\nTake a moment to think about what you want to focus on.`,
+          },
+        },
+        {
+          type: 'actions',
+          elements: [
+            {
+              type: 'button',
+              text: { type: 'plain_text', text: 'Prepare for Session' },
+              url: portalUrl,
             },
-          });
-        }
-      }
+          ],
+        },
+      ];
+    }
 
-      if (weeklyConnections.length > 0) {
-        console.log(`Processing ${weeklyConnections.length} weekly digest users`);
-
-        for (const { email, conn } of weeklyConnections) {
-          try {
-            if (!isAppropriateTime(conn.preferred_time, conn.timezone)) continue;
-
-            const weekStart = new Date();
-            weekStart.setDate(weekStart.getDate() - weekStart.getDay());
-            weekStart.setHours(0, 0, 0, 0);
-
-            const { data: existingNudge } = await supabase
-              .from('nudges')
-              .select('id')
-              .eq('employee_email', email.toLowerCase())
-              .eq('nudge_type', 'weekly_digest')
-              .gte('sent_at', weekStart.toISOString())
-              .limit(1);
-
-            if (existingNudge && existingNudge.length > 0) continue;
-
-            const { data: pendingActions } = await supabase
-              .from('action_items')
-              .select('id, action_text, coach_name, created_at')
-              .ilike('email', email)
-              .eq('status', 'pending')
-              .order('created_at', { ascending: false })
-              .limit(5);
-
-            if (!pendingActions || pendingActions.length === 0) continue;
-
-            const { data: employee } = await supabase
-              .from('employee_manager')
-              .select('first_name')
-              .ilike('company_email', email)
-              .single();
-
-            const firstName = employee?.first_name || 'there';
-            const portalUrl = Deno.env.get('PORTAL_URL') || 'https://portal.booncoaching.com';
-
-            const slackBlocks = buildActionItemBlocks(firstName, conn.timezone || 'America/New_York', pendingActions, portalUrl);
-            const teamsCard = buildTeamsActionItemsCard(firstName, pendingActions, portalUrl);
-            const fallbackText = `Weekly coaching digest: ${pendingActions.length} action items`;
-
-            const result = await sendNudge(conn, slackBlocks, teamsCard, fallbackText);
-
-            if (result.ok && result.messageId) {
-              await supabase.from('nudges').insert({
-                employee_email: email.toLowerCase(),
-                nudge_type: 'weekly_digest',
-                reference_id: null,
-                reference_type: 'action_items',
-                message_id: result.messageId,
-                channel_id: result.channelId,
-                channel: conn.channel,
-              });
-
-              results.weekly_digests_sent++;
-              console.log(`Sent weekly digest via ${conn.channel} to ${email}`);
-            } else {
-              results.errors++;
-            }
-          } catch (error) {
-            console.error('Error processing weekly digest:', error);
-            results.errors++;
-          }
-        }
-      }
+    let teamsCard: Record<string, unknown>;
+    if (template?.teams_blocks) {
+      teamsCard = renderAdaptiveCard(template.teams_blocks, templateVars);
+    } else {
+      teamsCard = {
+        type: 'AdaptiveCard',
+        $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+        version: '1.4',
+        body: [
+          { type: 'TextBlock', text: 'Session Tomorrow', weight: 'Bolder', size: 'Medium', color: 'Accent' },
+          { type: 'TextBlock', text: `Hey ${employeeData.first_name}! You have a coaching session with ${session.coach_name || 'your coach'} tomorrow.`, wrap: true },
+          { type: 'TextBlock', text: 'Quick prep questions:', weight: 'Bolder', spacing: 'Medium' },
+          { type: 'TextBlock', text: "- What's been on your mind this week?\n- Any wins to celebrate?\n- What do you want to focus on?", wrap: true, spacing: 'Small' },
+        ],
+        actions: [
+          { type: 'Action.OpenUrl', title: 'Open Session Prep', url: `${portalUrl}/session-prep` },
+        ],
+      };
     }
 
-    // ============================================
-    // 3. GOAL CHECK-INS (3 days post-session)
-    // For all users with nudges enabled (either platform)
-    // ============================================
-    const threeDaysAgo = new Date();
-    threeDaysAgo.setDate(threeDaysAgo.getDate() - 3);
-    const fourDaysAgo = new Date();
-    fourDaysAgo.setDate(fourDaysAgo.getDate() - 4);
+    jobs.push({
+      email,
+      conn,
+      nudgeType: 'session_prep',
+      referenceId: String(session.id),
+      referenceType: 'session',
+      slackBlocks,
+      teamsCard,
+      fallbackText: 'You have a coaching session tomorrow!',
+    });
+  }
 
-    const { data: recentSessions } = await supabase
-      .from('session_tracking')
-      .select(`
-        id,
-        employee_id,
-        goals,
-        coach_name,
-        employee_manager!inner(company_email, first_name)
-      `)
-      .eq('status', 'Completed')
-      .gte('session_date', fourDaysAgo.toISOString().split('T')[0])
-      .lte('session_date', threeDaysAgo.toISOString().split('T')[0])
-      .not('goals', 'is', null);
-
-    if (recentSessions && recentSessions.length > 0) {
-      console.log(`Found ${recentSessions.length} sessions for goal check-in`);
-
-      for (const session of recentSessions) {
-        try {
-          const employeeData = (session as any).employee_manager;
-          const email = employeeData?.company_email;
-          if (!email) continue;
-
-          // Check if already nudged for this session (in unified nudges table)
-          const { data: existingNudge } = await supabase
-            .from('nudges')
-            .select('id')
-            .eq('employee_email', email.toLowerCase())
-            .eq('nudge_type', 'goal_checkin')
-            .eq('reference_id', String(session.id))
-            .single();
-
-          if (existingNudge) continue;
-
-          // Use unified messaging connection RPC
-          const { data: connData } = await supabase.rpc('get_employee_messaging_connection', {
-            lookup_email: email,
-          });
-
-          if (!connData || connData.length === 0) continue;
-          const conn: MessagingConnection = connData[0];
-
-          if (!isAppropriateTime(conn.preferred_time, conn.timezone)) continue;
-
-          const template = templateMap.get('goal_checkin');
-          const templateVars = {
-            first_name: employeeData.first_name,
-            coach_name: session.coach_name || 'your coach',
-            goals: session.goals,
-            session_id: String(session.id),
-          };
-
-          // Build platform-specific content
-          let slackBlocks;
-          if (template) {
-            slackBlocks = renderBlocks(template.message_blocks.blocks, templateVars);
-          } else {
-            slackBlocks = [
-              {
-                type: 'section',
-                text: {
-                  type: 'mrkdwn',
-                  text: `*Hey ${employeeData.first_name}!* :wave:\n\nA few days ago you set this goal with ${session.coach_name || 'your coach'}:\n\n_"${session.goals}"_\n\nHow's it going?`,
-                },
-              },
-            ];
-          }
-
-          let teamsCard: Record<string, unknown>;
-          if (template?.teams_blocks) {
-            teamsCard = renderAdaptiveCard(template.teams_blocks, templateVars);
-          } else {
-            teamsCard = {
-              type: 'AdaptiveCard',
-              $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
-              version: '1.4',
-              body: [
-                { type: 'TextBlock', text: 'Quick Check-in', weight: 'Bolder', size: 'Medium', color: 'Accent' },
-                { type: 'TextBlock', text: `Hey ${employeeData.first_name}! A few days ago you set this goal with ${session.coach_name || 'your coach'}:`, wrap: true },
-                { type: 'TextBlock', text: session.goals || '', wrap: true, weight: 'Bolder' },
-              ],
-              actions: [
-                { type: 'Action.Submit', title: 'Great progress', style: 'positive', data: { action: 'progress_great', reference_id: String(session.id) } },
-                { type: 'Action.Submit', title: 'Slow but moving', data: { action: 'progress_slow', reference_id: String(session.id) } },
-                { type: 'Action.Submit', title: 'Stuck', data: { action: 'progress_stuck', reference_id: String(session.id) } },
-              ],
-            };
-          }
-
-          const result = await sendNudge(conn, slackBlocks, teamsCard, "How's progress on your coaching goals?");
-
-          if (result.ok && result.messageId) {
-            await supabase.from('nudges').insert({
-              employee_email: email.toLowerCase(),
-              nudge_type: 'goal_checkin',
-              reference_id: String(session.id),
-              reference_type: 'session',
-              message_id: result.messageId,
-              channel_id: result.channelId,
-              channel: conn.channel,
-            });
-
-            results.goal_checkins_sent++;
-            console.log(`Sent goal check-in via ${conn.channel} to ${email}`);
-          } else {
-            results.errors++;
-          }
-        } catch (error) {
-          console.error('Error processing session:', error);
-          results.errors++;
-        }
-      }
-    }
+  return jobs;
+}
 
-    // ============================================
-    // 4. SESSION PREP REMINDERS (24h before)
-    // ============================================
-    const tomorrow = new Date();
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    const tomorrowStr = tomorrow.toISOString().split('T')[0];
+/**
+ * Slack blocks and Teams card for a weekly commitment check-in
+ */
+function buildCommitmentCheckinContent(
+  firstName: string,
+  commitmentText: string,
+  checkinType: 'midweek' | 'endweek',
+  portalUrl: string
+): { slackBlocks: unknown[]; teamsCard: Record<string, unknown>; fallbackText: string } {
+  const checkinUrl = `${portalUrl}/goals?checkin=${checkinType}`;
+  const isMidweek = checkinType === 'midweek';
+  const heading = isMidweek ? 'Midweek Check-in' : 'End of Week Reflection';
+  const prompt = isMidweek
+    ? `How's your commitment going this week?`
+    : `How did this week go?`;
+
+  const slackBlocks = [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `*Hey ${firstName}!* :dart:\n\n*${heading}*\n\nYour commitment this week: _"${commitmentText}"_\n\n${prompt}`,
+      },
+    },
+    {
+      type: 'actions',
+      elements: [
+        {
+          type: 'button',
+          text: { type: 'plain_text', text: isMidweek ? "How's it going?" : 'Reflect on your week' },
+          url: checkinUrl,
+          style: 'primary',
+        },
+      ],
+    },
+  ];
+
+  const teamsCard: Record<string, unknown> = {
+    type: 'AdaptiveCard',
+    $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+    version: '1.4',
+    body: [
+      { type: 'TextBlock', text: heading, weight: 'Bolder', size: 'Medium', color: 'Accent' },
+      { type: 'TextBlock', text: `Hey ${firstName}! ${prompt}`, wrap: true },
+      { type: 'TextBlock', text: `Your commitment: "${commitmentText}"`, wrap: true, isSubtle: true, spacing: 'Small' },
+    ],
+    actions: [
+      { type: 'Action.OpenUrl', title: isMidweek ? "How's it going?" : 'Reflect on your week', url: checkinUrl },
+    ],
+  };
+
+  return { slackBlocks, teamsCard, fallbackText: `${heading}: ${prompt}` };
+}
 
-    const { data: upcomingSessions } = await supabase
+/**
+ * Goal commitment check-ins (Wednesday midweek, Friday endweek)
+ */
+async function buildCommitmentCheckinJobs(
+  supabase: SupabaseClient,
+  connections: Map<string, MessagingConnection>,
+  checkinType: 'midweek' | 'endweek',
+  stats: PhaseStats
+): Promise<NudgeJob[]> {
+  const weekStartStr = getCurrentWeekStart();
+
+  const activeCommitments = await fetchAllRows<CommitmentRow>((from, to) => supabase
+    .from('weekly_commitments')
+    .select('id, employee_email, commitment_text, goal_id')
+    .eq('week_start', weekStartStr)
+    .eq('status', 'active')
+    .order('id')
+    .range(from, to));
+  stats.candidates = activeCommitments.length;
+
+  const due = activeCommitments.flatMap((commitment) => {
+    const email = commitment.employee_email?.toLowerCase();
+    const conn = email ? connections.get(email) : undefined;
+    if (!email || !conn || !isAppropriateTime(conn)) return [];
+    return [{ commitment, email, conn }];
+  });
+  if (due.length === 0) return [];
+
+  const nudgeType = `goal_${checkinType}_checkin`;
+  const commitmentIds = due.map((d) => String(d.commitment.id));
+
+  const [checkins, alreadyNudged, firstNames] = await Promise.all([
+    fetchAllIn<{ commitment_id: string }>(commitmentIds, (part, from, to) => supabase
+      .from('goal_checkins')
+      .select('commitment_id')
+      .eq('checkin_type', checkinType)
+      .in('commitment_id', part)
+      .order('id')
+      .range(from, to)),
+    loadNudgedReferences(supabase, nudgeType, commitmentIds),
+    loadFirstNames(supabase, due.map((d) => d.email)),
+  ]);
+  const checkedIn = new Set(checkins.map((c) => String(c.commitment_id)));
+
+  const portalUrl = Deno.env.get('PORTAL_URL') || 'https://portal.booncoaching.com';
+  const jobs: NudgeJob[] = [];
+
+  for (const { commitment, email, conn } of due) {
+    const commitmentId = String(commitment.id);
+    // Already checked in, or already nudged for this commitment + type
+    if (checkedIn.has(commitmentId) || alreadyNudged.has(commitmentId)) continue;
+
+    const firstName = firstNames.get(email) || 'there';
+    const { slackBlocks, teamsCard, fallbackText } =
+      buildCommitmentCheckinContent(firstName, commitment.commitment_text, checkinType, portalUrl);
+
+    jobs.push({
+      email,
+      conn,
+      nudgeType,
+      referenceId: commitmentId,
+      referenceType: 'commitment',
+      slackBlocks,
+      teamsCard,
+      fallbackText,
+    });
+  }
+
+  return jobs;
+}
+
+// How far back the smart policy looks at response history
+const SMART_HISTORY_DAYS = 30;
+// Sessions further out than this don't affect the smart policy
+const SMART_SESSION_LOOKAHEAD_DAYS = 7;
+
+/**
+ * Smart nudges — at most one a day, picked per employee by decideSmartNudge
+ */
+async function buildSmartJobs(
+  supabase: SupabaseClient,
+  connections: Map<string, MessagingConnection>,
+  stats: PhaseStats
+): Promise<NudgeJob[]> {
+  const candidates = [...connections].filter(([, conn]) => conn.nudge_frequency === 'smart');
+  stats.candidates = candidates.length;
+
+  const due = candidates.filter(([, conn]) => isAppropriateTime(conn));
+  if (due.length === 0) return [];
+
+  const emails = due.map(([email]) => email);
+  const historySince = new Date(Date.now() - SMART_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  const today = new Date().toISOString().split('T')[0];
+  const lookahead = new Date(Date.now() + SMART_SESSION_LOOKAHEAD_DAYS * 24 * 60 * 60 * 1000)
+    .toISOString().split('T')[0];
+
+  const [history, pendingByEmail, commitments, upcomingSessions, firstNames] = await Promise.all([
+    fetchAllIn<SmartNudgeHistoryItem & { employee_email: string }>(emails, (part, from, to) => supabase
+      .from('nudges')
+      .select('employee_email, nudge_type, sent_at, responded_at')
+      .in('employee_email', part)
+      .gte('sent_at', historySince.toISOString())
+      .order('id')
+      .range(from, to)),
+    loadPendingActions(supabase, emails),
+    // employee_email is kept lowercase by trigger, so .in() matches every case
+    fetchAllIn<{ id: string; employee_email: string; commitment_text: string }>(emails, (part, from, to) => supabase
+      .from('weekly_commitments')
+      .select('id, employee_email, commitment_text')
+      .in('employee_email', part)
+      .eq('week_start', getCurrentWeekStart())
+      .eq('status', 'active')
+      .order('id')
+      .range(from, to)),
+    fetchAllRows<UpcomingSessionRow>((from, to) => supabase
       .from('session_tracking')
-      .select(`
-        id,
-        employee_id,
-        coach_name,
-        employee_manager!inner(company_email, first_name)
-      `)
+      .select('id, session_date, employee_manager!inner(company_email)')
       .eq('status', 'Upcoming')
-      .eq('session_date', tomorrowStr);
-
-    if (upcomingSessions && upcomingSessions.length > 0) {
-      console.log(`Found ${upcomingSessions.length} sessions tomorrow`);
-
-      for (const session of upcomingSessions) {
-        try {
-          const employeeData = (session as any).employee_manager;
-          const email = employeeData?.company_email;
-          if (!email) continue;
-
-          const { data: existingNudge } = await supabase
-            .from('nudges')
-            .select('id')
-            .eq('employee_email', email.toLowerCase())
-            .eq('nudge_type', 'session_prep')
-            .eq('reference_id', String(session.id))
-            .single();
-
-          if (existingNudge) continue;
-
-          const { data: connData } = await supabase.rpc('get_employee_messaging_connection', {
-            lookup_email: email,
-          });
-
-          if (!connData || connData.length === 0) continue;
-          const conn: MessagingConnection = connData[0];
-
-          if (!isAppropriateTime(conn.preferred_time, conn.timezone)) continue;
-
-          const template = templateMap.get('session_prep');
-          const portalUrl = Deno.env.get('PORTAL_URL') || 'https://portal.booncoaching.com';
-          const templateVars = {
-            first_name: employeeData.first_name,
-            coach_name: session.coach_name || 'your coach',
-            session_id: String(session.id),
-            portal_url: portalUrl,
-          };
-
-          let slackBlocks;
-          if (template) {
-            slackBlocks = renderBlocks(template.message_blocks.blocks, templateVars);
-          } else {
-            slackBlocks = [
-              {
-                type: 'section',
-                text: {
-                  type: 'mrkdwn',
-                  text: `*Hey ${employeeData.first_name}!* :calendar:\n\nYou have a coaching session with ${session.coach_name || 'your coach'} tomorrow!\n\nTake a moment to think about what you want to focus on.`,
-                },
-              },
-              {
-                type: 'actions',
-                elements: [
-                  {
-                    type: 'button',
-                    text: { type: 'plain_text', text: 'Prepare for Session' },
-                    url: portalUrl,
-                  },
-                ],
-              },
-            ];
-          }
-
-          let teamsCard: Record<string, unknown>;
-          if (template?.teams_blocks) {
-            teamsCard = renderAdaptiveCard(template.teams_blocks, templateVars);
-          } else {
-            teamsCard = {
-              type: 'AdaptiveCard',
-              $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
-              version: '1.4',
-              body: [
-                { type: 'TextBlock', text: 'Session Tomorrow', weight: 'Bolder', size: 'Medium', color: 'Accent' },
-                { type: 'TextBlock', text: `Hey ${employeeData.first_name}! You have a coaching session with ${session.coach_name || 'your coach'} tomorrow.`, wrap: true },
-                { type: 'TextBlock', text: 'Quick prep questions:', weight: 'Bolder', spacing: 'Medium' },
-                { type: 'TextBlock', text: "- What's been on your mind this week?\n- Any wins to celebrate?\n- What do you want to focus on?", wrap: true, spacing: 'Small' },
-              ],
-              actions: [
-                { type: 'Action.OpenUrl', title: 'Open Session Prep', url: `${portalUrl}/session-prep` },
-              ],
-            };
-          }
-
-          const result = await sendNudge(conn, slackBlocks, teamsCard, 'You have a coaching session tomorrow!');
-
-          if (result.ok && result.messageId) {
-            await supabase.from('nudges').insert({
-              employee_email: email.toLowerCase(),
-              nudge_type: 'session_prep',
-              reference_id: String(session.id),
-              reference_type: 'session',
-              message_id: result.messageId,
-              channel_id: result.channelId,
-              channel: conn.channel,
-            });
-
-            results.session_preps_sent++;
-            console.log(`Sent session prep via ${conn.channel} to ${email}`);
-          } else {
-            results.errors++;
-          }
-        } catch (error) {
-          console.error('Error processing upcoming session:', error);
-          results.errors++;
-        }
+      .gte('session_date', today)
+      .lte('session_date', lookahead)
+      .order('id')
+      .range(from, to)
+      .returns<UpcomingSessionRow[]>()),
+    loadFirstNames(supabase, emails),
+  ]);
+
+  const historyByEmail = new Map<string, SmartNudgeHistoryItem[]>();
+  for (const { employee_email, ...item } of history) {
+    const email = employee_email.toLowerCase();
+    historyByEmail.set(email, [...(historyByEmail.get(email) || []), item]);
+  }
+
+  // One commitment per week; the first active one wins if there are several
+  const commitmentByEmail = new Map<string, { id: string; employee_email: string; commitment_text: string }>();
+  for (const commitment of commitments) {
+    const email = commitment.employee_email.toLowerCase();
+    if (!commitmentByEmail.has(email)) commitmentByEmail.set(email, commitment);
+  }
+
+  const checkins = await fetchAllIn<{ commitment_id: string }>(
+    [...commitmentByEmail.values()].map((c) => String(c.id)),
+    (part, from, to) => supabase
+      .from('goal_checkins')
+      .select('commitment_id')
+      .in('commitment_id', part)
+      .order('id')
+      .range(from, to)
+  );
+  const checkedIn = new Set(checkins.map((c) => String(c.commitment_id)));
+
+  const nextSessionByEmail = new Map<string, string>();
+  for (const session of upcomingSessions) {
+    const email = session.employee_manager?.company_email?.toLowerCase();
+    if (!email || !session.session_date) continue;
+    const current = nextSessionByEmail.get(email);
+    if (!current || session.session_date < current) nextSessionByEmail.set(email, session.session_date);
+  }
+
+  const portalUrl = Deno.env.get('PORTAL_URL') || 'https://portal.booncoaching.com';
+  // Thursday onwards the week is mostly done, so ask for a reflection
+  const weekday = new Date().getDay();
+  const checkinType = weekday === 0 || weekday >= 4 ? 'endweek' : 'midweek';
+  const jobs: NudgeJob[] = [];
+
+  for (const [email, conn] of due) {
+    const pendingActions = pendingByEmail.get(email) || [];
+    const commitment = commitmentByEmail.get(email);
+
+    const decision = decideSmartNudge({
+      recentNudges: historyByEmail.get(email) || [],
+      pendingActionCount: pendingActions.length,
+      commitment: commitment ? { id: String(commitment.id), checkedIn: checkedIn.has(String(commitment.id)) } : null,
+      nextSessionAt: nextSessionByEmail.get(email) || null,
+    });
+    if (!decision.send) continue;
+
+    const firstName = firstNames.get(email) || 'there';
+
+    if (decision.kind === 'commitment_checkin' && commitment) {
+      const content = buildCommitmentCheckinContent(firstName, commitment.commitment_text, checkinType, portalUrl);
+      jobs.push({
+        email,
+        conn,
+        nudgeType: decision.nudgeType,
+        referenceId: decision.referenceId,
+        referenceType: 'commitment',
+        ...content,
+      });
+    } else if (decision.kind === 'action_items') {
+      jobs.push({
+        email,
+        conn,
+        nudgeType: decision.nudgeType,
+        referenceId: null,
+        referenceType: 'action_items',
+        slackBlocks: buildActionItemBlocks(firstName, conn.timezone || 'America/New_York', pendingActions, portalUrl),
+        teamsCard: buildTeamsActionItemsCard(firstName, pendingActions, portalUrl),
+        fallbackText: decision.reason === 'before_session'
+          ? `Before your next session: ${pendingActions.length} coaching action items`
+          : `You have ${pendingActions.length} pending coaching action items`,
+      });
+    }
+  }
+
+  return jobs;
+}
+
+const STREAK_COPY: Record<StreakKind, { label: string; detail: (weeks: number) => string; path: string }> = {
+  commitments: {
+    label: 'commitment',
+    detail: (weeks) => `You've followed through on your weekly commitment ${weeks} weeks in a row.`,
+    path: '/goals',
+  },
+  journal: {
+    label: 'reflection',
+    detail: (weeks) => `You've written in your journal ${weeks} weeks in a row.`,
+    path: '/journal',
+  },
+  action_items: {
+    label: 'action item',
+    detail: (weeks) => `You've completed coaching action items ${weeks} weeks in a row.`,
+    path: '/goals',
+  },
+};
+
+/**
+ * Streak celebrations — one per employee per milestone per streak, the
+ * biggest first when several are due
+ */
+async function buildStreakCelebrationJobs(
+  supabase: SupabaseClient,
+  connections: Map<string, MessagingConnection>,
+  stats: PhaseStats
+): Promise<NudgeJob[]> {
+  const candidates = [...connections].filter(([, conn]) => conn.nudge_frequency !== 'none');
+  stats.candidates = candidates.length;
+
+  const due = candidates.filter(([, conn]) => isAppropriateTime(conn));
+  if (due.length === 0) return [];
+
+  const emails = due.map(([email]) => email);
+  const since = new Date(Date.now() - (STREAK_LOOKBACK_WEEKS + 1) * 7 * 24 * 60 * 60 * 1000);
+
+  const [commitments, journalEntries, completedActions, celebrated, firstNames] = await Promise.all([
+    // Both tables keep employee_email lowercase by trigger, so .in() matches every case
+    fetchAllIn<{ employee_email: string; week_start: string; status: string }>(emails, (part, from, to) => supabase
+      .from('weekly_commitments')
+      .select('employee_email, week_start, status')
+      .in('employee_email', part)
+      .eq('status', 'completed')
+      .gte('week_start', since.toISOString().split('T')[0])
+      .order('id')
+      .range(from, to)),
+    fetchAllIn<{ employee_email: string; created_at: string }>(emails, (part, from, to) => supabase
+      .from('journal_entries')
+      .select('employee_email, created_at')
+      .in('employee_email', part)
+      .gte('created_at', since.toISOString())
+      .order('id')
+      .range(from, to)),
+    fetchAllIn<{ email: string; completed_at: string | null }>(emails, (part, from, to) => supabase
+      .from('action_items')
+      .select('email, completed_at')
+      .in('email', part)
+      .eq('status', 'completed')
+      .gte('completed_at', since.toISOString())
+      .order('id')
+      .range(from, to)),
+    // Reference ids aren't unique across employees, so dedupe per email
+    fetchAllIn<{ employee_email: string; reference_id: string }>(emails, (part, from, to) => supabase
+      .from('nudges')
+      .select('employee_email, reference_id')
+      .eq('nudge_type', 'streak_celebration')
+      .in('employee_email', part)
+      .gte('sent_at', since.toISOString())
+      .order('id')
+      .range(from, to)),
+    loadFirstNames(supabase, emails),
+  ]);
+
+  const groupBy = <T>(rows: T[], emailOf: (row: T) => string) => {
+    const byEmail = new Map<string, T[]>();
+    for (const row of rows) {
+      const email = emailOf(row).toLowerCase();
+      byEmail.set(email, [...(byEmail.get(email) || []), row]);
+    }
+    return byEmail;
+  };
+  const commitmentsByEmail = groupBy(commitments, (r) => r.employee_email);
+  const journalByEmail = groupBy(journalEntries, (r) => r.employee_email);
+  const actionsByEmail = groupBy(completedActions, (r) => r.email);
+  const alreadyCelebrated = new Set(celebrated.map((r) => `${r.employee_email.toLowerCase()}|${r.reference_id}`));
+
+  const portalUrl = Deno.env.get('PORTAL_URL') || 'https://portal.booncoaching.com';
+  const jobs: NudgeJob[] = [];
+
+  for (const [email, conn] of due) {
+    const streaks = computeStreaks({
+      commitments: commitmentsByEmail.get(email) || [],
+      journalEntries: journalByEmail.get(email) || [],
+      completedActions: actionsByEmail.get(email) || [],
+    }, conn.timezone);
+
+    const celebration = STREAK_KINDS
+      .flatMap((kind) => {
+        const milestone = getCelebrationMilestone(streaks[kind]);
+        if (milestone === null) return [];
+        const referenceId = streakMilestoneReference(kind, streaks[kind], milestone);
+        if (alreadyCelebrated.has(`${email}|${referenceId}`)) return [];
+        return [{ kind, milestone, referenceId }];
+      })
+      .sort((a, b) => b.milestone - a.milestone)[0];
+    if (!celebration) continue;
+
+    const firstName = firstNames.get(email) || 'there';
+    const copy = STREAK_COPY[celebration.kind];
+    const heading = `${celebration.milestone}-week ${copy.label} streak!`;
+    const url = `${portalUrl}${copy.path}`;
+
+    jobs.push({
+      email,
+      conn,
+      nudgeType: 'streak_celebration',
+      referenceId: celebration.referenceId,
+      referenceType: 'streak',
+      slackBlocks: [
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: `*Nice one, ${firstName}!* :fire:\n\n*${heading}*\n\n${copy.detail(celebration.milestone)} Keep it going.`,
+          },
+        },
+        {
+          type: 'actions',
+          elements: [
+            { type: 'button', text: { type: 'plain_text', text: 'See your streaks' }, url },
+          ],
+        },
+      ],
+      teamsCard: {
+        type: 'AdaptiveCard',
+        $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+        version: '1.4',
+        body: [
+          { type: 'TextBlock', text: heading, weight: 'Bolder', size: 'Medium', color: 'Accent' },
+          { type: 'TextBlock', text: `Nice one, ${firstName}! ${copy.detail(celebration.milestone)} Keep it going.`, wrap: true },
+        ],
+        actions: [
+          { type: 'Action.OpenUrl', title: 'See your streaks', url },
+        ],
+      },
+      fallbackText: heading,
+    });
+  }
+
+  return jobs;
+}
+
+const ACTION_REMINDER_SETTINGS: ActionReminderSettings = {
+  stillRelevantAfterDays: parseInt(
+    Deno.env.get('ACTION_STILL_RELEVANT_DAYS') || String(DEFAULT_ACTION_REMINDER_SETTINGS.stillRelevantAfterDays), 10),
+  autoDismissAfterDays: parseInt(
+    Deno.env.get('ACTION_AUTO_DISMISS_DAYS') || String(DEFAULT_ACTION_REMINDER_SETTINGS.autoDismissAfterDays), 10),
+};
+// Reminders per employee per day, most urgent first; the rest wait a day
+const MAX_ACTION_REMINDERS = 3;
+
+interface ReminderItemRow extends ReminderActionItem {
+  email: string;
+  action_text: string;
+}
+
+function buildActionReminderContent(
+  firstName: string,
+  item: ReminderItemRow,
+  reminder: ActionReminder,
+  portalUrl: string
+): { slackBlocks: unknown[]; teamsCard: Record<string, unknown>; fallbackText: string } {
+  const url = `${portalUrl}/goals`;
+
+  if (reminder.kind === 'still_relevant') {
+    const dismissNote = ACTION_REMINDER_SETTINGS.autoDismissAfterDays > 0
+      ? `No answer in ${ACTION_REMINDER_SETTINGS.autoDismissAfterDays} days and we'll clear it from your list.`
+      : 'Clear it from your list if it no longer fits.';
+
+    return {
+      slackBlocks: [
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: `*Still relevant, ${firstName}?* :thinking_face:\n\nThis has been on your list for a while:\n\n> ${item.action_text}`,
+          },
+        },
+        {
+          type: 'actions',
+          block_id: `relevance_${item.id}`,
+          elements: [
+            { type: 'button', text: { type: 'plain_text', text: 'Keep it' }, style: 'primary', action_id: 'relevance_keep', value: item.id },
+            { type: 'button', text: { type: 'plain_text', text: 'Already done' }, action_id: 'relevance_done', value: item.id },
+            { type: 'button', text: { type: 'plain_text', text: 'Remove it' }, action_id: 'relevance_dismiss', value: item.id },
+          ],
+        },
+        {
+          type: 'context',
+          elements: [{ type: 'mrkdwn', text: dismissNote }],
+        },
+      ],
+      teamsCard: {
+        type: 'AdaptiveCard',
+        $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+        version: '1.4',
+        body: [
+          { type: 'TextBlock', text: 'Still relevant?', weight: 'Bolder', size: 'Medium', color: 'Accent' },
+          { type: 'TextBlock', text: `Hey ${firstName}, this has been on your list for a while:`, wrap: true },
+          { type: 'TextBlock', text: item.action_text, wrap: true, weight: 'Bolder' },
+          { type: 'TextBlock', text: dismissNote, size: 'Small', isSubtle: true, wrap: true },
+        ],
+        actions: [
+          { type: 'Action.Submit', title: 'Keep it', style: 'positive', data: { action: 'relevance_keep', reference_id: item.id } },
+          { type: 'Action.Submit', title: 'Already done', data: { action: 'relevance_done', reference_id: item.id } },
+          { type: 'Action.Submit', title: 'Remove it', data: { action: 'relevance_dismiss', reference_id: item.id } },
+        ],
+      },
+      fallbackText: `Still relevant? ${item.action_text}`,
+    };
+  }
+
+  const days = reminder.daysOverdue;
+  const copy = {
+    due_tomorrow: { heading: 'Due tomorrow', greeting: `Heads up, ${firstName}!`, emoji: 'calendar', detail: 'This is due tomorrow:' },
+    due_today: { heading: 'Due today', greeting: `Today's the day, ${firstName}!`, emoji: 'dart', detail: 'This is due today:' },
+    overdue: days >= 7
+      ? {
+        heading: 'Overdue by a week',
+        greeting: `Checking in, ${firstName}.`,
+        emoji: 'hourglass_flowing_sand',
+        detail: `This was due ${days} days ago. If it's stuck, it's worth bringing to your next session:`,
       }
+      : {
+        heading: 'Overdue',
+        greeting: `Quick nudge, ${firstName}.`,
+        emoji: 'hourglass_flowing_sand',
+        detail: `This was due ${days === 1 ? 'yesterday' : `${days} days ago`}:`,
+      },
+  }[reminder.kind];
+
+  return {
+    slackBlocks: [
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: `*${copy.greeting}* :${copy.emoji}:\n\n${copy.detail}` },
+      },
+      {
+        type: 'section',
+        block_id: `action_${item.id}`,
+        text: { type: 'mrkdwn', text: `☐ ${item.action_text}` },
+        accessory: {
+          type: 'button',
+          text: { type: 'plain_text', text: '✓ Done', emoji: true },
+          style: 'primary',
+          action_id: 'complete_action_item',
+          value: item.id,
+        },
+      },
+      {
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: `<${url}|Open your action items>` }],
+      },
+    ],
+    teamsCard: {
+      type: 'AdaptiveCard',
+      $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+      version: '1.4',
+      body: [
+        { type: 'TextBlock', text: copy.heading, weight: 'Bolder', size: 'Medium', color: reminder.kind === 'overdue' ? 'Attention' : 'Accent' },
+        { type: 'TextBlock', text: `${copy.greeting} ${copy.detail}`, wrap: true },
+        { type: 'TextBlock', text: item.action_text, wrap: true, weight: 'Bolder' },
+      ],
+      actions: [
+        { type: 'Action.Submit', title: 'Done', style: 'positive', data: { action: 'complete_action_item', reference_id: item.id } },
+        { type: 'Action.OpenUrl', title: 'Open Portal', url },
+      ],
+    },
+    fallbackText: `${copy.heading}: ${item.action_text}`,
+  };
+}
+
+/**
+ * Action item reminders — day before, day of, overdue escalations and
+ * "still relevant?" prompts, each sent once per item and due date
+ */
+async function buildActionReminderJobs(
+  supabase: SupabaseClient,
+  connections: Map<string, MessagingConnection>,
+  stats: PhaseStats
+): Promise<NudgeJob[]> {
+  const candidates = [...connections].filter(([, conn]) => conn.nudge_frequency !== 'none');
+  const allowed = candidates.filter(([, conn]) => isAppropriateTime(conn));
+  if (allowed.length === 0) return [];
+
+  // Smart employees keep the smart policy's "never stack" rule: nothing if
+  // any nudge went out recently (including the smart phase earlier this run)
+  const smartEmails = allowed.filter(([, conn]) => conn.nudge_frequency === 'smart').map(([email]) => email);
+  const recentlyNudged = smartEmails.length > 0
+    ? await loadRecentlyNudgedEmails(supabase, smartEmails, MIN_HOURS_SINCE_ANY_NUDGE)
+    : new Set<string>();
+  const due = allowed.filter(([email]) => !recentlyNudged.has(email));
+  if (due.length === 0) return [];
+
+  const now = new Date();
+  // Two days out covers "tomorrow" in every timezone
+  const horizon = new Date(now.getTime() + 2 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  const idleSince = new Date(now.getTime() - ACTION_REMINDER_SETTINGS.stillRelevantAfterDays * 24 * 60 * 60 * 1000);
+  // Dated items up to the horizon, plus undated ones old enough to ask about
+  const dueFilter = ACTION_REMINDER_SETTINGS.stillRelevantAfterDays > 0
+    ? `due_date.lte.${horizon},and(due_date.is.null,created_at.lte.${idleSince.toISOString()})`
+    : `due_date.lte.${horizon}`;
+
+  const items = await fetchAllIn<ReminderItemRow>(due.map(([email]) => email), (part, from, to) => supabase
+    .from('action_items')
+    .select('id, email, action_text, due_date, recurrence, created_at, last_confirmed_at')
+    .in('email', part)
+    .eq('status', 'pending')
+    .or(dueFilter)
+    .order('id')
+    .range(from, to));
+  stats.candidates = items.length;
+
+  const reminders = items.flatMap((item) => {
+    const conn = connections.get(item.email);
+    if (!conn) return [];
+    const timezone = conn.timezone || 'America/New_York';
+    const reminder = getActionReminder(
+      item,
+      localDateOf(now, timezone),
+      ACTION_REMINDER_SETTINGS,
+      (iso) => localDateOf(new Date(iso), timezone)
+    );
+    return reminder ? [{ item, conn, reminder, nudgeType: ACTION_REMINDER_NUDGE_TYPES[reminder.kind] }] : [];
+  });
+  if (reminders.length === 0) return [];
+
+  const [sent, firstNames] = await Promise.all([
+    fetchAllIn<{ nudge_type: string; reference_id: string }>(reminders.map((r) => r.reminder.referenceId), (part, from, to) => supabase
+      .from('nudges')
+      .select('nudge_type, reference_id')
+      .in('nudge_type', Object.values(ACTION_REMINDER_NUDGE_TYPES))
+      .in('reference_id', part)
+      .order('id')
+      .range(from, to)),
+    loadFirstNames(supabase, [...new Set(reminders.map((r) => r.item.email))]),
+  ]);
+  const alreadyNudged = new Set(sent.map((r) => `${r.nudge_type}|${r.reference_id}`));
+
+  const byEmail = new Map<string, typeof reminders>();
+  for (const entry of reminders) {
+    if (alreadyNudged.has(`${entry.nudgeType}|${entry.reminder.referenceId}`)) continue;
+    byEmail.set(entry.item.email, [...(byEmail.get(entry.item.email) || []), entry]);
+  }
+
+  const portalUrl = Deno.env.get('PORTAL_URL') || 'https://portal.booncoaching.com';
+  const jobs: NudgeJob[] = [];
+
+  for (const [email, entries] of byEmail) {
+    const firstName = firstNames.get(email) || 'there';
+    const mostUrgent = entries
+      .sort((a, b) => compareActionReminders(a.reminder, b.reminder))
+      .slice(0, entries[0].conn.nudge_frequency === 'smart' ? 1 : MAX_ACTION_REMINDERS);
+
+    for (const { item, conn, reminder, nudgeType } of mostUrgent) {
+      jobs.push({
+        email,
+        conn,
+        nudgeType,
+        referenceId: reminder.referenceId,
+        referenceType: 'action_item',
+        ...buildActionReminderContent(firstName, item, reminder, portalUrl),
+      });
+    }
+  }
+
+  return jobs;
+}
+
+/**
+ * Dismiss items whose "still relevant?" prompt went unanswered for
+ * ACTION_AUTO_DISMISS_DAYS. Returns how many were dismissed.
+ */
+async function autoDismissUnansweredActions(supabase: SupabaseClient): Promise<number> {
+  const settings = ACTION_REMINDER_SETTINGS;
+  if (settings.autoDismissAfterDays <= 0) return 0;
+
+  try {
+    const now = new Date();
+    const promptedBefore = new Date(now.getTime() - settings.autoDismissAfterDays * 24 * 60 * 60 * 1000);
+    // Prompts older than this either got handled on an earlier run or
+    // predate the item being kept again
+    const promptedAfter = new Date(promptedBefore.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    const prompts = await fetchAllRows<{ reference_id: string; sent_at: string }>((from, to) => supabase
+      .from('nudges')
+      .select('reference_id, sent_at')
+      .eq('nudge_type', ACTION_REMINDER_NUDGE_TYPES.still_relevant)
+      .gte('sent_at', promptedAfter.toISOString())
+      .lte('sent_at', promptedBefore.toISOString())
+      .order('id')
+      .range(from, to));
+    if (prompts.length === 0) return 0;
+
+    // Latest prompt per item
+    const promptedAt = new Map<string, string>();
+    for (const prompt of prompts) {
+      const id = actionIdOfReference(prompt.reference_id);
+      const previous = promptedAt.get(id);
+      if (!previous || Date.parse(prompt.sent_at) > Date.parse(previous)) promptedAt.set(id, prompt.sent_at);
+    }
+
+    const items = await fetchAllIn<{ id: string; recurrence: string | null; last_confirmed_at: string | null }>(
+      [...promptedAt.keys()],
+      (part, from, to) => supabase
+        .from('action_items')
+        .select('id, recurrence, last_confirmed_at')
+        .in('id', part)
+        .eq('status', 'pending')
+        .order('id')
+        .range(from, to)
+    );
+    const stale = items
+      .filter((item) => shouldAutoDismiss(item, promptedAt.get(item.id)!, now, settings))
+      .map((item) => item.id);
+
+    for (const part of chunk(stale, IN_FILTER_CHUNK)) {
+      const { error } = await supabase
+        .from('action_items')
+        .update({ status: 'dismissed', completed_at: null, auto_dismissed_at: now.toISOString() })
+        .in('id', part)
+        .eq('status', 'pending');
+      if (error) throw error;
     }
 
+    if (stale.length > 0) console.log(`Auto-dismissed ${stale.length} unanswered action items`);
+    return stale.length;
+  } catch (error) {
+    console.error('Auto-dismissing action items failed:', error);
+    return 0;
+  }
+}
+
+Deno.serve(async (req) => {
+  // Allow manual trigger via POST or scheduled via GET
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  const startTime = Date.now();
+  const phases: Record<string, PhaseStats> = {};
+
+  emailTransport = getEmailTransport();
+  teamsTokenCache.clear();
+
+  try {
+    const supabase = getSupabaseClient();
+    const dayOfWeek = new Date().getDay(); // 0 = Sunday, 1 = Monday
+
     // ============================================
-    // 5. GOAL COMMITMENT CHECK-INS (Wednesday midweek, Friday endweek)
-    // Reminds employees to check in on their weekly goal commitments
+    // PREFETCH: templates + every enabled connection, once per run
     // ============================================
-    const isMidweekDay = dayOfWeek === 3; // Wednesday
-    const isEndweekDay = dayOfWeek === 5; // Friday
-    const checkinType = isMidweekDay ? 'midweek' : isEndweekDay ? 'endweek' : null;
+    const prefetchStartedAt = Date.now();
+
+    const [{ data: templates }, connections] = await Promise.all([
+      supabase
+        .from('nudge_templates')
+        .select('nudge_type, message_blocks, teams_blocks')
+        .eq('is_default', true),
+      loadConnections(supabase),
+    ]);
+
+    const templateMap = new Map<string, NudgeTemplate>();
+    templates?.forEach((t: NudgeTemplate) => templateMap.set(t.nudge_type, t));
+
+    const prefetchMs = Date.now() - prefetchStartedAt;
+    console.log(`Loaded ${connections.size} connections in ${prefetchMs}ms`);
+
+    // 1. DAILY ACTION ITEM DIGEST
+    phases.daily_digest = await runPhase(supabase, 'daily_digest', startTime, (stats) =>
+      buildDigestJobs(supabase, connections, 'daily', stats));
+
+    // 2. WEEKLY DIGEST (Monday only)
+    if (dayOfWeek === 1) {
+      phases.weekly_digest = await runPhase(supabase, 'weekly_digest', startTime, (stats) =>
+        buildDigestJobs(supabase, connections, 'weekly', stats));
+    }
+
+    // 3. GOAL CHECK-INS (3 days post-session)
+    phases.goal_checkin = await runPhase(supabase, 'goal_checkin', startTime, (stats) =>
+      buildGoalCheckinJobs(supabase, connections, templateMap, stats));
 
+    // 4. SESSION PREP REMINDERS (24h before)
+    phases.session_prep = await runPhase(supabase, 'session_prep', startTime, (stats) =>
+      buildSessionPrepJobs(supabase, connections, templateMap, stats));
+
+    // 5. GOAL COMMITMENT CHECK-INS (Wednesday midweek, Friday endweek)
+    const checkinType = dayOfWeek === 3 ? 'midweek' : dayOfWeek === 5 ? 'endweek' : null;
     if (checkinType) {
-      // Get current week's Monday
-      const mondayOffset = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
-      const monday = new Date(today);
-      monday.setDate(today.getDate() - mondayOffset);
-      const weekStartStr = monday.toISOString().split('T')[0];
-
-      // Find employees with active commitments this week
-      const { data: activeCommitments } = await supabase
-        .from('weekly_commitments')
-        .select('id, employee_email, commitment_text, goal_id')
-        .eq('week_start', weekStartStr)
-        .eq('status', 'active');
-
-      if (activeCommitments && activeCommitments.length > 0) {
-        console.log(`Found ${activeCommitments.length} active commitments for ${checkinType} check-in`);
-
-        for (const commitment of activeCommitments) {
-          try {
-            const email = commitment.employee_email;
-            if (!email) continue;
-
-            // Check if this check-in type already exists for this commitment
-            const { data: existingCheckin } = await supabase
-              .from('goal_checkins')
-              .select('id')
-              .eq('commitment_id', commitment.id)
-              .eq('checkin_type', checkinType)
-              .single();
-
-            if (existingCheckin) continue; // Already checked in
-
-            // Check if we already nudged for this commitment + type
-            const { data: existingNudge } = await supabase
-              .from('nudges')
-              .select('id')
-              .eq('employee_email', email.toLowerCase())
-              .eq('nudge_type', `goal_${checkinType}_checkin`)
-              .eq('reference_id', commitment.id)
-              .single();
-
-            if (existingNudge) continue;
-
-            // Get messaging connection
-            const { data: connData } = await supabase.rpc('get_employee_messaging_connection', {
-              lookup_email: email,
-            });
-
-            if (!connData || connData.length === 0) continue;
-            const conn: MessagingConnection = connData[0];
-
-            if (!isAppropriateTime(conn.preferred_time, conn.timezone)) continue;
-
-            // Get employee first name
-            const { data: empData } = await supabase
-              .from('employee_manager')
-              .select('first_name')
-              .ilike('company_email', email)
-              .single();
-
-            const firstName = empData?.first_name || 'there';
-            const portalUrl = Deno.env.get('PORTAL_URL') || 'https://portal.booncoaching.com';
-            const checkinUrl = `${portalUrl}/goals?checkin=${checkinType}`;
-
-            const isMidweek = checkinType === 'midweek';
-            const heading = isMidweek ? 'Midweek Check-in' : 'End of Week Reflection';
-            const prompt = isMidweek
-              ? `How's your commitment going this week?`
-              : `How did this week go?`;
-
-            const slackBlocks = [
-              {
-                type: 'section',
-                text: {
-                  type: 'mrkdwn',
-                  text: `*Hey ${firstName}!* :dart:\n\n*${heading}*\n\nYour commitment this week: _"${commitment.commitment_text}"_\n\n${prompt}`,
-                },
-              },
-              {
-                type: 'actions',
-                elements: [
-                  {
-                    type: 'button',
-                    text: { type: 'plain_text', text: isMidweek ? "How's it going?" : 'Reflect on your week' },
-                    url: checkinUrl,
-                    style: 'primary',
-                  },
-                ],
-              },
-            ];
-
-            const teamsCard: Record<string, unknown> = {
-              type: 'AdaptiveCard',
-              $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
-              version: '1.4',
-              body: [
-                { type: 'TextBlock', text: heading, weight: 'Bolder', size: 'Medium', color: 'Accent' },
-                { type: 'TextBlock', text: `Hey ${firstName}! ${prompt}`, wrap: true },
-                { type: 'TextBlock', text: `Your commitment: "${commitment.commitment_text}"`, wrap: true, isSubtle: true, spacing: 'Small' },
-              ],
-              actions: [
-                { type: 'Action.OpenUrl', title: isMidweek ? "How's it going?" : 'Reflect on your week', url: checkinUrl },
-              ],
-            };
-
-            const result = await sendNudge(conn, slackBlocks, teamsCard, `${heading}: ${prompt}`);
-
-            if (result.ok && result.messageId) {
-              await supabase.from('nudges').insert({
-                employee_email: email.toLowerCase(),
-                nudge_type: `goal_${checkinType}_checkin`,
-                reference_id: commitment.id,
-                reference_type: 'commitment',
-                message_id: result.messageId,
-                channel_id: result.channelId,
-                channel: conn.channel,
-              });
-
-              results.goal_commitment_checkins_sent++;
-              console.log(`Sent goal ${checkinType} check-in via ${conn.channel} to ${email}`);
-            } else {
-              results.errors++;
-            }
-          } catch (error) {
-            console.error('Error processing goal commitment check-in:', error);
-            results.errors++;
-          }
-        }
-      }
+      phases.goal_commitment_checkin = await runPhase(supabase, 'goal_commitment_checkin', startTime, (stats) =>
+        buildCommitmentCheckinJobs(supabase, connections, checkinType, stats));
     }
 
+    // 6. SMART NUDGES (adaptive, for nudge_frequency 'smart')
+    phases.smart = await runPhase(supabase, 'smart', startTime, (stats) =>
+      buildSmartJobs(supabase, connections, stats));
+
+    // 7. STREAK CELEBRATIONS (milestones: 3, 5, 10, 20, 52 weeks)
+    phases.streak_celebration = await runPhase(supabase, 'streak_celebration', startTime, (stats) =>
+      buildStreakCelebrationJobs(supabase, connections, stats));
+
+    // 8. ACTION ITEM REMINDERS (due tomorrow / today / overdue / still relevant?)
+    const actionItemsAutoDismissed = await autoDismissUnansweredActions(supabase);
+    phases.action_reminders = await runPhase(supabase, 'action_reminders', startTime, (stats) =>
+      buildActionReminderJobs(supabase, connections, stats));
+
+    // Flat totals, kept in the original response shape for existing dashboards
+    const results = {
+      daily_digests_sent: phases.daily_digest?.sent ?? 0,
+      weekly_digests_sent: phases.weekly_digest?.sent ?? 0,
+      goal_checkins_sent: phases.goal_checkin?.sent ?? 0,
+      goal_commitment_checkins_sent: phases.goal_commitment_checkin?.sent ?? 0,
+      session_preps_sent: phases.session_prep?.sent ?? 0,
+      smart_nudges_sent: phases.smart?.sent ?? 0,
+      streak_celebrations_sent: phases.streak_celebration?.sent ?? 0,
+      action_reminders_sent: phases.action_reminders?.sent ?? 0,
+      action_items_auto_dismissed: actionItemsAutoDismissed,
+      errors: Object.values(phases).reduce((sum, p) => sum + p.errors, 0),
+      deferred: Object.values(phases).reduce((sum, p) => sum + p.deferred, 0),
+    };
+
     const duration = ((Date.now() - startTime) / 1000).toFixed(2);
 
     console.log('='.repeat(40));
     console.log('Nudge Scheduler Complete');
-    console.log(`Daily digests sent: ${results.daily_digests_sent}`);
-    console.log(`Weekly digests sent: ${results.weekly_digests_sent}`);
-    console.log(`Goal check-ins sent: ${results.goal_checkins_sent}`);
-    console.log(`Goal commitment check-ins sent: ${results.goal_commitment_checkins_sent}`);
-    console.log(`Session preps sent: ${results.session_preps_sent}`);
-    console.log(`Errors: ${results.errors}`);
+    console.log(`Connections: ${connections.size} (prefetch ${prefetchMs}ms)`);
+    for (const [name, p] of Object.entries(phases)) {
+      console.log(`${name}: ${p.sent} sent / ${p.due} due / ${p.candidates} candidates, ${p.errors} errors, ${p.deferred} deferred, ${p.duration_ms}ms`);
+    }
     console.log(`Duration: ${duration}s`);
     console.log('='.repeat(40));
 
@@ -1076,6 +2058,10 @@ Deno.serve(async (req) => {
       JSON.stringify({
         success: true,
         results,
+        phases: {
+          prefetch: { connections: connections.size, duration_ms: prefetchMs },
+          ...phases,
+        },
         duration: `${duration}s`,
       }),
       { headers: { 'Content-Type': 'application/json' } }
@@ -1084,31 +2070,23 @@ Deno.serve(async (req) => {
   } catch (error) {
     console.error('Nudge scheduler error:', error);
     return new Response(
-      JSON.stringify({ error: 'Scheduler failed', details: String(error) }),
+      JSON.stringify({ error: 'Scheduler failed', details: String(error), phases }),
       { status: 500, headers: { 'Content-Type': 'application/json' } }
     );
+  } finally {
+    await emailTransport?.close();
+    emailTransport = null;
   }
 });
 
 /**
- * Check if current time matches the user's preferred hour
- * (must be the exact hour they specified)
+ * Check the connection's delivery window: preferred hour, quiet hours,
+ * working days, holidays and snooze. Fails closed on a bad timezone.
  */
-function isAppropriateTime(preferredTime: string, timezone: string): boolean {
-  try {
-    const now = new Date();
-
-    const userTime = new Intl.DateTimeFormat('en-US', {
-      timeZone: timezone,
-      hour: 'numeric',
-      hour12: false,
-    }).format(now);
-
-    const currentHour = parseInt(userTime, 10);
-    const preferredHour = parseInt(preferredTime.split(':')[0], 10);
-
-    return currentHour === preferredHour;
-  } catch {
-    return true;
+function isAppropriateTime(conn: MessagingConnection): boolean {
+  const block = getDeliveryBlock(conn);
+  if (block === 'invalid_timezone') {
+    console.warn(`Skipping ${conn.channel} connection ${conn.user_id}: invalid timezone "${conn.timezone}"`);
   }
+  return block === null;
 }
@@ -1,12 +1,39 @@
 // Practice AI Edge Function
-// Handles AI-powered practice scenarios using Claude API
+// Handles AI-powered practice scenarios through a pluggable LLM provider (Claude by default)
 //
 // Endpoints:
 // - POST /generate-plan: Generate strategic plan for a scenario
 // - POST /roleplay: Handle roleplay conversation turns
-// - POST /evaluate: Evaluate roleplay performance
-
-const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+// - POST /evaluate: Score a roleplay against the scenario's rubric (JSON)
+//
+// generate-plan and roleplay accept `stream: true` to receive the reply as
+// server-sent events instead of a single JSON body.
+//
+// Configuration:
+// - PRACTICE_AI_PROVIDER: 'anthropic' (default) or 'mock' for scripted,
+//   offline replies (see _shared/practice-mock-llm.ts)
+// - PRACTICE_AI_MOCK_DELAY_MS: pause between streamed words with the mock
+// - PRACTICE_AI_MODEL: model for every action, default claude-sonnet-4-20250514
+// - PRACTICE_AI_MODEL_GENERATE_PLAN / _ROLEPLAY / _EVALUATE: per-action override
+
+import { createAnthropicProvider, type LlmProvider, type LlmRequest } from '../_shared/llm.ts';
+import {
+  createPracticeMockProvider,
+  type PracticeAction,
+  type PracticeMockOptions,
+} from '../_shared/practice-mock-llm.ts';
+import { parseRoleplayEvaluation, validateRubric, type RubricCriterion } from '../_shared/practice-rubric.ts';
+
+const DEFAULT_MODEL = 'claude-sonnet-4-20250514';
+
+// Times to ask for an evaluation before giving up on malformed output
+const EVALUATION_ATTEMPTS = 2;
+
+const MAX_TOKENS: Record<PracticeAction, number> = {
+  'generate-plan': 2048,
+  roleplay: 1024,
+  evaluate: 2048,
+};
 
 interface PracticeHistory {
   totalSessions: number;
@@ -34,6 +61,7 @@ interface GeneratePlanRequest {
   context: string;
   practiceHistory?: PracticeHistory | null;
   scenarioHistory?: ScenarioHistory[] | null;
+  stream?: boolean;
 }
 
 interface RoleplayRequest {
@@ -43,9 +71,11 @@ interface RoleplayRequest {
     description: string;
     basePrompt: string;
   };
-  messages: Array<{ role: 'user' | 'model'; text: string }>;
+  // interrupted: the manager cut this model turn off mid-stream
+  messages: Array<{ role: 'user' | 'model'; text: string; interrupted?: boolean }>;
   plan?: string;
   practiceHistory?: PracticeHistory | null;
+  stream?: boolean;
 }
 
 interface EvaluateRequest {
@@ -55,6 +85,7 @@ interface EvaluateRequest {
     description: string;
   };
   messages: Array<{ role: 'user' | 'model'; text: string }>;
+  rubric: RubricCriterion[];
   plan?: string;
   practiceHistory?: PracticeHistory | null;
   scenarioHistory?: ScenarioHistory[] | null;
@@ -79,71 +110,85 @@ function getCorsHeaders(req: Request) {
   };
 }
 
-async function callClaude(systemPrompt: string, userMessage: string): Promise<string> {
+function getProvider(
+  action: PracticeAction,
+  scenarioTitle: string,
+  mockOptions: PracticeMockOptions = {}
+): LlmProvider {
+  if (Deno.env.get('PRACTICE_AI_PROVIDER') === 'mock') {
+    const delay = Deno.env.get('PRACTICE_AI_MOCK_DELAY_MS');
+    return createPracticeMockProvider(action, scenarioTitle, {
+      ...mockOptions,
+      chunkDelayMs: delay ? Number(delay) : undefined,
+    });
+  }
+
   const apiKey = Deno.env.get('ANTHROPIC_API_KEY');
   if (!apiKey) {
     throw new Error('ANTHROPIC_API_KEY not configured');
   }
+  return createAnthropicProvider(apiKey);
+}
 
-  const response = await fetch(ANTHROPIC_API_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 2048,
-      system: systemPrompt,
-      messages: [
-        { role: 'user', content: userMessage }
-      ],
-    }),
-  });
+function buildRequest(
+  action: PracticeAction,
+  system: string,
+  messages: LlmRequest['messages']
+): LlmRequest {
+  const envSuffix = action.replace('-', '_').toUpperCase();
+  return {
+    model: Deno.env.get(`PRACTICE_AI_MODEL_${envSuffix}`) || Deno.env.get('PRACTICE_AI_MODEL') || DEFAULT_MODEL,
+    system,
+    messages,
+    maxTokens: MAX_TOKENS[action],
+  };
+}
 
-  if (!response.ok) {
-    const error = await response.text();
-    console.error('Claude API error:', error);
-    throw new Error(`Claude API error: ${response.status}`);
-  }
+const encoder = new TextEncoder();
 
-  const data = await response.json();
-  return data.content[0].text;
+function sseEvent(event: 'token' | 'done' | 'error', data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
 }
 
-async function callClaudeWithHistory(
-  systemPrompt: string,
-  messages: Array<{ role: 'user' | 'assistant'; content: string }>
-): Promise<string> {
-  const apiKey = Deno.env.get('ANTHROPIC_API_KEY');
-  if (!apiKey) {
-    throw new Error('ANTHROPIC_API_KEY not configured');
-  }
+/**
+ * Stream a provider reply as server-sent events: a `token` event per text
+ * delta, then `done` or `error`. If the client disconnects, the provider is
+ * told to stop so the model stops generating.
+ */
+function streamReply(provider: LlmProvider, request: LlmRequest): ReadableStream<Uint8Array> {
+  const upstream = new AbortController();
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for await (const text of provider.stream(request, upstream.signal)) {
+          controller.enqueue(sseEvent('token', { text }));
+        }
+        if (upstream.signal.aborted) return;
+        controller.enqueue(sseEvent('done', {}));
+        controller.close();
+      } catch (error) {
+        // The client went away; nothing left to tell it
+        if (upstream.signal.aborted) return;
+        console.error('Practice AI stream error:', error);
+        controller.enqueue(sseEvent('error', { error: 'The response was interrupted - please try again' }));
+        controller.close();
+      }
+    },
+    cancel() {
+      upstream.abort();
+    },
+  });
+}
 
-  const response = await fetch(ANTHROPIC_API_URL, {
-    method: 'POST',
+function streamResponse(req: Request, stream: ReadableStream<Uint8Array>): Response {
+  return new Response(stream, {
     headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
+      ...getCorsHeaders(req),
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
     },
-    body: JSON.stringify({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 1024,
-      system: systemPrompt,
-      messages,
-    }),
   });
-
-  if (!response.ok) {
-    const error = await response.text();
-    console.error('Claude API error:', error);
-    throw new Error(`Claude API error: ${response.status}`);
-  }
-
-  const data = await response.json();
-  return data.content[0].text;
 }
 
 function formatHistoryContext(practiceHistory?: PracticeHistory | null, scenarioHistory?: ScenarioHistory[] | null): string {
@@ -269,6 +314,7 @@ Guidelines:
 function evaluationPrompt(
   scenario: EvaluateRequest['scenario'],
   messages: EvaluateRequest['messages'],
+  rubric: RubricCriterion[],
   plan?: string,
   practiceHistory?: PracticeHistory | null,
   scenarioHistory?: ScenarioHistory[] | null
@@ -285,6 +331,8 @@ Scoring guide:
 - 5/5: Excellent - masterful handling, would use as a training example
 
 Most conversations should score 2-3. Only give 4+ if they genuinely demonstrated skill. Be specific about what was missing.
+
+You score each rubric criterion separately and respond with JSON only.
 ${historyContext ? `\n${historyContext}\n\nUse this history to provide context-aware feedback. Note if they've improved on previously identified weaknesses, or if they're repeating the same mistakes. Acknowledge growth where you see it.` : ''}`;
 
   const conversationText = messages
@@ -293,6 +341,10 @@ ${historyContext ? `\n${historyContext}\n\nUse this history to provide context-a
 
   const messageCount = messages.filter(m => m.role === 'user').length;
 
+  const rubricText = rubric
+    .map(c => `- "${c.id}" (${c.label}): ${c.description}`)
+    .join('\n');
+
   const user = `Evaluate this practice conversation for "${scenario.title}":
 
 ${scenario.description}
@@ -303,22 +355,32 @@ ${plan}
 ` : ''}**The conversation (${messageCount} manager turns):**
 ${conversationText}
 
-${messageCount < 3 ? `NOTE: This was a very short conversation (only ${messageCount} turn${messageCount === 1 ? '' : 's'}). Score accordingly - a brief exchange cannot demonstrate full competency.\n\n` : ''}Provide your evaluation:
-
-**Adherence Score: X/5**
-Be honest. Did they actually demonstrate the skills needed for this scenario? Short or superficial attempts should score low.
-
-**Tone Analysis:**
-How did they come across? Professional? Hesitant? Rushed?
-
-**What Went Well:**
-Only list things they actually did well. If nothing stood out, say so.
-
-**What Was Missing or Weak:**
-Be specific about gaps, missed opportunities, or missteps.
+${messageCount < 3 ? `NOTE: This was a very short conversation (only ${messageCount} turn${messageCount === 1 ? '' : 's'}). Score accordingly - a brief exchange cannot demonstrate full competency.\n\n` : ''}**Rubric:**
+${rubricText}
+
+Respond with a single JSON object and nothing else, in this shape:
+{
+  "summary": "2-3 sentences on how they came across: tone, confidence, clarity",
+  "criteria": [
+    {
+      "id": "<rubric id>",
+      "score": <whole number 1-5>,
+      "evidence": ["<exact quote from a MANAGER turn>"],
+      "feedback": "<what they did or missed for this criterion>"
+    }
+  ],
+  "strengths": ["<only things they actually did well>"],
+  "areas_to_improve": ["<specific gaps, missed opportunities or missteps>"],
+  "rewrites": [
+    {
+      "original": "<exact quote from a MANAGER turn>",
+      "improved": "<what they could have said instead>",
+      "why": "<why that works better>"
+    }
+  ]
+}
 
-**Better Approach:**
-Give 1-2 specific examples of what they should have said or done differently.`;
+Score every rubric id exactly once. Copy evidence and originals word for word from MANAGER turns; use an empty list when there is nothing to quote. Give 1-3 rewrites for the weakest moments.`;
 
   return { system, user };
 }
@@ -344,7 +406,12 @@ Deno.serve(async (req) => {
           body.practiceHistory,
           body.scenarioHistory
         );
-        const plan = await callClaude(system, user);
+        const provider = getProvider(body.action, body.scenario.title);
+        const request = buildRequest(body.action, system, [{ role: 'user', content: user }]);
+        if (body.stream) {
+          return streamResponse(req, streamReply(provider, request));
+        }
+        const plan = await provider.complete(request);
         return new Response(
           JSON.stringify({ success: true, plan }),
           { headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json' } }
@@ -354,21 +421,27 @@ Deno.serve(async (req) => {
       case 'roleplay': {
         const systemPrompt = roleplaySystemPrompt(body.scenario, body.plan, body.practiceHistory);
 
-        // Convert messages to Claude format
-        const claudeMessages = body.messages.map(m => ({
+        // Convert messages to provider format. A turn the manager cut off ends
+        // with a dash so the character knows it was interrupted.
+        const llmMessages = body.messages.map(m => ({
           role: m.role === 'user' ? 'user' as const : 'assistant' as const,
-          content: m.text,
+          content: m.interrupted ? `${m.text.trimEnd()}—` : m.text,
         }));
 
         // If empty, start the conversation
-        if (claudeMessages.length === 0) {
-          claudeMessages.push({
+        if (llmMessages.length === 0) {
+          llmMessages.push({
             role: 'user',
             content: '[The manager approaches to have this conversation. React naturally as the other person would when they see the manager approaching.]'
           });
         }
 
-        const response = await callClaudeWithHistory(systemPrompt, claudeMessages);
+        const provider = getProvider(body.action, body.scenario.title);
+        const request = buildRequest(body.action, systemPrompt, llmMessages);
+        if (body.stream) {
+          return streamResponse(req, streamReply(provider, request));
+        }
+        const response = await provider.complete(request);
         return new Response(
           JSON.stringify({ success: true, response }),
           { headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json' } }
@@ -376,16 +449,51 @@ Deno.serve(async (req) => {
       }
 
       case 'evaluate': {
+        const rubric = validateRubric(body.rubric);
+        if (!rubric) {
+          return new Response(
+            JSON.stringify({ error: 'Invalid rubric' }),
+            { status: 400, headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json' } }
+          );
+        }
+
         const { system, user } = evaluationPrompt(
           body.scenario,
           body.messages,
+          rubric,
           body.plan,
           body.practiceHistory,
           body.scenarioHistory
         );
-        const evaluation = await callClaude(system, user);
+        const provider = getProvider(body.action, body.scenario.title, {
+          rubric,
+          managerTurns: body.messages.filter(m => m.role === 'user').map(m => m.text),
+        });
+
+        // One retry, telling the model what was wrong with its first answer
+        const conversation: LlmRequest['messages'] = [{ role: 'user', content: user }];
+        let reply = await provider.complete(buildRequest(body.action, system, conversation));
+        let result = parseRoleplayEvaluation(reply, rubric, body.messages);
+        for (let attempt = 1; !result.evaluation && attempt < EVALUATION_ATTEMPTS; attempt++) {
+          console.warn('Evaluation rejected:', result.errors);
+          conversation.push(
+            { role: 'assistant', content: reply },
+            { role: 'user', content: `That evaluation can't be used: ${result.errors.join('; ')}. Reply with the corrected JSON object only.` }
+          );
+          reply = await provider.complete(buildRequest(body.action, system, conversation));
+          result = parseRoleplayEvaluation(reply, rubric, body.messages);
+        }
+
+        if (!result.evaluation) {
+          console.error('Evaluation rejected:', result.errors);
+          return new Response(
+            JSON.stringify({ success: false, error: 'Failed to evaluate' }),
+            { status: 502, headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json' } }
+          );
+        }
+
         return new Response(
-          JSON.stringify({ success: true, evaluation }),
+          JSON.stringify({ success: true, evaluation: result.evaluation }),
           { headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json' } }
         );
       }
@@ -0,0 +1,278 @@
+// Progress Report Edge Function
+// Stores and serves time-limited share links for employee progress reports
+// (see src/lib/progressReport.ts for what a report contains).
+//
+// The report snapshot comes from the portal, but wins and competency scores
+// are re-read here: only the keys/ids are taken from the request, so the
+// stored copy holds the caller's own non-private wins and real survey scores,
+// whatever the request says.
+//
+// Actions:
+//   GET  ?token=...        — the shared report (no JWT; what the manager opens)
+//   GET  ?action=list      — caller's shares
+//   POST ?action=create    — { report, expires_in_days, recipient_label? } → { share, url }
+//   POST ?action=revoke    — { id }
+//
+// Deploy: supabase functions deploy progress-report --no-verify-jwt
+// (the shared link has no JWT; list/create/revoke verify it themselves)
+
+import { getSupabaseClient, exactIlike } from '../_shared/supabase.ts';
+import { buildReportCompetencies } from '../_shared/report-competencies.ts';
+
+const ALLOWED_EXPIRY_DAYS = [1, 7, 14, 30];
+const MAX_NOTE_LENGTH = 2000;
+
+const SHARE_COLUMNS = 'id, recipient_label, expires_at, revoked_at, view_count, last_viewed_at, created_at, token';
+
+type Supabase = ReturnType<typeof getSupabaseClient>;
+
+interface ReportInput {
+  employee_name?: unknown;
+  program?: unknown;
+  generated_at?: unknown;
+  competencies?: unknown;
+  focus_areas?: unknown;
+  wins?: unknown;
+  note?: unknown;
+}
+
+function getAllowedOrigin(reqOrigin: string | null): string {
+  const portalUrl = Deno.env.get('PORTAL_URL') || 'http://localhost:5173';
+  const allowed = [portalUrl, 'https://my.boon-health.com', 'http://localhost:5173', 'http://localhost:3000'];
+  if (reqOrigin && allowed.includes(reqOrigin)) return reqOrigin;
+  return portalUrl;
+}
+
+function getCorsHeaders(req: Request) {
+  const origin = req.headers.get('origin');
+  return {
+    'Access-Control-Allow-Origin': getAllowedOrigin(origin),
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Credentials': 'true',
+  };
+}
+
+function jsonResponse(req: Request, body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json' },
+  });
+}
+
+function generateToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return [...bytes].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function buildShareUrl(token: string): string {
+  const portalUrl = Deno.env.get('PORTAL_URL') || 'https://my.boon-health.com';
+  return `${portalUrl}/report/${token}`;
+}
+
+async function getAuthedEmail(req: Request): Promise<string | null> {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) return null;
+
+  const supabase = getSupabaseClient();
+  const token = authHeader.replace('Bearer ', '');
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+
+  if (error || !user?.email) return null;
+  return user.email.toLowerCase();
+}
+
+function asString(value: unknown, max = 200): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim().slice(0, max) : null;
+}
+
+/**
+ * Keep only the fields a report is allowed to carry, and rebuild the wins
+ * and competency scores from the caller's own data
+ */
+async function sanitizeReport(supabase: Supabase, email: string, input: ReportInput) {
+  const competencyKeys = (Array.isArray(input.competencies) ? input.competencies : [])
+    .map((c: Record<string, unknown>) => asString(c?.key, 80))
+    .filter((key): key is string => key !== null)
+    .slice(0, 20);
+
+  let competencies: ReturnType<typeof buildReportCompetencies> = [];
+  if (competencyKeys.length > 0) {
+    const pattern = exactIlike(email);
+    const [baselineResult, scoresResult] = await Promise.all([
+      supabase
+        .from('welcome_survey_baseline')
+        .select('*')
+        .ilike('email', pattern)
+        .order('id', { ascending: false })
+        .limit(1),
+      supabase
+        .from('competency_scores')
+        .select('competency_name, score')
+        .ilike('email', pattern)
+        .order('created_at', { ascending: false }),
+    ]);
+
+    if (baselineResult.error) throw baselineResult.error;
+    // Not every environment has competency_scores yet
+    if (scoresResult.error && !['42P01', 'PGRST205'].includes(scoresResult.error.code)) throw scoresResult.error;
+    competencies = buildReportCompetencies(competencyKeys, baselineResult.data?.[0] || null, scoresResult.data || []);
+  }
+
+  const focusAreas = (Array.isArray(input.focus_areas) ? input.focus_areas : [])
+    .map((area) => asString(area, 80))
+    .filter((area): area is string => area !== null)
+    .slice(0, 12);
+
+  const requestedWinIds = (Array.isArray(input.wins) ? input.wins : [])
+    .map((w: Record<string, unknown>) => asString(w?.id, 80))
+    .filter((id): id is string => id !== null)
+    .slice(0, 50);
+
+  let wins: { id: string; text: string; created_at: string }[] = [];
+  if (requestedWinIds.length > 0) {
+    const { data: employees } = await supabase
+      .from('employee_manager')
+      .select('id')
+      .ilike('company_email', exactIlike(email));
+    const employeeIds = (employees || []).map((e) => e.id);
+
+    if (employeeIds.length > 0) {
+      const { data, error } = await supabase
+        .from('coaching_wins')
+        .select('id, win_text, created_at')
+        .in('id', requestedWinIds)
+        .in('employee_id', employeeIds)
+        .eq('is_private', false)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      wins = (data || []).map((w) => ({ id: w.id, text: w.win_text, created_at: w.created_at }));
+    }
+  }
+
+  return {
+    employee_name: asString(input.employee_name, 120) || 'Employee',
+    program: asString(input.program, 80),
+    generated_at: new Date().toISOString(),
+    competencies,
+    focus_areas: focusAreas,
+    wins,
+    note: asString(input.note, MAX_NOTE_LENGTH),
+  };
+}
+
+async function serveSharedReport(req: Request, token: string): Promise<Response> {
+  const supabase = getSupabaseClient();
+
+  const { data: share } = await supabase
+    .from('progress_report_shares')
+    .select('id, report, expires_at, revoked_at, view_count')
+    .eq('token', token)
+    .maybeSingle();
+
+  // Same response for unknown, revoked and expired links — don't confirm which exist
+  if (!share || share.revoked_at || new Date(share.expires_at).getTime() <= Date.now()) {
+    return jsonResponse(req, { error: 'This link has expired or been revoked' }, 404);
+  }
+
+  // Fire-and-forget: the employee sees whether their manager opened it
+  supabase
+    .from('progress_report_shares')
+    .update({ view_count: (share.view_count || 0) + 1, last_viewed_at: new Date().toISOString() })
+    .eq('id', share.id)
+    .then(({ error }) => {
+      if (error) console.error('Failed to record report view:', error);
+    });
+
+  return new Response(JSON.stringify({ report: share.report, expires_at: share.expires_at }), {
+    headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: getCorsHeaders(req) });
+  }
+
+  const url = new URL(req.url);
+  const token = url.searchParams.get('token');
+  const action = url.searchParams.get('action');
+
+  try {
+    if (token && req.method === 'GET') {
+      return await serveSharedReport(req, token);
+    }
+
+    const email = await getAuthedEmail(req);
+    if (!email) {
+      return jsonResponse(req, { error: 'Unauthorized' }, 401);
+    }
+
+    const supabase = getSupabaseClient();
+
+    if (action === 'list' && req.method === 'GET') {
+      const { data, error } = await supabase
+        .from('progress_report_shares')
+        .select(SHARE_COLUMNS)
+        .eq('employee_email', email)
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      if (error) throw error;
+      const shares = (data || []).map(({ token: shareToken, ...share }) => ({
+        ...share,
+        url: buildShareUrl(shareToken),
+      }));
+      return jsonResponse(req, { shares });
+    }
+
+    if (req.method !== 'POST') {
+      return jsonResponse(req, { error: 'Method not allowed' }, 405);
+    }
+
+    const body = await req.json().catch(() => ({}));
+
+    if (action === 'create') {
+      const expiresInDays = Number(body.expires_in_days);
+      if (!ALLOWED_EXPIRY_DAYS.includes(expiresInDays)) {
+        return jsonResponse(req, { error: `expires_in_days must be one of ${ALLOWED_EXPIRY_DAYS.join(', ')}` }, 400);
+      }
+
+      const report = await sanitizeReport(supabase, email, body.report || {});
+      const shareToken = generateToken();
+
+      const { data, error } = await supabase
+        .from('progress_report_shares')
+        .insert({
+          employee_email: email,
+          token: shareToken,
+          report,
+          recipient_label: asString(body.recipient_label, 120),
+          expires_at: new Date(Date.now() + expiresInDays * 86_400_000).toISOString(),
+        })
+        .select(SHARE_COLUMNS)
+        .single();
+
+      if (error) throw error;
+      const { token: _token, ...share } = data;
+      return jsonResponse(req, { share: { ...share, url: buildShareUrl(shareToken) } });
+    }
+
+    if (action === 'revoke') {
+      const { error } = await supabase
+        .from('progress_report_shares')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', body.id)
+        .eq('employee_email', email)
+        .is('revoked_at', null);
+
+      if (error) throw error;
+      return jsonResponse(req, { success: true });
+    }
+
+    return jsonResponse(req, { error: 'Unknown action' }, 400);
+  } catch (error) {
+    console.error('Progress report error:', error);
+    return jsonResponse(req, { error: 'Internal server error' }, 500);
+  }
+});
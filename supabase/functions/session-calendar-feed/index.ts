@@ -0,0 +1,194 @@
+// Session Calendar Feed Edge Function
+// Serves a private, token-authenticated iCalendar feed of an employee's
+// coaching sessions so Outlook / Google / Apple Calendar can subscribe.
+//
+// The feed is rendered from session_tracking on every request, so changes made
+// by session-reconciliation (reschedules, cancellations) show up on the next
+// calendar refresh without any push step.
+//
+// Actions:
+//   GET  ?token=...        — the feed itself (text/calendar, no JWT)
+//   GET  ?action=url       — returns the caller's feed URL, creating a token if needed
+//   POST ?action=rotate    — revokes the caller's token and issues a new one
+//
+// Deploy: supabase functions deploy session-calendar-feed --no-verify-jwt
+// (calendar clients can't send a JWT; url/rotate verify it themselves)
+
+import { getSupabaseClient } from '../_shared/supabase.ts';
+import { buildSessionFeed, type IcsSession } from '../_shared/ics.ts';
+
+// Past sessions older than this are dropped from the feed to keep it small;
+// calendar clients keep events they've already imported.
+const FEED_LOOKBACK_DAYS = 180;
+
+function getAllowedOrigin(reqOrigin: string | null): string {
+  const portalUrl = Deno.env.get('PORTAL_URL') || 'http://localhost:5173';
+  const allowed = [portalUrl, 'https://my.boon-health.com', 'http://localhost:5173', 'http://localhost:3000'];
+  if (reqOrigin && allowed.includes(reqOrigin)) return reqOrigin;
+  return portalUrl;
+}
+
+function getCorsHeaders(req: Request) {
+  const origin = req.headers.get('origin');
+  return {
+    'Access-Control-Allow-Origin': getAllowedOrigin(origin),
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Credentials': 'true',
+  };
+}
+
+function jsonResponse(req: Request, body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json' },
+  });
+}
+
+function generateToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return [...bytes].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function buildFeedUrl(url: URL, token: string): string {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL') || url.origin;
+  return `${supabaseUrl}/functions/v1/session-calendar-feed?token=${token}`;
+}
+
+async function getAuthedEmail(req: Request): Promise<string | null> {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) return null;
+
+  const supabase = getSupabaseClient();
+  const token = authHeader.replace('Bearer ', '');
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+
+  if (error || !user?.email) return null;
+  return user.email.toLowerCase();
+}
+
+async function issueToken(email: string): Promise<string> {
+  const supabase = getSupabaseClient();
+  const token = generateToken();
+
+  const { error } = await supabase
+    .from('calendar_feed_tokens')
+    .insert({ employee_email: email, token });
+
+  if (error) throw new Error(`Failed to issue feed token: ${error.message}`);
+  return token;
+}
+
+async function serveFeed(token: string): Promise<Response> {
+  const supabase = getSupabaseClient();
+
+  const { data: tokenRow } = await supabase
+    .from('calendar_feed_tokens')
+    .select('id, employee_email')
+    .eq('token', token)
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  // Same response for unknown and revoked tokens — don't confirm which exist
+  if (!tokenRow) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const { data: employee } = await supabase
+    .from('employee_manager')
+    .select('id, first_name')
+    .ilike('company_email', tokenRow.employee_email)
+    .maybeSingle();
+
+  let sessions: IcsSession[] = [];
+  if (employee) {
+    const since = new Date(Date.now() - FEED_LOOKBACK_DAYS * 86_400_000).toISOString();
+    const { data, error } = await supabase
+      .from('session_tracking')
+      .select('id, session_date, status, coach_name, duration_minutes, zoom_join_link, employee_pre_session_note')
+      .eq('employee_id', employee.id)
+      .gte('session_date', since)
+      .order('session_date', { ascending: true });
+
+    if (error) {
+      console.error('Failed to load sessions for feed:', error);
+      return new Response('Feed unavailable', { status: 500 });
+    }
+    sessions = (data as IcsSession[]) || [];
+  }
+
+  // Fire-and-forget: useful for spotting dead subscriptions, not worth failing over
+  supabase
+    .from('calendar_feed_tokens')
+    .update({ last_accessed_at: new Date().toISOString() })
+    .eq('id', tokenRow.id)
+    .then(({ error }) => {
+      if (error) console.error('Failed to record feed access:', error);
+    });
+
+  const body = buildSessionFeed(sessions, 'Boon coaching sessions');
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="boon-sessions.ics"',
+      'Cache-Control': 'private, max-age=300',
+    },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: getCorsHeaders(req) });
+  }
+
+  const url = new URL(req.url);
+  const action = url.searchParams.get('action');
+
+  try {
+    // Calendar clients hit the bare URL with only the token
+    const feedToken = url.searchParams.get('token');
+    if (!action && feedToken && req.method === 'GET') {
+      return await serveFeed(feedToken);
+    }
+
+    if (action === 'url') {
+      const email = await getAuthedEmail(req);
+      if (!email) return jsonResponse(req, { error: 'Unauthorized' }, 401);
+
+      const supabase = getSupabaseClient();
+      const { data: existing } = await supabase
+        .from('calendar_feed_tokens')
+        .select('token')
+        .eq('employee_email', email)
+        .is('revoked_at', null)
+        .maybeSingle();
+
+      const token = existing?.token || await issueToken(email);
+      return jsonResponse(req, { url: buildFeedUrl(url, token) });
+    }
+
+    if (action === 'rotate' && req.method === 'POST') {
+      const email = await getAuthedEmail(req);
+      if (!email) return jsonResponse(req, { error: 'Unauthorized' }, 401);
+
+      const supabase = getSupabaseClient();
+      const { error: revokeError } = await supabase
+        .from('calendar_feed_tokens')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('employee_email', email)
+        .is('revoked_at', null);
+
+      if (revokeError) {
+        console.error('Failed to revoke feed token:', revokeError);
+        return jsonResponse(req, { error: 'Failed to rotate feed URL' }, 500);
+      }
+
+      const token = await issueToken(email);
+      return jsonResponse(req, { url: buildFeedUrl(url, token) });
+    }
+
+    return jsonResponse(req, { error: 'Invalid action' }, 400);
+  } catch (error) {
+    console.error('Session calendar feed error:', error);
+    return jsonResponse(req, { error: 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,115 @@
+// Slack Commands Edge Function
+// Handles the /boon slash command
+//
+//   /boon win [text]       log a coaching win
+//   /boon commit [text]    add a weekly commitment
+//   /boon journal [text]   write a journal entry
+//   /boon actions          list open action items with Done buttons
+//
+// With text the item is saved straight away; without it a modal opens and
+// the submission is handled by slack-interactions.
+//
+// Slack app setup: slash command /boon → {SUPABASE_URL}/functions/v1/slack-commands,
+// message shortcut with callback id `boon_save_message` and interactivity →
+// slack-interactions. Requires the `commands` scope (workspaces installed
+// before it was added need to reinstall).
+
+import { getSupabaseClient, getEnvVar } from '../_shared/supabase.ts';
+import { verifySlackSignature } from '../_shared/slack.ts';
+import { type CaptureKind, saveCapture, fetchOpenActionItems } from '../_shared/capture.ts';
+import {
+  resolveSlackEmployee,
+  savedMessageFor,
+  buildCaptureModal,
+  buildActionListBlocks,
+  buildHelpBlocks,
+  openSlackModal,
+} from '../_shared/slack-capture.ts';
+
+const PORTAL_URL = Deno.env.get('PORTAL_URL') || 'https://my.boon-health.com';
+
+const SUBCOMMANDS: Record<string, CaptureKind> = {
+  win: 'win',
+  commit: 'commitment',
+  commitment: 'commitment',
+  journal: 'journal',
+};
+
+function ephemeral(text: string, blocks?: unknown[]): Response {
+  return new Response(
+    JSON.stringify({ response_type: 'ephemeral', text, ...(blocks ? { blocks } : {}) }),
+    { headers: { 'Content-Type': 'application/json' } }
+  );
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  try {
+    const body = await req.text();
+
+    const isValid = await verifySlackSignature(
+      getEnvVar('SLACK_SIGNING_SECRET'),
+      req.headers.get('x-slack-signature') || '',
+      req.headers.get('x-slack-request-timestamp') || '',
+      body
+    );
+
+    if (!isValid) {
+      console.error('Invalid Slack signature');
+      return new Response('Invalid signature', { status: 401 });
+    }
+
+    const params = new URLSearchParams(body);
+    const teamId = params.get('team_id') || '';
+    const userId = params.get('user_id') || '';
+    const triggerId = params.get('trigger_id') || '';
+    const commandText = (params.get('text') || '').trim();
+    const rawSubcommand = commandText.split(/\s+/)[0];
+    const subcommand = rawSubcommand.toLowerCase();
+    // Keep the user's own spacing/newlines after the subcommand
+    const text = commandText.slice(rawSubcommand.length).trim();
+
+    if (!subcommand || subcommand === 'help') {
+      return ephemeral('Boon commands', buildHelpBlocks());
+    }
+
+    const supabase = getSupabaseClient();
+    const employee = await resolveSlackEmployee(supabase, teamId, userId);
+
+    if (!employee) {
+      return ephemeral(
+        `Connect Slack to Boon first: <${PORTAL_URL}/settings|open your settings>.`
+      );
+    }
+
+    if (subcommand === 'actions' || subcommand === 'todo') {
+      const items = await fetchOpenActionItems(supabase, employee.email);
+      return ephemeral('Your open action items', buildActionListBlocks(items, PORTAL_URL));
+    }
+
+    const kind = SUBCOMMANDS[subcommand];
+    if (!kind) {
+      return ephemeral(`I don't know \`${rawSubcommand}\`.`, buildHelpBlocks());
+    }
+
+    if (text) {
+      const result = await saveCapture(supabase, employee, kind, text);
+      return ephemeral(result.ok ? savedMessageFor(kind) : result.message);
+    }
+
+    const opened = await openSlackModal(employee.botToken, triggerId, buildCaptureModal(kind));
+    if (!opened.ok) {
+      console.error('Failed to open capture modal:', opened.error);
+      return ephemeral(`Couldn't open the form. Try \`/boon ${subcommand} your text\` instead.`);
+    }
+
+    return new Response('', { status: 200 });
+
+  } catch (error) {
+    console.error('Slash command error:', error);
+    return ephemeral('Something went wrong. Please try again.');
+  }
+});
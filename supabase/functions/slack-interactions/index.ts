@@ -1,7 +1,23 @@
-// Slack Interactions Edge Function (Standalone)
-// Handles button clicks from Slack messages
+// Slack Interactions Edge Function
+// Handles button clicks from Slack messages, the "Save to Boon" message
+// shortcut and capture modal submissions (see slack-commands)
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { verifySlackSignature, sendSlackMessage } from '../_shared/slack.ts';
+import { saveCapture, fetchOpenActionItems, completeOwnActionItem } from '../_shared/capture.ts';
+import {
+  CAPTURE_MODAL_CALLBACK_ID,
+  MESSAGE_SHORTCUT_CALLBACK_ID,
+  resolveSlackEmployee,
+  savedMessageFor,
+  buildCaptureModal,
+  parseCaptureSubmission,
+  buildActionListBlocks,
+  openSlackModal,
+  respondToSlack,
+} from '../_shared/slack-capture.ts';
+
+const PORTAL_URL = Deno.env.get('PORTAL_URL') || 'https://my.boon-health.com';
 
 // Inline helper: create Supabase client
 function getSupabaseClient() {
@@ -11,30 +27,6 @@ function getSupabaseClient() {
   );
 }
 
-// Inline helper: verify Slack signature
-async function verifySlackSignature(
-  signingSecret: string,
-  signature: string,
-  timestamp: string,
-  body: string
-): Promise<boolean> {
-  const encoder = new TextEncoder();
-  const key = await crypto.subtle.importKey(
-    'raw',
-    encoder.encode(signingSecret),
-    { name: 'HMAC', hash: 'SHA-256' },
-    false,
-    ['sign']
-  );
-
-  const baseString = `v0:${timestamp}:${body}`;
-  const signatureBuffer = await crypto.subtle.sign('HMAC', key, encoder.encode(baseString));
-  const signatureArray = Array.from(new Uint8Array(signatureBuffer));
-  const computedSignature = 'v0=' + signatureArray.map(b => b.toString(16).padStart(2, '0')).join('');
-
-  return computedSignature === signature;
-}
-
 // Inline helper: update Slack message
 async function updateSlackMessage(
   botToken: string,
@@ -97,6 +89,34 @@ Deno.serve(async (req) => {
       });
     }
 
+    // Handle capture modal submissions (from /boon or the message shortcut)
+    if (type === 'view_submission' && payload.view?.callback_id === CAPTURE_MODAL_CALLBACK_ID) {
+      return handleCaptureSubmission(payload);
+    }
+
+    // Handle "Save to Boon" message shortcut
+    if (type === 'message_action' && payload.callback_id === MESSAGE_SHORTCUT_CALLBACK_ID) {
+      const supabase = getSupabaseClient();
+      const employee = await resolveSlackEmployee(supabase, payload.team?.id, payload.user?.id);
+
+      if (!employee) {
+        await respondToSlack(payload.response_url, {
+          text: `Connect Slack to Boon first: <${PORTAL_URL}/settings|open your settings>.`,
+        });
+        return new Response('', { status: 200 });
+      }
+
+      const opened = await openSlackModal(
+        employee.botToken,
+        payload.trigger_id,
+        buildCaptureModal(null, payload.message?.text || '')
+      );
+      if (!opened.ok) {
+        console.error('Failed to open capture modal:', opened.error);
+      }
+      return new Response('', { status: 200 });
+    }
+
     // Handle block actions (button clicks)
     if (type === 'block_actions' && actions?.length > 0) {
       const action = actions[0];
@@ -104,6 +124,13 @@ Deno.serve(async (req) => {
 
       const supabase = getSupabaseClient();
 
+      // Done buttons on the ephemeral /boon actions list: there's no message
+      // to chat.update, so refresh the list through response_url instead
+      if (actionId === 'complete_action_item' && payload.container?.is_ephemeral) {
+        await completeFromActionList(supabase, payload, action.value);
+        return new Response('', { status: 200 });
+      }
+
       // Get bot token for this team
       const { data: installation } = await supabase
         .from('slack_installations')
@@ -221,6 +248,57 @@ Deno.serve(async (req) => {
           break;
         }
 
+        // "Still relevant?" prompt for an action item that's been sitting
+        case 'relevance_keep':
+        case 'relevance_done':
+        case 'relevance_dismiss': {
+          const actionItemId = action.value || referenceId;
+          const now = new Date().toISOString();
+          const updates: Record<string, Record<string, unknown>> = {
+            relevance_keep: { last_confirmed_at: now },
+            relevance_done: { status: 'completed', completed_at: now },
+            relevance_dismiss: { status: 'dismissed' },
+          };
+          const relevanceMessage: Record<string, string> = {
+            relevance_keep: ':white_check_mark: *Kept.* It stays on your list.',
+            relevance_done: ':white_check_mark: *Done!* Nice work completing your action item.',
+            relevance_dismiss: "*Removed.* It's off your list.",
+          };
+
+          // Scope to the clicking employee so a forged id can't touch someone else's item
+          const employee = await resolveSlackEmployee(supabase, payload.team?.id || '', payload.user?.id || '');
+          if (employee) {
+            const { error } = await supabase
+              .from('action_items')
+              .update(updates[actionId])
+              .eq('id', actionItemId)
+              .eq('status', 'pending')
+              .eq('email', employee.email);
+
+            if (error) {
+              console.error('Failed to update action item relevance:', error);
+            }
+          }
+
+          await recordNudgeResponse(supabase, message.ts, channel.id, actionId, actionItemId);
+
+          await updateSlackMessage(
+            installation.bot_token,
+            channel.id,
+            message.ts,
+            [
+              {
+                type: 'section',
+                text: {
+                  type: 'mrkdwn',
+                  text: relevanceMessage[actionId],
+                },
+              },
+            ]
+          );
+          break;
+        }
+
         default:
           console.log('Unknown action:', actionId);
       }
@@ -237,6 +315,61 @@ Deno.serve(async (req) => {
   }
 });
 
+/**
+ * Save a submitted capture modal. Returning a body with response_action
+ * keeps the modal open with the error shown; an empty 200 closes it.
+ */
+async function handleCaptureSubmission(payload: {
+  team?: { id: string };
+  user?: { id: string };
+  view: Parameters<typeof parseCaptureSubmission>[0];
+}): Promise<Response> {
+  const supabase = getSupabaseClient();
+  const employee = await resolveSlackEmployee(supabase, payload.team?.id || '', payload.user?.id || '');
+  const { kind, text } = parseCaptureSubmission(payload.view);
+
+  const fail = (message: string) => new Response(
+    JSON.stringify({ response_action: 'errors', errors: { text: message } }),
+    { headers: { 'Content-Type': 'application/json' } }
+  );
+
+  if (!employee) return fail('Connect Slack to Boon in your portal settings first.');
+  if (!kind) return fail('Choose what to save this as.');
+
+  const result = await saveCapture(supabase, employee, kind, text);
+  if (!result.ok) return fail(result.message);
+
+  // Modals have no reply channel, so confirm in the DM
+  if (employee.dmChannelId) {
+    const confirmation = savedMessageFor(kind);
+    await sendSlackMessage(employee.botToken, {
+      channel: employee.dmChannelId,
+      text: confirmation,
+      blocks: [{ type: 'section', text: { type: 'mrkdwn', text: confirmation } }],
+    });
+  }
+
+  return new Response('', { status: 200 });
+}
+
+async function completeFromActionList(
+  supabase: ReturnType<typeof getSupabaseClient>,
+  payload: { team?: { id: string }; user?: { id: string }; response_url: string },
+  actionItemId: string
+) {
+  const employee = await resolveSlackEmployee(supabase, payload.team?.id || '', payload.user?.id || '');
+  if (!employee) return;
+
+  await completeOwnActionItem(supabase, employee.email, actionItemId);
+
+  const items = await fetchOpenActionItems(supabase, employee.email);
+  await respondToSlack(payload.response_url, {
+    replace_original: true,
+    text: 'Your open action items',
+    blocks: buildActionListBlocks(items, PORTAL_URL),
+  });
+}
+
 /**
  * Update message blocks to show a specific action item as completed
  * Changes: ☐ → ✅, removes the button, shows "Done!"
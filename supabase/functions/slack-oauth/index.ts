@@ -8,6 +8,7 @@ import {
   openDMChannel,
 } from '../_shared/slack.ts';
 import { createSignedState, verifySignedState } from '../_shared/oauth-state.ts';
+import { isValidTimezone, pickDeliveryWindow } from '../_shared/nudge-window.ts';
 
 function getAllowedOrigin(reqOrigin: string | null): string {
   const portalUrl = Deno.env.get('PORTAL_URL') || 'http://localhost:5173';
@@ -53,7 +54,7 @@ Deno.serve(async (req) => {
 
       const slackAuthUrl = new URL('https://slack.com/oauth/v2/authorize');
       slackAuthUrl.searchParams.set('client_id', clientId);
-      slackAuthUrl.searchParams.set('scope', 'chat:write,users:read,users:read.email,im:write');
+      slackAuthUrl.searchParams.set('scope', 'chat:write,users:read,users:read.email,im:write,commands');
       slackAuthUrl.searchParams.set('redirect_uri', redirectUri);
       slackAuthUrl.searchParams.set('state', state);
 
@@ -232,7 +233,7 @@ Deno.serve(async (req) => {
 
       const { data: connection } = await supabase
         .from('employee_slack_connections')
-        .select('slack_user_id, nudge_enabled, nudge_frequency, preferred_time, timezone')
+        .select('slack_user_id, nudge_enabled, nudge_frequency, preferred_time, timezone, quiet_hours_start, quiet_hours_end, working_days, holidays, snoozed_until')
         .eq('employee_email', user.email.toLowerCase())
         .single();
 
@@ -270,6 +271,22 @@ Deno.serve(async (req) => {
       const body = await req.json();
       const { nudge_enabled, nudge_frequency, preferred_time, timezone } = body;
 
+      // The scheduler skips connections with a bad timezone, so reject it here
+      if (timezone !== undefined && !isValidTimezone(timezone)) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid timezone' }),
+          { status: 400, headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const deliveryWindow = pickDeliveryWindow(body);
+      if (deliveryWindow.error) {
+        return new Response(
+          JSON.stringify({ error: deliveryWindow.error }),
+          { status: 400, headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json' } }
+        );
+      }
+
       const { error: updateError } = await supabase
         .from('employee_slack_connections')
         .update({
@@ -277,6 +294,7 @@ Deno.serve(async (req) => {
           nudge_frequency,
           preferred_time,
           timezone,
+          ...deliveryWindow.window,
         })
         .eq('employee_email', user.email.toLowerCase());
 
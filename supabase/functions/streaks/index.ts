@@ -0,0 +1,100 @@
+// Streaks Edge Function
+// Current and best weekly streaks for the signed-in employee: completed
+// weekly commitments, journal entries and completed action items. The
+// streak rules live in _shared/streaks.ts, shared with nudge-scheduler's
+// streak_celebration nudges.
+//
+// GET ?tz=America/New_York — tz decides where weeks start; defaults to UTC
+
+import { getSupabaseClient, exactIlike } from '../_shared/supabase.ts';
+import { computeStreaks, STREAK_LOOKBACK_WEEKS } from '../_shared/streaks.ts';
+
+function getAllowedOrigin(reqOrigin: string | null): string {
+  const portalUrl = Deno.env.get('PORTAL_URL') || 'http://localhost:5173';
+  const allowed = [portalUrl, 'https://my.boon-health.com', 'http://localhost:5173', 'http://localhost:3000'];
+  if (reqOrigin && allowed.includes(reqOrigin)) return reqOrigin;
+  return portalUrl;
+}
+
+function getCorsHeaders(req: Request) {
+  const origin = req.headers.get('origin');
+  return {
+    'Access-Control-Allow-Origin': getAllowedOrigin(origin),
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Credentials': 'true',
+  };
+}
+
+function jsonResponse(req: Request, body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json' },
+  });
+}
+
+async function getAuthedEmail(req: Request): Promise<string | null> {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) return null;
+
+  const supabase = getSupabaseClient();
+  const token = authHeader.replace('Bearer ', '');
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+
+  if (error || !user?.email) return null;
+  return user.email.toLowerCase();
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: getCorsHeaders(req) });
+  }
+
+  if (req.method !== 'GET') {
+    return jsonResponse(req, { error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const email = await getAuthedEmail(req);
+    if (!email) {
+      return jsonResponse(req, { error: 'Unauthorized' }, 401);
+    }
+
+    const timezone = new URL(req.url).searchParams.get('tz');
+    const supabase = getSupabaseClient();
+    const since = new Date(Date.now() - (STREAK_LOOKBACK_WEEKS + 1) * 7 * 24 * 60 * 60 * 1000);
+    const pattern = exactIlike(email);
+
+    const [commitments, journalEntries, completedActions] = await Promise.all([
+      supabase
+        .from('weekly_commitments')
+        .select('week_start, status')
+        .ilike('employee_email', pattern)
+        .gte('week_start', since.toISOString().split('T')[0]),
+      supabase
+        .from('journal_entries')
+        .select('created_at')
+        .ilike('employee_email', pattern)
+        .gte('created_at', since.toISOString()),
+      supabase
+        .from('action_items')
+        .select('completed_at')
+        .eq('email', email)
+        .eq('status', 'completed')
+        .gte('completed_at', since.toISOString()),
+    ]);
+
+    const error = commitments.error || journalEntries.error || completedActions.error;
+    if (error) throw error;
+
+    const streaks = computeStreaks({
+      commitments: commitments.data || [],
+      journalEntries: journalEntries.data || [],
+      completedActions: completedActions.data || [],
+    }, timezone);
+
+    return jsonResponse(req, { streaks });
+  } catch (error) {
+    console.error('Streaks error:', error);
+    return jsonResponse(req, { error: 'Internal server error' }, 500);
+  }
+});
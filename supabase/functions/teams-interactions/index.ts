@@ -1,9 +1,31 @@
 // Teams Interactions Edge Function
 // Handles button clicks (Action.Submit) from Adaptive Cards in Microsoft Teams
-// This is the Bot Framework messaging endpoint
+// This is the Bot Framework messaging endpoint. Every request must carry a
+// valid Bot Framework token (see _shared/bot-framework-auth.ts) before the
+// activity body is trusted.
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
-import { getBotAccessToken, sendTeamsMessage } from '../_shared/teams.ts';
+import {
+  getBotAccessToken,
+  sendTeamsMessage,
+  parseTeamsCommand,
+  buildTeamsCommandsFactSet,
+  buildTeamsReplyCard,
+  buildTeamsOpenActionsCard,
+  buildTeamsNextSessionCard,
+} from '../_shared/teams.ts';
+import {
+  type CaptureEmployee,
+  loadCaptureEmployee,
+  saveCapture,
+  fetchOpenActionItems,
+  fetchNextSession,
+} from '../_shared/capture.ts';
+import { createBotFrameworkVerifier } from '../_shared/bot-framework-auth.ts';
+
+const PORTAL_URL = Deno.env.get('PORTAL_URL') || 'https://my.boon-health.com';
+
+const botAuth = createBotFrameworkVerifier({ appId: Deno.env.get('TEAMS_CLIENT_ID') || '' });
 
 // Inline helper: create Supabase client
 function getSupabaseClient() {
@@ -21,6 +43,12 @@ Deno.serve(async (req) => {
   try {
     const activity = await req.json();
 
+    // The sender, tenant and serviceUrl all come from the body, so nothing
+    // below is safe to act on until the token checks out
+    if (!await botAuth.verify(req.headers.get('Authorization'), activity)) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
     // Bot Framework sends different activity types
     // 'invoke' = Adaptive Card Action.Submit
     // 'message' = user typed a message
@@ -72,10 +100,7 @@ Deno.serve(async (req) => {
         if (serviceUrl && conversationId) {
           const tokenResult = await getBotAccessToken(clientId, clientSecret, tenantId);
           if (tokenResult) {
-            const text = String(activity.text).trim().toLowerCase().replace(/[^a-z0-9\s]/g, '');
-            const greetings = ['hi', 'hello', 'hey', 'help', 'menu', 'start', 'get started'];
-            const isGreeting = greetings.some((g) => text === g || text.startsWith(g + ' ') || text.endsWith(' ' + g));
-            const card = isGreeting ? buildWelcomeCard() : buildFallbackCard();
+            const card = await handleTextCommand(activity);
             await sendTeamsMessage(tokenResult.token, serviceUrl, conversationId, card);
           }
         }
@@ -200,6 +225,51 @@ Deno.serve(async (req) => {
         });
       }
 
+      // Handle "still relevant?" prompts for action items that have been sitting
+      if (actionType === 'relevance_keep' || actionType === 'relevance_done' || actionType === 'relevance_dismiss') {
+        const now = new Date().toISOString();
+        const updates: Record<string, Record<string, unknown>> = {
+          relevance_keep: { last_confirmed_at: now },
+          relevance_done: { status: 'completed', completed_at: now },
+          relevance_dismiss: { status: 'dismissed' },
+        };
+        const messages: Record<string, string> = {
+          relevance_keep: 'Kept. It stays on your list.',
+          relevance_done: 'Done! Nice work completing your action item.',
+          relevance_dismiss: "Removed. It's off your list.",
+        };
+
+        // Scope to the clicking employee so a forged id can't touch someone else's item
+        const employee = referenceId
+          ? await resolveTeamsEmployee(
+            supabase,
+            activity.conversation?.tenantId || activity.channelData?.tenant?.id || '',
+            activity.from?.aadObjectId || ''
+          )
+          : null;
+
+        if (employee) {
+          const { error } = await supabase
+            .from('action_items')
+            .update(updates[actionType])
+            .eq('id', referenceId)
+            .eq('status', 'pending')
+            .eq('email', employee.email);
+
+          if (error) {
+            console.error('Failed to update action item relevance:', error);
+          }
+        }
+
+        await recordNudgeResponse(supabase, conversationId, actionType, referenceId);
+
+        return invokeResponse(200, {
+          statusCode: 200,
+          type: 'application/vnd.microsoft.card.adaptive',
+          value: buildCompletionCard(messages[actionType]),
+        });
+      }
+
       // Unknown action
       console.log('Unknown Teams action:', actionType);
       return invokeResponse(200, { status: 'unknown_action' });
@@ -215,6 +285,76 @@ Deno.serve(async (req) => {
   }
 });
 
+/**
+ * Answer a typed command with a card. Commands that read or write coaching
+ * data need a portal Teams connection for this user.
+ */
+async function handleTextCommand(activity: {
+  text: string;
+  from?: { aadObjectId?: string };
+  conversation?: { tenantId?: string };
+  channelData?: { tenant?: { id?: string } };
+}): Promise<Record<string, unknown>> {
+  const command = parseTeamsCommand(String(activity.text));
+
+  if (command.kind === 'help') return buildWelcomeCard();
+  if (command.kind === 'unknown') return buildFallbackCard();
+
+  const supabase = getSupabaseClient();
+  const employee = await resolveTeamsEmployee(
+    supabase,
+    activity.conversation?.tenantId || activity.channelData?.tenant?.id || '',
+    activity.from?.aadObjectId || ''
+  );
+
+  if (!employee) {
+    return buildTeamsReplyCard(
+      `Connect Microsoft Teams in your Boon settings first: ${PORTAL_URL}/settings`,
+      false
+    );
+  }
+
+  if (command.kind === 'actions') {
+    const items = await fetchOpenActionItems(supabase, employee.email);
+    return buildTeamsOpenActionsCard(items, PORTAL_URL);
+  }
+
+  if (command.kind === 'next_session') {
+    const session = await fetchNextSession(supabase, employee.employeeId);
+    return buildTeamsNextSessionCard(session, PORTAL_URL);
+  }
+
+  if (!command.text) {
+    const examples: Record<typeof command.capture, string> = {
+      win: 'log win Ran my first skip-level',
+      commitment: 'commit Give one piece of specific feedback every day',
+      journal: 'journal Felt more confident in standup today',
+    };
+    return buildTeamsReplyCard(`Add your text after the command, e.g. "${examples[command.capture]}"`, false);
+  }
+
+  const result = await saveCapture(supabase, employee, command.capture, command.text);
+  return buildTeamsReplyCard(result.message, result.ok);
+}
+
+async function resolveTeamsEmployee(
+  supabase: ReturnType<typeof getSupabaseClient>,
+  tenantId: string,
+  teamsUserId: string
+): Promise<CaptureEmployee | null> {
+  if (!tenantId || !teamsUserId) return null;
+
+  const { data: connection } = await supabase
+    .from('employee_teams_connections')
+    .select('employee_email, timezone')
+    .eq('tenant_id', tenantId)
+    .eq('teams_user_id', teamsUserId)
+    .maybeSingle();
+
+  if (!connection) return null;
+  return loadCaptureEmployee(supabase, connection.employee_email, connection.timezone);
+}
+
 /**
  * Build the welcome Adaptive Card shown when the bot is first added.
  */
@@ -252,6 +392,14 @@ function buildWelcomeCard(): Record<string, unknown> {
           { title: 'Session Prep', value: 'Get ready for upcoming coaching sessions' },
         ],
       },
+      {
+        type: 'TextBlock',
+        text: 'You can also type:',
+        weight: 'Bolder',
+        spacing: 'Medium',
+        wrap: true,
+      },
+      buildTeamsCommandsFactSet(),
     ],
     actions: [
       {
@@ -291,7 +439,7 @@ function buildFallbackCard(): Record<string, unknown> {
       },
       {
         type: 'TextBlock',
-        text: "Type **help** to see what I can do, or use the buttons below to jump to the portal.",
+        text: 'Try **my actions**, **next session**, **log win …**, **commit …** or **journal …**, or type **help** to see everything I can do.',
         wrap: true,
         spacing: 'Small',
       },
@@ -9,6 +9,7 @@ import {
   createProactiveConversation,
 } from '../_shared/teams.ts';
 import { createSignedState, verifySignedState } from '../_shared/oauth-state.ts';
+import { isValidTimezone, pickDeliveryWindow } from '../_shared/nudge-window.ts';
 
 function getAllowedOrigin(reqOrigin: string | null): string {
   const portalUrl = Deno.env.get('PORTAL_URL') || 'http://localhost:5173';
@@ -262,7 +263,7 @@ Deno.serve(async (req) => {
 
       const { data: connection } = await supabase
         .from('employee_teams_connections')
-        .select('teams_user_id, nudge_enabled, nudge_frequency, preferred_time, timezone')
+        .select('teams_user_id, nudge_enabled, nudge_frequency, preferred_time, timezone, quiet_hours_start, quiet_hours_end, working_days, holidays, snoozed_until')
         .ilike('employee_email', user.email)
         .single();
 
@@ -300,6 +301,22 @@ Deno.serve(async (req) => {
       const body = await req.json();
       const { nudge_enabled, nudge_frequency, preferred_time, timezone } = body;
 
+      // The scheduler skips connections with a bad timezone, so reject it here
+      if (timezone !== undefined && !isValidTimezone(timezone)) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid timezone' }),
+          { status: 400, headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const deliveryWindow = pickDeliveryWindow(body);
+      if (deliveryWindow.error) {
+        return new Response(
+          JSON.stringify({ error: deliveryWindow.error }),
+          { status: 400, headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json' } }
+        );
+      }
+
       const { error: updateError } = await supabase
         .from('employee_teams_connections')
         .update({
@@ -307,6 +324,7 @@ Deno.serve(async (req) => {
           nudge_frequency,
           preferred_time,
           timezone,
+          ...deliveryWindow.window,
         })
         .ilike('employee_email', user.email);
 
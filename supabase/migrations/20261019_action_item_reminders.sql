@@ -0,0 +1,50 @@
+-- Due-date reminders and "still relevant?" prompts for action items
+--
+-- nudge-scheduler's action_reminders phase now sends day-before, day-of and
+-- overdue reminders (see _shared/action-reminders.ts). Items left untouched
+-- long enough get a "still relevant?" prompt; nobody answering dismisses
+-- them after ACTION_AUTO_DISMISS_DAYS. get_due_action_items is only used by
+-- the legacy standalone scheduler and is left as is.
+--
+--   last_confirmed_at  the employee answered "still relevant" (Slack, Teams,
+--                      email or the portal); restarts the prompt's clock
+--   auto_dismissed_at  set when the scheduler dismissed the item, telling it
+--                      apart from one the employee dismissed
+--   relevance_prompted_at  when the last "still relevant?" prompt went out;
+--                      the portal asks the same question until it's answered,
+--                      so it follows ACTION_STILL_RELEVANT_DAYS without its
+--                      own copy of the setting
+
+ALTER TABLE public.action_items
+  ADD COLUMN IF NOT EXISTS last_confirmed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS auto_dismissed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS relevance_prompted_at TIMESTAMPTZ;
+
+-- Reminder candidates: pending items with a due date, per employee
+CREATE INDEX IF NOT EXISTS idx_action_items_pending_email_due
+ON public.action_items(email, due_date)
+WHERE status = 'pending';
+
+-- Stamp the item whenever its "still relevant?" prompt is recorded, whichever
+-- channel sent it. reference_id is '<action item id>:<idle since date>'.
+CREATE OR REPLACE FUNCTION public.action_items_mark_relevance_prompted()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.nudge_type = 'action_still_relevant' AND NEW.reference_id IS NOT NULL THEN
+    UPDATE action_items
+       SET relevance_prompted_at = COALESCE(NEW.sent_at, NOW())
+     WHERE id::text = split_part(NEW.reference_id, ':', 1);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_nudges_mark_relevance_prompted ON public.nudges;
+CREATE TRIGGER trg_nudges_mark_relevance_prompted
+  AFTER INSERT ON public.nudges
+  FOR EACH ROW
+  EXECUTE FUNCTION public.action_items_mark_relevance_prompted();
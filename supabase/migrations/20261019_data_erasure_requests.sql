@@ -0,0 +1,46 @@
+-- Data erasure requests (GDPR Art. 17 / CCPA right to delete)
+--
+-- Pipeline, driven by the data-erasure edge function:
+--   pending_confirmation  employee asked from Settings
+--   scheduled             employee confirmed; purge runs after a grace period
+--                         (scheduled_for) so a mistaken request can be cancelled
+--   completed             purge ran; purge_summary records what was deleted
+--                         or anonymised, per table
+--   cancelled             employee cancelled before the purge
+--
+-- The row is the audit record and is kept after the purge. It holds the
+-- original email so a later "did you delete me?" question can be answered;
+-- everything else about the employee is gone or pseudonymised by then.
+
+CREATE TABLE IF NOT EXISTS public.data_erasure_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_email TEXT NOT NULL CHECK (employee_email = lower(employee_email)),
+  auth_user_id UUID,
+  status TEXT NOT NULL DEFAULT 'pending_confirmation'
+    CHECK (status IN ('pending_confirmation', 'scheduled', 'completed', 'cancelled')),
+  requested_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  confirmed_at TIMESTAMPTZ,
+  scheduled_for TIMESTAMPTZ,
+  cancelled_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  purge_summary JSONB,
+  purge_error TEXT
+);
+
+-- At most one open request per employee
+CREATE UNIQUE INDEX IF NOT EXISTS idx_data_erasure_requests_open
+ON data_erasure_requests(employee_email)
+WHERE status IN ('pending_confirmation', 'scheduled');
+
+CREATE INDEX IF NOT EXISTS idx_data_erasure_requests_due
+ON data_erasure_requests(scheduled_for)
+WHERE status = 'scheduled';
+
+ALTER TABLE data_erasure_requests ENABLE ROW LEVEL SECURITY;
+
+-- Employees can see their own requests; all writes go through the edge
+-- function with the service role
+DROP POLICY IF EXISTS "Employees can view own erasure requests" ON data_erasure_requests;
+CREATE POLICY "Employees can view own erasure requests"
+ON data_erasure_requests FOR SELECT
+USING (employee_email = lower(auth.jwt() ->> 'email'));
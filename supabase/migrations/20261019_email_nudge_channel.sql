@@ -0,0 +1,119 @@
+-- ============================================
+-- Email Nudge Channel
+-- Adds email as a third nudge channel for employees who have
+-- neither Slack nor Teams connected.
+--
+-- There's no OAuth handshake for email, so instead of a connection
+-- table this is a per-employee preference row. The scheduler renders
+-- the same nudge_templates (Slack blocks) into HTML + plain text and
+-- records sends in `nudges` with channel = 'email', message_id = a
+-- generated UUID and channel_id = the recipient address. One-click
+-- response links in the email are HMAC-signed and land on the
+-- nudge-email-response edge function, which calls record_nudge_response.
+-- ============================================
+
+-- 1. EMAIL NUDGE SETTINGS TABLE
+CREATE TABLE IF NOT EXISTS public.employee_email_nudge_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_email TEXT UNIQUE NOT NULL CHECK (employee_email = lower(employee_email)),
+  nudge_enabled BOOLEAN DEFAULT true,
+  nudge_frequency TEXT DEFAULT 'smart' CHECK (nudge_frequency IN ('smart', 'daily', 'weekly', 'none')),
+  preferred_time TIME DEFAULT '09:00',
+  timezone TEXT DEFAULT 'America/New_York',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 2. RLS: employees manage their own row (the portal writes it directly)
+ALTER TABLE employee_email_nudge_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "employees_manage_own_email_nudge_settings" ON employee_email_nudge_settings;
+CREATE POLICY "employees_manage_own_email_nudge_settings"
+ON employee_email_nudge_settings
+FOR ALL
+USING (employee_email = lower(auth.jwt() ->> 'email'))
+WITH CHECK (employee_email = lower(auth.jwt() ->> 'email'));
+
+-- 3. Unified messaging connection lookup, now falling back to email.
+-- Chat channels still win: email is only returned when the employee has
+-- no enabled Teams or Slack connection.
+CREATE OR REPLACE FUNCTION get_employee_messaging_connection(lookup_email TEXT)
+RETURNS TABLE(
+  channel TEXT,
+  user_id TEXT,
+  dm_channel_id TEXT,
+  service_url TEXT,
+  nudge_enabled BOOLEAN,
+  nudge_frequency TEXT,
+  preferred_time TIME,
+  timezone TEXT,
+  team_or_tenant_id TEXT,
+  bot_token TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Check Teams first (newer integration gets priority if both somehow exist)
+  RETURN QUERY
+  SELECT
+    'teams'::TEXT as channel,
+    etc.teams_user_id as user_id,
+    etc.conversation_id as dm_channel_id,
+    etc.service_url,
+    etc.nudge_enabled,
+    etc.nudge_frequency,
+    etc.preferred_time,
+    etc.timezone,
+    etc.tenant_id as team_or_tenant_id,
+    NULL::TEXT as bot_token  -- Teams tokens are fetched on demand
+  FROM employee_teams_connections etc
+  WHERE lower(etc.employee_email) = lower(lookup_email)
+    AND etc.nudge_enabled = true
+  LIMIT 1;
+
+  IF FOUND THEN RETURN; END IF;
+
+  -- Then Slack
+  RETURN QUERY
+  SELECT
+    'slack'::TEXT as channel,
+    esc.slack_user_id as user_id,
+    esc.slack_dm_channel_id as dm_channel_id,
+    NULL::TEXT as service_url,
+    esc.nudge_enabled,
+    esc.nudge_frequency,
+    esc.preferred_time,
+    esc.timezone,
+    esc.slack_team_id as team_or_tenant_id,
+    si.bot_token
+  FROM employee_slack_connections esc
+  JOIN slack_installations si ON si.team_id = esc.slack_team_id
+  WHERE lower(esc.employee_email) = lower(lookup_email)
+    AND esc.nudge_enabled = true
+  LIMIT 1;
+
+  IF FOUND THEN RETURN; END IF;
+
+  -- Fall back to email (address doubles as user_id and channel_id)
+  RETURN QUERY
+  SELECT
+    'email'::TEXT as channel,
+    ens.employee_email as user_id,
+    ens.employee_email as dm_channel_id,
+    NULL::TEXT as service_url,
+    ens.nudge_enabled,
+    ens.nudge_frequency,
+    ens.preferred_time,
+    ens.timezone,
+    NULL::TEXT as team_or_tenant_id,
+    NULL::TEXT as bot_token
+  FROM employee_email_nudge_settings ens
+  WHERE ens.employee_email = lower(lookup_email)
+    AND ens.nudge_enabled = true
+  LIMIT 1;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_employee_messaging_connection TO service_role;
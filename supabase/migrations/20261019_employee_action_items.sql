@@ -0,0 +1,71 @@
+-- Employee-authored action items
+--
+-- Until now every action item came from a coach's session plan
+-- (sync_session_plan_to_action_items). Employees can now add their own
+-- follow-ups, optionally due on a date, repeating daily or weekly (practice
+-- habits), and tied to one of their goals.
+--
+--   source      'coach' for plan-derived items (the default, so the plan
+--               trigger needs no change), 'employee' for portal-created ones
+--   recurrence  NULL, 'daily' or 'weekly'. Completing a recurring item
+--               schedules the next occurrence as a new pending row, so each
+--               completion keeps its own completed_at (streaks count them).
+--               Dismissing the pending occurrence ends the series.
+--   goal_id     optional employee goal the item works toward
+
+ALTER TABLE public.action_items
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'coach'
+    CHECK (source IN ('coach', 'employee')),
+  ADD COLUMN IF NOT EXISTS recurrence TEXT
+    CHECK (recurrence IS NULL OR recurrence IN ('daily', 'weekly')),
+  ADD COLUMN IF NOT EXISTS goal_id UUID REFERENCES public.goals(id) ON DELETE SET NULL;
+
+-- Employee items have no coach
+ALTER TABLE public.action_items ALTER COLUMN coach_name DROP NOT NULL;
+
+-- Next occurrence of a recurring item. Runs for every completion path
+-- (portal, Slack and Teams buttons). Counts from the due date so a habit
+-- keeps its cadence, but never schedules into the past when done late.
+CREATE OR REPLACE FUNCTION public.action_items_schedule_next_occurrence()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.recurrence IS NOT NULL
+     AND NEW.status = 'completed'
+     AND OLD.status IS DISTINCT FROM 'completed'
+     -- Un-completing and re-completing mustn't stack occurrences
+     AND NOT EXISTS (
+       SELECT 1 FROM public.action_items ai
+       WHERE ai.email = NEW.email
+         AND ai.action_text = NEW.action_text
+         AND ai.recurrence = NEW.recurrence
+         AND ai.status = 'pending'
+         AND ai.id <> NEW.id
+     )
+  THEN
+    INSERT INTO public.action_items
+      (email, session_id, coach_name, action_text, status, due_date, source, recurrence, goal_id, created_at)
+    VALUES (
+      NEW.email,
+      NEW.session_id,
+      NEW.coach_name,
+      NEW.action_text,
+      'pending',
+      GREATEST(COALESCE(NEW.due_date, CURRENT_DATE), CURRENT_DATE)
+        + CASE NEW.recurrence WHEN 'daily' THEN 1 ELSE 7 END,
+      NEW.source,
+      NEW.recurrence,
+      NEW.goal_id,
+      NOW()
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_action_items_next_occurrence ON public.action_items;
+CREATE TRIGGER trg_action_items_next_occurrence
+  AFTER UPDATE OF status ON public.action_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.action_items_schedule_next_occurrence();
@@ -0,0 +1,61 @@
+-- Goal milestones
+--
+-- Optional milestones / key results under an employee goal. A milestone is
+-- either measurable (target_value + current_value, e.g. "Run 6 skip-levels",
+-- 2 of 6 done) or a simple checkbox (no target; done when completed_at is
+-- set). Goal progress in the portal rolls up from these and from weekly
+-- check-in ratings on commitments linked to the goal.
+--
+-- employee_email is denormalised from the goal so reads don't need a join.
+-- Inserts and updates also check the goal is the employee's own, so a
+-- milestone can't be attached to someone else's goal.
+
+CREATE TABLE IF NOT EXISTS public.goal_milestones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  goal_id UUID NOT NULL REFERENCES public.goals(id) ON DELETE CASCADE,
+  employee_email TEXT NOT NULL CHECK (employee_email = lower(employee_email)),
+  title TEXT NOT NULL,
+  target_value NUMERIC CHECK (target_value IS NULL OR target_value > 0),
+  current_value NUMERIC NOT NULL DEFAULT 0 CHECK (current_value >= 0),
+  unit TEXT,
+  due_date DATE,
+  completed_at TIMESTAMPTZ,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_goal_milestones_goal
+ON goal_milestones(goal_id, sort_order);
+
+CREATE INDEX IF NOT EXISTS idx_goal_milestones_employee
+ON goal_milestones(employee_email);
+
+ALTER TABLE goal_milestones ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS goal_milestones_select_own ON goal_milestones;
+CREATE POLICY goal_milestones_select_own ON goal_milestones
+  FOR SELECT TO authenticated
+  USING (employee_email = lower(auth.jwt() ->> 'email'));
+
+DROP POLICY IF EXISTS goal_milestones_insert_own ON goal_milestones;
+CREATE POLICY goal_milestones_insert_own ON goal_milestones
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    employee_email = lower(auth.jwt() ->> 'email')
+    AND goal_id IN (SELECT id FROM goals WHERE lower(employee_email) = lower(auth.jwt() ->> 'email'))
+  );
+
+DROP POLICY IF EXISTS goal_milestones_update_own ON goal_milestones;
+CREATE POLICY goal_milestones_update_own ON goal_milestones
+  FOR UPDATE TO authenticated
+  USING (employee_email = lower(auth.jwt() ->> 'email'))
+  WITH CHECK (
+    employee_email = lower(auth.jwt() ->> 'email')
+    AND goal_id IN (SELECT id FROM goals WHERE lower(employee_email) = lower(auth.jwt() ->> 'email'))
+  );
+
+DROP POLICY IF EXISTS goal_milestones_delete_own ON goal_milestones;
+CREATE POLICY goal_milestones_delete_own ON goal_milestones
+  FOR DELETE TO authenticated
+  USING (employee_email = lower(auth.jwt() ->> 'email'));
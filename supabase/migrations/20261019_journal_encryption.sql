@@ -0,0 +1,51 @@
+-- End-to-end encrypted private journal entries
+--
+-- Opt-in. The portal derives an AES-GCM key from the employee's passphrase
+-- in the browser (see src/lib/journalCrypto.ts) and stores private entries
+-- as ciphertext in encrypted_body, leaving body empty so neither the
+-- database nor the full-text index ever holds the text. The passphrase and
+-- key are never sent to us: a forgotten passphrase means those entries are
+-- lost.
+--
+-- Entries shared with the coach are stored readable (body set,
+-- encrypted_body NULL) so the coach can see them; unsharing encrypts them
+-- again. Prompt, tags, competency area and dates stay in plaintext.
+--
+-- journal_encryption_keys holds what the portal needs to re-derive and check
+-- the key: the PBKDF2 salt and iteration count, and a verifier (a known
+-- string encrypted with the key). None of it reveals the passphrase.
+
+CREATE TABLE IF NOT EXISTS public.journal_encryption_keys (
+  employee_email TEXT PRIMARY KEY CHECK (employee_email = lower(employee_email)),
+  salt TEXT NOT NULL,
+  iterations INTEGER NOT NULL CHECK (iterations >= 100000),
+  verifier TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE journal_encryption_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS journal_encryption_keys_select_own ON journal_encryption_keys;
+CREATE POLICY journal_encryption_keys_select_own ON journal_encryption_keys
+  FOR SELECT TO authenticated
+  USING (employee_email = lower(auth.jwt() ->> 'email'));
+
+DROP POLICY IF EXISTS journal_encryption_keys_insert_own ON journal_encryption_keys;
+CREATE POLICY journal_encryption_keys_insert_own ON journal_encryption_keys
+  FOR INSERT TO authenticated
+  WITH CHECK (employee_email = lower(auth.jwt() ->> 'email'));
+
+DROP POLICY IF EXISTS journal_encryption_keys_delete_own ON journal_encryption_keys;
+CREATE POLICY journal_encryption_keys_delete_own ON journal_encryption_keys
+  FOR DELETE TO authenticated
+  USING (employee_email = lower(auth.jwt() ->> 'email'));
+
+ALTER TABLE public.journal_entries
+  ADD COLUMN IF NOT EXISTS encrypted_body TEXT;
+
+-- Never both: an encrypted entry must not keep a plaintext copy
+ALTER TABLE public.journal_entries
+  DROP CONSTRAINT IF EXISTS journal_entries_encrypted_body_only;
+ALTER TABLE public.journal_entries
+  ADD CONSTRAINT journal_entries_encrypted_body_only
+  CHECK (encrypted_body IS NULL OR body = '');
@@ -0,0 +1,34 @@
+-- Force journal_entries.employee_email lowercase, as
+-- 20261019_weekly_commitments_email_lowercase.sql does for commitments.
+--
+-- Why: streak celebrations load a batch of employees' journal entries with
+-- .in('employee_email', lowercasedEmails), which is case-sensitive. Entries
+-- saved under a mixed-case address never counted toward the journaling
+-- streak, so those employees were never celebrated.
+--
+-- Backfill is safe: employee_email is a plain string column, not referenced
+-- by any FK, and emails are case-insensitive by RFC. No row count change.
+
+UPDATE public.journal_entries
+   SET employee_email = lower(employee_email)
+ WHERE employee_email IS NOT NULL
+   AND employee_email != lower(employee_email);
+
+-- Trigger keeps the invariant for new inserts/updates
+CREATE OR REPLACE FUNCTION public.journal_entries_lowercase_email()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.employee_email IS NOT NULL THEN
+    NEW.employee_email := lower(NEW.employee_email);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_journal_entries_lowercase_email ON public.journal_entries;
+CREATE TRIGGER trg_journal_entries_lowercase_email
+  BEFORE INSERT OR UPDATE OF employee_email ON public.journal_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.journal_entries_lowercase_email();
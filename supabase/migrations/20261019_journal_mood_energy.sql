@@ -0,0 +1,10 @@
+-- Journal mood and energy
+--
+-- Optional 1-5 ratings on each journal entry. The progress page charts them
+-- by week next to the wellbeing metrics and compares weeks with a coaching
+-- session against the rest. Like prompts and tags they stay readable when
+-- the entry body is end-to-end encrypted.
+
+ALTER TABLE public.journal_entries
+  ADD COLUMN IF NOT EXISTS mood SMALLINT CHECK (mood BETWEEN 1 AND 5),
+  ADD COLUMN IF NOT EXISTS energy SMALLINT CHECK (energy BETWEEN 1 AND 5);
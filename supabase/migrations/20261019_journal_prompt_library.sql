@@ -0,0 +1,49 @@
+-- Journal prompt library
+--
+-- Prompt sets per competency that the portal's weekly prompt selector draws
+-- from alongside its built-in prompts (src/data/journalPrompts.ts). Rows are
+-- written by the Boon admin console and coach tooling with the service role;
+-- employees only read the rows meant for them:
+--
+--   company_id     NULL = every company, otherwise that company only
+--   coach_id       NULL = every coach's clients, otherwise that coach's
+--                  clients only (a coach's own prompt set)
+--   competency_area one of the portal's competency options; NULL = general
+--                  prompt, used when nothing more specific applies
+
+CREATE TABLE IF NOT EXISTS public.journal_prompts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  competency_area TEXT,
+  prompt TEXT NOT NULL CHECK (length(trim(prompt)) > 0),
+  company_id UUID,
+  coach_id UUID REFERENCES public.coaches(id) ON DELETE CASCADE,
+  author_type TEXT NOT NULL DEFAULT 'boon'
+    CHECK (author_type IN ('boon', 'admin', 'coach')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_journal_prompts_competency
+ON journal_prompts(competency_area)
+WHERE is_active;
+
+ALTER TABLE journal_prompts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS journal_prompts_select_applicable ON journal_prompts;
+CREATE POLICY journal_prompts_select_applicable ON journal_prompts
+  FOR SELECT TO authenticated
+  USING (
+    is_active
+    AND (
+      company_id IS NULL
+      OR company_id = (((auth.jwt() -> 'app_metadata') ->> 'company_id'))::uuid
+    )
+    AND (
+      coach_id IS NULL
+      OR coach_id IN (
+        SELECT em.coach_id
+        FROM employee_manager em
+        WHERE lower(em.company_email) = lower(auth.jwt() ->> 'email')
+      )
+    )
+  );
@@ -0,0 +1,22 @@
+-- Journal search, tags and filters
+--
+-- The journal page can now search entry bodies and filter by competency
+-- area, prompt, shared-with-coach, date range and free-form tags.
+--
+--   tags           lowercase, trimmed labels the employee adds ("priya",
+--                  "q3 launch"); normalised in the portal so the filter can
+--                  match exactly with @>
+--   search_vector  English full-text index of the body, kept in step by
+--                  Postgres; queried with websearch_to_tsquery
+
+ALTER TABLE public.journal_entries
+  ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (cardinality(tags) <= 10),
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+    GENERATED ALWAYS AS (to_tsvector('english', coalesce(body, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_search
+ON public.journal_entries USING GIN (search_vector);
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_tags
+ON public.journal_entries USING GIN (tags);
@@ -0,0 +1,91 @@
+-- Nudge delivery windows: quiet hours, working days, holidays, snooze
+--
+-- Until now the only control was preferred_time. These columns live on each
+-- connection record (Slack, Teams, email settings) next to preferred_time and
+-- timezone, and every nudge-scheduler phase checks them before sending
+-- (see _shared/nudge-window.ts).
+--
+--   quiet_hours_start/end  local TIME window, may wrap midnight; both NULL = off
+--   working_days           0 = Sunday … 6 = Saturday; defaults to every day so
+--                          existing connections keep their current behaviour
+--   holidays               local dates to skip (company holidays, PTO)
+--   snoozed_until          pause everything until this instant
+
+ALTER TABLE public.employee_slack_connections
+  ADD COLUMN IF NOT EXISTS quiet_hours_start TIME,
+  ADD COLUMN IF NOT EXISTS quiet_hours_end TIME,
+  ADD COLUMN IF NOT EXISTS working_days SMALLINT[] NOT NULL DEFAULT '{0,1,2,3,4,5,6}',
+  ADD COLUMN IF NOT EXISTS holidays DATE[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS snoozed_until TIMESTAMPTZ;
+
+ALTER TABLE public.employee_teams_connections
+  ADD COLUMN IF NOT EXISTS quiet_hours_start TIME,
+  ADD COLUMN IF NOT EXISTS quiet_hours_end TIME,
+  ADD COLUMN IF NOT EXISTS working_days SMALLINT[] NOT NULL DEFAULT '{0,1,2,3,4,5,6}',
+  ADD COLUMN IF NOT EXISTS holidays DATE[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS snoozed_until TIMESTAMPTZ;
+
+ALTER TABLE public.employee_email_nudge_settings
+  ADD COLUMN IF NOT EXISTS quiet_hours_start TIME,
+  ADD COLUMN IF NOT EXISTS quiet_hours_end TIME,
+  ADD COLUMN IF NOT EXISTS working_days SMALLINT[] NOT NULL DEFAULT '{0,1,2,3,4,5,6}',
+  ADD COLUMN IF NOT EXISTS holidays DATE[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS snoozed_until TIMESTAMPTZ;
+
+-- Working days must be real weekdays
+ALTER TABLE public.employee_slack_connections
+  DROP CONSTRAINT IF EXISTS employee_slack_connections_working_days_check,
+  ADD CONSTRAINT employee_slack_connections_working_days_check
+    CHECK (working_days <@ '{0,1,2,3,4,5,6}'::SMALLINT[]);
+
+ALTER TABLE public.employee_teams_connections
+  DROP CONSTRAINT IF EXISTS employee_teams_connections_working_days_check,
+  ADD CONSTRAINT employee_teams_connections_working_days_check
+    CHECK (working_days <@ '{0,1,2,3,4,5,6}'::SMALLINT[]);
+
+ALTER TABLE public.employee_email_nudge_settings
+  DROP CONSTRAINT IF EXISTS employee_email_nudge_settings_working_days_check,
+  ADD CONSTRAINT employee_email_nudge_settings_working_days_check
+    CHECK (working_days <@ '{0,1,2,3,4,5,6}'::SMALLINT[]);
+
+-- At least one working day, and quiet hours are both set or both off
+ALTER TABLE public.employee_slack_connections
+  DROP CONSTRAINT IF EXISTS employee_slack_connections_working_days_nonempty,
+  ADD CONSTRAINT employee_slack_connections_working_days_nonempty
+    CHECK (cardinality(working_days) > 0),
+  DROP CONSTRAINT IF EXISTS employee_slack_connections_quiet_hours_check,
+  ADD CONSTRAINT employee_slack_connections_quiet_hours_check
+    CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL));
+
+ALTER TABLE public.employee_teams_connections
+  DROP CONSTRAINT IF EXISTS employee_teams_connections_working_days_nonempty,
+  ADD CONSTRAINT employee_teams_connections_working_days_nonempty
+    CHECK (cardinality(working_days) > 0),
+  DROP CONSTRAINT IF EXISTS employee_teams_connections_quiet_hours_check,
+  ADD CONSTRAINT employee_teams_connections_quiet_hours_check
+    CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL));
+
+ALTER TABLE public.employee_email_nudge_settings
+  DROP CONSTRAINT IF EXISTS employee_email_nudge_settings_working_days_nonempty,
+  ADD CONSTRAINT employee_email_nudge_settings_working_days_nonempty
+    CHECK (cardinality(working_days) > 0),
+  DROP CONSTRAINT IF EXISTS employee_email_nudge_settings_quiet_hours_check,
+  ADD CONSTRAINT employee_email_nudge_settings_quiet_hours_check
+    CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL));
+
+-- Email settings are upserted straight from the portal under RLS, with no
+-- edge function in front to run pickDeliveryWindow / isValidTimezone, so the
+-- timezone is checked here. The scheduler skips a connection whose timezone
+-- it can't resolve.
+CREATE OR REPLACE FUNCTION public.is_valid_timezone(tz TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT tz IS NULL OR EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = tz);
+$$;
+
+ALTER TABLE public.employee_email_nudge_settings
+  DROP CONSTRAINT IF EXISTS employee_email_nudge_settings_timezone_check,
+  ADD CONSTRAINT employee_email_nudge_settings_timezone_check
+    CHECK (public.is_valid_timezone(timezone));
@@ -0,0 +1,39 @@
+-- Nudge scheduler batching support
+--
+-- nudge-scheduler used to run one employee at a time: a slack_installations
+-- lookup, a nudges dedupe query and an employee_manager name lookup per user.
+-- It now prefetches in bulk, which needs:
+--   * indexes for "already sent <type> since <date> to any of these emails"
+--     and "already sent <type> for any of these reference ids"
+--   * a bulk, case-insensitive first-name lookup — employee_manager emails
+--     are mixed case, so a plain .in('company_email', ...) would miss rows
+
+CREATE INDEX IF NOT EXISTS idx_nudges_type_sent_at
+ON nudges(nudge_type, sent_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_nudges_type_reference
+ON nudges(nudge_type, reference_id);
+
+-- Returns one row per matched email (lowercased). Hits
+-- idx_employee_manager_company_email on lower(company_email).
+CREATE OR REPLACE FUNCTION get_employee_first_names(lookup_emails TEXT[])
+RETURNS TABLE(email TEXT, first_name TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT DISTINCT ON (lower(em.company_email))
+    lower(em.company_email) AS email,
+    em.first_name
+  FROM employee_manager em
+  WHERE lower(em.company_email) = ANY(
+    SELECT lower(e) FROM unnest(lookup_emails) AS e
+  )
+  ORDER BY lower(em.company_email), em.first_name NULLS LAST;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_employee_first_names(TEXT[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_employee_first_names(TEXT[]) TO service_role;
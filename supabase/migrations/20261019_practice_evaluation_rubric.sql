@@ -0,0 +1,17 @@
+-- Rubric-based practice evaluations
+--
+-- practice-ai now scores each roleplay against the scenario's rubric and
+-- returns structured JSON: a 1-5 score per criterion with quotes from the
+-- transcript as evidence, plus suggested rewrites. The whole evaluation is
+-- kept here; score, strengths and areas_to_improve are still filled from it
+-- so practice history summaries keep working. feedback keeps a readable
+-- rendering for exports. Rows saved before this have no rubric_evaluation.
+
+ALTER TABLE public.practice_evaluations
+  ADD COLUMN IF NOT EXISTS rubric_evaluation JSONB CHECK (
+    rubric_evaluation IS NULL
+    OR (
+      jsonb_typeof(rubric_evaluation) = 'object'
+      AND jsonb_typeof(rubric_evaluation -> 'criteria') = 'array'
+    )
+  );
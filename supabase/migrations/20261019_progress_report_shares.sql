@@ -0,0 +1,33 @@
+-- Shared progress reports
+--
+-- An employee picks what goes into a progress report (competency scores,
+-- focus areas, non-private wins, a note) and shares it with their manager via
+-- a time-limited link. The report is stored as a frozen snapshot so the
+-- manager sees exactly what was shared, not whatever the data says later.
+--
+-- Links are bearer tokens: anyone with the URL can view until expires_at or
+-- revoked_at. Reads go through the progress-report edge function; employees
+-- can list their own shares.
+
+CREATE TABLE IF NOT EXISTS public.progress_report_shares (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_email TEXT NOT NULL CHECK (employee_email = lower(employee_email)),
+  token TEXT NOT NULL UNIQUE,
+  report JSONB NOT NULL,
+  recipient_label TEXT,
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  last_viewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_progress_report_shares_employee
+ON progress_report_shares(employee_email, created_at DESC);
+
+ALTER TABLE progress_report_shares ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Employees can view own report shares" ON progress_report_shares;
+CREATE POLICY "Employees can view own report shares"
+ON progress_report_shares FOR SELECT
+USING (employee_email = lower(auth.jwt() ->> 'email'));
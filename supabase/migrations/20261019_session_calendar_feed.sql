@@ -0,0 +1,24 @@
+-- Session calendar feed tokens
+--
+-- Each employee gets one secret token that authenticates their private
+-- iCalendar feed (session-calendar-feed edge function). Calendar clients
+-- can't send a Supabase JWT, so the token in the URL *is* the credential —
+-- rotating it (revoked_at + new row) is the only way to cut off a leaked URL.
+
+CREATE TABLE IF NOT EXISTS public.calendar_feed_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_email TEXT NOT NULL,
+  token TEXT UNIQUE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_accessed_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+-- At most one live token per employee
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_feed_tokens_active_email
+  ON public.calendar_feed_tokens (lower(employee_email))
+  WHERE revoked_at IS NULL;
+
+-- RLS on with no policies: only the edge function (service role) reads or
+-- writes tokens. The portal goes through session-calendar-feed?action=url.
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
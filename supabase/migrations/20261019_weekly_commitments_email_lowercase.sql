@@ -0,0 +1,36 @@
+-- Force weekly_commitments.employee_email lowercase, the same way
+-- 20260427_action_items_email_lowercase.sql does for action_items.
+--
+-- Why: the nudge scheduler loads commitments for a whole batch of employees
+-- with .in('employee_email', lowercasedEmails), which is case-sensitive. The
+-- portal saves the email as the login returned it, so anyone whose stored
+-- address has capitals never got smart nudges or streak celebrations about
+-- their commitments. Lowercasing the column (and keeping it that way) lets
+-- the batched .in() match everyone without an ILIKE per address.
+--
+-- Backfill is safe: employee_email is a plain string column, not referenced
+-- by any FK, and emails are case-insensitive by RFC. No row count change.
+
+UPDATE public.weekly_commitments
+   SET employee_email = lower(employee_email)
+ WHERE employee_email IS NOT NULL
+   AND employee_email != lower(employee_email);
+
+-- Trigger keeps the invariant for new inserts/updates
+CREATE OR REPLACE FUNCTION public.weekly_commitments_lowercase_email()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.employee_email IS NOT NULL THEN
+    NEW.employee_email := lower(NEW.employee_email);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_weekly_commitments_lowercase_email ON public.weekly_commitments;
+CREATE TRIGGER trg_weekly_commitments_lowercase_email
+  BEFORE INSERT OR UPDATE OF employee_email ON public.weekly_commitments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.weekly_commitments_lowercase_email();
@@ -0,0 +1,84 @@
+/**
+ * PracticeModal end to end against the scripted practice-ai provider.
+ *
+ * Usage:
+ *   PRACTICE_AI_PROVIDER=mock PRACTICE_AI_MOCK_DELAY_MS=150 supabase functions serve practice-ai
+ *   PRACTICE_AI_MOCK=true npx playwright test tests/practice-modal.spec.ts
+ *
+ * The dev server's VITE_SUPABASE_URL must point at the Supabase instance
+ * serving the function. Replies come from
+ * supabase/functions/_shared/practice-mock-llm.ts, so the text asserted here
+ * is the script for "Managing Underperformance". The delay gives the
+ * interrupt test time to stop a reply part way through.
+ */
+
+import { test, expect, type Page } from '@playwright/test';
+import { loginAsTestUser, snap, navigateTo, dismissModal } from './helpers';
+
+const EMAIL = 'qa-persona-3a@boon.test';
+const SCENARIO = 'Managing Underperformance';
+
+async function openScenario(page: Page) {
+  await navigateTo(page, 'Practice');
+  await dismissModal(page);
+  await page.getByRole('button', { name: new RegExp(SCENARIO) }).first().click();
+  await expect(page.getByRole('heading', { name: SCENARIO })).toBeVisible();
+}
+
+async function generatePlan(page: Page) {
+  await page.getByPlaceholder(/Describe your specific situation/).fill('Missed the last three sprint deadlines.');
+  await page.getByRole('button', { name: 'Generate Action Plan' }).click();
+  // The rapid script is shown once the plan has finished streaming
+  await expect(page.getByText('Set a check-in date')).toBeVisible({ timeout: 15_000 });
+}
+
+test.describe('PracticeModal with the mock provider', () => {
+  test.skip(!process.env.PRACTICE_AI_MOCK, 'Needs practice-ai served with PRACTICE_AI_PROVIDER=mock');
+
+  test.beforeEach(async ({ page }) => {
+    await loginAsTestUser(page, EMAIL);
+    await openScenario(page);
+  });
+
+  test('generates a plan, roleplays and evaluates', async ({ page }) => {
+    await generatePlan(page);
+    await snap(page, 'practice-plan');
+
+    await page.getByRole('button', { name: 'Practice' }).last().click();
+    await expect(page.getByText('Is this about the sprint?')).toBeVisible({ timeout: 10_000 });
+
+    const input = page.getByPlaceholder(/Type your response|Type to cut in/);
+    await input.fill("I'd like to talk about the last few sprint deadlines.");
+    await input.press('Enter');
+    await expect(page.getByText('The requirements keep changing.')).toBeVisible({ timeout: 10_000 });
+
+    await input.fill('What would help you hit the next one?');
+    await input.press('Enter');
+    await expect(page.getByText('I could use clearer priorities')).toBeVisible({ timeout: 10_000 });
+
+    await page.getByRole('button', { name: 'End & Evaluate' }).click();
+    await expect(page.getByText("Coach's Evaluation")).toBeVisible({ timeout: 15_000 });
+    await expect(page.getByText('Focused on the facts, but defensive when they pushed back.')).toBeVisible();
+    await expect(page.getByText('Barriers', { exact: true })).toBeVisible();
+    await snap(page, 'practice-evaluation');
+  });
+
+  test('keeps a reply stopped mid-stream as an interrupted turn', async ({ page }) => {
+    await generatePlan(page);
+
+    await page.getByRole('button', { name: 'Practice' }).last().click();
+    await expect(page.getByText('Is this about the sprint?')).toBeVisible({ timeout: 10_000 });
+
+    const input = page.getByPlaceholder(/Type your response|Type to cut in/);
+    await input.fill("I'd like to talk about the last few sprint deadlines.");
+    await input.press('Enter');
+
+    // Stop after the first words of the reply arrive
+    await expect(page.getByText(/Everyone's/)).toBeVisible({ timeout: 10_000 });
+    await page.getByRole('button', { name: 'Stop', exact: true }).click();
+
+    await expect(page.getByText('Interrupted')).toBeVisible();
+    await expect(page.getByText('The requirements keep changing.')).toHaveCount(0);
+    await snap(page, 'practice-interrupted');
+  });
+});